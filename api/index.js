@@ -3,9 +3,16 @@ import express from 'express';
 import { registerRoutes } from '../server/routes';
 import { storage } from '../server/storage';
 import { setupEnv } from '../vercel.mjs';
+import { resolveNetwork } from '../shared/networks';
+import { isCronConfigured } from '../server/cron';
+
+const network = resolveNetwork(process.env.NETWORK || process.env.VITE_NETWORK, {
+  rpcUrl: process.env.RPC_URL || process.env.VITE_ALCHEMY_URL,
+  contractAddress: process.env.CONTRACT_ADDRESS || process.env.VITE_CONTRACT_ADDRESS,
+});
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: '256kb' }));
 app.use(express.urlencoded({ extended: false }));
 
 // Simple logging middleware for Vercel environment
@@ -67,8 +74,9 @@ app.get('/api/health', (req, res) => {
 // Blockchain information endpoint
 app.get('/api/blockchain/info', (req, res) => {
   res.status(200).json({
-    contractAddress: process.env.VITE_CONTRACT_ADDRESS || 'Not configured',
-    network: 'Polygon Amoy Testnet',
+    contractAddress: network.contractAddress || 'Not configured',
+    network: network.name,
+    chainId: network.chainId,
     timestamp: new Date().toISOString()
   });
 });
@@ -95,6 +103,12 @@ app.use((err, _req, res, _next) => {
     await registerRoutes(app);
     
     console.log('API routes registered successfully');
+
+    // Nothing here runs the background loops; without the cron, registrations are never
+    // locked or reopened at election boundaries and votes are only recorded when reported
+    if (!isCronConfigured()) {
+      console.error('CRON_SECRET is not set: /api/cron/tick is disabled, so the registration scheduler, indexer and transaction tracker will not run.');
+    }
   } catch (error) {
     console.error('Failed to initialize API server:', error);
   }
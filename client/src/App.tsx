@@ -1,13 +1,19 @@
+import { useEffect } from "react";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
+import { startLiveUpdates } from "./lib/live-updates";
+import { getConnectedAccounts, transactionTracker } from "./utils/blockchain";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { ThemeProvider } from "@/components/theme-provider";
+import { PendingTransactions } from "@/components/pending-transactions";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Vote from "@/pages/vote";
 import Explorer from "@/pages/explorer";
+import Election from "@/pages/election";
 import Register from "@/pages/register";
+import Verify from "@/pages/verify";
 import AdminLogin from "@/pages/admin/login";
 import AdminDashboard from "@/pages/admin/dashboard";
 
@@ -17,7 +23,9 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/vote" component={Vote} />
       <Route path="/explorer" component={Explorer} />
+      <Route path="/elections/:id" component={Election} />
       <Route path="/register" component={Register} />
+      <Route path="/verify" component={Verify} />
       <Route path="/admin/login" component={AdminLogin} />
       <Route path="/admin/dashboard" component={AdminDashboard} />
       {/* Fallback to 404 */}
@@ -27,10 +35,22 @@ function Router() {
 }
 
 function App() {
+  // Push contract updates into the query cache instead of polling
+  useEffect(() => startLiveUpdates(queryClient), []);
+
+  // Pick up transactions sent before a refresh, and refresh what they change once they settle
+  useEffect(() => {
+    getConnectedAccounts().then((accounts) => transactionTracker.resume(accounts));
+    return transactionTracker.onSettled((transaction) => {
+      queryClient.invalidateQueries({ queryKey: [transaction.purpose === "castVote" ? "participation" : "/api/election-drafts"] });
+    });
+  }, []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="light" storageKey="blockvote-theme">
         <Router />
+        <PendingTransactions />
         <Toaster />
       </ThemeProvider>
     </QueryClientProvider>
@@ -1,107 +1,320 @@
-import { useState } from "react";
-import { useForm } from "react-hook-form";
-import { z } from "zod";
-import { zodResolver } from "@hookform/resolvers/zod";
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { createElection } from "@/utils/blockchain";
+import { Loader2, Plus, Upload } from "lucide-react";
+import { ElectionDraftPreview } from "@/components/election-draft-preview";
+import { CandidateProfileEditor } from "@/components/candidate-profile-editor";
+import { createElection, type TransactionResult } from "@/utils/blockchain";
+import {
+  createElectionDraft,
+  discardElectionDraft,
+  getElectionDrafts,
+  readCandidateCsv,
+  recordDraftPublication,
+  reviewElectionDraft,
+  submitElectionDraft,
+  updateElectionDraft,
+  type ElectionDraft,
+} from "@/utils/election-drafts";
+import { getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  ELECTION_DRAFT_STATUS_LABELS,
+  MAX_DRAFT_CANDIDATES,
+  MIN_DRAFT_CANDIDATES,
+  validateElectionDraft,
+  type DraftField,
+  type ElectionDraftFields,
+  type ElectionDraftStatus,
+} from "@shared/drafts";
+import { hasPermission, type AdminRole } from "@shared/permissions";
 
 interface AdminElectionCreatorProps {
   isElectionActive: boolean;
   hasUpcomingElection: boolean;
   electionStatus: string;
+  role: AdminRole | null;
 }
 
 type Candidate = {
   id: number;
   name: string;
   party: string;
+  profileHash: string | null;
 };
 
-const electionFormSchema = z.object({
-  name: z.string().min(5, { message: "Election name must be at least 5 characters" }),
-  startTime: z.string().refine(date => new Date(date) > new Date(), {
-    message: "Start time must be in the future",
-  }),
-  endTime: z.string().refine(date => new Date(date) > new Date(), {
-    message: "End time must be in the future",
-  }),
-}).refine(data => new Date(data.endTime) > new Date(data.startTime), {
-  message: "End time must be after start time",
-  path: ["endTime"],
+interface FormState {
+  name: string;
+  description: string;
+  // datetime-local values, in the admin's time zone
+  startTime: string;
+  endTime: string;
+  candidates: Candidate[];
+}
+
+const DRAFTS_QUERY_KEY = ["/api/election-drafts"];
+
+const STATUS_BADGE_CLASSES: Record<ElectionDraftStatus, string> = {
+  draft: "bg-gray-50 text-gray-700 border-gray-200",
+  in_review: "bg-yellow-50 text-yellow-800 border-yellow-200",
+  approved: "bg-blue-50 text-blue-700 border-blue-200",
+  published: "bg-green-50 text-green-700 border-green-200",
+};
+
+const emptyForm = (): FormState => ({
+  name: "",
+  description: "",
+  startTime: "",
+  endTime: "",
+  candidates: [
+    { id: 1, name: "", party: "", profileHash: null },
+    { id: 2, name: "", party: "", profileHash: null },
+  ],
 });
 
-type ElectionFormValues = z.infer<typeof electionFormSchema>;
+// ISO timestamp to the "YYYY-MM-DDTHH:mm" a datetime-local input expects, in local time
+const toLocalInput = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
 
-export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, electionStatus }: AdminElectionCreatorProps) {
+const toForm = (draft: ElectionDraft): FormState => ({
+  name: draft.name,
+  description: draft.description,
+  startTime: toLocalInput(draft.startTime),
+  endTime: toLocalInput(draft.endTime),
+  candidates: draft.candidates.map((candidate, i) => ({
+    id: i + 1,
+    name: candidate.name,
+    party: candidate.party,
+    profileHash: candidate.profileHash ?? null,
+  })),
+});
+
+const toFields = (form: FormState): ElectionDraftFields => ({
+  name: form.name,
+  description: form.description,
+  startTime: form.startTime ? new Date(form.startTime) : null,
+  endTime: form.endTime ? new Date(form.endTime) : null,
+  candidates: form.candidates.map(({ name, party, profileHash }) => ({ name, party, profileHash })),
+});
+
+const shortAddress = (address: string | null) =>
+  address ? `${address.slice(0, 6)}…${address.slice(-4)}` : "unknown";
+
+// Kept for pages that read candidates and the last creation transaction from the browser
+const cachePublishedElection = (electionId: number, form: FormState, result: TransactionResult) => {
+  const candidatesWithMetadata = form.candidates.map((c, index) => ({
+    name: c.name,
+    party: c.party,
+    votes: 0,
+    index,
+  }));
+  localStorage.setItem(`election_${electionId}_candidates`, JSON.stringify(candidatesWithMetadata));
+
+  if (result.transactionHash) {
+    localStorage.setItem("lastElectionCreationTx", JSON.stringify({
+      hash: result.transactionHash,
+      timestamp: new Date(),
+      from: result.from || "",
+      to: result.to || "",
+      method: "createElection",
+      value: "0",
+      blockNumber: result.blockNumber || 0,
+      status: "Confirmed",
+    }));
+  }
+};
+
+export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, role }: AdminElectionCreatorProps) {
   const { toast } = useToast();
-  const [candidates, setCandidates] = useState<Candidate[]>([
-    { id: 1, name: "", party: "" },
-    { id: 2, name: "", party: "" },
-  ]);
-  const [creationSuccess, setCreationSuccess] = useState(false);
-  const [transactionHash, setTransactionHash] = useState("");
-
-  const isDisabled = isElectionActive || hasUpcomingElection;
-
-  const form = useForm<ElectionFormValues>({
-    resolver: zodResolver(electionFormSchema),
-    defaultValues: {
-      name: "",
-      startTime: "",
-      endTime: "",
-    },
+  const [selectedDraftId, setSelectedDraftId] = useState<number | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [dirty, setDirty] = useState(false);
+  const [reviewNote, setReviewNote] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  // A mined createElection the server hasn't recorded yet, so recording can be retried
+  const [pendingPublication, setPendingPublication] = useState<string | null>(null);
+  const [publishedDraft, setPublishedDraft] = useState<ElectionDraft | null>(null);
+  const candidateFileRef = useRef<HTMLInputElement>(null);
+
+  const canCreate = hasPermission(role, "elections:create");
+  const canApprove = hasPermission(role, "elections:approve");
+  const chainBlocked = isElectionActive || hasUpcomingElection;
+
+  const { data: drafts, isLoading: loadingDrafts } = useQuery({
+    queryKey: DRAFTS_QUERY_KEY,
+    queryFn: getElectionDrafts,
   });
+  const selectedDraft = drafts?.find((draft) => draft.id === selectedDraftId) ?? null;
+  const status: ElectionDraftStatus = selectedDraft?.status ?? "draft";
+  const editable = canCreate && status !== "published";
+
+  // Load the picked draft into the form, unless there are unsaved edits in it
+  useEffect(() => {
+    if (!dirty) setForm(selectedDraft ? toForm(selectedDraft) : emptyForm());
+  }, [selectedDraft, dirty]);
+
+  const fields = toFields(form);
+  const issues = validateElectionDraft(fields);
+  const issuesFor = (field: DraftField) => issues.filter((issue) => issue.field === field);
+
+  const updateForm = (changes: Partial<FormState>) => {
+    setForm((current) => ({ ...current, ...changes }));
+    setDirty(true);
+  };
+
+  const selectDraft = (id: number | null) => {
+    setSelectedDraftId(id);
+    setDirty(false);
+    setReviewNote("");
+    setPendingPublication(null);
+  };
 
   const handleAddCandidate = () => {
-    const newId = candidates.length > 0
-      ? Math.max(...candidates.map(c => c.id)) + 1
+    const newId = form.candidates.length > 0
+      ? Math.max(...form.candidates.map(c => c.id)) + 1
       : 1;
 
-    setCandidates([...candidates, { id: newId, name: "", party: "" }]);
+    updateForm({ candidates: [...form.candidates, { id: newId, name: "", party: "", profileHash: null }] });
+  };
+
+  // Imported candidates replace the blank rows and follow the ones already filled in
+  const handleImportCandidates = async (file: File | undefined) => {
+    if (candidateFileRef.current) candidateFileRef.current.value = "";
+    if (!file) return;
+
+    try {
+      const { candidates, problems } = await readCandidateCsv(file);
+      const kept = form.candidates.filter(c => c.name || c.party || c.profileHash);
+      if (kept.length + candidates.length > MAX_DRAFT_CANDIDATES) {
+        throw new Error(`A ballot can have at most ${MAX_DRAFT_CANDIDATES} candidates`);
+      }
+
+      const firstId = kept.length > 0 ? Math.max(...kept.map(c => c.id)) + 1 : 1;
+      updateForm({ candidates: [...kept, ...candidates.map((c, i) => ({ ...c, id: firstId + i, profileHash: null }))] });
+      toast({
+        title: `${candidates.length} candidate${candidates.length === 1 ? "" : "s"} loaded`,
+        description: problems.length > 0 ? `Skipped: ${problems.join("; ")}` : "Save the draft to keep them.",
+        variant: problems.length > 0 ? "destructive" : "default",
+      });
+    } catch (error: any) {
+      toast({ title: "Candidates not loaded", description: error.message, variant: "destructive" });
+    }
   };
 
   const handleRemoveCandidate = (id: number) => {
-    if (candidates.length <= 2) {
+    if (form.candidates.length <= MIN_DRAFT_CANDIDATES) {
       toast({
         title: "Error",
-        description: "At least two candidates are required",
+        description: `At least ${MIN_DRAFT_CANDIDATES} candidates are required`,
         variant: "destructive",
       });
       return;
     }
 
-    setCandidates(candidates.filter(c => c.id !== id));
+    updateForm({ candidates: form.candidates.filter(c => c.id !== id) });
   };
 
-  const handleCandidateChange = (id: number, field: 'name' | 'party', value: string) => {
-    setCandidates(
-      candidates.map(c =>
+  const handleCandidateChange = (id: number, field: 'name' | 'party' | 'profileHash', value: string | null) => {
+    updateForm({
+      candidates: form.candidates.map(c =>
         c.id === id ? { ...c, [field]: value } : c
-      )
-    );
+      ),
+    });
   };
 
-  const onSubmit = async (data: ElectionFormValues) => {
-    // Validate candidates
-    if (candidates.some(c => !c.name || !c.party)) {
+  // Put a draft the server returned into the list right away, so the form doesn't wait for a refetch
+  const storeDraft = (draft: ElectionDraft) => {
+    queryClient.setQueryData<ElectionDraft[]>(DRAFTS_QUERY_KEY, (current = []) => [
+      draft,
+      ...current.filter((other) => other.id !== draft.id),
+    ]);
+  };
+
+  // Run a draft action, refresh the list and report failures the same way everywhere
+  const run = async <T,>(label: string, action: () => Promise<T>): Promise<T | undefined> => {
+    setBusy(label);
+    try {
+      return await action();
+    } catch (error: any) {
+      console.error(`Error during ${label}:`, error);
       toast({
-        title: "Error",
-        description: "All candidate names and parties must be filled",
+        title: `${label} failed`,
+        description: getApiErrorMessage(error),
         variant: "destructive",
       });
-      return;
+      return undefined;
+    } finally {
+      setBusy(null);
+      queryClient.invalidateQueries({ queryKey: DRAFTS_QUERY_KEY });
     }
+  };
 
-    const candidateNames = candidates.map(c => c.name);
-    const candidateParties = candidates.map(c => c.party);
+  const saveDraft = async (): Promise<ElectionDraft | undefined> => {
+    const saved = selectedDraftId === null
+      ? await createElectionDraft(fields)
+      : await updateElectionDraft(selectedDraftId, fields);
+    storeDraft(saved);
+    setSelectedDraftId(saved.id);
+    setDirty(false);
+    return saved;
+  };
 
+  const handleSave = () =>
+    run("Save", async () => {
+      await saveDraft();
+      toast({ title: "Draft saved" });
+    });
+
+  const handleSubmit = () =>
+    run("Submit", async () => {
+      const saved = dirty || selectedDraftId === null ? await saveDraft() : selectedDraft;
+      if (!saved) return;
+      storeDraft(await submitElectionDraft(saved.id));
+      toast({ title: "Submitted for review", description: "Another admin has to approve the draft before it can be published." });
+    });
+
+  const handleReview = (approve: boolean) =>
+    run(approve ? "Approval" : "Review", async () => {
+      storeDraft(await reviewElectionDraft(selectedDraftId!, approve, reviewNote || undefined));
+      setReviewNote("");
+      toast({ title: approve ? "Draft approved" : "Changes requested" });
+    });
+
+  const handleDiscard = () =>
+    run("Discard", async () => {
+      await discardElectionDraft(selectedDraftId!);
+      selectDraft(null);
+      toast({ title: "Draft discarded" });
+    });
+
+  const recordPublication = (transactionHash: string) =>
+    run("Recording the publication", async () => {
+      const published = await recordDraftPublication(selectedDraftId!, transactionHash);
+      storeDraft(published);
+      setPendingPublication(null);
+      setPublishedDraft(published);
+      toast({
+        title: "Election created",
+        description: "Successfully deployed to blockchain",
+      });
+    });
+
+  const handlePublish = async () => {
+    if (!selectedDraft) return;
+
+    setBusy("Publish");
     try {
       toast({
         title: "Creating election",
@@ -109,61 +322,20 @@ export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, el
       });
 
       const result = await createElection(
-        data.name,
-        new Date(data.startTime),
-        new Date(data.endTime),
-        candidateNames,
-        candidateParties,
+        selectedDraft.name,
+        new Date(selectedDraft.startTime!),
+        new Date(selectedDraft.endTime!),
+        selectedDraft.candidates.map(c => c.name),
+        selectedDraft.candidates.map(c => c.party),
+        selectedDraft.id,
       );
-
-      if (result.success) {
-        setTransactionHash(result.transactionHash);
-        setCreationSuccess(true);
-
-        // Store candidate data in localStorage for future retrieval
-        // This is necessary because the smart contract doesn't provide 
-        // a direct way to query candidate information after creation
-        if (result.electionId) {
-          const electionId = result.electionId;
-          console.log(`Storing candidates for election ${electionId} in localStorage`);
-
-          // Format candidates with index and initial vote count
-          const candidatesWithMetadata = candidates.map((c, index) => ({
-            name: c.name,
-            party: c.party,
-            votes: 0,
-            index
-          }));
-
-          localStorage.setItem(
-            `election_${electionId}_candidates`, 
-            JSON.stringify(candidatesWithMetadata)
-          );
-
-          // Also store any transaction data
-          if (result.transactionHash) {
-            localStorage.setItem('lastElectionCreationTx', JSON.stringify({
-              hash: result.transactionHash,
-              timestamp: new Date(),
-              from: result.from || "",
-              to: result.to || "",
-              method: "createElection",
-              value: "0",
-              blockNumber: result.blockNumber || 0,
-              status: "Confirmed"
-            }));
-          }
-
-          console.log(`Successfully stored ${candidatesWithMetadata.length} candidates for election ${electionId}`);
-        }
-
-        toast({
-          title: "Election created",
-          description: "Successfully deployed to blockchain",
-        });
-      } else {
+      if (!result.success || !result.transactionHash) {
         throw new Error(result.error);
       }
+      if (result.electionId) {
+        cachePublishedElection(result.electionId, form, result);
+      }
+      setPendingPublication(result.transactionHash);
     } catch (error: any) {
       console.error("Error creating election:", error);
       toast({
@@ -171,10 +343,18 @@ export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, el
         description: error.message || "Failed to create election on blockchain",
         variant: "destructive",
       });
+      return;
+    } finally {
+      setBusy(null);
     }
   };
 
-  if (creationSuccess) {
+  // Record the transaction as soon as it is mined; failures leave a retry button
+  useEffect(() => {
+    if (pendingPublication) recordPublication(pendingPublication);
+  }, [pendingPublication]);
+
+  if (publishedDraft) {
     return (
       <div className="space-y-6">
         <Alert className="bg-green-50 border-green-200">
@@ -185,22 +365,21 @@ export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, el
             <AlertTitle className="text-green-800">Election Created Successfully</AlertTitle>
           </div>
           <AlertDescription className="mt-3 text-green-700">
-            <p>Your election has been successfully created and deployed to the blockchain.</p>
+            <p>
+              "{publishedDraft.name}" has been deployed to the blockchain as election #{publishedDraft.electionId} and
+              recorded on its draft.
+            </p>
             <div className="mt-3">
               <p className="font-semibold">Transaction Hash:</p>
               <p className="font-mono text-xs break-all bg-white p-2 rounded border border-green-200 mt-1">
-                {transactionHash}
+                {publishedDraft.transactionHash}
               </p>
             </div>
           </AlertDescription>
           <div className="mt-4">
             <Button onClick={() => {
-              setCreationSuccess(false);
-              form.reset();
-              setCandidates([
-                { id: 1, name: "", party: "" },
-                { id: 2, name: "", party: "" },
-              ]);
+              setPublishedDraft(null);
+              selectDraft(null);
             }}>
               Create Another Election
             </Button>
@@ -211,78 +390,149 @@ export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, el
   }
 
   return (
-    <div>
-      {(isElectionActive || hasUpcomingElection) && (
-        <Alert variant="destructive" className="mb-6">
-          <AlertTitle>Cannot Create New Election</AlertTitle>
-          <AlertDescription>
-            {isElectionActive
-              ? "An election is currently active. Please wait for it to end before creating a new one."
-              : "There is an upcoming election scheduled. Only one election can be scheduled at a time."}
-          </AlertDescription>
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium">Drafts</h3>
+          {canCreate && (
+            <Button variant="outline" size="sm" onClick={() => selectDraft(null)} disabled={selectedDraftId === null && !dirty}>
+              <Plus className="h-4 w-4 mr-1" />
+              New draft
+            </Button>
+          )}
+        </div>
+        {loadingDrafts ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : drafts && drafts.length > 0 ? (
+          <div className="rounded-md border divide-y">
+            {drafts.map((draft) => (
+              <button
+                key={draft.id}
+                type="button"
+                onClick={() => selectDraft(draft.id)}
+                className={`w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 ${
+                  draft.id === selectedDraftId ? "bg-gray-50 font-medium" : ""
+                }`}
+              >
+                <span>{draft.name || "Untitled election"}</span>
+                <span className="flex items-center gap-2 text-gray-500">
+                  {draft.electionId !== null && <span>Election #{draft.electionId}</span>}
+                  <Badge variant="outline" className={STATUS_BADGE_CLASSES[draft.status]}>
+                    {ELECTION_DRAFT_STATUS_LABELS[draft.status]}
+                  </Badge>
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No drafts yet.</p>
+        )}
+      </div>
+
+      <Separator />
+
+      {selectedDraft?.reviewNote && (
+        <Alert>
+          <AlertTitle>Review note from {shortAddress(selectedDraft.reviewedBy)}</AlertTitle>
+          <AlertDescription>{selectedDraft.reviewNote}</AlertDescription>
+        </Alert>
+      )}
+      {dirty && (status === "in_review" || status === "approved") && (
+        <Alert>
+          <AlertDescription>Saving these changes sends the draft back for another review.</AlertDescription>
         </Alert>
       )}
 
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <div className="space-y-4">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Election Name</FormLabel>
-                  <FormControl>
-                    <Input placeholder="e.g. 2023 Community Council Election" {...field} disabled={isDisabled} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+      <Tabs defaultValue="edit">
+        <TabsList>
+          <TabsTrigger value="edit">Edit</TabsTrigger>
+          <TabsTrigger value="preview">Ballot preview</TabsTrigger>
+        </TabsList>
 
-            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-              <FormField
-                control={form.control}
-                name="startTime"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Start Date & Time</FormLabel>
-                    <FormControl>
-                      <Input type="datetime-local" {...field} disabled={isDisabled} />
-                    </FormControl>
-                    <FormDescription>
-                      When voting begins
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
+        <TabsContent value="edit" className="space-y-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="draft-name">Election Name</Label>
+              <Input
+                id="draft-name"
+                placeholder="e.g. 2023 Community Council Election"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                disabled={!editable}
+                className="mt-1"
               />
+              <FieldIssues messages={issuesFor("name")} show={dirty || selectedDraftId !== null} />
+            </div>
 
-              <FormField
-                control={form.control}
-                name="endTime"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>End Date & Time</FormLabel>
-                    <FormControl>
-                      <Input type="datetime-local" {...field} disabled={isDisabled} />
-                    </FormControl>
-                    <FormDescription>
-                      When voting ends
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
+            <div>
+              <Label htmlFor="draft-description">Description</Label>
+              <Textarea
+                id="draft-description"
+                placeholder="What voters are deciding (shown with the ballot preview, not stored on-chain)"
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+                disabled={!editable}
+                className="mt-1"
               />
+              <FieldIssues messages={issuesFor("description")} show />
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="draft-start">Start Date & Time</Label>
+                <Input
+                  id="draft-start"
+                  type="datetime-local"
+                  value={form.startTime}
+                  onChange={(e) => updateForm({ startTime: e.target.value })}
+                  disabled={!editable}
+                  className="mt-1"
+                />
+                <p className="text-sm text-muted-foreground mt-1">When voting begins</p>
+                <FieldIssues messages={issuesFor("startTime")} show={dirty || selectedDraftId !== null} />
+              </div>
+              <div>
+                <Label htmlFor="draft-end">End Date & Time</Label>
+                <Input
+                  id="draft-end"
+                  type="datetime-local"
+                  value={form.endTime}
+                  onChange={(e) => updateForm({ endTime: e.target.value })}
+                  disabled={!editable}
+                  className="mt-1"
+                />
+                <p className="text-sm text-muted-foreground mt-1">When voting ends</p>
+                <FieldIssues messages={issuesFor("endTime")} show={dirty || selectedDraftId !== null} />
+              </div>
             </div>
           </div>
 
           <Separator className="my-6" />
 
           <div>
-            <h3 className="text-lg font-medium mb-4">Candidates</h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium">Candidates</h3>
+              <input
+                ref={candidateFileRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleImportCandidates(e.target.files?.[0])}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => candidateFileRef.current?.click()}
+                disabled={!editable}
+                title="CSV with name and party columns"
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                Import CSV
+              </Button>
+            </div>
             <div className="space-y-4">
-              {candidates.map(candidate => (
+              {form.candidates.map(candidate => (
                 <Card key={candidate.id} className="bg-gray-50">
                   <CardContent className="pt-6">
                     <div className="flex justify-between items-center mb-3">
@@ -292,7 +542,7 @@ export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, el
                         variant="outline"
                         size="sm"
                         onClick={() => handleRemoveCandidate(candidate.id)}
-                        disabled={isDisabled}
+                        disabled={!editable}
                       >
                         Remove
                       </Button>
@@ -305,7 +555,7 @@ export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, el
                           placeholder="Full name"
                           value={candidate.name}
                           onChange={(e) => handleCandidateChange(candidate.id, 'name', e.target.value)}
-                          disabled={isDisabled}
+                          disabled={!editable}
                           className="mt-1"
                         />
                       </div>
@@ -316,34 +566,137 @@ export function AdminElectionCreator({ isElectionActive, hasUpcomingElection, el
                           placeholder="Party name"
                           value={candidate.party}
                           onChange={(e) => handleCandidateChange(candidate.id, 'party', e.target.value)}
-                          disabled={isDisabled}
+                          disabled={!editable}
                           className="mt-1"
                         />
                       </div>
                     </div>
+                    <CandidateProfileEditor
+                      candidateId={candidate.id}
+                      name={candidate.name}
+                      party={candidate.party}
+                      profileHash={candidate.profileHash}
+                      onChange={(profileHash) => handleCandidateChange(candidate.id, 'profileHash', profileHash)}
+                      disabled={!editable}
+                    />
                   </CardContent>
                 </Card>
               ))}
 
+              <FieldIssues messages={issuesFor("candidates")} show={dirty || selectedDraftId !== null} />
+
               <Button
                 type="button"
                 variant="outline"
                 onClick={handleAddCandidate}
-                disabled={isDisabled}
+                disabled={!editable}
                 className="w-full"
               >
                 Add Another Candidate
               </Button>
             </div>
           </div>
+        </TabsContent>
+
+        <TabsContent value="preview">
+          <ElectionDraftPreview draft={fields} />
+        </TabsContent>
+      </Tabs>
+
+      {selectedDraft && (
+        <p className="text-xs text-gray-500">
+          Prepared by {shortAddress(selectedDraft.updatedBy)}
+          {selectedDraft.submittedBy && `, submitted by ${shortAddress(selectedDraft.submittedBy)}`}
+          {selectedDraft.reviewedBy && (status === "approved" || status === "published") && `, approved by ${shortAddress(selectedDraft.reviewedBy)}`}
+          {selectedDraft.publishedBy && `, published by ${shortAddress(selectedDraft.publishedBy)}`}
+        </p>
+      )}
 
-          <div className="flex justify-end">
-            <Button type="submit" size="lg" disabled={isDisabled}>
-              Create Election
+      {status === "in_review" && canApprove && !dirty && (
+        <div className="space-y-2 rounded-lg border p-4">
+          <Label htmlFor="review-note">Review</Label>
+          <Textarea
+            id="review-note"
+            placeholder="Optional note for the author, e.g. what to change"
+            value={reviewNote}
+            onChange={(e) => setReviewNote(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleReview(false)} disabled={busy !== null}>
+              Request changes
+            </Button>
+            <Button onClick={() => handleReview(true)} disabled={busy !== null || issues.length > 0}>
+              Approve
             </Button>
           </div>
-        </form>
-      </Form>
+        </div>
+      )}
+
+      {status === "approved" && canCreate && !dirty && chainBlocked && (
+        <Alert variant="destructive">
+          <AlertTitle>Cannot Create New Election</AlertTitle>
+          <AlertDescription>
+            {isElectionActive
+              ? "An election is currently active. Please wait for it to end before publishing this draft."
+              : "There is an upcoming election scheduled. Only one election can be scheduled at a time."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {pendingPublication && (
+        <Alert variant="destructive">
+          <AlertTitle>Election created, but not recorded on the draft</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="font-mono text-xs break-all">{pendingPublication}</p>
+            <Button size="sm" variant="outline" onClick={() => recordPublication(pendingPublication)} disabled={busy !== null}>
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {canCreate && (
+        <div className="flex justify-end gap-2">
+          {busy && <Loader2 className="h-5 w-5 animate-spin self-center" />}
+          {selectedDraft && status !== "published" && (
+            <Button variant="outline" onClick={handleDiscard} disabled={busy !== null}>
+              Discard
+            </Button>
+          )}
+          {editable && (
+            <Button variant="outline" onClick={handleSave} disabled={busy !== null || (!dirty && selectedDraftId !== null)}>
+              Save draft
+            </Button>
+          )}
+          {editable && (status === "draft" || dirty) && (
+            <Button onClick={handleSubmit} disabled={busy !== null || issues.length > 0}>
+              Submit for review
+            </Button>
+          )}
+          {status === "approved" && !dirty && (
+            <Button
+              size="lg"
+              onClick={handlePublish}
+              disabled={busy !== null || chainBlocked || issues.length > 0 || pendingPublication !== null}
+            >
+              Publish on-chain
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+function FieldIssues({ messages, show }: { messages: { message: string }[]; show: boolean }) {
+  if (!show || messages.length === 0) return null;
+  return (
+    <>
+      {messages.map((issue) => (
+        <p key={issue.message} className="text-sm font-medium text-destructive mt-1">
+          {issue.message}
+        </p>
+      ))}
+    </>
+  );
+}
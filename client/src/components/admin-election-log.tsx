@@ -1,20 +1,16 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { getStatusBadge } from "@/utils/ui-helpers";
 import { CONTRACT_ADDRESS } from "@/utils/blockchain";
-import type { Election } from "@/utils/blockchain";
+import type { Election } from "@/utils/elections";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { ContractEvent } from "@shared/schema";
 
 interface AdminElectionLogProps {
-  elections: Array<{
-    id: number;
-    name: string;
-    startTime: string;
-    endTime: string;
-    status: "Active" | "Upcoming" | "Completed";
-    totalVotes: number;
-  }>;
+  elections: Election[];
   isLoading: boolean;
   itemsPerPage?: number;
 }
@@ -25,6 +21,15 @@ export function AdminElectionLog({
   itemsPerPage = 4 
 }: AdminElectionLogProps) {
   const [currentPage, setCurrentPage] = useState<number>(1);
+
+  // Creation transactions recorded by the server-side event indexer
+  const { data: creationEvents } = useQuery<{ events: ContractEvent[] }>({
+    queryKey: ['/api/events?event=ElectionCreated&pageSize=100'],
+    staleTime: 60000,
+  });
+  const creationTxByElection = new Map(
+    (creationEvents?.events || []).map(event => [event.electionId, event])
+  );
   
   // Calculate pagination values
   const totalElections = elections?.length || 0;
@@ -70,9 +75,11 @@ export function AdminElectionLog({
             <div className="divide-y divide-gray-200">
               {currentElections.map((election) => (
                 <div className="py-4" key={election.id}>
-                  <h3 className="text-lg font-medium">{election.name}</h3>
+                  <h3 className="text-lg font-medium">
+                    <Link href={`/elections/${election.id}`} className="hover:underline">{election.name}</Link>
+                  </h3>
                   <p className="text-sm text-gray-500">
-                    {new Date(election.startTime).toLocaleDateString()} - {new Date(election.endTime).toLocaleDateString()}
+                    {election.startTime.toLocaleDateString()} - {election.endTime.toLocaleDateString()}
                   </p>
                   <div className="mt-2 flex flex-wrap gap-2">
                     {getStatusBadge(election.status)}
@@ -85,6 +92,11 @@ export function AdminElectionLog({
                     <div className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded">
                       Contract: {formatAddress(CONTRACT_ADDRESS)}
                     </div>
+                    {creationTxByElection.get(election.id) && (
+                      <div className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded font-mono">
+                        Created in tx {formatAddress(creationTxByElection.get(election.id)!.transactionHash)} (block {creationTxByElection.get(election.id)!.blockNumber})
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
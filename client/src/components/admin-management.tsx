@@ -1,13 +1,45 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ethers } from "ethers";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useMetaMask } from "../hooks/use-metamask";
+import { AdminRoleManagement } from "./admin-role-management";
+import { activeNetwork } from "@/lib/network";
+import { getExplorerTxUrl } from "@shared/networks";
+import {
+  describeChangeAdmin,
+  getContractAdmin,
+  sendChangeAdmin,
+  waitForAdminChanged,
+  type AdminChangedEvent,
+  type DecodedCall,
+} from "@/utils/blockchain";
+import {
+  clearPendingHandover,
+  loadPendingHandover,
+  reportHandover,
+  savePendingHandover,
+  type PendingHandover,
+} from "@/utils/admin-handover";
 
 interface AdminManagementProps {
   currentAddress: string;
@@ -15,88 +47,146 @@ interface AdminManagementProps {
 
 const walletAddressSchema = z.object({
   address: z.string()
-    .min(10, { message: "Wallet address is too short" })
-    .startsWith("0x", { message: "Address must start with 0x" })
+    .trim()
+    .refine((value) => ethers.isAddress(value), { message: "Enter a valid wallet address" })
+    .refine((value) => !ethers.isAddress(value) || ethers.getAddress(value) !== ethers.ZeroAddress, {
+      message: "The zero address cannot be the admin",
+    }),
 });
 
 type WalletAddressValues = z.infer<typeof walletAddressSchema>;
 
 export function AdminManagement({ currentAddress }: AdminManagementProps) {
   const { toast } = useToast();
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [success, setSuccess] = useState(false);
-  const [signatureError, setSignatureError] = useState<string | null>(null);
-  
-  // Use the MetaMask hook for signature verification
-  const { account, signMessage } = useMetaMask();
-  
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { account } = useMetaMask();
+
+  // Decoded changeAdmin call waiting for the admin to confirm it
+  const [proposal, setProposal] = useState<DecodedCall | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [pending, setPending] = useState<PendingHandover | null>(() => loadPendingHandover());
+  const [pendingError, setPendingError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const [completed, setCompleted] = useState<AdminChangedEvent | null>(null);
+
+  const { data: contractAdmin, isLoading: loadingAdmin } = useQuery({
+    queryKey: ["contract-admin"],
+    queryFn: getContractAdmin,
+  });
+
   const form = useForm<WalletAddressValues>({
     resolver: zodResolver(walletAddressSchema),
     defaultValues: {
       address: "",
     },
   });
-  
-  const onSubmit = async (data: WalletAddressValues) => {
-    setIsSubmitting(true);
-    setSignatureError(null);
-    
-    if (!account) {
-      setSignatureError("No wallet connected. Please connect your wallet first.");
-      setIsSubmitting(false);
-      return;
-    }
-    
-    // Message to sign includes data to prevent replay attacks
-    const messageToSign = `I authorize changing the admin address to ${data.address} from ${currentAddress}. Timestamp: ${Date.now()}`;
-    
-    toast({
-      title: "MetaMask Signature Required",
-      description: "Please sign the message to confirm this admin change",
-    });
-    
-    try {
-      // Request signature from MetaMask
-      const signature = await signMessage(messageToSign);
-      
-      if (signature) {
-        // In a real application, you would send the signature, message, and new address to the backend
-        // for verification and storage. Here we just simulate a successful update.
-        setIsSubmitting(false);
-        setSuccess(true);
-        
+
+  // Only the contract admin can call changeAdmin, from the wallet it signed in with
+  const isContractAdmin =
+    !!contractAdmin && contractAdmin.toLowerCase() === currentAddress.toLowerCase();
+  const isWalletMismatch = !!account && account.toLowerCase() !== currentAddress.toLowerCase();
+
+  // Follow the pending handover until AdminChanged, including one restored after a reload
+  useEffect(() => {
+    if (!pending) return;
+    let cancelled = false;
+    setPendingError(null);
+
+    waitForAdminChanged(pending.transactionHash)
+      .then(async (event) => {
+        if (cancelled) return;
+
+        const reported = await reportHandover(event.transactionHash);
+        if (cancelled) return;
+        if (!reported.success) {
+          setPendingError(`The handover is on-chain, but the server could not be updated: ${reported.error}`);
+          return;
+        }
+
+        clearPendingHandover();
+        setPending(null);
+        setCompleted(event);
+        queryClient.invalidateQueries({ queryKey: ["contract-admin"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
         toast({
           title: "Admin updated",
-          description: `Admin wallet changed to ${data.address}`,
+          description: `Admin wallet changed to ${event.newAdmin}`,
         });
-        
-        // Update the session storage with the new admin address
-        sessionStorage.setItem("adminAddress", data.address);
-      } else {
-        throw new Error("Failed to get signature");
-      }
-    } catch (error: any) {
-      setIsSubmitting(false);
-      setSignatureError(error.message || "Failed to sign the message. Please try again.");
-      
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        console.error("Error waiting for AdminChanged:", error);
+        setPendingError(error.message || "Could not confirm the handover transaction");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pending?.transactionHash, retryCount]);
+
+  const onSubmit = (data: WalletAddressValues) => {
+    const newAdmin = ethers.getAddress(data.address);
+    if (contractAdmin && newAdmin.toLowerCase() === contractAdmin.toLowerCase()) {
+      form.setError("address", { message: "This wallet is already the admin" });
+      return;
+    }
+    setProposal(describeChangeAdmin(newAdmin));
+  };
+
+  const handleConfirm = async () => {
+    if (!proposal || !contractAdmin) return;
+    const newAdmin = proposal.args[0].value;
+
+    setIsSending(true);
+    const result = await sendChangeAdmin(newAdmin);
+    setIsSending(false);
+    setProposal(null);
+
+    if (!result.success || !result.transactionHash) {
       toast({
-        title: "Signature Failed",
-        description: "Failed to sign admin change request",
-        variant: "destructive"
+        title: "Handover not sent",
+        description: result.error,
+        variant: "destructive",
       });
+      return;
     }
+
+    const handover: PendingHandover = {
+      transactionHash: result.transactionHash,
+      previousAdmin: contractAdmin,
+      newAdmin,
+      chainId: activeNetwork.chainId,
+      contractAddress: activeNetwork.contractAddress,
+      submittedAt: Date.now(),
+    };
+    savePendingHandover(handover);
+    setPending(handover);
+    form.reset();
+  };
+
+  const handleDiscardPending = () => {
+    clearPendingHandover();
+    setPending(null);
+    setPendingError(null);
   };
-  
+
+  const pendingTxUrl = pending ? getExplorerTxUrl(activeNetwork, pending.transactionHash) : null;
+
   return (
     <div className="space-y-6">
       <div>
         <h3 className="text-lg font-medium mb-2">Current Admin</h3>
         <div className="p-3 bg-gray-50 rounded border border-gray-200">
-          <span className="font-mono">{currentAddress}</span>
+          {loadingAdmin ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <span className="font-mono">{contractAdmin ?? currentAddress}</span>
+          )}
         </div>
       </div>
-      
-      {success && (
+
+      {completed && (
         <Alert className="bg-green-50 border-green-200">
           <div className="flex items-center gap-2">
             <svg className="h-5 w-5 text-green-500" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -105,31 +195,76 @@ export function AdminManagement({ currentAddress }: AdminManagementProps) {
             <AlertTitle className="text-green-800">Admin Updated Successfully</AlertTitle>
           </div>
           <AlertDescription className="mt-3 text-green-700">
-            <p>The admin wallet address has been updated successfully.</p>
-            <p className="mt-2">The new admin will need to login with the updated wallet.</p>
+            <p>
+              The contract admin is now <span className="font-mono">{completed.newAdmin}</span> (block {completed.blockNumber}).
+            </p>
+            <p className="mt-2">This wallet no longer has admin access. The new admin will need to login with their wallet.</p>
           </AlertDescription>
           <div className="mt-4">
-            <Button onClick={() => {
-              setSuccess(false);
-              form.reset();
-            }}>
-              Make Another Change
-            </Button>
+            <Button onClick={() => setLocation("/admin/login")}>Go to Admin Login</Button>
           </div>
         </Alert>
       )}
-      
-      {!success && (
+
+      {pending && (
+        <Alert className="bg-blue-50 border-blue-200">
+          <AlertTitle className="text-blue-800 flex items-center gap-2">
+            {!pendingError && <Loader2 className="h-4 w-4 animate-spin" />}
+            Admin Handover Pending
+          </AlertTitle>
+          <AlertDescription className="mt-2 text-blue-700 space-y-2">
+            <p>
+              Handing the admin role to <span className="font-mono">{pending.newAdmin}</span>. Waiting for the
+              transaction to be mined and emit AdminChanged.
+            </p>
+            <p className="font-mono text-xs break-all">
+              {pendingTxUrl ? (
+                <a href={pendingTxUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                  {pending.transactionHash}
+                </a>
+              ) : (
+                pending.transactionHash
+              )}
+            </p>
+            {pendingError && <p className="text-red-600">{pendingError}</p>}
+          </AlertDescription>
+          {pendingError && (
+            <div className="mt-4 flex gap-2">
+              <Button onClick={() => setRetryCount((count) => count + 1)}>Check Again</Button>
+              <Button variant="outline" onClick={handleDiscardPending}>Discard</Button>
+            </div>
+          )}
+        </Alert>
+      )}
+
+      {!completed && !pending && !loadingAdmin && !isContractAdmin && (
+        <Alert>
+          <AlertDescription>
+            Only the contract admin can hand over the admin role. Signed in operators with the superadmin role
+            can still manage roles below.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!completed && !pending && isContractAdmin && (
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <Alert className="bg-amber-50 border-amber-200">
               <AlertTitle className="text-amber-800">Security Warning</AlertTitle>
               <AlertDescription className="text-amber-700">
-                Changing the admin wallet address will transfer all administrative rights to the new wallet. 
-                This operation requires MetaMask signature confirmation.
+                Changing the admin wallet address will transfer all administrative rights to the new wallet.
+                This sends a changeAdmin transaction from your wallet and cannot be undone from this account.
               </AlertDescription>
             </Alert>
-            
+
+            {isWalletMismatch && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  MetaMask is connected to {account}. Switch to the admin wallet {currentAddress} to send the handover.
+                </AlertDescription>
+              </Alert>
+            )}
+
             <FormField
               control={form.control}
               name="address"
@@ -146,15 +281,66 @@ export function AdminManagement({ currentAddress }: AdminManagementProps) {
                 </FormItem>
               )}
             />
-            
+
             <div className="flex justify-end">
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Confirming..." : "Update Admin Address"}
+              <Button type="submit" disabled={isWalletMismatch}>
+                Review Handover
               </Button>
             </div>
           </form>
         </Form>
       )}
+
+      <AlertDialog open={proposal !== null} onOpenChange={(open) => !open && !isSending && setProposal(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm admin handover</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your wallet will be asked to send this transaction. Check the new admin address carefully.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {proposal && (
+            <div className="space-y-2 text-sm">
+              <div>
+                <div className="text-gray-500">Contract</div>
+                <div className="font-mono break-all">{proposal.to}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Function</div>
+                <div className="font-mono">
+                  {proposal.functionSignature} <span className="text-gray-400">{proposal.selector}</span>
+                </div>
+              </div>
+              {proposal.args.map((arg) => (
+                <div key={arg.name}>
+                  <div className="text-gray-500">{arg.name} ({arg.type})</div>
+                  <div className="font-mono break-all">{arg.value}</div>
+                </div>
+              ))}
+              <div>
+                <div className="text-gray-500">Calldata</div>
+                <div className="font-mono text-xs break-all bg-gray-50 p-2 rounded">{proposal.data}</div>
+              </div>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isSending}
+              onClick={(event) => {
+                event.preventDefault();
+                handleConfirm();
+              }}
+            >
+              {isSending ? "Waiting for wallet..." : "Send changeAdmin"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <div className="border-t pt-6">
+        <AdminRoleManagement />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
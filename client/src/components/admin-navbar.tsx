@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { useMetaMask } from "../hooks/use-metamask";
 import { Wallet, Check } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { findNetworkByChainId } from "@shared/networks";
 
 interface AdminNavbarProps {
   address: string;
@@ -16,6 +17,9 @@ export function AdminNavbar({ address, onLogout }: AdminNavbarProps) {
   const getNetworkName = (id: string | null) => {
     if (!id) return "Unknown";
 
+    const known = findNetworkByChainId(id);
+    if (known) return known.name;
+
     // Convert decimal to hex if needed
     const hexChainId = id.startsWith("0x") ? id : `0x${parseInt(id).toString(16)}`;
 
@@ -26,10 +30,6 @@ export function AdminNavbar({ address, onLogout }: AdminNavbarProps) {
         return "Goerli Testnet";
       case "0xaa36a7":
         return "Sepolia Testnet";
-      case "0x89":
-        return "Polygon";
-      case "0xe9":
-        return "Amoy Testnet";
       case "0x539":
         return "Localhost 8545";
       default:
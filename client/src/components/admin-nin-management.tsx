@@ -1,34 +1,76 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { Loader2, Lock, Unlock, RefreshCw } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Lock, Unlock, RefreshCw, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useMetaMask } from "@/hooks/use-metamask";
-import { getAllNINs, toggleNINSubmissionLock, checkNINSubmissionLocked, checkForActiveElection, User } from "@/utils/supabase";
+import { getActiveElection } from "@/utils/elections";
+import {
+  toggleNINSubmissionLock,
+  checkNINSubmissionLocked,
+  getRegistrationTransitions,
+} from "@/utils/registration";
+import { downloadVotersCsv, getAllVoters, type Voter } from "@/utils/voters";
+import { VoterRollImport } from "@/components/voter-roll-import";
+import { getElectionParticipations, setEligibility, type Participation } from "@/utils/participations";
+import { useLiveConnected, useLiveUpdates } from "@/lib/live-updates";
+import { hasPermission, type AdminRole } from "@shared/permissions";
+import type { RegistrationTransition } from "@shared/schema";
 
-export function AdminNinManagement() {
+interface AdminNinManagementProps {
+  role: AdminRole | null;
+}
+
+interface ElectionSummary {
+  id: number;
+  name: string;
+  active: boolean;
+  status: "Active" | "Upcoming" | "Completed";
+}
+
+export function AdminNinManagement({ role }: AdminNinManagementProps) {
   const { toast } = useToast();
-  const { isConnected, account } = useMetaMask();
-  const [users, setUsers] = useState<User[]>([]);
+  const [users, setUsers] = useState<Voter[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSubmissionLocked, setIsSubmissionLocked] = useState(false);
   const [loadingLockStatus, setLoadingLockStatus] = useState(true);
+  const [transitions, setTransitions] = useState<RegistrationTransition[]>([]);
+  const [selectedElectionId, setSelectedElectionId] = useState<number | null>(null);
+  const [participations, setParticipations] = useState<Map<string, Participation>>(new Map());
+  const isLive = useLiveConnected();
+
+  const { data: elections } = useQuery<ElectionSummary[]>({
+    queryKey: ["/api/elections"],
+    staleTime: 60000,
+  });
+
+  // Default to the election open for voting, else the most recent one
+  useEffect(() => {
+    if (selectedElectionId !== null || !elections?.length) return;
+    const active = elections.find((election) => election.active && election.status === "Active");
+    setSelectedElectionId((active ?? elections[elections.length - 1]).id);
+  }, [elections, selectedElectionId]);
 
   const loadNINs = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      // Fetch users data from Supabase
-      const data = await getAllNINs();
+      // Voter records come back with masked NINs only; voting state is per election
+      const [data, electionParticipations] = await Promise.all([
+        getAllVoters(),
+        selectedElectionId !== null ? getElectionParticipations(selectedElectionId) : Promise.resolve([]),
+      ]);
       
       if (data) {
-        console.log("NIN data loaded:", data);
+        console.log(`Loaded ${data.length} voter records`);
         setUsers(data);
+        setParticipations(new Map(electionParticipations.map((p) => [p.walletAddress, p])));
       } else {
         console.error("No users data returned");
         setError("Failed to load user records");
@@ -49,10 +91,10 @@ export function AdminNinManagement() {
   const loadLockStatus = async () => {
     setLoadingLockStatus(true);
     try {
-      // Get the current locked status from admin_config
-      const locked = await checkNINSubmissionLocked();
+      const [locked, recent] = await Promise.all([checkNINSubmissionLocked(), getRegistrationTransitions(5)]);
       console.log("Loaded lock status:", locked);
       setIsSubmissionLocked(locked);
+      setTransitions(recent);
     } catch (err: any) {
       console.error("Error loading lock status:", err);
       toast({
@@ -66,21 +108,31 @@ export function AdminNinManagement() {
   };
 
   useEffect(() => {
-    // Load data on component mount
+    // Load data on mount and whenever another election is picked
     loadNINs();
     loadLockStatus();
-    
-    // Set up auto-refresh every 10 seconds to catch vote status updates
-    const refreshInterval = setInterval(() => {
-      console.log("[AdminNinManagement] Auto-refreshing NIN data and status");
+  }, [selectedElectionId]);
+
+  // Votes in the selected election change its participations
+  useLiveUpdates((update) => {
+    if (update.type === "VoteCast" && update.electionId === selectedElectionId) {
       loadNINs();
-      loadLockStatus();
-    }, 10000); // 10 seconds refresh interval
-    
-    // Clean up interval on component unmount
-    return () => clearInterval(refreshInterval);
+    }
+  });
+
+  // The scheduler changes the lock at election boundaries, which the live stream doesn't carry
+  useEffect(() => {
+    const lockInterval = setInterval(loadLockStatus, 30000);
+    return () => clearInterval(lockInterval);
   }, []);
 
+  // Without the live stream, fall back to refreshing every 10 seconds
+  useEffect(() => {
+    if (isLive) return;
+    const refreshInterval = setInterval(loadNINs, 10000);
+    return () => clearInterval(refreshInterval);
+  }, [selectedElectionId, isLive]);
+
   // We've removed the verification functionality as it's no longer needed
   // The UI now simply displays registration and voting status
 
@@ -88,18 +140,12 @@ export function AdminNinManagement() {
     setLoadingLockStatus(true);
 
     try {
-      // Use admin address for the admin page - we're getting this from the URL context
-      // or a default admin address if the account is not available
-      const adminAddress = account || "0x2B3d7c0A2A05f760272165A836D1aDFE8ea38490";
-      
-      console.log("Using admin address for toggle:", adminAddress);
-      
       const newLockStatus = !isSubmissionLocked;
       
       // If trying to unlock during an active election, prevent this action
       if (!newLockStatus) { // trying to unlock
-        const hasActiveElection = await checkForActiveElection();
-        if (hasActiveElection) {
+        const activeElection = await getActiveElection();
+        if (activeElection) {
           throw new Error("Cannot unlock registrations during an active election. Please wait until the election is completed.");
         }
       }
@@ -107,8 +153,8 @@ export function AdminNinManagement() {
       // Optimistically update UI
       setIsSubmissionLocked(newLockStatus);
 
-      // Update lock status in database
-      const result = await toggleNINSubmissionLock(newLockStatus, adminAddress);
+      // Update lock status on the server (requires the admin session)
+      const result = await toggleNINSubmissionLock(newLockStatus);
 
       if (!result.success) {
         // Revert UI change if update failed
@@ -120,6 +166,7 @@ export function AdminNinManagement() {
         title: "Success",
         description: `NIN submissions are now ${newLockStatus ? 'locked' : 'unlocked'}`,
       });
+      getRegistrationTransitions(5).then(setTransitions, (err) => console.error("Error loading lock history:", err));
     } catch (err: any) {
       console.error("Error toggling lock:", err);
       toast({
@@ -132,9 +179,41 @@ export function AdminNinManagement() {
     }
   };
 
+  const handleExport = async () => {
+    try {
+      await downloadVotersCsv();
+    } catch (err: any) {
+      console.error("Error exporting voters:", err);
+      toast({
+        title: "Error",
+        description: "Failed to export voter records",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleEligibility = async (walletAddress: string, eligible: boolean) => {
+    if (selectedElectionId === null) return;
+
+    const result = await setEligibility(selectedElectionId, walletAddress, eligible);
+    if (!result.success || !result.data) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update eligibility",
+        variant: "destructive",
+      });
+      return;
+    }
+    setParticipations((current) => new Map(current).set(walletAddress, result.data!));
+  };
+
+  const canToggleLock = hasPermission(role, "registration:lock");
+  const canUpdateVoters = hasPermission(role, "voters:update");
+  const canExport = hasPermission(role, "audit:export");
+
   // Calculate statistics
   const totalRegistrations = users.length;
-  const votedCount = users.filter(user => user.status === 'Y').length;
+  const votedCount = users.filter(user => participations.get(user.walletAddress)?.votedAt).length;
 
   return (
     <Card className="w-full">
@@ -151,22 +230,30 @@ export function AdminNinManagement() {
               <h3 className="font-medium text-lg">Registration Summary</h3>
               <p className="text-sm text-gray-500">Current NIN registration status</p>
             </div>
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={() => {
-                loadNINs();
-                loadLockStatus();
-              }}
-              disabled={loading || loadingLockStatus}
-            >
-              {(loading || loadingLockStatus) ? (
-                <Loader2 className="h-4 w-4 animate-spin mr-1" />
-              ) : (
-                <RefreshCw className="h-4 w-4 mr-1" />
+            <div className="flex gap-2">
+              {canExport && (
+                <Button variant="outline" size="sm" onClick={handleExport}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </Button>
               )}
-              Refresh
-            </Button>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => {
+                  loadNINs();
+                  loadLockStatus();
+                }}
+                disabled={loading || loadingLockStatus}
+              >
+                {(loading || loadingLockStatus) ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                )}
+                Refresh
+              </Button>
+            </div>
           </div>
           
           <div className="flex justify-between mt-4 gap-4">
@@ -193,8 +280,20 @@ export function AdminNinManagement() {
               }
             </p>
             <p className="text-xs mt-1 bg-yellow-50 p-2 border border-yellow-100 rounded text-yellow-800">
-              Note: When an active election is detected, registrations are <strong>automatically locked</strong> to ensure voting integrity.
+              Note: Registrations are <strong>automatically locked</strong> when an election starts, to ensure voting integrity.
             </p>
+            {transitions.length > 0 && (
+              <ul className="text-xs text-gray-500 mt-2 space-y-0.5">
+                {transitions.map((transition) => (
+                  <li key={transition.id}>
+                    {new Date(transition.effectiveAt).toLocaleString()}: {transition.locked ? "locked" : "opened"}
+                    {transition.electionId !== null
+                      ? ` (election #${transition.electionId} ${transition.kind.replace(/_/g, " ")})`
+                      : ` by ${transition.actor.slice(0, 6)}…${transition.actor.slice(-4)}`}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           {loadingLockStatus ? (
             <Loader2 className="h-6 w-6 animate-spin" />
@@ -210,21 +309,47 @@ export function AdminNinManagement() {
                     <Unlock className="h-4 w-4 mr-1" /> Registrations Open
                   </Badge>
                 )}
-                <Switch 
-                  checked={!isSubmissionLocked} 
-                  onCheckedChange={handleToggleLock} 
-                  disabled={loadingLockStatus}
-                />
-              </div>
-              <div className="text-xs text-gray-500 italic">
-                Toggle switch to {isSubmissionLocked ? 'unlock' : 'lock'} registrations
+                {canToggleLock && (
+                  <Switch 
+                    checked={!isSubmissionLocked} 
+                    onCheckedChange={handleToggleLock} 
+                    disabled={loadingLockStatus}
+                  />
+                )}
               </div>
+              {canToggleLock && (
+                <div className="text-xs text-gray-500 italic">
+                  Toggle switch to {isSubmissionLocked ? 'unlock' : 'lock'} registrations
+                </div>
+              )}
             </div>
           )}
         </div>
       </CardHeader>
 
-      <CardContent>
+      <CardContent className="space-y-4">
+        {canUpdateVoters && <VoterRollImport locked={isSubmissionLocked} onImported={loadNINs} />}
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-500">Voting status for</p>
+          <Select
+            value={selectedElectionId !== null ? String(selectedElectionId) : undefined}
+            onValueChange={(value) => setSelectedElectionId(Number(value))}
+            disabled={!elections?.length}
+          >
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="No elections yet" />
+            </SelectTrigger>
+            <SelectContent>
+              {elections?.map((election) => (
+                <SelectItem key={election.id} value={String(election.id)}>
+                  #{election.id} {election.name} ({election.status})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {loading ? (
           <div className="flex justify-center p-8">
             <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
@@ -247,34 +372,52 @@ export function AdminNinManagement() {
                 <TableRow>
                   <TableHead>NIN</TableHead>
                   <TableHead>Wallet Address</TableHead>
+                  <TableHead>Constituency</TableHead>
                   <TableHead>Registration Date</TableHead>
                   <TableHead>Status</TableHead>
+                  {canUpdateVoters && <TableHead>Eligible</TableHead>}
                   <TableHead className="text-right">Voting Status</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {users.map((user) => (
-                  <TableRow 
-                    key={user.wallet_address} 
-                    className={user.status === 'Y' ? "bg-green-50" : ""}
-                  >
-                    <TableCell className="font-mono">{user.nin}</TableCell>
-                    <TableCell className="font-mono truncate max-w-[120px]">{user.wallet_address}</TableCell>
-                    <TableCell>{new Date(user.created_at).toLocaleDateString()}</TableCell>
-                    <TableCell>
-                      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                        Registered
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <Badge variant="outline" className={user.status === 'Y' 
-                        ? "bg-green-100 text-green-800 border-green-300 font-medium" 
-                        : "bg-slate-100 text-slate-700 border-slate-200"}>
-                        {user.status === 'Y' ? 'Voted' : 'Not Voted'}
-                      </Badge>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {users.map((user) => {
+                  const participation = participations.get(user.walletAddress);
+                  const eligible = participation?.eligible ?? true;
+                  const voted = !!participation?.votedAt;
+
+                  return (
+                    <TableRow 
+                      key={user.walletAddress} 
+                      className={voted ? "bg-green-50" : ""}
+                    >
+                      <TableCell className="font-mono">{user.ninMasked}</TableCell>
+                      <TableCell className="font-mono truncate max-w-[120px]">{user.walletAddress}</TableCell>
+                      <TableCell>{user.constituency ?? "—"}</TableCell>
+                      <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                          {user.verifiedAt ? "Verified" : "Registered"}
+                        </Badge>
+                      </TableCell>
+                      {canUpdateVoters && (
+                        <TableCell>
+                          <Switch
+                            checked={eligible}
+                            onCheckedChange={(checked) => handleToggleEligibility(user.walletAddress, checked)}
+                            disabled={voted || selectedElectionId === null}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell className="text-right">
+                        <Badge variant="outline" className={voted 
+                          ? "bg-green-100 text-green-800 border-green-300 font-medium" 
+                          : "bg-slate-100 text-slate-700 border-slate-200"}>
+                          {voted ? 'Voted' : eligible ? 'Not Voted' : 'Not Eligible'}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </div>
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMetaMask } from "../hooks/use-metamask";
+import { ADMIN_ROLES, ROLE_LABELS, ROLE_PERMISSIONS, type AdminRole } from "@shared/permissions";
+import { changeAdminRole, getAdminRoster, type RoleChange } from "@/utils/admin-roles";
+
+const grantSchema = z.object({
+  walletAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, { message: "Enter a valid wallet address" }),
+  role: z.enum(ADMIN_ROLES),
+});
+
+type GrantValues = z.infer<typeof grantSchema>;
+
+export function AdminRoleManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { signMessage } = useMetaMask();
+  // Wallet whose change is waiting on the server or the signature prompt
+  const [pendingAddress, setPendingAddress] = useState<string | null>(null);
+
+  const { data: roster, isLoading, error } = useQuery({
+    queryKey: ["/api/admin/roles"],
+    queryFn: getAdminRoster,
+  });
+
+  const form = useForm<GrantValues>({
+    resolver: zodResolver(grantSchema),
+    defaultValues: { walletAddress: "", role: "registration_officer" },
+  });
+
+  const applyChange = async (change: RoleChange) => {
+    setPendingAddress(change.walletAddress.toLowerCase());
+    toast({
+      title: "MetaMask Signature Required",
+      description: "Please sign the message to confirm this role change",
+    });
+
+    const result = await changeAdminRole(change, signMessage);
+    setPendingAddress(null);
+
+    if (!result.success) {
+      toast({
+        title: "Role change failed",
+        description: result.error,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: change.action === "grant" ? "Role granted" : "Role revoked",
+      description: change.action === "grant"
+        ? `${change.walletAddress} is now ${ROLE_LABELS[change.role].toLowerCase()}`
+        : `${change.walletAddress} no longer has admin access`,
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+    return true;
+  };
+
+  const onSubmit = async (values: GrantValues) => {
+    if (await applyChange({ action: "grant", ...values })) {
+      form.reset();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium mb-2">Operators</h3>
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load admin roles</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Wallet Address</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Granted By</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roster && (
+                  <TableRow>
+                    <TableCell className="font-mono truncate max-w-[160px]">{roster.contractAdmin}</TableCell>
+                    <TableCell>
+                      <Badge>{ROLE_LABELS.superadmin}</Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-500">Contract admin</TableCell>
+                    <TableCell />
+                  </TableRow>
+                )}
+                {roster?.grants.map((grant) => (
+                  <TableRow key={grant.walletAddress}>
+                    <TableCell className="font-mono truncate max-w-[160px]">{grant.walletAddress}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ROLE_LABELS[grant.role]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono truncate max-w-[160px] text-gray-500">
+                      {grant.grantedBy}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pendingAddress !== null}
+                        onClick={() => applyChange({ action: "revoke", walletAddress: grant.walletAddress })}
+                      >
+                        {pendingAddress === grant.walletAddress ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          "Revoke"
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <h3 className="text-lg font-medium">Grant a Role</h3>
+          <FormField
+            control={form.control}
+            name="walletAddress"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Wallet Address</FormLabel>
+                <FormControl>
+                  <Input placeholder="0x..." {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="role"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Role</FormLabel>
+                <Select value={field.value} onValueChange={(value) => field.onChange(value as AdminRole)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ADMIN_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Allows: {ROLE_PERMISSIONS[field.value].join(", ")}. Granting a role to a wallet that
+                  already has one replaces it.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" disabled={pendingAddress !== null}>
+              {pendingAddress !== null ? "Confirming..." : "Grant Role"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw, Download, ShieldCheck, ShieldAlert } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { downloadTallyReportCsv, downloadTallyReportJson, getTallyReport } from "@/utils/tally";
+
+interface ElectionSummary {
+  id: number;
+  name: string;
+  active: boolean;
+  status: "Active" | "Upcoming" | "Completed";
+}
+
+export function AdminTallyReconciliation() {
+  const { toast } = useToast();
+  const [selectedElectionId, setSelectedElectionId] = useState<number | null>(null);
+
+  const { data: elections } = useQuery<ElectionSummary[]>({
+    queryKey: ["/api/elections"],
+    staleTime: 60000,
+  });
+
+  // Default to the most recent election
+  useEffect(() => {
+    if (selectedElectionId !== null || !elections?.length) return;
+    setSelectedElectionId(elections[elections.length - 1].id);
+  }, [elections, selectedElectionId]);
+
+  // Replaying logs is expensive, so the report is only re-run on request
+  const { data: signed, isFetching, error, refetch } = useQuery({
+    queryKey: ["tally", selectedElectionId],
+    queryFn: () => getTallyReport(selectedElectionId!),
+    enabled: selectedElectionId !== null,
+    staleTime: Infinity,
+    retry: false,
+  });
+  const report = signed?.report;
+
+  const handleDownloadCsv = async () => {
+    if (!signed) return;
+    try {
+      await downloadTallyReportCsv(signed);
+    } catch (err: any) {
+      toast({
+        title: "Export failed",
+        description: getApiErrorMessage(err),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Tally Reconciliation</CardTitle>
+            <CardDescription>
+              Recount an election from its VoteCast logs and compare with the contract counters and participation records
+            </CardDescription>
+          </div>
+          {report && !isFetching && (
+            report.verified ? (
+              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 flex items-center gap-1 px-3 py-1 text-sm">
+                <ShieldCheck className="h-4 w-4" />
+                Tally verified
+              </Badge>
+            ) : (
+              <Badge variant="destructive" className="flex items-center gap-1 px-3 py-1 text-sm">
+                <ShieldAlert className="h-4 w-4" />
+                Tally not verified
+              </Badge>
+            )
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select
+            value={selectedElectionId !== null ? String(selectedElectionId) : undefined}
+            onValueChange={(value) => setSelectedElectionId(Number(value))}
+            disabled={!elections?.length}
+          >
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="No elections yet" />
+            </SelectTrigger>
+            <SelectContent>
+              {elections?.map((election) => (
+                <SelectItem key={election.id} value={String(election.id)}>
+                  #{election.id} {election.name} ({election.status})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={selectedElectionId === null || isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isFetching ? "animate-spin" : ""}`} />
+              Re-run
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => signed && downloadTallyReportJson(signed)} disabled={!signed}>
+              <Download className="h-4 w-4 mr-1" />
+              JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadCsv} disabled={!signed}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        {isFetching && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Replaying VoteCast logs…
+          </div>
+        )}
+
+        {error && !isFetching && (
+          <Alert variant="destructive">
+            <AlertTitle>Reconciliation failed</AlertTitle>
+            <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {report && !isFetching && (
+          <>
+            <p className="text-sm text-gray-500">
+              Blocks {report.fromBlock.toLocaleString()}–{report.toBlock.toLocaleString()}: {report.totals.replayed} VoteCast
+              logs from {report.totals.uniqueVoterHashes} voter hashes, {report.totals.onChain} votes on-chain,{" "}
+              {report.totals.recordedParticipations} recorded participations.
+            </p>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Candidate</TableHead>
+                    <TableHead>Party</TableHead>
+                    <TableHead className="text-right">On-chain</TableHead>
+                    <TableHead className="text-right">Replayed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.candidates.map((line) => (
+                    <TableRow key={line.index} className={line.onChainVotes !== line.replayedVotes ? "bg-red-50" : undefined}>
+                      <TableCell className="font-medium">{line.name}</TableCell>
+                      <TableCell>{line.party}</TableCell>
+                      <TableCell className="text-right">{line.onChainVotes}</TableCell>
+                      <TableCell className="text-right">{line.replayedVotes}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {report.discrepancies.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Discrepancies</h4>
+                {report.discrepancies.map((discrepancy, i) => (
+                  <Alert key={i} variant={discrepancy.severity === "error" ? "destructive" : "default"}>
+                    <AlertTitle className="text-sm">
+                      {discrepancy.severity === "error" ? "Error" : "Warning"}: {discrepancy.kind.replace(/_/g, " ")}
+                    </AlertTitle>
+                    <AlertDescription>
+                      <p>{discrepancy.message}</p>
+                      {discrepancy.transactionHashes && discrepancy.transactionHashes.length > 0 && (
+                        <p className="mt-1 font-mono text-xs break-all">
+                          {discrepancy.transactionHashes.slice(0, 5).join(", ")}
+                          {discrepancy.transactionHashes.length > 5 && ` and ${discrepancy.transactionHashes.length - 5} more`}
+                        </p>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import {
   getAllCandidates,
   getTotalVotes,
   CONTRACT_ADDRESS,
+  chainClock,
 } from "@/utils/blockchain";
 
 export function BlockchainTest() {
@@ -28,6 +29,10 @@ export function BlockchainTest() {
       results.activeElectionId = activeId;
       console.log("Active Election ID:", activeId);
 
+      // Election windows are judged by chain time; a large offset means the browser clock is off
+      await chainClock.sync();
+      results.chainClockOffsetMs = chainClock.getOffset();
+
       if (activeId > 0) {
         // Test 2: Get Election Info
         console.log("Test 2: Getting election info...");
@@ -35,7 +40,7 @@ export function BlockchainTest() {
 
         if (electionInfo) {
           // Add date objects for testing time calculations
-          const now = new Date();
+          const now = chainClock.now();
           const startTime = new Date(electionInfo.startTime);
           const endTime = new Date(electionInfo.endTime);
           const isActive = now >= startTime && now <= endTime;
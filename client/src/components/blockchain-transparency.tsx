@@ -1,29 +1,13 @@
-import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { useMetaMask } from "@/hooks/use-metamask";
 import { CONTRACT_ADDRESS } from "@/utils/blockchain";
+import { activeNetwork } from "@/lib/network";
+import { findNetworkByChainId, getExplorerAddressUrl } from "@shared/networks";
 
 export function BlockchainTransparency() {
   const { chainId } = useMetaMask();
-  const [explorerBaseUrl, setExplorerBaseUrl] = useState("https://www.oklink.com/amoy");
-
-  useEffect(() => {
-    // Update explorer URL based on chain ID
-    if (chainId) {
-      const hexChainId = chainId.startsWith("0x") ? chainId : `0x${parseInt(chainId).toString(16)}`;
-      switch (hexChainId.toLowerCase()) {
-        case "0x89": // Polygon Mainnet
-          setExplorerBaseUrl("https://polygonscan.com");
-          break;
-        case "0xe9": // Amoy Testnet
-          setExplorerBaseUrl("https://www.oklink.com/amoy");
-          break;
-        // Add other networks as needed
-        default:
-          setExplorerBaseUrl("https://www.oklink.com/amoy");
-      }
-    }
-  }, [chainId]);
+  const walletNetwork = chainId ? findNetworkByChainId(chainId) : undefined;
+  const contractUrl = getExplorerAddressUrl(activeNetwork, CONTRACT_ADDRESS);
 
   return (
     <div>
@@ -43,25 +27,28 @@ export function BlockchainTransparency() {
                 <div className="flex items-center">
                   <div className="w-20 text-xs font-medium text-gray-500">Network</div>
                   <div className="flex-1 text-xs text-gray-900">
-                    {chainId ? (
-                      chainId === "0xe9" ? "POLYGON AMOY NETWORK" : "POLYGON NETWORK"
-                    ) : (
-                      "Unknown Network"
+                    {activeNetwork.name.toUpperCase()}
+                    {chainId && walletNetwork?.key !== activeNetwork.key && (
+                      <span className="ml-2 text-amber-600">
+                        (wallet on {walletNetwork?.name || `chain ${chainId}`})
+                      </span>
                     )}
                   </div>
                 </div>
               </div>
             </div>
-            <div className="mt-4 text-sm">
-              <a 
-                href={`${explorerBaseUrl}/address/${CONTRACT_ADDRESS}`}
-                target="_blank"
-                rel="noopener noreferrer" 
-                className="font-medium text-primary hover:text-blue-500"
-              >
-                View contract on Explorer <span aria-hidden="true">→</span>
-              </a>
-            </div>
+            {contractUrl && (
+              <div className="mt-4 text-sm">
+                <a 
+                  href={contractUrl}
+                  target="_blank"
+                  rel="noopener noreferrer" 
+                  className="font-medium text-primary hover:text-blue-500"
+                >
+                  View contract on {activeNetwork.explorer?.name || "Explorer"} <span aria-hidden="true">→</span>
+                </a>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
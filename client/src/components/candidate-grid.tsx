@@ -1,7 +1,9 @@
 import { useState } from "react";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, ExternalLink, ShieldAlert, ShieldCheck } from "lucide-react";
 import { candidateColors } from "@/data/mock-data";
+import type { LoadedCandidateProfile } from "@/utils/candidate-profiles";
 
 export interface Candidate {
   id?: number;
@@ -11,6 +13,8 @@ export interface Candidate {
   votes?: number;
   profileImage?: string;
   biography?: string;
+  // Off-chain profile, when the election was published with one
+  profile?: LoadedCandidateProfile;
 }
 
 interface CandidateGridProps {
@@ -31,7 +35,7 @@ export function CandidateGrid({
           key={candidate.id || candidate.index} 
           candidate={candidate} 
           selected={selectedCandidateId === (candidate.id || candidate.index)}
-          colorIndex={index % candidateColors.length}
+          color={candidate.profile?.profile.color ?? candidateColors[index % candidateColors.length]}
           onSelect={() => onSelectCandidate(candidate)}
         />
       ))}
@@ -42,11 +46,16 @@ export function CandidateGrid({
 interface CandidateCardProps {
   candidate: Candidate;
   selected: boolean;
-  colorIndex: number;
+  color: string;
   onSelect: () => void;
 }
 
-function CandidateCard({ candidate, selected, colorIndex, onSelect }: CandidateCardProps) {
+function CandidateCard({ candidate, selected, color, onSelect }: CandidateCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const profile = candidate.profile?.profile;
+  const photo = profile?.photo ?? candidate.profileImage;
+  const hasDetails = !!profile && (!!profile.bio || !!profile.manifesto || profile.links.length > 0);
+
   return (
     <Card 
       className={`overflow-hidden transition-all ${
@@ -57,21 +66,21 @@ function CandidateCard({ candidate, selected, colorIndex, onSelect }: CandidateC
     >
       <div 
         className="h-3" 
-        style={{ backgroundColor: candidateColors[colorIndex] }}
+        style={{ backgroundColor: color }}
       ></div>
       <CardHeader className="pb-3">
         <div className="flex items-center space-x-4">
           <div className="h-16 w-16 rounded-full bg-slate-100 flex items-center justify-center overflow-hidden">
-            {candidate.profileImage ? (
+            {photo ? (
               <img 
-                src={candidate.profileImage} 
+                src={photo} 
                 alt={candidate.name} 
                 className="h-full w-full object-cover"
               />
             ) : (
               <div 
                 className="h-full w-full flex items-center justify-center text-2xl font-bold text-slate-400"
-                style={{ backgroundColor: `${candidateColors[colorIndex]}30` }}
+                style={{ backgroundColor: `${color}30` }}
               >
                 {candidate.name.charAt(0)}
               </div>
@@ -83,6 +92,53 @@ function CandidateCard({ candidate, selected, colorIndex, onSelect }: CandidateC
           </div>
         </div>
       </CardHeader>
+      {hasDetails && (
+        <CardContent className="pt-0">
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-1 text-sm text-primary"
+          >
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            {expanded ? "Hide profile" : "View profile"}
+          </button>
+          {expanded && (
+            <div className="mt-3 space-y-3 text-sm">
+              {profile.bio && <p className="text-gray-700 whitespace-pre-line">{profile.bio}</p>}
+              {profile.manifesto && (
+                <div>
+                  <h4 className="font-medium">Manifesto</h4>
+                  <p className="text-gray-700 whitespace-pre-line">{profile.manifesto}</p>
+                </div>
+              )}
+              {profile.links.length > 0 && (
+                <ul className="space-y-1">
+                  {profile.links.map((link) => (
+                    <li key={link.url}>
+                      <a href={link.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                        {link.label}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {candidate.profile!.verified ? (
+                <p className="flex items-center gap-1 text-xs text-green-700">
+                  <ShieldCheck className="h-3 w-3" />
+                  Matches the profile published with this election
+                </p>
+              ) : (
+                <p className="flex items-center gap-1 text-xs text-red-600">
+                  <ShieldAlert className="h-3 w-3" />
+                  Does not match the profile published with this election
+                </p>
+              )}
+              <p className="font-mono text-[10px] text-gray-400 break-all">{candidate.profile!.hash}</p>
+            </div>
+          )}
+        </CardContent>
+      )}
       <CardFooter>
         <Button 
           onClick={onSelect} 
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { getCandidateProfile, readProfilePhoto, saveCandidateProfile } from "@/utils/candidate-profiles";
+import { candidateProfileSchema, type CandidateProfile } from "@shared/profiles";
+
+interface CandidateProfileEditorProps {
+  candidateId: number;
+  name: string;
+  party: string;
+  profileHash: string | null;
+  // Called with the new profile's hash once it is stored, or null to drop the profile
+  onChange: (profileHash: string | null) => void;
+  disabled: boolean;
+}
+
+type ProfileForm = Omit<CandidateProfile, "name" | "party">;
+
+const emptyProfile = (): ProfileForm => ({ photo: null, bio: "", manifesto: "", links: [], color: null });
+
+// Photo, bio, manifesto and links for one candidate. Saving stores the profile under its
+// content hash; the draft only keeps that hash.
+export function CandidateProfileEditor({
+  candidateId,
+  name,
+  party,
+  profileHash,
+  onChange,
+  disabled,
+}: CandidateProfileEditorProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<ProfileForm>(emptyProfile);
+  const [saving, setSaving] = useState(false);
+
+  const { data: stored, isLoading } = useQuery({
+    queryKey: ["candidateProfile", profileHash],
+    queryFn: () => getCandidateProfile(profileHash!),
+    enabled: !!profileHash,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!profileHash) {
+      setForm(emptyProfile());
+    } else if (stored) {
+      const { name: _name, party: _party, ...rest } = stored.profile;
+      setForm(rest);
+    }
+  }, [profileHash, stored]);
+
+  // Name and party are part of the profile, so renaming the candidate needs a new one
+  const outdated = !!stored && (stored.profile.name !== name || stored.profile.party !== party);
+
+  const update = (changes: Partial<ProfileForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      update({ photo: await readProfilePhoto(file) });
+    } catch (error: any) {
+      toast({ title: "Photo not added", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleSave = async () => {
+    const parsed = candidateProfileSchema.safeParse({ ...form, name: name.trim(), party: party.trim() });
+    if (!parsed.success) {
+      toast({
+        title: "Profile not saved",
+        description: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      onChange(await saveCandidateProfile(parsed.data));
+      toast({ title: "Profile saved", description: "Save the draft to keep it." });
+    } catch (error: any) {
+      toast({ title: "Profile not saved", description: getApiErrorMessage(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {profileHash ? (
+            <>
+              Profile <span className="font-mono text-xs">{profileHash.slice(0, 10)}…</span>
+              {outdated && <span className="text-red-600"> written for a different name or party, save it again</span>}
+            </>
+          ) : (
+            "No profile"
+          )}
+        </p>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(!open)}>
+          {open ? "Close profile" : profileHash ? "Edit profile" : "Add profile"}
+        </Button>
+      </div>
+
+      {open && (
+        isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : (
+          <div className="space-y-3 mt-2">
+            <div className="flex items-center gap-4">
+              {form.photo && <img src={form.photo} alt={name} className="h-16 w-16 rounded-full object-cover" />}
+              <div className="flex-1">
+                <Label htmlFor={`candidate-${candidateId}-photo`}>Photo</Label>
+                <Input
+                  id={`candidate-${candidateId}-photo`}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  onChange={(e) => handlePhoto(e.target.files?.[0])}
+                  disabled={disabled}
+                  className="mt-1"
+                />
+              </div>
+              {form.photo && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => update({ photo: null })} disabled={disabled}>
+                  Remove photo
+                </Button>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor={`candidate-${candidateId}-bio`}>Bio</Label>
+              <Textarea
+                id={`candidate-${candidateId}-bio`}
+                value={form.bio}
+                onChange={(e) => update({ bio: e.target.value })}
+                disabled={disabled}
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`candidate-${candidateId}-manifesto`}>Manifesto</Label>
+              <Textarea
+                id={`candidate-${candidateId}-manifesto`}
+                value={form.manifesto}
+                onChange={(e) => update({ manifesto: e.target.value })}
+                disabled={disabled}
+                className="mt-1"
+                rows={5}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Links</Label>
+              {form.links.map((link, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input
+                    placeholder="Label"
+                    value={link.label}
+                    onChange={(e) => update({ links: form.links.map((l, j) => (j === i ? { ...l, label: e.target.value } : l)) })}
+                    disabled={disabled}
+                    className="w-40"
+                  />
+                  <Input
+                    placeholder="https://"
+                    value={link.url}
+                    onChange={(e) => update({ links: form.links.map((l, j) => (j === i ? { ...l, url: e.target.value } : l)) })}
+                    disabled={disabled}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ links: form.links.filter((_, j) => j !== i) })}
+                    disabled={disabled}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update({ links: [...form.links, { label: "", url: "" }] })}
+                disabled={disabled}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add link
+              </Button>
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div>
+                <Label htmlFor={`candidate-${candidateId}-color`}>Ballot colour</Label>
+                <Input
+                  id={`candidate-${candidateId}-color`}
+                  type="color"
+                  value={form.color ?? "#3b82f6"}
+                  onChange={(e) => update({ color: e.target.value })}
+                  disabled={disabled}
+                  className="mt-1 w-20 p-1"
+                />
+              </div>
+              {form.color && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => update({ color: null })} disabled={disabled}>
+                  Use default
+                </Button>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {profileHash && (
+                <Button type="button" variant="outline" size="sm" onClick={() => onChange(null)} disabled={disabled}>
+                  Remove profile
+                </Button>
+              )}
+              <Button type="button" size="sm" onClick={handleSave} disabled={disabled || saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save profile
+              </Button>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
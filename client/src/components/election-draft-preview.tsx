@@ -0,0 +1,52 @@
+import { useQueries } from "@tanstack/react-query";
+import { Calendar } from "lucide-react";
+import { CandidateGrid } from "@/components/candidate-grid";
+import { getCandidateProfile } from "@/utils/candidate-profiles";
+import type { ElectionDraftFields } from "@shared/drafts";
+
+interface ElectionDraftPreviewProps {
+  draft: ElectionDraftFields;
+}
+
+const formatTime = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString() : "Not set";
+
+// The ballot as voters will see it on the vote page, before anything is sent on-chain
+export function ElectionDraftPreview({ draft }: ElectionDraftPreviewProps) {
+  const profiles = useQueries({
+    queries: draft.candidates.map((candidate) => ({
+      queryKey: ["candidateProfile", candidate.profileHash ?? null],
+      queryFn: () => getCandidateProfile(candidate.profileHash!),
+      enabled: !!candidate.profileHash,
+      staleTime: Infinity,
+    })),
+  });
+
+  const candidates = draft.candidates.map((candidate, index) => {
+    const loaded = candidate.profileHash ? profiles[index]?.data : undefined;
+    return {
+      index,
+      name: candidate.name || `Candidate ${index + 1}`,
+      party: candidate.party || "No party",
+      profile: loaded && {
+        ...loaded,
+        verified: loaded.verified && loaded.profile.name === candidate.name && loaded.profile.party === candidate.party,
+      },
+    };
+  });
+
+  return (
+    <div className="rounded-lg border bg-white p-6">
+      <h2 className="text-2xl font-bold">{draft.name || "Untitled election"}</h2>
+      <div className="flex items-center gap-2 text-sm text-gray-500 mt-1">
+        <Calendar className="h-4 w-4" />
+        {formatTime(draft.startTime)} – {formatTime(draft.endTime)}
+      </div>
+      {draft.description && <p className="text-gray-700 mt-4 whitespace-pre-line">{draft.description}</p>}
+
+      <h3 className="text-lg font-medium mt-6 mb-4">Select a candidate</h3>
+      {/* Selection does nothing here; the grid is only rendered the way voters get it */}
+      <CandidateGrid candidates={candidates} onSelectCandidate={() => {}} selectedCandidateId={null} />
+    </div>
+  );
+}
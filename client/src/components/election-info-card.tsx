@@ -1,92 +1,16 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
-import {
-  getActiveElectionId,
-  getElectionInfo,
-  getAllCandidates,
-  getTotalVotes,
-} from "@/utils/blockchain";
+import { useActiveElection, useChainNow } from "@/hooks/use-elections";
 import { candidateColors } from "@/data/mock-data";
 
 export function ElectionInfoCard() {
   const [viewMode, setViewMode] = useState<'chart' | 'table'>('chart');
 
-  // Query for active election data
-  const { data: electionData, isLoading } = useQuery({
-    queryKey: ['activeElection'],
-    queryFn: async () => {
-      try {
-        // Get current election ID (this will be the next ID to be used)
-        const nextId = await getActiveElectionId();
-        console.log("[ElectionInfoCard] Next election ID:", nextId);
-
-        if (!nextId) {
-          console.log("[ElectionInfoCard] No election ID found");
-          return null;
-        }
-
-        // Look backwards from current ID to find the most recent valid election
-        for (let id = nextId - 1; id >= 1; id--) {
-          try {
-            const electionInfo = await getElectionInfo(id);
-            console.log(`[ElectionInfoCard] Checking election ${id}:`, electionInfo);
-
-            if (electionInfo?.name) {
-              // Found a valid election, get candidates and votes
-              const candidates = await getAllCandidates(id);
-              console.log("[ElectionInfoCard] Candidates:", candidates);
-
-              const totalVotes = await getTotalVotes(id);
-              console.log("[ElectionInfoCard] Total votes:", totalVotes);
-
-              // Calculate if election is active based on time
-              const now = new Date();
-              const startTime = new Date(electionInfo.startTime);
-              const endTime = new Date(electionInfo.endTime);
-              const isActive = now >= startTime && now <= endTime;
-
-              console.log("[ElectionInfoCard] Time check:", {
-                now: now.toISOString(),
-                startTime: startTime.toISOString(),
-                endTime: endTime.toISOString(),
-                isActive,
-                contractActive: electionInfo.active
-              });
-
-              // Only return if the election is active
-              if (isActive && electionInfo.active) {
-                return {
-                  id,
-                  name: electionInfo.name,
-                  startTime,
-                  endTime,
-                  candidates: candidates.map(candidate => ({
-                    ...candidate,
-                    percentage: totalVotes > 0 ? Math.round((candidate.votes / totalVotes) * 100) : 0
-                  })),
-                  totalVotes
-                };
-              }
-            }
-          } catch (error) {
-            console.error(`[ElectionInfoCard] Error checking election ${id}:`, error);
-            continue;
-          }
-        }
-
-        return null;
-      } catch (error) {
-        console.error("[ElectionInfoCard] Error fetching election data:", error);
-        return null;
-      }
-    },
-    staleTime: 30000,
-    refetchInterval: 60000
-  });
+  const { election: electionData, isLoading } = useActiveElection();
+  const now = useChainNow();
 
   if (isLoading) {
     return (
@@ -137,7 +61,7 @@ export function ElectionInfoCard() {
     );
   }
 
-  const timeRemaining = electionData.endTime.getTime() - Date.now();
+  const timeRemaining = electionData.endTime.getTime() - now.getTime();
   const daysRemaining = Math.max(0, Math.floor(timeRemaining / (1000 * 60 * 60 * 24)));
   const hoursRemaining = Math.max(0, Math.floor((timeRemaining % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60)));
 
@@ -0,0 +1,167 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TransactionDetails } from "@/components/transaction-details";
+import { Loader2, X } from "lucide-react";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import type { SearchEvent, SearchMatch, SearchQueryKind, SearchResults } from "@shared/search";
+
+const KIND_LABELS: Record<SearchQueryKind, string> = {
+  hash: "Transaction or voter hash",
+  address: "Address",
+  electionId: "Election ID",
+  text: "Election name",
+};
+
+const shorten = (value: string) => `${value.substring(0, 10)}...${value.substring(value.length - 4)}`;
+
+function EventTable({ events }: { events: SearchEvent[] }) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Event</TableHead>
+            <TableHead>Election</TableHead>
+            <TableHead>Transaction</TableHead>
+            <TableHead>Block</TableHead>
+            <TableHead>Time</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {events.map((event) => (
+            <TableRow key={`${event.transactionHash}-${event.logIndex}`}>
+              <TableCell>{event.eventName}</TableCell>
+              <TableCell>{event.electionId !== null ? `#${event.electionId}` : "—"}</TableCell>
+              <TableCell className="font-mono">{shorten(event.transactionHash)}</TableCell>
+              <TableCell>{event.blockNumber}</TableCell>
+              <TableCell>{new Date(event.timestamp).toLocaleString()}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function MatchDetail({ match }: { match: SearchMatch }) {
+  switch (match.type) {
+    case "transaction":
+      return (
+        <div className="space-y-3">
+          <h3 className="font-medium">
+            Transaction <span className="font-mono text-sm break-all">{match.hash}</span>
+          </h3>
+          <TransactionDetails hash={match.hash} />
+        </div>
+      );
+    case "vote":
+      return (
+        <div className="space-y-2">
+          <h3 className="font-medium">
+            Vote in{" "}
+            <Link href={`/elections/${match.event.electionId}`} className="hover:underline">
+              election #{match.event.electionId}
+            </Link>
+          </h3>
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+            <dt className="text-gray-500">Voter hash</dt>
+            <dd className="font-mono break-all">{match.voterHash}</dd>
+            <dt className="text-gray-500">Candidate index</dt>
+            <dd>{match.event.args.candidateIndex}</dd>
+            <dt className="text-gray-500">Transaction</dt>
+            <dd className="font-mono break-all">{match.event.transactionHash}</dd>
+            <dt className="text-gray-500">Block</dt>
+            <dd>
+              {match.event.blockNumber} · {new Date(match.event.timestamp).toLocaleString()}
+            </dd>
+          </dl>
+        </div>
+      );
+    case "address":
+      return (
+        <div className="space-y-3">
+          <h3 className="font-medium">
+            {match.total} contract interaction{match.total === 1 ? "" : "s"} by{" "}
+            <span className="font-mono text-sm break-all">{match.address}</span>
+          </h3>
+          <EventTable events={match.events} />
+          {match.total > match.events.length && (
+            <p className="text-xs text-gray-500">Showing the latest {match.events.length}.</p>
+          )}
+        </div>
+      );
+    case "election": {
+      const { election } = match;
+      return (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h3 className="font-medium">
+              <Link href={`/elections/${election.electionId}`} className="hover:underline">
+                {election.name}
+              </Link>
+            </h3>
+            <p className="text-sm text-gray-500">
+              {new Date(election.startTime).toLocaleString()} - {new Date(election.endTime).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">Election ID: {election.electionId}</Badge>
+            <Badge variant="outline">{election.votes} votes</Badge>
+          </div>
+        </div>
+      );
+    }
+  }
+}
+
+interface ExplorerSearchResultsProps {
+  query: string;
+  results: SearchResults | undefined;
+  isLoading: boolean;
+  error: unknown;
+  onClear: () => void;
+}
+
+export function ExplorerSearchResults({ query, results, isLoading, error, onClear }: ExplorerSearchResultsProps) {
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <div>
+          <CardTitle>Search results</CardTitle>
+          {results && (
+            <p className="text-sm text-muted-foreground mt-1">
+              {KIND_LABELS[results.kind]}: <span className="font-mono break-all">{results.query}</span>
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClear} aria-label="Clear search">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Searching...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{getApiErrorMessage(error)}</p>
+        ) : !results || results.matches.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Nothing indexed matches "{query}". Recent activity may not be indexed yet.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {results.matches.map((match, index) => (
+              <div key={index} className="py-4 first:pt-0 last:pb-0">
+                <MatchDetail match={match} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
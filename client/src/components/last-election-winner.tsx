@@ -1,105 +1,33 @@
-import { useEffect, useState } from "react";
+import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { getElectionInfo, getAllCandidates, getTotalVotes, getActiveElectionId } from "@/utils/blockchain";
+import { useElection, useElections } from "@/hooks/use-elections";
+import { getCompletedElections } from "@shared/elections";
 import { candidateColors } from "@/data/mock-data";
 import { Trophy } from "lucide-react";
 
 export function LastElectionWinner() {
-  const [loading, setLoading] = useState(true);
-  const [lastElection, setLastElection] = useState<{
-    id: number;
-    name: string;
-    winner: {
-      name: string;
-      party: string;
-      votes: number;
-      percentage: number;
-    } | null;
-    totalVotes: number;
-    endDate: Date;
-  } | null>(null);
+  const { data: elections, isLoading: loadingElections } = useElections();
+  // The most recently closed election that had candidates
+  const lastCompleted = elections
+    ? getCompletedElections(elections).find((election) => election.candidateCount > 0) ?? null
+    : undefined;
+  const { data: results, isLoading: loadingResults } = useElection(lastCompleted?.id);
 
-  useEffect(() => {
-    const fetchLastCompletedElection = async () => {
-      try {
-        setLoading(true);
-        // Get the next election ID (current ID + 1)
-        const nextId = await getActiveElectionId();
-        console.log(`[LastElectionWinner] Next election ID: ${nextId}, starting search from previous ID: ${nextId > 0 ? nextId - 1 : 0}`);
-        
-        // Start from the most recent election ID and search backwards
-        let electionId = nextId > 0 ? nextId - 1 : 0; // Start from the most recent election
-        let foundCompletedElection = false;
-
-        // Check backwards from recent elections until we find a completed one
-        while (electionId > 0 && !foundCompletedElection) {
-          try {
-            console.log(`[LastElectionWinner] Checking election ${electionId}`);
-            const electionInfo = await getElectionInfo(electionId);
-            
-            if (electionInfo) {
-              console.log(`[LastElectionWinner] Found election: ${electionInfo.name}`);
-              const now = new Date();
-              const endTime = new Date(electionInfo.endTime);
-              
-              // Check if this election has ended
-              if (now > endTime) {
-                console.log(`[LastElectionWinner] Election ${electionId} has ended, checking results`);
-                const candidates = await getAllCandidates(electionId);
-                const totalVotes = await getTotalVotes(electionId);
-                
-                if (candidates.length > 0) {
-                  // Find the winner (candidate with most votes)
-                  let winner = candidates[0];
-                  for (let i = 1; i < candidates.length; i++) {
-                    if (candidates[i].votes > winner.votes) {
-                      winner = candidates[i];
-                    }
-                  }
-                  
-                  const winnerPercentage = totalVotes > 0 
-                    ? Math.round((winner.votes / totalVotes) * 100) 
-                    : 0;
-                  
-                  console.log(`[LastElectionWinner] Winner: ${winner.name} with ${winner.votes} votes (${winnerPercentage}%)`);
-                  
-                  setLastElection({
-                    id: electionId,
-                    name: electionInfo.name,
-                    winner: {
-                      name: winner.name,
-                      party: winner.party,
-                      votes: winner.votes,
-                      percentage: winnerPercentage
-                    },
-                    totalVotes,
-                    endDate: endTime
-                  });
-                  
-                  foundCompletedElection = true;
-                }
-              }
-            }
-          } catch (error) {
-            console.log(`[LastElectionWinner] Error or no data for election ${electionId}`);
-          }
-          
-          electionId--; // Check previous election
-        }
-        
-        if (!foundCompletedElection) {
-          console.log("[LastElectionWinner] No completed elections found");
-        }
-      } catch (error) {
-        console.error("Error fetching last election winner:", error);
-      } finally {
-        setLoading(false);
+  const loading = loadingElections || (!!lastCompleted && loadingResults);
+  const lastElection = results
+    ? {
+        id: results.id,
+        name: results.name,
+        // The first candidate with the most votes
+        winner: results.candidates.reduce<(typeof results.candidates)[number] | null>(
+          (winner, candidate) => (!winner || candidate.votes > winner.votes ? candidate : winner),
+          null,
+        ),
+        totalVotes: results.totalVotes,
+        endDate: results.endTime,
       }
-    };
-
-    fetchLastCompletedElection();
-  }, []);
+    : null;
 
   if (loading) {
     return (
@@ -148,7 +76,7 @@ export function LastElectionWinner() {
             No Winner
           </CardTitle>
           <CardDescription>
-            {lastElection.name} ended on {lastElection.endDate.toLocaleDateString()}
+            <Link href={`/elections/${lastElection.id}`} className="hover:underline">{lastElection.name}</Link> ended on {lastElection.endDate.toLocaleDateString()}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -172,7 +100,7 @@ export function LastElectionWinner() {
           Last Election Winner
         </CardTitle>
         <CardDescription>
-          {lastElection.name} ended on {lastElection.endDate.toLocaleDateString()}
+          <Link href={`/elections/${lastElection.id}`} className="hover:underline">{lastElection.name}</Link> ended on {lastElection.endDate.toLocaleDateString()}
         </CardDescription>
       </CardHeader>
       <CardContent>
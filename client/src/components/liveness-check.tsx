@@ -1,167 +1,252 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { Camera, CheckCircle2, Loader2, RotateCcw, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { loadFaceDetector } from "@/lib/face-detector";
+import {
+  CHALLENGE_PROMPTS,
+  ChallengeTracker,
+  type ChallengeFailure,
+  type ChallengeState,
+  type FaceMetrics,
+  type LivenessChallenge,
+  type LivenessSessionInfo,
+  type SignedLivenessResult,
+} from "@shared/liveness";
 
 interface LivenessCheckProps {
-  onComplete: () => void;
+  // Wallet address the signed result is issued for
+  subject: string;
+  onComplete: (result: SignedLivenessResult) => void;
 }
 
-export function LivenessCheck({ onComplete }: LivenessCheckProps) {
+type Phase = "idle" | "starting" | "running" | "verifying" | "passed" | "failed";
+
+// Roughly 8 detections per second keeps the CPU fallback responsive
+const FRAME_INTERVAL_MS = 120;
+
+const FAILURE_MESSAGES: Record<ChallengeFailure, string> = {
+  timeout: "The challenge timed out. Follow the instruction shown above the camera preview.",
+  "face-lost": "Your face left the frame. Keep it inside the guide for the whole check.",
+  "multiple-faces": "More than one face was detected. Make sure you are alone in the frame.",
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function describeError(error: any): string {
+  if (error?.name === "NotAllowedError") {
+    return "Camera access was denied. Allow camera access in your browser and try again.";
+  }
+  if (error?.name === "NotFoundError") {
+    return "No camera was found on this device.";
+  }
+  return error?.message || "The liveness check could not be completed.";
+}
+
+export function LivenessCheck({ subject, onComplete }: LivenessCheckProps) {
   const { toast } = useToast();
-  const [isCapturing, setIsCapturing] = useState(false);
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [isCaptured, setIsCaptured] = useState(false);
-
-  const handleCapture = () => {
-    setIsCapturing(true);
-    // Simulate camera capture delay
-    setTimeout(() => {
-      setIsCapturing(false);
-      setIsCaptured(true);
-      toast({
-        title: "Image captured",
-        description: "Please click verify to continue",
-      });
-    }, 1500);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const cancelledRef = useRef(false);
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [challenges, setChallenges] = useState<LivenessChallenge[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [challengeState, setChallengeState] = useState<ChallengeState>("calibrating");
+  const [error, setError] = useState<string | null>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
   };
 
-  const handleVerify = () => {
-    setIsVerifying(true);
-    // Simulate verification delay
-    setTimeout(() => {
-      setIsVerifying(false);
+  // Release the camera if the user navigates away mid-check
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+      stopCamera();
+    };
+  }, []);
+
+  const runCheck = async () => {
+    cancelledRef.current = false;
+    setError(null);
+    setChallenges([]);
+    setCurrentIndex(0);
+    setChallengeState("calibrating");
+    setPhase("starting");
+
+    try {
+      // The server picks the challenges, so they can't be prepared for in advance
+      const session: LivenessSessionInfo = await (
+        await apiRequest("POST", "/api/liveness/sessions", { subject })
+      ).json();
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "user", width: { ideal: 640 }, height: { ideal: 480 } },
+        audio: false,
+      });
+      streamRef.current = stream;
+
+      const video = videoRef.current;
+      if (!video) throw new Error("Camera preview is not available");
+      video.srcObject = stream;
+      await video.play();
+
+      const detector = await loadFaceDetector();
+      if (cancelledRef.current) return;
+
+      setChallenges(session.challenges);
+      setPhase("running");
+
+      const frames: FaceMetrics[][] = [];
+      for (let i = 0; i < session.challenges.length; i++) {
+        const tracker = new ChallengeTracker(session.challenges[i]);
+        const recorded: FaceMetrics[] = [];
+        frames.push(recorded);
+        setCurrentIndex(i);
+        setChallengeState("calibrating");
+
+        let state: ChallengeState = "calibrating";
+        while (state !== "passed" && state !== "failed") {
+          if (cancelledRef.current) return;
+          const metrics = await detector.detect(video, Date.now());
+          recorded.push(metrics);
+          state = tracker.push(metrics);
+          setChallengeState(state);
+          await delay(FRAME_INTERVAL_MS);
+        }
+
+        const { reason } = tracker.getResult();
+        if (state === "failed") {
+          throw new Error(reason ? FAILURE_MESSAGES[reason] : "Liveness challenge failed");
+        }
+      }
+
+      stopCamera();
+      setPhase("verifying");
+
+      // The server re-scores the recorded frames before signing anything
+      const result: SignedLivenessResult = await (
+        await apiRequest("POST", `/api/liveness/sessions/${session.sessionId}/verify`, {
+          subject,
+          frames,
+        })
+      ).json();
+
+      setPhase("passed");
       toast({
-        title: "Identity verified",
-        description: "Liveness check completed successfully",
+        title: "Liveness confirmed",
+        description: "You can now continue to the ballot",
       });
-      onComplete();
-    }, 2000);
+      onComplete(result);
+    } catch (err: any) {
+      stopCamera();
+      if (cancelledRef.current) return;
+      console.error("Liveness check failed:", err);
+      setError(describeError(err));
+      setPhase("failed");
+    }
   };
 
+  const isBusy = phase === "starting" || phase === "running" || phase === "verifying";
+  const progress = challenges.length > 0 ? (currentIndex / challenges.length) * 100 : 0;
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
         <CardTitle>Liveness Check</CardTitle>
         <CardDescription>
-          Please position your face in the center of the frame and take a photo
+          Follow the on-screen instructions so we can confirm a real person is voting. Video is
+          analysed on this device and never uploaded.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="aspect-video bg-slate-800 rounded-md flex items-center justify-center mb-4 relative overflow-hidden">
-          {/* Camera preview placeholder */}
-          <div className="text-white/40 text-center p-4">
-            {isCapturing ? (
-              <div className="animate-pulse">Capturing...</div>
-            ) : (
-              <>
-                {isCaptured ? (
-                  <div className="flex flex-col items-center">
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      width="64"
-                      height="64"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      className="text-green-400 mb-2"
-                    >
-                      <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
-                      <polyline points="22 4 12 14.01 9 11.01"></polyline>
-                    </svg>
-                    <span>Image captured</span>
-                  </div>
-                ) : (
-                  <div className="flex flex-col items-center">
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      width="64"
-                      height="64"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      className="mb-2"
-                    >
-                      <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"></path>
-                      <circle cx="12" cy="13" r="4"></circle>
-                    </svg>
-                    <span>Camera preview</span>
-                  </div>
-                )}
-              </>
-            )}
-          </div>
+          {/* Mirrored so moving left moves the preview left */}
+          <video
+            ref={videoRef}
+            className={`absolute inset-0 h-full w-full object-cover -scale-x-100 ${
+              phase === "running" ? "" : "hidden"
+            }`}
+            muted
+            playsInline
+          />
+
+          {phase !== "running" && (
+            <div className="text-white/60 text-center p-4 flex flex-col items-center">
+              {phase === "starting" || phase === "verifying" ? (
+                <>
+                  <Loader2 className="h-12 w-12 mb-2 animate-spin" />
+                  <span>{phase === "starting" ? "Starting camera and face model..." : "Verifying..."}</span>
+                </>
+              ) : phase === "passed" ? (
+                <>
+                  <CheckCircle2 className="h-12 w-12 mb-2 text-green-400" />
+                  <span>Liveness confirmed</span>
+                </>
+              ) : phase === "failed" ? (
+                <>
+                  <XCircle className="h-12 w-12 mb-2 text-red-400" />
+                  <span>Check failed</span>
+                </>
+              ) : (
+                <>
+                  <Camera className="h-12 w-12 mb-2" />
+                  <span>Camera preview</span>
+                </>
+              )}
+            </div>
+          )}
 
           {/* Face outline guide */}
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-            <div className="w-32 h-32 border-2 border-dashed border-white/60 rounded-full"></div>
+            <div className="w-32 h-40 border-2 border-dashed border-white/60 rounded-full"></div>
           </div>
+
+          {phase === "running" && challenges[currentIndex] && (
+            <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-center py-2 text-sm font-medium">
+              {challengeState === "calibrating"
+                ? "Look straight at the camera"
+                : CHALLENGE_PROMPTS[challenges[currentIndex]]}
+            </div>
+          )}
         </div>
 
-        <div className="text-sm text-muted-foreground mb-4">
+        {phase === "running" && (
+          <div className="mb-4 space-y-1">
+            <Progress value={progress} />
+            <p className="text-xs text-muted-foreground">
+              Challenge {currentIndex + 1} of {challenges.length}
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <div className="text-sm text-muted-foreground">
           <ul className="list-disc pl-5 space-y-1">
             <li>Ensure your face is clearly visible</li>
             <li>Make sure there is good lighting</li>
-            <li>Look directly at the camera</li>
+            <li>Keep your face inside the guide</li>
             <li>Remove glasses or face coverings</li>
           </ul>
         </div>
       </CardContent>
-      <CardFooter className="flex flex-col space-y-2">
-        <div className="grid grid-cols-2 gap-4 w-full">
-          <Button 
-            onClick={handleCapture} 
-            disabled={isCapturing || isVerifying}
-            className="flex items-center justify-center"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              width="16"
-              height="16"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              className="mr-2"
-            >
-              <circle cx="12" cy="12" r="10"></circle>
-              <circle cx="12" cy="12" r="3"></circle>
-            </svg>
-            {isCapturing ? "Capturing..." : "Capture"}
-          </Button>
-          <Button 
-            onClick={handleVerify} 
-            disabled={!isCaptured || isVerifying}
-            className="flex items-center justify-center"
-            variant={isCaptured ? "default" : "outline"}
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              width="16"
-              height="16"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              className="mr-2"
-            >
-              <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
-              <polyline points="22 4 12 14.01 9 11.01"></polyline>
-            </svg>
-            {isVerifying ? "Verifying..." : "Verify"}
-          </Button>
-        </div>
+      <CardFooter>
+        <Button onClick={runCheck} disabled={isBusy || phase === "passed"} className="w-full">
+          {isBusy ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : phase === "failed" ? (
+            <RotateCcw className="mr-2 h-4 w-4" />
+          ) : (
+            <Camera className="mr-2 h-4 w-4" />
+          )}
+          {phase === "failed" ? "Try again" : "Start liveness check"}
+        </Button>
       </CardFooter>
     </Card>
   );
-}
\ No newline at end of file
+}
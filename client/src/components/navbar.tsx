@@ -41,6 +41,11 @@ export function Navbar() {
                   Register
                 </div>
               </Link>
+              <Link href="/verify">
+                <div className={`${location === '/verify' ? 'border-primary text-gray-900' : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium cursor-pointer`}>
+                  Verify
+                </div>
+              </Link>
               <Link href="/admin/login">
                 <div className={`${location.startsWith('/admin') ? 'border-primary text-gray-900' : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium cursor-pointer`}>
                   Admin
@@ -86,6 +91,11 @@ export function Navbar() {
               Register
             </div>
           </Link>
+          <Link href="/verify">
+            <div className={`${location === '/verify' ? 'bg-primary border-primary text-white' : 'border-transparent text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-800'} block pl-3 pr-4 py-2 border-l-4 text-base font-medium cursor-pointer`}>
+              Verify
+            </div>
+          </Link>
           <Link href="/admin/login">
             <div className={`${location.startsWith('/admin') ? 'bg-primary border-primary text-white' : 'border-transparent text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-800'} block pl-3 pr-4 py-2 border-l-4 text-base font-medium cursor-pointer`}>
               Admin
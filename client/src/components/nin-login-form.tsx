@@ -10,7 +10,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { useMetaMask } from "@/hooks/use-metamask";
-import { getNINByWalletAddress } from "@/utils/supabase";
+import { getVoterByWalletAddress, verifyNIN } from "@/utils/voters";
 
 const formSchema = z.object({
   nin: z
@@ -47,25 +47,22 @@ export function NinLoginForm({ onComplete }: NinLoginFormProps) {
     setError(null);
 
     try {
-      // Get NIN data for this address
-      const userNINData = await getNINByWalletAddress(account);
+      // Get the voter record for this address
+      const voter = await getVoterByWalletAddress(account);
       
-      if (!userNINData) {
+      if (!voter) {
         setError("No NIN registration found for this wallet address. Please register your NIN first.");
         return;
       }
       
-      // Check if NIN matches what's in the database
-      if (userNINData.nin !== values.nin) {
+      // The server compares hashes and only answers match/no-match
+      if (!(await verifyNIN(account, values.nin))) {
         setError("The NIN entered doesn't match the NIN registered with this wallet address.");
         return;
       }
       
-      // Check if user has already voted
-      if (userNINData.status === 'Y') {
-        setError("You have already voted in this election with this NIN.");
-        return;
-      }
+      // Whether the voter already voted is per election, and is checked once the
+      // ballot's election is known
       
       // All checks passed, move to next step
       toast({
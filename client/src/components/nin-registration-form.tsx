@@ -10,7 +10,9 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useMetaMask } from "@/hooks/use-metamask";
-import { submitNIN, getNINByWalletAddress, User, checkNINSubmissionLocked } from "@/utils/supabase";
+import { WrongNetworkAlert } from "@/components/wrong-network-alert";
+import { checkNINSubmissionLocked } from "@/utils/registration";
+import { submitNIN, getVoterByWalletAddress, type Voter } from "@/utils/voters";
 
 // Validation schema for NIN
 const ninSchema = z.object({
@@ -29,13 +31,13 @@ interface NinRegistrationFormProps {
 
 export function NinRegistrationForm({ onSuccess }: NinRegistrationFormProps) {
   const { toast } = useToast();
-  const { account, isConnected, connect } = useMetaMask();
+  const { account, isConnected, connect, isWrongNetwork } = useMetaMask();
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [existingNIN, setExistingNIN] = useState<User | null>(null);
+  const [existingNIN, setExistingNIN] = useState<Voter | null>(null);
   const [isRegistrationLocked, setIsRegistrationLocked] = useState(false);
   const [checkingLockStatus, setCheckingLockStatus] = useState(true);
 
@@ -71,7 +73,7 @@ export function NinRegistrationForm({ onSuccess }: NinRegistrationFormProps) {
       
       setLoading(true);
       try {
-        const result = await getNINByWalletAddress(account);
+        const result = await getVoterByWalletAddress(account);
         if (result) {
           setExistingNIN(result);
         } else {
@@ -99,11 +101,16 @@ export function NinRegistrationForm({ onSuccess }: NinRegistrationFormProps) {
       return;
     }
 
+    if (isWrongNetwork) {
+      setError("Please switch your wallet to the election network first.");
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
     try {
-      // Submit NIN to Supabase
+      // The server stores a keyed hash of the NIN, never the NIN itself
       const result = await submitNIN(account, data.nin);
 
       if (result.success) {
@@ -155,7 +162,7 @@ export function NinRegistrationForm({ onSuccess }: NinRegistrationFormProps) {
                 {existingNIN && (
                   <div className="mt-4 p-3 bg-blue-50 rounded-md border border-blue-100">
                     <p className="text-sm font-medium text-blue-800">Your existing registration remains valid:</p>
-                    <div className="mt-1 font-mono text-sm">{existingNIN.nin}</div>
+                    <div className="mt-1 font-mono text-sm">{existingNIN.ninMasked}</div>
                   </div>
                 )}
               </AlertDescription>
@@ -193,12 +200,12 @@ export function NinRegistrationForm({ onSuccess }: NinRegistrationFormProps) {
               <AlertTitle>NIN Already Registered</AlertTitle>
               <AlertDescription>
                 <p>Your wallet address already has a registered NIN:</p>
-                <div className="mt-2 font-mono font-medium">{existingNIN.nin}</div>
+                <div className="mt-2 font-mono font-medium">{existingNIN.ninMasked}</div>
                 <div className="mt-2">
                   <span className="font-medium">Status: </span>
-                  {existingNIN.status === 'Y' ? (
+                  {existingNIN.verifiedAt ? (
                     <span className="text-green-600 font-medium flex items-center">
-                      <CheckCircle className="h-4 w-4 mr-1" /> Voted
+                      <CheckCircle className="h-4 w-4 mr-1" /> Verified
                     </span>
                   ) : (
                     <span className="text-blue-600 font-medium">Registered</span>
@@ -228,6 +235,10 @@ export function NinRegistrationForm({ onSuccess }: NinRegistrationFormProps) {
                 <p className="text-sm text-slate-700 mb-1">Connected Wallet:</p>
                 <p className="font-mono text-sm">{account}</p>
               </div>
+
+              {isWrongNetwork && (
+                <WrongNetworkAlert action="register your NIN" />
+              )}
               
               <FormField
                 control={form.control}
@@ -249,7 +260,7 @@ export function NinRegistrationForm({ onSuccess }: NinRegistrationFormProps) {
               <Button 
                 type="submit" 
                 className="w-full"
-                disabled={isSubmitting}
+                disabled={isSubmitting || isWrongNetwork}
               >
                 {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Submit NIN
@@ -4,12 +4,14 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { CheckCircle, Wallet } from "lucide-react";
 import { useMetaMask } from "@/hooks/use-metamask";
-import { getNINByWalletAddress, User } from "@/utils/supabase";
+import { getVoterByWalletAddress, type Voter } from "@/utils/voters";
+import { getActiveElectionParticipation, type ElectionParticipation } from "@/utils/participations";
 
 export function NinStatusCheck() {
   const { isConnected, account, connect } = useMetaMask();
   const [loading, setLoading] = useState(false);
-  const [userDetails, setUserDetails] = useState<User | null>(null);
+  const [userDetails, setUserDetails] = useState<Voter | null>(null);
+  const [activeElection, setActiveElection] = useState<ElectionParticipation | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const loadUserDetails = async () => {
@@ -19,8 +21,12 @@ export function NinStatusCheck() {
     setError(null);
 
     try {
-      const data = await getNINByWalletAddress(account);
+      const [data, participation] = await Promise.all([
+        getVoterByWalletAddress(account),
+        getActiveElectionParticipation(account),
+      ]);
       setUserDetails(data);
+      setActiveElection(participation);
     } catch (err: any) {
       setError(err.message || "Failed to load user details");
     } finally {
@@ -41,11 +47,11 @@ export function NinStatusCheck() {
   const renderStatusBadge = () => {
     if (!userDetails) return null;
 
-    if (userDetails.status === 'Y') {
+    if (userDetails.verifiedAt) {
       return (
         <div className="flex items-center p-3 text-green-700 bg-green-50 rounded-md">
           <CheckCircle className="h-5 w-5 mr-2" />
-          <span className="font-medium">Voted</span>
+          <span className="font-medium">Verified</span>
         </div>
       );
     } else {
@@ -58,6 +64,26 @@ export function NinStatusCheck() {
     }
   };
 
+  const renderParticipation = () => {
+    if (!activeElection) {
+      return <p className="text-sm text-slate-500">No election is open for voting right now.</p>;
+    }
+
+    const { election, participation } = activeElection;
+    const label = participation.votedAt
+      ? `Voted on ${new Date(participation.votedAt).toLocaleString()}`
+      : participation.eligible
+        ? "Eligible, not voted yet"
+        : "Not eligible";
+
+    return (
+      <div className="bg-slate-50 p-3 rounded-md">
+        <p className="text-sm font-medium">{election.name}</p>
+        <p className={`text-sm ${participation.votedAt ? "text-green-700" : "text-slate-700"}`}>{label}</p>
+      </div>
+    );
+  };
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
@@ -113,12 +139,12 @@ export function NinStatusCheck() {
           <div className="space-y-4">
             <div className="bg-slate-50 p-3 rounded-md">
               <p className="text-sm text-slate-700 mb-1">Wallet Address:</p>
-              <p className="font-mono text-sm truncate">{userDetails.wallet_address}</p>
+              <p className="font-mono text-sm truncate">{userDetails.walletAddress}</p>
             </div>
             
             <div className="bg-slate-50 p-3 rounded-md">
               <p className="text-sm text-slate-700 mb-1">National Identification Number:</p>
-              <p className="font-mono text-base">{userDetails.nin}</p>
+              <p className="font-mono text-base">{userDetails.ninMasked}</p>
             </div>
             
             <div className="space-y-2">
@@ -126,9 +152,14 @@ export function NinStatusCheck() {
               {renderStatusBadge()}
             </div>
             
+            <div className="space-y-2">
+              <p className="text-sm text-slate-700">Current Election:</p>
+              {renderParticipation()}
+            </div>
+            
             <div className="space-y-2">
               <p className="text-sm text-slate-700">Registration Date:</p>
-              <p className="text-sm">{new Date(userDetails.created_at).toLocaleDateString()}</p>
+              <p className="text-sm">{new Date(userDetails.createdAt).toLocaleDateString()}</p>
             </div>
             
             <Button 
@@ -1,8 +1,8 @@
-import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
-import { getActiveElectionId, getElectionInfo } from "@/utils/blockchain";
+import { useElections } from "@/hooks/use-elections";
+import { getUpcomingElections } from "@shared/elections";
 
 interface NoActiveElectionProps {
   title?: string;
@@ -11,68 +11,15 @@ interface NoActiveElectionProps {
   showButtons?: boolean;
 }
 
-interface ScheduledElection {
-  id: number;
-  name: string;
-  startTime: Date;
-  endTime: Date;
-}
-
 export function NoActiveElection({ 
   title = "No Active Elections",
   description = "There are no elections currently open for voting",
   showSchedule = true,
   showButtons = true
 }: NoActiveElectionProps) {
-  const [scheduledElections, setScheduledElections] = useState<ScheduledElection[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-
-  // Fetch upcoming elections that are scheduled but not yet started
-  useEffect(() => {
-    if (!showSchedule) return;
-
-    const fetchScheduledElections = async () => {
-      setIsLoading(true);
-      try {
-        const currentElectionId = await getActiveElectionId();
-        const elections: ScheduledElection[] = [];
-        
-        // Iterate through election IDs to find scheduled elections
-        // We'll look through the first 10 possible IDs
-        const maxElectionsToFetch = 10;
-        
-        for (let id = 1; id <= Math.max(currentElectionId, maxElectionsToFetch); id++) {
-          const electionInfo = await getElectionInfo(id);
-          
-          if (electionInfo && electionInfo.name) {
-            const now = new Date();
-            const startTime = new Date(electionInfo.startTime);
-            
-            // Only include elections that haven't started yet
-            if (startTime > now) {
-              elections.push({
-                id,
-                name: electionInfo.name,
-                startTime,
-                endTime: new Date(electionInfo.endTime)
-              });
-            }
-          }
-        }
-        
-        // Sort elections by start date (ascending)
-        elections.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
-        
-        setScheduledElections(elections);
-      } catch (error) {
-        console.error("Error fetching scheduled elections:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    fetchScheduledElections();
-  }, [showSchedule]);
+  // Elections that are scheduled but not yet started
+  const { data: elections, isLoading } = useElections({ enabled: showSchedule });
+  const scheduledElections = elections ? getUpcomingElections(elections) : [];
 
   return (
     <Card className="text-center max-w-2xl mx-auto">
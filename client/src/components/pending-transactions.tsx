@@ -0,0 +1,74 @@
+import { CheckCircle2, ExternalLink, Loader2, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { activeNetwork } from "@/lib/network";
+import { useTrackedTransactions, type LocalTransaction } from "@/lib/transaction-tracker";
+import { describeUnconfirmed, transactionTracker } from "@/utils/blockchain";
+import { getExplorerTxUrl } from "@shared/networks";
+import { TRACKED_TRANSACTION_PURPOSE_LABELS } from "@shared/transactions";
+
+function describe(transaction: LocalTransaction): string {
+  if (transaction.status === "pending") {
+    return transaction.minedHash ? "Mined, waiting for confirmations" : "Waiting to be mined";
+  }
+  if (transaction.status !== "confirmed") return describeUnconfirmed(transaction);
+  if (transaction.commitError) return `Confirmed, but not recorded: ${transaction.commitError}`;
+  return transaction.committed ? "Confirmed" : "Confirmed, recording…";
+}
+
+// Transactions sent from this browser (or reported for the connected wallet) that are still
+// in flight, or settled since the page loaded, until dismissed
+export function PendingTransactions() {
+  const transactions = useTrackedTransactions(transactionTracker);
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-80 space-y-2">
+      {transactions.map((transaction) => {
+        const pending = transaction.status === "pending";
+        const succeeded = transaction.status === "confirmed" && !transaction.commitError;
+        const explorerUrl = getExplorerTxUrl(activeNetwork, transaction.minedHash ?? transaction.hash);
+
+        return (
+          <div key={transaction.hash} className="flex items-start gap-2 rounded-md border bg-white p-3 text-sm shadow-md dark:bg-gray-900">
+            {pending ? (
+              <Loader2 className="mt-0.5 h-4 w-4 shrink-0 animate-spin text-blue-600" />
+            ) : succeeded ? (
+              <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+            ) : (
+              <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="font-medium">
+                {TRACKED_TRANSACTION_PURPOSE_LABELS[transaction.purpose]}
+                {transaction.electionId !== null && ` · Election #${transaction.electionId}`}
+              </div>
+              <div className="text-gray-600 dark:text-gray-400">{describe(transaction)}</div>
+              {explorerUrl && (
+                <a
+                  href={explorerUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 font-mono text-xs text-blue-600 hover:underline"
+                >
+                  {(transaction.minedHash ?? transaction.hash).slice(0, 18)}…
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+            {!pending && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => transactionTracker.dismiss(transaction.hash)}
+                aria-label="Dismiss"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
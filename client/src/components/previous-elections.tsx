@@ -1,19 +1,11 @@
-import { useState, useEffect } from "react";
-import { getActiveElectionId, getElectionInfo, getTotalVotes } from "@/utils/blockchain";
+import { useState } from "react";
+import { Link } from "wouter";
+import { useElections } from "@/hooks/use-elections";
+import { getCompletedElections } from "@shared/elections";
 import { NoActiveElection } from "@/components/no-active-election";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 
-interface Election {
-  id: number;
-  name: string;
-  dateRange: string;
-  startTime: Date;
-  endTime: Date;
-  status: string;
-  totalVotes?: number;
-}
-
 interface PreviousElectionsProps {
   title?: string;
   itemsPerPage?: number;
@@ -23,8 +15,9 @@ export function PreviousElections({
   title = "Previous Elections",
   itemsPerPage = 4 
 }: PreviousElectionsProps) {
-  const [previousElections, setPreviousElections] = useState<Election[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { data: elections, isLoading } = useElections();
+  // Elections that have ended, most recent first
+  const previousElections = elections ? getCompletedElections(elections) : [];
   const [currentPage, setCurrentPage] = useState<number>(1);
   
   // Calculate pagination values
@@ -46,66 +39,6 @@ export function PreviousElections({
     }
   };
   
-  useEffect(() => {
-    const fetchPreviousElections = async () => {
-      setIsLoading(true);
-      try {
-        const currentElectionId = await getActiveElectionId();
-        const elections: Election[] = [];
-        
-        // Optimized batch loading - get latest elections first working backwards
-        const maxElectionsToCheck = Math.min(currentElectionId - 1, 15); // Limit to 15 to improve speed
-        
-        // Use Promise.allSettled for parallel requests to improve speed
-        const electionPromises = [];
-        for (let id = Math.max(1, currentElectionId - maxElectionsToCheck); id < currentElectionId; id++) {
-          electionPromises.push(
-            Promise.allSettled([
-              getElectionInfo(id),
-              getTotalVotes(id)
-            ]).then(([electionResult, votesResult]) => {
-              if (electionResult.status === 'fulfilled' && electionResult.value?.name) {
-                const electionInfo = electionResult.value;
-                const totalVotes = votesResult.status === 'fulfilled' ? votesResult.value : 0;
-                const now = new Date();
-                const endTime = new Date(electionInfo.endTime);
-                
-                // Only include elections that have ended
-                if (endTime < now) {
-                  return {
-                    id,
-                    name: electionInfo.name,
-                    dateRange: `${new Date(electionInfo.startTime).toLocaleDateString()} - ${endTime.toLocaleDateString()}`,
-                    startTime: new Date(electionInfo.startTime),
-                    endTime: endTime,
-                    status: "Completed",
-                    totalVotes
-                  };
-                }
-              }
-              return null;
-            })
-          );
-        }
-        
-        const results = await Promise.all(electionPromises);
-        const validElections = results.filter(election => election !== null) as Election[];
-        elections.push(...validElections);
-        
-        // Sort elections by end date, most recent first
-        elections.sort((a, b) => b.endTime.getTime() - a.endTime.getTime());
-        
-        setPreviousElections(elections);
-      } catch (error) {
-        console.error("Error fetching previous elections:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    fetchPreviousElections();
-  }, []);
-  
   if (isLoading) {
     return (
       <div className="mb-8">
@@ -144,8 +77,12 @@ export function PreviousElections({
             <li key={election.id} className="px-6 py-4">
               <div className="flex items-center justify-between">
                 <div className="flex-1">
-                  <h3 className="text-lg font-medium text-gray-900">{election.name}</h3>
-                  <p className="text-sm text-gray-500">{election.dateRange}</p>
+                  <h3 className="text-lg font-medium text-gray-900">
+                    <Link href={`/elections/${election.id}`} className="hover:underline">{election.name}</Link>
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {election.startTime.toLocaleDateString()} - {election.endTime.toLocaleDateString()}
+                  </p>
                   <p className="text-sm text-gray-600 mt-1">
                     Total Votes: {election.totalVotes || 0}
                   </p>
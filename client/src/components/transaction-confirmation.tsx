@@ -1,48 +1,31 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { useMetaMask } from "../hooks/use-metamask";
-import { ExternalLink, Copy, Check } from "lucide-react";
+import { activeNetwork } from "@/lib/network";
+import { getExplorerTxUrl } from "@shared/networks";
+import { downloadVoteReceipt, type VoteReceipt } from "@/utils/vote-receipt";
+import { ExternalLink, Copy, Check, Download, ShieldCheck } from "lucide-react";
 
 interface TransactionConfirmationProps {
   transactionHash: string;
   candidateName: string;
   timestamp: string;
+  // Offered as a download so the voter can check the ballot on /verify later
+  receipt?: VoteReceipt;
 }
 
 export function TransactionConfirmation({
   transactionHash,
   candidateName,
   timestamp,
+  receipt,
 }: TransactionConfirmationProps) {
   const { toast } = useToast();
-  const { chainId } = useMetaMask();
+  const explorerUrl = getExplorerTxUrl(activeNetwork, transactionHash);
   const [copied, setCopied] = useState(false);
 
-  // Get the appropriate explorer URL based on the current network
-  const getExplorerUrl = (hash: string) => {
-    if (!chainId) return `https://etherscan.io/tx/${hash}`;
-
-    // Convert decimal to hex if needed
-    const hexChainId = chainId.startsWith("0x") ? chainId : `0x${parseInt(chainId).toString(16)}`;
-
-    switch (hexChainId.toLowerCase()) {
-      case "0x1": // Ethereum Mainnet
-        return `https://etherscan.io/tx/${hash}`;
-      case "0x5": // Goerli Testnet
-        return `https://goerli.etherscan.io/tx/${hash}`;
-      case "0xaa36a7": // Sepolia Testnet
-        return `https://sepolia.etherscan.io/tx/${hash}`;
-      case "0x89": // Polygon
-        return `https://polygonscan.com/tx/${hash}`;
-      case "0xe9": // Amoy Testnet
-        return `https://www.oklink.com/amoy/tx/${hash}`;
-      default:
-        return `https://www.oklink.com/amoy/tx/${hash}`; // Default to Amoy testnet
-    }
-  };
-
   const handleCopyHash = () => {
     navigator.clipboard.writeText(transactionHash);
     setCopied(true);
@@ -56,8 +39,9 @@ export function TransactionConfirmation({
   };
 
   const handleViewOnExplorer = () => {
-    const url = getExplorerUrl(transactionHash);
-    window.open(url, '_blank');
+    if (explorerUrl) {
+      window.open(explorerUrl, '_blank');
+    }
   };
 
   return (
@@ -129,21 +113,40 @@ export function TransactionConfirmation({
                 <p>
                   Your vote has been recorded on the blockchain and cannot be altered. 
                   You can use the transaction hash above to verify your vote on any blockchain explorer.
+                  {receipt && " Keep the receipt to check on the Verify page that your ballot was counted."}
                 </p>
               </div>
             </div>
           </div>
         </div>
         
-        <div className="flex justify-center">
-          <Button 
-            variant="outline" 
-            className="w-full sm:w-auto" 
-            onClick={handleViewOnExplorer}
-          >
-            <ExternalLink className="h-5 w-5 mr-2" />
-            View on Explorer
-          </Button>
+        <div className="flex flex-col sm:flex-row justify-center gap-2">
+          {receipt && (
+            <Button
+              variant="outline"
+              className="w-full sm:w-auto"
+              onClick={() => downloadVoteReceipt(receipt)}
+            >
+              <Download className="h-5 w-5 mr-2" />
+              Download Receipt
+            </Button>
+          )}
+          <Link href="/verify">
+            <Button variant="outline" className="w-full sm:w-auto">
+              <ShieldCheck className="h-5 w-5 mr-2" />
+              Verify My Vote
+            </Button>
+          </Link>
+          {explorerUrl && (
+            <Button 
+              variant="outline" 
+              className="w-full sm:w-auto" 
+              onClick={handleViewOnExplorer}
+            >
+              <ExternalLink className="h-5 w-5 mr-2" />
+              View on {activeNetwork.explorer?.name || "Explorer"}
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ExternalLink, Loader2 } from "lucide-react";
+import { getTransactionDetail } from "@/utils/blockchain";
+import { activeNetwork } from "@/lib/network";
+import { getExplorerTxUrl } from "@shared/networks";
+import type { DecodedParam } from "@shared/abi-decoder";
+
+function ParamList({ params }: { params: DecodedParam[] }) {
+  if (params.length === 0) return <p className="text-xs text-gray-500">No arguments</p>;
+
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 text-xs">
+      {params.map((param) => (
+        <div key={param.name} className="contents">
+          <dt className="text-gray-500">
+            {param.name} <span className="text-gray-400">{param.type}</span>
+          </dt>
+          <dd className="font-mono break-all">
+            {param.components ? (
+              <div className="border-l pl-2">
+                <ParamList params={param.components} />
+              </div>
+            ) : (
+              param.value
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+// The call, events and revert reason of one transaction, decoded with the contract ABI
+export function TransactionDetails({ hash }: { hash: string }) {
+  const { data: detail, isLoading, error } = useQuery({
+    queryKey: ["transaction-detail", hash],
+    queryFn: () => getTransactionDetail(hash),
+    staleTime: Infinity,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Decoding transaction...
+      </div>
+    );
+  }
+  if (error || !detail) {
+    return <p className="text-sm text-gray-500">Transaction details are not available from the network.</p>;
+  }
+
+  const explorerUrl = getExplorerTxUrl(activeNetwork, detail.hash);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-600">
+        <span>Block {detail.blockNumber ?? "pending"}</span>
+        {detail.gasUsed && <span>Gas used {detail.gasUsed}</span>}
+        <span className="font-mono">From {detail.from}</span>
+        {explorerUrl && (
+          <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+            {activeNetwork.explorer?.name || "Explorer"} <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-1">Call</h4>
+        {detail.call ? (
+          <div className="space-y-1">
+            <p className="font-mono text-xs">
+              {detail.call.signature} <span className="text-gray-400">{detail.call.selector}</span>
+            </p>
+            <ParamList params={detail.call.args} />
+          </div>
+        ) : (
+          <p className="font-mono text-xs text-gray-500">Unknown function {detail.selector}</p>
+        )}
+      </div>
+
+      {detail.status === "Failed" && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3">
+          <h4 className="flex items-center gap-1 font-medium text-red-800 mb-1">
+            <AlertTriangle className="h-4 w-4" /> Reverted
+          </h4>
+          {detail.error ? (
+            <div className="space-y-1">
+              <p className="font-mono text-xs">{detail.error.signature}</p>
+              <ParamList params={detail.error.args} />
+            </div>
+          ) : (
+            <p className="font-mono text-xs break-all text-red-700">
+              {detail.rawRevertData ?? "No revert reason returned"}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium mb-1">Events</h4>
+        {detail.events.length === 0 && detail.undecodedLogs === 0 && (
+          <p className="text-xs text-gray-500">No events emitted</p>
+        )}
+        <div className="space-y-3">
+          {detail.events.map((event) => (
+            <div key={event.logIndex} className="space-y-1">
+              <p className="font-mono text-xs">
+                #{event.logIndex} {event.signature}
+              </p>
+              <ParamList params={event.args} />
+            </div>
+          ))}
+        </div>
+        {detail.undecodedLogs > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            {detail.undecodedLogs} log{detail.undecodedLogs === 1 ? "" : "s"} not described by the contract ABI
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState, type ChangeEvent } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, FileJson, CheckCircle2, XCircle, AlertCircle, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { activeNetwork } from "@/lib/network";
+import { getExplorerTxUrl } from "@shared/networks";
+import {
+  computeVoterHash,
+  findVoteCast,
+  getAllCandidates,
+  getElectionInfo,
+  hashNIN,
+  type VoteCastMatch,
+  type VoteSearchProgress,
+} from "@/utils/blockchain";
+import { parseVoteReceipt, type VoteReceipt } from "@/utils/vote-receipt";
+
+const formSchema = z.object({
+  electionId: z.string().regex(/^\d+$/, { message: "Enter the election number" }),
+  nin: z
+    .string()
+    .regex(/^(\d{11})?$/, { message: "NIN must be 11 digits" }),
+});
+
+type VerificationValues = z.infer<typeof formSchema>;
+
+interface VerificationResult {
+  voterHash: string;
+  electionName: string | null;
+  match: VoteCastMatch | null;
+  candidateName: string | null;
+}
+
+// Everything here runs in the browser: the NIN is hashed locally and the vote is looked
+// up directly on the chain's RPC endpoints, never through the BlockVote server.
+export function VoteVerification() {
+  const [receipt, setReceipt] = useState<VoteReceipt | null>(null);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [progress, setProgress] = useState<VoteSearchProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  const form = useForm<VerificationValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      electionId: "",
+      nin: "",
+    },
+  });
+
+  const handleReceiptUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const parsed = parseVoteReceipt(await file.text());
+    if (!parsed.success || !parsed.data) {
+      setReceipt(null);
+      setReceiptError(parsed.error ?? "Invalid receipt");
+      return;
+    }
+    setReceipt(parsed.data);
+    setReceiptError(null);
+    setResult(null);
+    form.setValue("electionId", String(parsed.data.electionId));
+  };
+
+  const onSubmit = async (values: VerificationValues) => {
+    const electionId = Number(values.electionId);
+    const receiptForElection = receipt?.electionId === electionId ? receipt : null;
+    setError(null);
+    setResult(null);
+
+    if (!values.nin && !receiptForElection) {
+      form.setError("nin", { message: "Enter your NIN, or load the receipt for this election" });
+      return;
+    }
+
+    setIsSearching(true);
+    setProgress(null);
+    try {
+      // The hash castVote submitted for this NIN in this election
+      const voterHash = values.nin
+        ? computeVoterHash(electionId, await hashNIN(values.nin))
+        : receiptForElection!.voterHash;
+      if (receiptForElection && voterHash.toLowerCase() !== receiptForElection.voterHash.toLowerCase()) {
+        form.setError("nin", { message: "This NIN does not match the vote receipt" });
+        return;
+      }
+
+      const [info, match] = await Promise.all([
+        getElectionInfo(electionId),
+        findVoteCast(electionId, voterHash, {
+          transactionHash: receiptForElection?.transactionHash,
+          onProgress: setProgress,
+        }),
+      ]);
+
+      let candidateName: string | null = null;
+      if (match) {
+        const candidates = await getAllCandidates(electionId);
+        candidateName = candidates[match.candidateIndex]?.name ?? null;
+      }
+      setResult({ voterHash, electionName: info?.name ?? null, match, candidateName });
+    } catch (err: any) {
+      console.error("Error verifying vote:", err);
+      setError(err.message || "Could not reach the blockchain. Please try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const match = result?.match;
+  const explorerUrl = match ? getExplorerTxUrl(activeNetwork, match.transactionHash) : null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Find Your Vote</CardTitle>
+          <CardDescription>
+            Load the receipt you downloaded after voting, or enter the election number and your NIN.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <label className="inline-flex">
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleReceiptUpload} />
+              <span className="inline-flex items-center rounded-md border border-input bg-background px-4 py-2 text-sm font-medium cursor-pointer hover:bg-accent">
+                <FileJson className="h-4 w-4 mr-2" />
+                Load Vote Receipt
+              </span>
+            </label>
+            {receipt && (
+              <p className="text-sm text-muted-foreground">
+                Receipt for election #{receipt.electionId}
+                {receipt.electionName ? ` (${receipt.electionName})` : ""}, cast {new Date(receipt.castAt).toLocaleString()}.
+              </p>
+            )}
+            {receiptError && <p className="text-sm text-red-600">{receiptError}</p>}
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="electionId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Election Number</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="e.g. 3" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="nin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>NIN{receipt ? " (optional)" : ""}</FormLabel>
+                    <FormControl>
+                      <Input type="password" inputMode="numeric" maxLength={11} placeholder="11-digit NIN" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Hashed in your browser. It is never sent anywhere.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isSearching}>
+                {isSearching ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    {progress ? `Searching blocks ${progress.fromBlock.toLocaleString()}…` : "Searching…"}
+                  </>
+                ) : (
+                  "Verify Vote"
+                )}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Verification failed</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && !match && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>No vote found</AlertTitle>
+          <AlertDescription>
+            No VoteCast for this voter hash was found in election #{form.getValues("electionId")}
+            {result.electionName ? ` (${result.electionName})` : ""}. Check the election number and NIN.
+            <div className="mt-2 font-mono text-xs break-all">{result.voterHash}</div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {match && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {match.counted ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              ) : (
+                <AlertCircle className="h-5 w-5 text-amber-500" />
+              )}
+              {match.counted ? "Your vote was counted" : "Vote found, but not in the tally"}
+            </CardTitle>
+            <CardDescription>
+              {match.counted
+                ? "The contract records this voter hash as having voted, so the ballot is part of the election's tally."
+                : "The VoteCast log exists, but the contract does not report this voter hash as having voted."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <p className="text-muted-foreground">Election</p>
+                <p className="font-medium">#{match.electionId}{result?.electionName ? ` · ${result.electionName}` : ""}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Voted For</p>
+                <p className="font-medium">{result?.candidateName ?? `Candidate #${match.candidateIndex}`}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Block</p>
+                <p className="font-medium">{match.blockNumber.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Confirmations</p>
+                <p className="font-medium">{match.confirmations.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Mined</p>
+                <p className="font-medium">{match.timestamp.toLocaleString()}</p>
+              </div>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Voter Hash</p>
+              <p className="font-mono text-xs break-all">{match.voterHash}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Transaction</p>
+              <p className="font-mono text-xs break-all">
+                {explorerUrl ? (
+                  <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="underline inline-flex items-center gap-1">
+                    {match.transactionHash}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                ) : (
+                  match.transactionHash
+                )}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
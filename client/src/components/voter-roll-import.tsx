@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { downloadVoterImportErrors, importVoterRoll } from "@/utils/voters";
+import {
+  MAX_VOTER_IMPORT_ROWS,
+  VOTER_IMPORT_STATUS_LABELS,
+  type VoterImportReport,
+  type VoterImportRowStatus,
+} from "@shared/voter-import";
+
+interface VoterRollImportProps {
+  // Registrations are locked, so only a dry run is possible
+  locked: boolean;
+  onImported: () => void;
+}
+
+const STATUS_STYLES: Record<VoterImportRowStatus, string> = {
+  valid: "bg-green-50 text-green-700 border-green-200",
+  imported: "bg-green-100 text-green-800 border-green-300",
+  invalid: "bg-red-50 text-red-700 border-red-200",
+  duplicate: "bg-yellow-50 text-yellow-800 border-yellow-200",
+};
+
+// Rows shown in the preview; the error report has all of them
+const PREVIEW_ROWS = 100;
+
+// Pre-registered voter roll upload: every file gets a dry run first, and the import itself
+// registers only the rows the server accepts.
+export function VoterRollImport({ locked, onImported }: VoterRollImportProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<VoterImportReport | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const run = async (selected: File, dryRun: boolean) => {
+    setWorking(true);
+    try {
+      const result = await importVoterRoll(selected, dryRun);
+      setReport(result);
+      if (!dryRun) {
+        toast({
+          title: "Voter roll imported",
+          description: `${result.counts.imported} voter${result.counts.imported === 1 ? "" : "s"} registered`,
+        });
+        onImported();
+      }
+    } catch (err: any) {
+      setReport(null);
+      toast({
+        title: dryRun ? "Could not read the voter roll" : "Import failed",
+        description: getApiErrorMessage(err),
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = (selected: File | undefined) => {
+    setFile(selected ?? null);
+    setReport(null);
+    if (selected) run(selected, true);
+  };
+
+  const problems = report ? report.counts.invalid + report.counts.duplicate : 0;
+  // Problem rows first, so they are in the preview even for long files
+  const previewRows = report
+    ? [...report.rows]
+        .sort((a, b) => Number(b.errors.length > 0) - Number(a.errors.length > 0) || a.line - b.line)
+        .slice(0, PREVIEW_ROWS)
+    : [];
+
+  return (
+    <div className="p-4 bg-white border rounded-lg space-y-4">
+      <div>
+        <h3 className="font-medium">Import Voter Roll</h3>
+        <p className="text-sm text-gray-500">
+          CSV or XLSX with <span className="font-mono">nin</span>, <span className="font-mono">wallet_address</span> and{" "}
+          <span className="font-mono">constituency</span> columns, up to {MAX_VOTER_IMPORT_ROWS.toLocaleString()} rows.
+          Keep the NIN column formatted as text so leading zeros survive.
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor="voter-roll-file">Voter roll file</Label>
+        <Input
+          id="voter-roll-file"
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={working}
+          className="mt-1"
+        />
+      </div>
+
+      {working && (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Checking rows…
+        </div>
+      )}
+
+      {report && file && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600">{report.dryRun ? "Preview:" : "Result:"}</span>
+            {(Object.keys(report.counts) as VoterImportRowStatus[])
+              .filter((status) => report.counts[status] > 0)
+              .map((status) => (
+                <Badge key={status} variant="outline" className={STATUS_STYLES[status]}>
+                  {VOTER_IMPORT_STATUS_LABELS[status]}: {report.counts[status]}
+                </Badge>
+              ))}
+          </div>
+
+          <div className="rounded-md border max-h-80 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>NIN</TableHead>
+                  <TableHead>Wallet Address</TableHead>
+                  <TableHead>Constituency</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewRows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell className="font-mono">{row.ninMasked}</TableCell>
+                    <TableCell className="font-mono truncate max-w-[120px]">{row.walletAddress}</TableCell>
+                    <TableCell>{row.constituency}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_STYLES[row.status]}>
+                        {VOTER_IMPORT_STATUS_LABELS[row.status]}
+                      </Badge>
+                      {row.errors.length > 0 && <p className="text-xs text-red-600 mt-1">{row.errors.join(" ")}</p>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {report.rows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500">
+              Showing {PREVIEW_ROWS} of {report.rows.length} rows.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {problems > 0 && (
+              <Button variant="outline" size="sm" onClick={() => downloadVoterImportErrors(report, file.name)}>
+                <Download className="h-4 w-4 mr-1" />
+                Download error report
+              </Button>
+            )}
+            {report.dryRun && (
+              <Button
+                size="sm"
+                onClick={() => run(file, false)}
+                disabled={working || locked || report.counts.valid === 0}
+                title={locked ? "Registrations are locked" : undefined}
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                Import {report.counts.valid} voter{report.counts.valid === 1 ? "" : "s"}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
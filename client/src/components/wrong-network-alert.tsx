@@ -0,0 +1,38 @@
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { findNetworkByChainId } from "@shared/networks";
+import { useMetaMask } from "@/hooks/use-metamask";
+
+interface WrongNetworkAlertProps {
+  // What the user is blocked from doing, e.g. "cast your vote"
+  action: string;
+}
+
+// Shown in place of wallet actions while MetaMask is on a chain other than the configured one
+export function WrongNetworkAlert({ action }: WrongNetworkAlertProps) {
+  const { chainId, expectedNetwork, switchNetwork, isSwitchingNetwork } = useMetaMask();
+  const currentNetwork = chainId ? findNetworkByChainId(chainId) : undefined;
+
+  return (
+    <Alert className="bg-amber-50 border-amber-200">
+      <AlertTriangle className="h-5 w-5 text-amber-500" />
+      <AlertTitle className="text-amber-800">Wrong network</AlertTitle>
+      <AlertDescription className="text-amber-700">
+        <p>
+          Your wallet is connected to {currentNetwork?.name || `chain ${chainId}`}, but BlockVote
+          runs on {expectedNetwork.name}. Switch networks to {action}.
+        </p>
+        <Button
+          className="mt-3"
+          size="sm"
+          onClick={() => switchNetwork()}
+          disabled={isSwitchingNetwork}
+        >
+          {isSwitchingNetwork && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Switch to {expectedNetwork.name}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
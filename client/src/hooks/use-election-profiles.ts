@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  getElectionMetadata,
+  getElectionProfiles,
+  type LoadedCandidateProfile,
+} from '@/utils/candidate-profiles';
+
+interface OnChainCandidate {
+  index: number;
+  name: string;
+  party: string;
+}
+
+// Published metadata and candidate profiles of an on-chain election. Profiles and metadata
+// never change once published, so they are fetched once per election.
+export const useElectionProfiles = (electionId: number | undefined) => {
+  const { data: metadata } = useQuery({
+    queryKey: ['electionMetadata', electionId],
+    queryFn: () => getElectionMetadata(electionId!),
+    enabled: !!electionId,
+    staleTime: Infinity,
+  });
+
+  const { data: profiles } = useQuery({
+    queryKey: ['electionProfiles', electionId, metadata?.metadataHash],
+    queryFn: () => getElectionProfiles(metadata!),
+    enabled: !!metadata,
+    staleTime: Infinity,
+  });
+
+  // A profile is only shown as verified when the pinned metadata, the profile content and
+  // the on-chain candidate all agree
+  const profileFor = (candidate: OnChainCandidate): LoadedCandidateProfile | undefined => {
+    const loaded = profiles?.get(candidate.index);
+    const pinned = metadata?.metadata.candidates[candidate.index];
+    if (!metadata || !loaded || !pinned) return undefined;
+
+    const verified =
+      metadata.verified &&
+      metadata.metadata.electionId === electionId &&
+      loaded.verified &&
+      pinned.name === candidate.name &&
+      pinned.party === candidate.party;
+    return { ...loaded, verified };
+  };
+
+  return { metadata: metadata ?? null, profileFor };
+};
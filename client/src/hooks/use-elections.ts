@@ -0,0 +1,87 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useFallbackPollInterval } from '@/lib/live-updates';
+import { chainClock } from '@/utils/blockchain';
+import {
+  loadElectionResults,
+  loadElections,
+  withStatus,
+  type Election,
+  type ElectionWithResults,
+} from '@/utils/elections';
+import { findActiveElection } from '@shared/elections';
+
+// Shared query keys for contract election state; live updates invalidate everything under
+// electionKeys.all
+export const electionKeys = {
+  all: ['elections'] as const,
+  list: () => [...electionKeys.all, 'list'] as const,
+  results: (electionId: number) => [...electionKeys.all, 'results', electionId] as const,
+};
+
+// How often statuses are re-derived, so elections open and close without a refetch
+const STATUS_TICK_MS = 15000;
+
+// Chain time (see lib/chain-clock.ts), re-rendering every `tickMs`
+export const useChainNow = (tickMs: number = STATUS_TICK_MS): Date => {
+  const offset = useSyncExternalStore(chainClock.subscribe, chainClock.getOffset);
+  const [localNow, setLocalNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    chainClock.sync();
+    const timer = setInterval(() => setLocalNow(Date.now()), tickMs);
+    return () => clearInterval(timer);
+  }, [tickMs]);
+
+  return new Date(localNow + offset);
+};
+
+interface ElectionQueryOptions {
+  enabled?: boolean;
+}
+
+// Every election the contract has created, oldest first
+export const useElections = ({ enabled = true }: ElectionQueryOptions = {}) => {
+  const pollInterval = useFallbackPollInterval();
+  const now = useChainNow();
+
+  return useQuery({
+    queryKey: electionKeys.list(),
+    queryFn: loadElections,
+    select: (records): Election[] => records.map((record) => withStatus(record, now)),
+    enabled,
+    staleTime: 30000,
+    refetchInterval: pollInterval,
+  });
+};
+
+// One election with its candidates' results; null if the contract has no such election
+export const useElection = (electionId: number | undefined, { enabled = true }: ElectionQueryOptions = {}) => {
+  const pollInterval = useFallbackPollInterval();
+  const now = useChainNow();
+
+  return useQuery({
+    queryKey: electionKeys.results(electionId ?? 0),
+    queryFn: () => loadElectionResults(electionId!),
+    select: (record): ElectionWithResults | null => (record ? withStatus(record, now) : null),
+    enabled: enabled && !!electionId,
+    staleTime: 30000,
+    refetchInterval: pollInterval,
+  });
+};
+
+// The election open for voting with its results. `election` is undefined while loading and
+// null when nothing is open.
+export const useActiveElection = (options: ElectionQueryOptions = {}) => {
+  const elections = useElections(options);
+  const active = elections.data ? findActiveElection(elections.data) : undefined;
+  const results = useElection(active?.id, options);
+
+  const election: ElectionWithResults | null | undefined =
+    active === undefined ? undefined : active === null ? null : results.data;
+  return {
+    election,
+    isLoading: elections.isLoading || (!!active && results.isLoading),
+    error: elections.error ?? results.error,
+  };
+};
@@ -2,6 +2,11 @@ import { useState, useEffect, useCallback } from 'react';
 import detectEthereumProvider from '@metamask/detect-provider';
 import * as ethers from 'ethers';
 import { useToast } from './use-toast';
+import { activeNetwork } from '../lib/network';
+import { toAddEthereumChainParams, toHexChainId, type NetworkConfig } from '@shared/networks';
+
+// MetaMask error code for a chain it has never been told about
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
 
 export type MetaMaskState = {
   isMetaMaskInstalled: boolean;
@@ -12,6 +17,7 @@ export type MetaMaskState = {
   provider: any | null;
   signer: ethers.Signer | null;
   error: string | null;
+  isSwitchingNetwork: boolean;
 };
 
 // Use a function to create the hook instead of a hook directly
@@ -27,6 +33,7 @@ export const useMetaMask = function() {
     provider: null,
     signer: null,
     error: null,
+    isSwitchingNetwork: false,
   });
 
   // Detect if MetaMask is installed without auto-connecting
@@ -35,9 +42,15 @@ export const useMetaMask = function() {
       try {
         const provider = await detectEthereumProvider({ silent: true });
         
+        // Reading the chain id doesn't require the user to connect
+        const chainId = provider && window.ethereum
+          ? await window.ethereum.request({ method: 'eth_chainId' })
+          : null;
+
         setState(prevState => ({
           ...prevState,
-          isMetaMaskInstalled: !!provider
+          isMetaMaskInstalled: !!provider,
+          chainId: chainId ? Number(chainId).toString() : prevState.chainId
         }));
       } catch (error) {
         console.error('Error detecting provider:', error);
@@ -67,15 +80,23 @@ export const useMetaMask = function() {
     }
   }, []);
 
-  // Handle chain changes
-  const handleChainChanged = useCallback((chainId: string) => {
+  // Handle chain changes - rebuild the provider and signer for the new chain instead of reloading
+  const handleChainChanged = useCallback(async (chainId: string) => {
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    let signer: ethers.Signer | null = null;
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_accounts' });
+      signer = accounts.length > 0 ? await provider.getSigner() : null;
+    } catch (error) {
+      console.error('Error refreshing signer after chain change:', error);
+    }
+
     setState(prevState => ({
       ...prevState,
-      chainId
+      chainId: Number(chainId).toString(),
+      provider: prevState.isConnected ? provider : prevState.provider,
+      signer: prevState.isConnected ? signer : prevState.signer
     }));
-    
-    // Reload the page when the chain changes
-    window.location.reload();
   }, []);
 
   // Subscribe to ethereum events without auto-connecting or checking accounts
@@ -197,11 +218,64 @@ export const useMetaMask = function() {
     }
   }, [state.signer, toast]);
 
+  // Ask the wallet to switch to the configured network, registering it first if unknown
+  const switchNetwork = useCallback(async (network: NetworkConfig = activeNetwork) => {
+    if (!window.ethereum) {
+      toast({
+        title: "MetaMask not found",
+        description: "Please install MetaMask browser extension to continue",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    setState(prevState => ({ ...prevState, isSwitchingNetwork: true }));
+    try {
+      try {
+        await window.ethereum.request({
+          method: 'wallet_switchEthereumChain',
+          params: [{ chainId: toHexChainId(network.chainId) }]
+        });
+      } catch (error: any) {
+        const code = error?.code ?? error?.data?.originalError?.code;
+        if (code !== UNRECOGNIZED_CHAIN_ERROR) throw error;
+
+        await window.ethereum.request({
+          method: 'wallet_addEthereumChain',
+          params: [toAddEthereumChainParams(network)]
+        });
+      }
+
+      toast({
+        title: "Network switched",
+        description: `Connected to ${network.name}`,
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Error switching network:', error);
+
+      toast({
+        title: "Network Switch Failed",
+        description: error.message || `Please switch to ${network.name} in MetaMask`,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setState(prevState => ({ ...prevState, isSwitchingNetwork: false }));
+    }
+  }, [toast]);
+
+  // chainId is kept as a decimal string; unknown until MetaMask reports it
+  const isWrongNetwork = state.chainId !== null && Number(state.chainId) !== activeNetwork.chainId;
+
   return {
     ...state,
+    expectedNetwork: activeNetwork,
+    isWrongNetwork,
     connect,
     disconnect,
-    signMessage
+    signMessage,
+    switchNetwork
   };
 }
 
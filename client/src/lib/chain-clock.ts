@@ -0,0 +1,70 @@
+// The current time as the chain sees it. The contract checks voting windows against block
+// timestamps, so an election opens when the chain says so, not when the browser's clock
+// does. The clock measures the offset between the latest block's timestamp and the local
+// clock (halving the round trip) and applies it to Date.now().
+//
+// Block timestamps trail real time by up to one block interval, so offsets smaller than
+// SKEW_TOLERANCE_MS are treated as no skew at all.
+
+const SKEW_TOLERANCE_MS = 15000;
+const RESYNC_AFTER_MS = 5 * 60 * 1000;
+
+type ReadBlockTime = () => Promise<number>;
+
+export class ChainClock {
+  private offsetMs = 0;
+  private syncedAt: number | null = null;
+  private syncing: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  // `readBlockTime` returns the latest block's timestamp in seconds
+  constructor(private readonly readBlockTime: ReadBlockTime) {}
+
+  now(): Date {
+    return new Date(Date.now() + this.offsetMs);
+  }
+
+  // Milliseconds the chain is ahead of this browser (negative when behind)
+  getOffset = (): number => this.offsetMs;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Measure the offset unless it was measured recently. Concurrent callers share one
+  // request; a failed read keeps the previous offset.
+  sync(): Promise<void> {
+    if (this.syncedAt !== null && Date.now() - this.syncedAt < RESYNC_AFTER_MS) return Promise.resolve();
+    if (!this.syncing) {
+      this.syncing = this.measure().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async measure(): Promise<void> {
+    try {
+      const sentAt = Date.now();
+      const blockTime = await this.readBlockTime();
+      const receivedAt = Date.now();
+
+      const measured = blockTime * 1000 - (sentAt + receivedAt) / 2;
+      const offset = Math.abs(measured) < SKEW_TOLERANCE_MS ? 0 : Math.round(measured);
+      this.syncedAt = receivedAt;
+      if (offset !== this.offsetMs) {
+        if (offset !== 0) {
+          const seconds = Math.round(Math.abs(offset) / 1000);
+          console.warn(`Browser clock is ${seconds}s ${offset > 0 ? 'behind' : 'ahead of'} chain time; using chain time`);
+        }
+        this.offsetMs = offset;
+        this.listeners.forEach((listener) => listener());
+      }
+    } catch (error) {
+      console.warn('Could not read the latest block time; keeping the previous clock offset:', error);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { emptyFaceMetrics, toFaceMetrics, type FaceMetrics } from "@shared/liveness";
+
+// Weights are served by our own server (see server/liveness.ts); nothing leaves the device
+export const FACE_MODEL_URL = "/models/face-api";
+
+// Turns a video frame into FaceMetrics. The liveness check only depends on this
+// interface, so another on-device model can be dropped in.
+export interface FaceDetector {
+  detect(input: HTMLVideoElement | HTMLCanvasElement, timestamp: number): Promise<FaceMetrics>;
+}
+
+let faceApiDetector: Promise<FaceDetector> | null = null;
+
+async function createFaceApiDetector(modelUrl: string): Promise<FaceDetector> {
+  // TF.js and the model code are large, so they are only loaded once a check starts
+  const faceapi = await import("@vladmandic/face-api");
+
+  // The bundled TF.js exposes the full engine at runtime, but its typings only cover the ops face-api uses
+  const tf = faceapi.tf as unknown as {
+    setBackend(name: string): Promise<boolean>;
+    ready(): Promise<void>;
+  };
+  if (!(await tf.setBackend("webgl").catch(() => false))) {
+    console.warn("WebGL backend unavailable, running the face model on the CPU");
+    await tf.setBackend("cpu");
+  }
+  await tf.ready();
+
+  await Promise.all([
+    faceapi.nets.tinyFaceDetector.loadFromUri(modelUrl),
+    faceapi.nets.faceLandmark68Net.loadFromUri(modelUrl),
+    faceapi.nets.faceExpressionNet.loadFromUri(modelUrl),
+  ]);
+
+  const options = new faceapi.TinyFaceDetectorOptions({ inputSize: 224, scoreThreshold: 0.5 });
+
+  return {
+    async detect(input, timestamp) {
+      const faces = await faceapi
+        .detectAllFaces(input, options)
+        .withFaceLandmarks()
+        .withFaceExpressions();
+
+      if (faces.length !== 1) {
+        return emptyFaceMetrics(timestamp, faces.length);
+      }
+
+      const [face] = faces;
+      return toFaceMetrics(
+        face.landmarks.positions.map(({ x, y }) => ({ x, y })),
+        timestamp,
+        face.expressions.happy,
+      );
+    },
+  };
+}
+
+// Shared detector backed by face-api (TinyFaceDetector + 68-point landmarks + expressions)
+export function loadFaceDetector(modelUrl: string = FACE_MODEL_URL): Promise<FaceDetector> {
+  if (!faceApiDetector) {
+    faceApiDetector = createFaceApiDetector(modelUrl).catch((error) => {
+      faceApiDetector = null;
+      throw error;
+    });
+  }
+  return faceApiDetector;
+}
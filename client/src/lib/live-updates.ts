@@ -0,0 +1,107 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import type { LiveUpdate } from '@shared/live';
+import { invalidateElectionCache } from '@/utils/blockchain';
+
+// One EventSource on /api/live for the whole app. Updates invalidate the queries they
+// affect; while the stream is down `useLiveConnected()` is false and components fall back
+// to polling (see LIVE_FALLBACK_POLL_MS).
+
+export const LIVE_FALLBACK_POLL_MS = 60000;
+
+type Listener = (update: LiveUpdate) => void;
+
+const listeners = new Set<Listener>();
+const statusListeners = new Set<() => void>();
+let connected = false;
+
+const setConnected = (value: boolean) => {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach((listener) => listener());
+};
+
+// Query keys whose data comes from the contract's election state; ['elections'] covers
+// every key from hooks/use-elections.ts
+const ELECTION_QUERY_KEYS: QueryKey[] = [
+  ['elections'],
+  ['/api/elections'],
+  ['participation'],
+];
+
+const isEventHistoryQuery = (queryKey: QueryKey) =>
+  typeof queryKey[0] === 'string' && queryKey[0].startsWith('/api/events');
+
+const applyUpdate = (queryClient: QueryClient, update: LiveUpdate) => {
+  if (update.type === 'EventsIndexed') {
+    queryClient.invalidateQueries({ predicate: (query) => isEventHistoryQuery(query.queryKey) });
+  } else {
+    invalidateElectionCache(update.type === 'VoteCast' ? update.electionId : undefined);
+    ELECTION_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+  }
+  listeners.forEach((listener) => listener(update));
+};
+
+// Open the stream; returns a function that closes it
+export const startLiveUpdates = (queryClient: QueryClient): (() => void) => {
+  if (typeof EventSource === 'undefined') return () => {};
+
+  const source = new EventSource('/api/live');
+  let dropped = false;
+
+  source.onopen = () => {
+    setConnected(true);
+    // Anything may have happened while we were disconnected
+    if (dropped) {
+      invalidateElectionCache();
+      ELECTION_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      queryClient.invalidateQueries({ predicate: (query) => isEventHistoryQuery(query.queryKey) });
+    }
+  };
+  source.onerror = () => {
+    // EventSource reconnects on its own (after the server's retry delay)
+    dropped = true;
+    setConnected(false);
+  };
+  source.onmessage = (message) => {
+    try {
+      applyUpdate(queryClient, JSON.parse(message.data) as LiveUpdate);
+    } catch (err) {
+      console.warn('Ignoring malformed live update:', err);
+    }
+  };
+
+  return () => {
+    source.close();
+    setConnected(false);
+  };
+};
+
+export const useLiveConnected = (): boolean =>
+  useSyncExternalStore(
+    (onChange) => {
+      statusListeners.add(onChange);
+      return () => {
+        statusListeners.delete(onChange);
+      };
+    },
+    () => connected,
+  );
+
+// Run `listener` (the latest render's) for every update, for components that keep their own state
+export const useLiveUpdates = (listener: Listener): void => {
+  const latest = useRef(listener);
+  latest.current = listener;
+
+  useEffect(() => {
+    const forward: Listener = (update) => latest.current(update);
+    listeners.add(forward);
+    return () => {
+      listeners.delete(forward);
+    };
+  }, []);
+};
+
+// refetchInterval for contract-backed queries: off while updates are pushed
+export const useFallbackPollInterval = (): number | false =>
+  useLiveConnected() ? false : LIVE_FALLBACK_POLL_MS;
@@ -0,0 +1,31 @@
+import { isNetworkKey, resolveNetwork, DEFAULT_NETWORK, type NetworkConfig } from "@shared/networks";
+
+// The build picks its network with VITE_NETWORK. Opening a page with ?network=<key> points
+// that page load at another registry entry (e.g. ?network=local for development). It is
+// deliberately not remembered: a shared link must not leave a voter's browser on another
+// chain and contract than the server's.
+function selectNetworkKey(): string {
+  const buildNetwork = import.meta.env?.VITE_NETWORK || DEFAULT_NETWORK;
+  if (typeof window === "undefined") return buildNetwork;
+
+  const fromQuery = new URLSearchParams(window.location.search).get("network");
+  return isNetworkKey(fromQuery) ? fromQuery : buildNetwork;
+}
+
+function loadActiveNetwork(): NetworkConfig {
+  const key = selectNetworkKey();
+  const buildNetwork = import.meta.env?.VITE_NETWORK || DEFAULT_NETWORK;
+
+  // Env overrides describe the build's own network, so they don't leak into a runtime switch
+  if (key !== buildNetwork) return resolveNetwork(key);
+
+  return resolveNetwork(key, {
+    rpcUrl: import.meta.env?.VITE_ALCHEMY_URL,
+    contractAddress: import.meta.env?.VITE_CONTRACT_ADDRESS,
+    deploymentBlock: import.meta.env?.VITE_DEPLOYMENT_BLOCK
+      ? Number(import.meta.env.VITE_DEPLOYMENT_BLOCK)
+      : undefined,
+  });
+}
+
+export const activeNetwork = loadActiveNetwork();
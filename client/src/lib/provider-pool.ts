@@ -0,0 +1,161 @@
+import { ethers } from "ethers";
+
+// Pool of JSON-RPC endpoints with per-endpoint health scoring. Each endpoint keeps one
+// long-lived provider, so connections (and ethers' JSON-RPC request batching) are reused.
+
+interface EndpointHealth {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  // Exponentially weighted moving averages
+  latencyMs: number;
+  errorRate: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  requests: number;
+  failures: number;
+}
+
+export interface EndpointStats {
+  url: string;
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  coolingDown: boolean;
+}
+
+export interface ProviderPoolOptions {
+  chainId: number;
+  // Requests whose JSON-RPC calls are collected into one batch
+  batchMaxCount?: number;
+  batchStallTimeMs?: number;
+  // Base cooldown after a failure; doubles with each consecutive failure
+  cooldownMs?: number;
+}
+
+const SMOOTHING = 0.3;
+const INITIAL_LATENCY_MS = 500;
+const MAX_COOLDOWN_MS = 60000;
+
+// Errors that say nothing about the request itself, only about the endpoint serving it
+export function isRetryableRpcError(error: any): boolean {
+  const code = error?.info?.error?.code ?? error?.error?.code;
+  const message: string = error?.info?.error?.message || error?.message || "";
+
+  return (
+    code === -32001 || // Alchemy "Unable to complete request"
+    code === -32005 || // limit exceeded
+    code === 429 ||
+    error?.code === "TIMEOUT" ||
+    error?.code === "NETWORK_ERROR" ||
+    error?.code === "SERVER_ERROR" ||
+    message.includes("Unable to complete request") ||
+    message.includes("Internal error") ||
+    message.includes("rate limit") ||
+    message.includes("Failed to fetch")
+  );
+}
+
+export class ProviderPool {
+  private endpoints: EndpointHealth[];
+  private readonly cooldownMs: number;
+
+  constructor(urls: string[], options: ProviderPoolOptions) {
+    if (urls.length === 0) {
+      throw new Error("ProviderPool requires at least one RPC endpoint");
+    }
+
+    const network = ethers.Network.from(options.chainId);
+    this.cooldownMs = options.cooldownMs ?? 5000;
+    this.endpoints = Array.from(new Set(urls)).map((url) => ({
+      url,
+      provider: new ethers.JsonRpcProvider(url, network, {
+        staticNetwork: network,
+        batchMaxCount: options.batchMaxCount ?? 20,
+        batchStallTime: options.batchStallTimeMs ?? 10,
+      }),
+      latencyMs: INITIAL_LATENCY_MS,
+      errorRate: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      requests: 0,
+      failures: 0,
+    }));
+  }
+
+  // Lower is better: slow endpoints and endpoints that keep failing sink to the bottom
+  private score(endpoint: EndpointHealth): number {
+    return endpoint.latencyMs * (1 + endpoint.errorRate * 10);
+  }
+
+  // Healthy endpoints ordered best-first, followed by cooling-down ones as a last resort
+  private ranked(): EndpointHealth[] {
+    const now = Date.now();
+    const byScore = (a: EndpointHealth, b: EndpointHealth) => this.score(a) - this.score(b);
+    const available = this.endpoints.filter((e) => e.cooldownUntil <= now).sort(byScore);
+    const coolingDown = this.endpoints
+      .filter((e) => e.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return [...available, ...coolingDown];
+  }
+
+  // The provider currently judged healthiest
+  getProvider(): ethers.JsonRpcProvider {
+    return this.ranked()[0].provider;
+  }
+
+  async execute<T>(request: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const endpoint of this.ranked()) {
+      const start = Date.now();
+      endpoint.requests++;
+      try {
+        const result = await request(endpoint.provider);
+        this.recordSuccess(endpoint, Date.now() - start);
+        return result;
+      } catch (error) {
+        if (!isRetryableRpcError(error)) {
+          // Reverts and bad arguments fail the same way everywhere - don't fail over
+          this.recordSuccess(endpoint, Date.now() - start);
+          throw error;
+        }
+        this.recordFailure(endpoint);
+        lastError = error;
+        console.warn(`RPC endpoint ${endpoint.url} failed, failing over:`, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private recordSuccess(endpoint: EndpointHealth, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING;
+    endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING);
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  private recordFailure(endpoint: EndpointHealth): void {
+    endpoint.failures++;
+    endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + SMOOTHING;
+    endpoint.consecutiveFailures++;
+    const cooldown = Math.min(
+      this.cooldownMs * 2 ** (endpoint.consecutiveFailures - 1),
+      MAX_COOLDOWN_MS,
+    );
+    endpoint.cooldownUntil = Date.now() + cooldown;
+  }
+
+  getStats(): EndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      latencyMs: Math.round(endpoint.latencyMs),
+      errorRate: Number(endpoint.errorRate.toFixed(3)),
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      coolingDown: endpoint.cooldownUntil > now,
+    }));
+  }
+}
@@ -7,6 +7,19 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "<status>: <body>"; pull out the server's message
+export function getApiErrorMessage(error: any): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || "");
+  if (match) {
+    try {
+      return JSON.parse(match[1]).message || match[1];
+    } catch {
+      return match[1];
+    }
+  }
+  return error?.message || "An unexpected error occurred";
+}
+
 export async function apiRequest(
   method: string,
   url: string,
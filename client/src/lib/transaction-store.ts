@@ -0,0 +1,57 @@
+import type { LocalTransaction } from './transaction-tracker';
+
+// IndexedDB copy of the transactions this browser sent, so they survive a refresh or a
+// closed tab. Every call opens the database on demand; when IndexedDB is unavailable
+// (private windows in some browsers) reads come back empty and writes are skipped.
+
+const DB_NAME = 'blockvote';
+const DB_VERSION = 1;
+const STORE = 'transactions';
+
+let opening: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!opening) {
+    opening = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'hash' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, pending transactions are kept in memory only:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return opening;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveLocalTransaction = async (transaction: LocalTransaction): Promise<void> => {
+  await run('readwrite', (store) => store.put(transaction));
+};
+
+export const getLocalTransactions = async (): Promise<LocalTransaction[]> =>
+  (await run<LocalTransaction[]>('readonly', (store) => store.getAll())) ?? [];
+
+export const deleteLocalTransaction = async (hash: string): Promise<void> => {
+  await run('readwrite', (store) => store.delete(hash));
+};
@@ -0,0 +1,288 @@
+import { useSyncExternalStore } from 'react';
+import type { ethers } from 'ethers';
+import {
+  isSettled,
+  type SentTransaction,
+  type TrackedTransactionPurpose,
+  type TrackedTransactionStatus,
+  type TransactionCheck,
+} from '@shared/transactions';
+import { deleteLocalTransaction, getLocalTransactions, saveLocalTransaction } from '@/lib/transaction-store';
+import {
+  checkTrackedTransaction,
+  getTrackedTransactions,
+  reportTransaction,
+  type ReportedTransaction,
+  type TrackedTransaction,
+} from '@/utils/transactions';
+
+// Follows the transactions this browser sends until they are mined, replaced or dropped,
+// instead of a tx.wait() that dies with the page. Each one is written to IndexedDB and
+// reported to the server as soon as the wallet returns it; on load, anything unsettled is
+// picked up again. Off-chain side effects are committed by the server once the transaction
+// is confirmed (commit() asks it to do so right away).
+
+export interface LocalTransaction extends ReportedTransaction {
+  submittedAt: string;
+  status: TrackedTransactionStatus;
+  minedHash: string | null;
+  blockNumber: number | null;
+  // The server committed the side effect, or refused to
+  committed: boolean;
+  commitError: string | null;
+}
+
+export interface TrackContext {
+  electionId?: number;
+  draftId?: number;
+}
+
+type Check = (sent: SentTransaction) => Promise<TransactionCheck>;
+type SettledListener = (transaction: LocalTransaction) => void;
+
+const DEFAULT_POLL_MS = 4000;
+// How long the browser keeps asking the server to commit; after that the server's own
+// polling does it
+const COMMIT_ATTEMPTS = 10;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Nothing left to do for it: settled on-chain and, if confirmed, committed or refused
+const isDone = (transaction: LocalTransaction) =>
+  isSettled(transaction.status) &&
+  (transaction.status !== 'confirmed' || transaction.committed || transaction.commitError !== null);
+
+const fromServer = (tracked: TrackedTransaction): LocalTransaction => ({
+  hash: tracked.hash,
+  from: tracked.from,
+  nonce: tracked.nonce,
+  to: tracked.to,
+  data: tracked.data,
+  value: tracked.value,
+  startBlock: tracked.startBlock,
+  purpose: tracked.purpose,
+  electionId: tracked.electionId,
+  draftId: tracked.draftId,
+  submittedAt: tracked.submittedAt,
+  status: tracked.status,
+  minedHash: tracked.minedHash,
+  blockNumber: tracked.blockNumber,
+  committed: tracked.committedAt !== null,
+  commitError: tracked.commitError,
+});
+
+export class TransactionTracker {
+  private transactions = new Map<string, LocalTransaction>();
+  private following = new Map<string, Promise<LocalTransaction>>();
+  private committing = new Set<string>();
+  private listeners = new Set<() => void>();
+  private settledListeners = new Set<SettledListener>();
+  private snapshot: LocalTransaction[] = [];
+
+  constructor(
+    private readonly check: Check,
+    private readonly pollMs = DEFAULT_POLL_MS,
+  ) {}
+
+  // Start following a transaction the wallet just returned. `startBlock` is the latest
+  // block before it was sent.
+  async track(
+    tx: ethers.TransactionResponse,
+    startBlock: number,
+    purpose: TrackedTransactionPurpose,
+    context: TrackContext = {},
+  ): Promise<LocalTransaction> {
+    const transaction: LocalTransaction = {
+      hash: tx.hash,
+      from: tx.from.toLowerCase(),
+      nonce: tx.nonce,
+      to: (tx.to ?? '').toLowerCase(),
+      data: tx.data,
+      value: tx.value.toString(),
+      startBlock,
+      purpose,
+      electionId: context.electionId ?? null,
+      draftId: context.draftId ?? null,
+      submittedAt: new Date().toISOString(),
+      status: 'pending',
+      minedHash: null,
+      blockNumber: null,
+      committed: false,
+      commitError: null,
+    };
+    await this.store(transaction);
+    await this.report(transaction);
+    return transaction;
+  }
+
+  // Follow a transaction the server sent for this browser, i.e. a relayed ballot. The server
+  // already tracks it, so there is nothing to report.
+  async adopt(tracked: TrackedTransaction): Promise<LocalTransaction> {
+    return this.store(fromServer(tracked));
+  }
+
+  // Resolves once the transaction is confirmed, failed, replaced or dropped
+  wait(hash: string): Promise<LocalTransaction> {
+    let following = this.following.get(hash);
+    if (!following) {
+      following = this.follow(hash).finally(() => this.following.delete(hash));
+      this.following.set(hash, following);
+    }
+    return following;
+  }
+
+  // Ask the server to commit a confirmed transaction's side effect now
+  async commit(hash: string): Promise<LocalTransaction> {
+    let current = this.transactions.get(hash);
+    if (!current) throw new Error(`Transaction ${hash} is not tracked.`);
+    let tracked = await checkTrackedTransaction(hash);
+    if (!tracked) {
+      // The report was lost (offline, server restart with in-memory storage); send it again
+      await this.report(current);
+      tracked = await checkTrackedTransaction(hash);
+    }
+    if (tracked) {
+      current = await this.store({
+        ...current,
+        committed: tracked.committedAt !== null,
+        commitError: tracked.commitError,
+      });
+    }
+    if (isDone(current)) await deleteLocalTransaction(hash);
+    return current;
+  }
+
+  // Pick up what this browser left unsettled, plus anything the server has for `addresses`
+  // (another tab or device). Safe to call again, e.g. once a wallet connects.
+  async resume(addresses: string[] = []): Promise<void> {
+    for (const transaction of await getLocalTransactions()) {
+      if (!this.transactions.has(transaction.hash)) this.transactions.set(transaction.hash, transaction);
+    }
+    for (const address of addresses) {
+      try {
+        for (const tracked of await getTrackedTransactions(address)) {
+          const local = fromServer(tracked);
+          if (!this.transactions.has(local.hash) && !isDone(local)) await this.store(local);
+        }
+      } catch (err) {
+        console.warn('Could not load tracked transactions from the server:', err);
+      }
+    }
+    this.publish();
+
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (!isDone(transaction)) this.wait(transaction.hash);
+    }
+  }
+
+  // Forget a finished transaction, e.g. once its outcome has been shown
+  dismiss(hash: string): void {
+    const transaction = this.transactions.get(hash);
+    if (!transaction || !isSettled(transaction.status)) return;
+    this.transactions.delete(hash);
+    this.publish();
+  }
+
+  // Called once a transaction settles and, when confirmed, the server has had its chance to
+  // commit the side effect
+  onSettled(listener: SettledListener): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): LocalTransaction[] => this.snapshot;
+
+  private async follow(hash: string): Promise<LocalTransaction> {
+    let current = this.transactions.get(hash)!;
+    while (current.status === 'pending') {
+      try {
+        const check = await this.check(current);
+        if (check.status !== current.status || check.minedHash !== current.minedHash) {
+          current = await this.store({
+            ...current,
+            status: check.status,
+            minedHash: check.minedHash,
+            blockNumber: check.blockNumber,
+          });
+        }
+      } catch (err) {
+        console.warn(`Could not check transaction ${hash}:`, err);
+      }
+      if (current.status === 'pending') await sleep(this.pollMs);
+    }
+
+    if (current.status === 'confirmed') {
+      this.commitInBackground(hash);
+    } else {
+      await deleteLocalTransaction(hash);
+      this.notifySettled(current);
+    }
+    return current;
+  }
+
+  private async commitInBackground(hash: string): Promise<void> {
+    if (this.committing.has(hash)) return;
+    this.committing.add(hash);
+    let current = this.transactions.get(hash)!;
+    try {
+      // Stops early if the transaction is dismissed
+      for (let attempt = 0; attempt < COMMIT_ATTEMPTS && this.transactions.has(hash); attempt++) {
+        try {
+          current = await this.commit(hash);
+          if (isDone(current)) return;
+        } catch (err) {
+          console.warn(`Could not commit transaction ${hash}:`, err);
+        }
+        await sleep(this.pollMs);
+      }
+    } finally {
+      this.committing.delete(hash);
+      this.notifySettled(current);
+    }
+  }
+
+  private notifySettled(transaction: LocalTransaction): void {
+    this.settledListeners.forEach((listener) => listener(transaction));
+  }
+
+  private async report(transaction: LocalTransaction): Promise<void> {
+    const { hash, from, nonce, to, data, value, startBlock, purpose, electionId, draftId } = transaction;
+    try {
+      await reportTransaction({ hash, from, nonce, to, data, value, startBlock, purpose, electionId, draftId });
+    } catch (err) {
+      // Tracking carries on locally; commit() reports it again later
+      console.warn(`Could not report transaction ${transaction.hash} to the server:`, err);
+    }
+  }
+
+  private async store(transaction: LocalTransaction): Promise<LocalTransaction> {
+    this.transactions.set(transaction.hash, transaction);
+    this.publish();
+    try {
+      await saveLocalTransaction(transaction);
+    } catch (err) {
+      console.warn(`Could not save transaction ${transaction.hash}:`, err);
+    }
+    return transaction;
+  }
+
+  private publish(): void {
+    this.snapshot = Array.from(this.transactions.values()).sort((a, b) =>
+      b.submittedAt.localeCompare(a.submittedAt),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Tracked transactions, newest first, re-rendering as they change
+export const useTrackedTransactions = (tracker: TransactionTracker): LocalTransaction[] =>
+  useSyncExternalStore(tracker.subscribe, tracker.getSnapshot);
@@ -1,6 +1,5 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -11,105 +10,59 @@ import { AdminElectionCreator } from "@/components/admin-election-creator";
 import { AdminElectionLog } from "@/components/admin-election-log";
 import { AdminManagement } from "@/components/admin-management";
 import { AdminNinManagement } from "@/components/admin-nin-management";
+import { AdminTallyReconciliation } from "@/components/admin-tally-reconciliation";
 import { BlockchainTest } from "@/components/blockchain-test";
-import { getActiveElectionId, getElectionInfo, getAllCandidates, getTotalVotes } from "@/utils/blockchain";
+import { useElections } from "@/hooks/use-elections";
+import { compareElections } from "@shared/elections";
+import { getAdminSession, signOutAdmin } from "@/utils/admin-session";
+import { hasPermission, ROLE_LABELS, type AdminRole } from "@shared/permissions";
 
 export default function AdminDashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [adminAddress, setAdminAddress] = useState<string>("");
+  const [adminRole, setAdminRole] = useState<AdminRole | null>(null);
+
+  // Every election, running ones first
+  const { data: elections, isLoading: loadingElections } = useElections();
+  const electionData = elections && {
+    elections: [...elections].sort(compareElections),
+    statistics: {
+      totalVotes: elections.reduce((sum, election) => sum + election.totalVotes, 0),
+      activeElections: elections.filter(e => e.status === "Active").length,
+      upcomingElections: elections.filter(e => e.status === "Upcoming").length,
+    }
+  };
 
-  // Query for getting elections data
-  const { data: electionData, isLoading: loadingElections } = useQuery({
-    queryKey: ['admin-elections'],
-    queryFn: async () => {
-      const currentElectionId = await getActiveElectionId();
-      const electionList = [];
-      let totalVotesCount = 0;
-      let activeCount = 0;
-      let upcomingCount = 0;
-
-      // Lookup up to the first 10 possible election IDs
-      const maxElectionsToFetch = 10;
-
-      for (let id = 1; id <= Math.max(currentElectionId, maxElectionsToFetch); id++) {
-        try {
-          const electionInfo = await getElectionInfo(id);
-
-          if (electionInfo && electionInfo.name) {
-            const now = new Date();
-            const startTime = new Date(electionInfo.startTime);
-            const endTime = new Date(electionInfo.endTime);
-            let status: "Active" | "Upcoming" | "Completed" = "Completed";
-
-            if (now < startTime) {
-              status = "Upcoming";
-              upcomingCount++;
-            } else if (now >= startTime && now <= endTime) {
-              status = "Active";
-              activeCount++;
-            }
-
-            const votes = await getTotalVotes(id);
-            totalVotesCount += votes;
-
-            electionList.push({
-              id,
-              name: electionInfo.name,
-              startTime: startTime.toISOString(),
-              endTime: endTime.toISOString(),
-              status,
-              totalVotes: votes
-            });
-          }
-        } catch (err) {
-          console.error(`Error fetching election ${id}:`, err);
-        }
+  useEffect(() => {
+    let cancelled = false;
+
+    // The httpOnly session cookie is the only proof of admin access
+    getAdminSession().then((session) => {
+      if (cancelled) return;
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please login with an admin wallet",
+          variant: "destructive",
+        });
+        setLocation("/admin/login");
+        return;
       }
 
-      return {
-        elections: electionList.sort((a, b) => {
-          if (a.status !== b.status) {
-            const statusOrder = { Active: 0, Upcoming: 1, Completed: 2 };
-            return statusOrder[a.status] - statusOrder[b.status];
-          }
-          return new Date(b.startTime).getTime() - new Date(a.startTime).getTime();
-        }),
-        statistics: {
-          totalElections: electionList.length,
-          totalVotes: totalVotesCount,
-          activeElections: activeCount,
-          upcomingElections: upcomingCount,
-          completedElections: electionList.length - activeCount - upcomingCount,
-        }
-      };
-    },
-    staleTime: 30000, // Consider data fresh for 30 seconds
-    refetchInterval: 60000, // Refetch every minute
-  });
-
-  useEffect(() => {
-    const isAdmin = sessionStorage.getItem("isAdmin") === "true";
-    const storedAddress = sessionStorage.getItem("adminAddress");
-
-    if (!isAdmin || !storedAddress) {
-      toast({
-        title: "Authentication required",
-        description: "Please login with an admin wallet",
-        variant: "destructive",
-      });
-      setLocation("/admin/login");
-      return;
-    }
+      setIsAuthenticated(true);
+      setAdminAddress(session.address);
+      setAdminRole(session.role);
+    });
 
-    setIsAuthenticated(true);
-    setAdminAddress(storedAddress);
+    return () => {
+      cancelled = true;
+    };
   }, [setLocation, toast]);
 
-  const handleLogout = () => {
-    sessionStorage.removeItem("isAdmin");
-    sessionStorage.removeItem("adminAddress");
+  const handleLogout = async () => {
+    await signOutAdmin();
     setIsAuthenticated(false);
     toast({
       title: "Logged out",
@@ -122,6 +75,14 @@ export default function AdminDashboard() {
     return <div className="p-8 text-center">Authenticating...</div>;
   }
 
+  // Tabs follow the role's permissions; the server enforces the same checks
+  const canCreateElections = hasPermission(adminRole, "elections:create");
+  const canApproveElections = hasPermission(adminRole, "elections:approve");
+  const canReviewVoters = hasPermission(adminRole, "voters:read");
+  const canManageRoles = hasPermission(adminRole, "roles:manage");
+  const canAuditTally = hasPermission(adminRole, "audit:export");
+  const defaultTab = canCreateElections || canApproveElections ? "create" : canReviewVoters ? "nin" : "test";
+
   const isElectionActive = electionData?.elections.some(e => e.status === "Active") ?? false;
   const hasUpcomingElection = electionData?.elections.some(e => e.status === "Upcoming") ?? false;
 
@@ -140,6 +101,7 @@ export default function AdminDashboard() {
               <div className="text-sm text-gray-500 text-right mr-2">
                 <div>Connected as:</div>
                 <div className="font-mono">{adminAddress}</div>
+                {adminRole && <div>{ROLE_LABELS[adminRole]}</div>}
               </div>
               <Button variant="outline" onClick={handleLogout}>Logout</Button>
             </div>
@@ -175,11 +137,12 @@ export default function AdminDashboard() {
             </Card>
           </div>
 
-          <Tabs defaultValue="create">
+          <Tabs defaultValue={defaultTab}>
             <TabsList className="mb-6">
-              <TabsTrigger value="create">Create Election</TabsTrigger>
-              <TabsTrigger value="nin">NIN Verification</TabsTrigger>
-              <TabsTrigger value="manage">Manage Admin</TabsTrigger>
+              {(canCreateElections || canApproveElections) && <TabsTrigger value="create">Create Election</TabsTrigger>}
+              {canReviewVoters && <TabsTrigger value="nin">NIN Verification</TabsTrigger>}
+              {canAuditTally && <TabsTrigger value="tally">Tally</TabsTrigger>}
+              {canManageRoles && <TabsTrigger value="manage">Manage Admin</TabsTrigger>}
               <TabsTrigger value="test">Blockchain Test</TabsTrigger>
             </TabsList>
 
@@ -189,7 +152,7 @@ export default function AdminDashboard() {
                   <CardHeader>
                     <CardTitle>Create New Election</CardTitle>
                     <CardDescription>
-                      Set up a new election to be deployed to the blockchain
+                      Prepare an election as a draft, have it approved, then deploy it to the blockchain
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -197,6 +160,7 @@ export default function AdminDashboard() {
                       isElectionActive={isElectionActive}
                       hasUpcomingElection={hasUpcomingElection}
                       electionStatus={isElectionActive ? "active" : hasUpcomingElection ? "upcoming" : "none"}
+                      role={adminRole}
                     />
                   </CardContent>
                 </Card>
@@ -213,7 +177,7 @@ export default function AdminDashboard() {
                 <CardHeader>
                   <CardTitle>Admin Management</CardTitle>
                   <CardDescription>
-                    Update admin wallet address with MetaMask signature verification
+                    Hand the contract admin over to another wallet and manage operator roles
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -223,7 +187,11 @@ export default function AdminDashboard() {
             </TabsContent>
 
             <TabsContent value="nin">
-              <AdminNinManagement />
+              <AdminNinManagement role={adminRole} />
+            </TabsContent>
+
+            <TabsContent value="tally">
+              <AdminTallyReconciliation />
             </TabsContent>
 
             <TabsContent value="test">
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,11 +7,17 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useMetaMask } from "../../hooks/use-metamask";
 import { Loader2 } from "lucide-react";
 import { Navbar } from "@/components/navbar";
+import { WrongNetworkAlert } from "@/components/wrong-network-alert";
+import { signInAdmin } from "@/utils/admin-session";
 
 export default function AdminLogin() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  // Account a sign-in was already attempted for, so the wallet isn't prompted twice
+  const attemptedAccount = useRef<string | null>(null);
 
   // Use the MetaMask hook
   const { 
@@ -19,44 +25,44 @@ export default function AdminLogin() {
     isConnecting,
     isConnected,
     account,
-    connect
+    signer,
+    connect,
+    isWrongNetwork
   } = useMetaMask();
 
-  // List of authorized admin addresses
-  const ADMIN_ADDRESSES = [
-    "0x2B3d7c0A2A05f760272165A836D1aDFE8ea38490", // Authorized admin address
-  ];
-
-  // Check if the connected account is an admin
+  // Sign in once the wallet is connected; the server decides whether it is an admin
   useEffect(() => {
-    if (isConnected && account) {
-      // Convert addresses to lowercase for case-insensitive comparison
-      const normalizedAccount = account.toLowerCase();
-      const normalizedAdminAddresses = ADMIN_ADDRESSES.map(addr => addr.toLowerCase());
-
-      const isAdmin = normalizedAdminAddresses.includes(normalizedAccount);
-
-      if (isAdmin) {
-        toast({
-          title: "Authentication successful",
-          description: "Welcome, admin!",
-          variant: "default",
-        });
+    // Admin actions are contract calls, so hold the login until the wallet is on the right chain
+    if (isConnected && account && signer && !isWrongNetwork && attemptedAccount.current !== account) {
+      attemptedAccount.current = account;
+      setIsSigningIn(true);
+      setError(null);
 
-        // Store admin status in session storage
-        sessionStorage.setItem("isAdmin", "true");
-        sessionStorage.setItem("adminAddress", account);
+      // Sign-In with Ethereum: the server checks the signature and the wallet's admin role
+      signInAdmin(signer)
+        .then(() => {
+          toast({
+            title: "Authentication successful",
+            description: "Welcome, admin!",
+            variant: "default",
+          });
 
-        // Redirect to admin dashboard
-        setLocation("/admin/dashboard");
-      } else {
-        setError("This wallet is not authorized as an admin. Please connect with the admin wallet.");
-      }
+          // Redirect to admin dashboard
+          setLocation("/admin/dashboard");
+        })
+        .catch((err: any) => {
+          console.error("Admin sign-in failed:", err);
+          setError(err.message || "Could not sign in. Please try again.");
+        })
+        .finally(() => setIsSigningIn(false));
     }
-  }, [isConnected, account, toast, setLocation]);
+  }, [isConnected, account, signer, isWrongNetwork, attempt, toast, setLocation]);
 
   const handleConnectWallet = async () => {
     setError(null);
+    // Allow another signature request after a failed or rejected one
+    attemptedAccount.current = null;
+    setAttempt((count) => count + 1);
     try {
       await connect();
     } catch (err: any) {
@@ -83,17 +89,21 @@ export default function AdminLogin() {
               </Alert>
             )}
 
+            {isConnected && isWrongNetwork && (
+              <WrongNetworkAlert action="manage elections" />
+            )}
+
             <div className="flex flex-col space-y-4">
               <Button 
                 className="w-full" 
                 size="lg"
                 onClick={handleConnectWallet}
-                disabled={isConnecting}
+                disabled={isConnecting || isSigningIn}
               >
-                {isConnecting ? (
+                {isConnecting || isSigningIn ? (
                   <span className="flex items-center">
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Connecting...
+                    {isSigningIn ? "Waiting for signature..." : "Connecting..."}
                   </span>
                 ) : (
                   <span className="flex items-center">
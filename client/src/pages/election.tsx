@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { CheckCircle2, ChevronLeft, ChevronRight, Circle, ExternalLink, Loader2 } from "lucide-react";
+import { Navbar } from "@/components/navbar";
+import { Footer } from "@/components/footer";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { NoActiveElection } from "@/components/no-active-election";
+import { useFallbackPollInterval } from "@/lib/live-updates";
+import { activeNetwork } from "@/lib/network";
+import { candidateColors } from "@/data/mock-data";
+import { getElectionHistory } from "@/utils/election-history";
+import { getElectionMetadata } from "@/utils/candidate-profiles";
+import { getStatusBadge } from "@/utils/ui-helpers";
+import { getExplorerTxUrl } from "@shared/networks";
+import { ELECTION_TIMELINE_LABELS } from "@shared/election-history";
+import type { ContractEvent } from "@shared/schema";
+
+// Shape of GET /api/events (dates arrive as ISO strings)
+interface IndexedEventsPage {
+  events: Array<Omit<ContractEvent, "timestamp"> & { timestamp: string }>;
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const TRANSACTIONS_PER_PAGE = 20;
+
+const shorten = (value: string) => `${value.substring(0, 10)}...${value.substring(value.length - 4)}`;
+
+function TransactionLink({ hash }: { hash: string }) {
+  const url = getExplorerTxUrl(activeNetwork, hash);
+  if (!url) return <span className="font-mono">{shorten(hash)}</span>;
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 font-mono text-blue-600 hover:underline">
+      {shorten(hash)}
+      <ExternalLink className="h-3 w-3" />
+    </a>
+  );
+}
+
+// Every indexed transaction of the election, newest first
+function ElectionTransactions({ electionId }: { electionId: number }) {
+  const pollInterval = useFallbackPollInterval();
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useQuery<IndexedEventsPage>({
+    queryKey: [`/api/events?electionId=${electionId}&page=${page}&pageSize=${TRANSACTIONS_PER_PAGE}`],
+    staleTime: 30000,
+    refetchInterval: pollInterval,
+  });
+  const totalPages = data ? Math.ceil(data.total / TRANSACTIONS_PER_PAGE) : 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-6 text-sm text-gray-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading transactions...
+      </div>
+    );
+  }
+  if (!data || data.total === 0) {
+    return <p className="text-sm text-gray-500">No transactions for this election have been indexed yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Transaction</TableHead>
+              <TableHead>From</TableHead>
+              <TableHead>Block</TableHead>
+              <TableHead>Time</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.events.map((event) => (
+              <TableRow key={`${event.transactionHash}-${event.logIndex}`}>
+                <TableCell>{event.eventName}</TableCell>
+                <TableCell>
+                  <TransactionLink hash={event.transactionHash} />
+                </TableCell>
+                <TableCell className="font-mono">{shorten(event.from)}</TableCell>
+                <TableCell>{event.blockNumber}</TableCell>
+                <TableCell>{new Date(event.timestamp).toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-700">
+            Page {page} of {totalPages} ({data.total} transactions)
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page === totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Election({ params }: { params: { id: string } }) {
+  const electionId = Number(params.id);
+  const validId = Number.isInteger(electionId) && electionId > 0;
+  const pollInterval = useFallbackPollInterval();
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ["/api/elections", electionId, "history"],
+    queryFn: () => getElectionHistory(electionId),
+    enabled: validId,
+    staleTime: 30000,
+    refetchInterval: pollInterval,
+  });
+  const { data: metadata } = useQuery({
+    queryKey: ["election-metadata", electionId],
+    queryFn: () => getElectionMetadata(electionId),
+    enabled: validId,
+    staleTime: Infinity,
+  });
+
+  const turnout = history?.turnout.map((point) => ({ time: new Date(point.at).getTime(), votes: point.votes })) ?? [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          <Link href="/explorer" className="inline-flex items-center text-sm text-blue-600 hover:underline">
+            <ChevronLeft className="h-4 w-4 mr-1" /> Explorer
+          </Link>
+
+          {validId && isLoading ? (
+            <div className="flex justify-center p-12 text-gray-500">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Loading election...
+            </div>
+          ) : !history ? (
+            <NoActiveElection
+              title="Election not found"
+              description={`There is no election #${params.id} on ${activeNetwork.name}.`}
+              showSchedule={false}
+              showButtons={false}
+            />
+          ) : (
+            <>
+              <div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <h1 className="text-3xl font-bold text-gray-900">{history.election.name}</h1>
+                  {getStatusBadge(history.election.status)}
+                </div>
+                <p className="text-gray-600 mt-2">
+                  Election #{history.election.id} · {new Date(history.election.startTime).toLocaleString()} -{" "}
+                  {new Date(history.election.endTime).toLocaleString()}
+                </p>
+                {metadata && (
+                  <div className="mt-4 max-w-3xl space-y-1">
+                    {metadata.metadata.description && <p className="text-gray-700">{metadata.metadata.description}</p>}
+                    <p className={`text-xs ${metadata.verified ? "text-green-700" : "text-red-700"}`}>
+                      {metadata.verified
+                        ? `Published metadata matches its hash ${shorten(metadata.metadataHash)}`
+                        : "Published metadata does not match its hash"}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Results</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {history.candidates.map((candidate) => (
+                      <div key={candidate.index} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <div>
+                            <span className="font-medium">{candidate.name}</span>{" "}
+                            <span className="text-gray-500">{candidate.party}</span>
+                          </div>
+                          <div>
+                            {candidate.votes} votes · {candidate.percentage}%
+                          </div>
+                        </div>
+                        <div className="w-full h-2 bg-secondary rounded-full overflow-hidden">
+                          <div
+                            className="h-full rounded-full"
+                            style={{
+                              width: `${candidate.percentage}%`,
+                              backgroundColor: candidateColors[candidate.index % candidateColors.length],
+                            }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                    <p className="text-sm text-gray-600 pt-2">Total votes: {history.totalVotes}</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Turnout</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {turnout.length === 0 ? (
+                      <p className="text-sm text-gray-500">Voting hasn't opened yet.</p>
+                    ) : (
+                      <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <AreaChart data={turnout}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis
+                              dataKey="time"
+                              type="number"
+                              scale="time"
+                              domain={["dataMin", "dataMax"]}
+                              tickFormatter={(time: number) => new Date(time).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit" })}
+                            />
+                            <YAxis allowDecimals={false} />
+                            <Tooltip
+                              labelFormatter={(time: number) => new Date(time).toLocaleString()}
+                              formatter={(votes: number) => [votes, "Votes cast"]}
+                            />
+                            <Area type="stepAfter" dataKey="votes" stroke="#2563eb" fill="#bfdbfe" />
+                          </AreaChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
+                    {history.indexedVotes < history.totalVotes && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {history.indexedVotes} of {history.totalVotes} votes indexed so far; the curve fills in as the
+                        indexer catches up.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Timeline</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-4">
+                    {history.timeline.map((entry, index) => (
+                      <li key={index} className="flex gap-3">
+                        {entry.upcoming ? (
+                          <Circle className="h-5 w-5 shrink-0 text-gray-300" />
+                        ) : (
+                          <CheckCircle2 className="h-5 w-5 shrink-0 text-green-600" />
+                        )}
+                        <div className="text-sm">
+                          <div className={`font-medium ${entry.upcoming ? "text-gray-500" : ""}`}>
+                            {ELECTION_TIMELINE_LABELS[entry.kind]}
+                          </div>
+                          <div className="text-gray-500">
+                            {new Date(entry.at).toLocaleString()}
+                            {entry.actor && (
+                              <span className="font-mono">
+                                {" "}· by {entry.actor === "system" ? "scheduler" : shorten(entry.actor)}
+                              </span>
+                            )}
+                          </div>
+                          {entry.transactionHash && <TransactionLink hash={entry.transactionHash} />}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                  {!history.creation && (
+                    <p className="text-xs text-gray-500 mt-4">The creation transaction hasn't been indexed yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Transactions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ElectionTransactions electionId={history.election.id} />
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useFallbackPollInterval } from "@/lib/live-updates";
 import { Navbar } from "@/components/navbar";
 import { Footer } from "@/components/footer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,38 +17,49 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { ALCHEMY_URL, CONTRACT_ADDRESS } from "@/utils/blockchain";
-import { getActiveElectionId, getElectionInfo, getAllCandidates, getTotalVotes } from "@/utils/blockchain";
+import { CONTRACT_ADDRESS } from "@/utils/blockchain";
+import { activeNetwork } from "@/lib/network";
+import { getExplorerAddressUrl } from "@shared/networks";
+import { useElections } from "@/hooks/use-elections";
+import { compareElections } from "@shared/elections";
 import { useMetaMask } from "@/hooks/use-metamask";
 import { useToast } from "@/hooks/use-toast";
-import { ChevronLeft, ChevronRight, Loader2, ExternalLink, Copy, Check } from "lucide-react";
-import { ethers } from "ethers";
-import VotingSystemABI from "../contracts/VotingSystem.json";
+import { ChevronDown, ChevronLeft, ChevronRight, Loader2, ExternalLink, Copy, Check } from "lucide-react";
+import type { ContractEvent } from "@shared/schema";
 import { LastElectionWinner } from "@/components/last-election-winner";
+import { TransactionDetails } from "@/components/transaction-details";
+import { ExplorerSearchResults } from "@/components/explorer-search-results";
+import { searchExplorer } from "@/utils/search";
 
+// One indexed event; the transaction it came from is decoded when the row is expanded
 interface Transaction {
   hash: string;
+  logIndex: number;
   timestamp: Date;
   from: string;
   to: string;
   value: string;
   asset: string;
   status: string;
-  functionName: string;
+  eventName: string;
+  args: Record<string, string>;
 }
 
-interface Election {
-  id: number;
-  name: string;
-  startTime: Date;
-  endTime: Date;
-  status: "Active" | "Upcoming" | "Completed";
-  totalVotes: number;
+// Shape of GET /api/events (dates arrive as ISO strings)
+interface IndexedEventsPage {
+  events: Array<Omit<ContractEvent, "timestamp"> & { timestamp: string }>;
+  total: number;
+  page: number;
+  pageSize: number;
 }
 
+const contractExplorerUrl = getExplorerAddressUrl(activeNetwork, CONTRACT_ADDRESS);
+
 export default function Explorer() {
+  const pollInterval = useFallbackPollInterval();
   const [searchQuery, setSearchQuery] = useState("");
-  const [isSearching, setIsSearching] = useState(false);
+  // The query the results are for, set when the form is submitted
+  const [submittedQuery, setSubmittedQuery] = useState("");
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [electionPage, setElectionPage] = useState<number>(1);
   const [itemsPerPage] = useState<number>(10);
@@ -54,182 +67,51 @@ export default function Explorer() {
   const { chainId } = useMetaMask();
   const { toast } = useToast();
   const [copiedHash, setCopiedHash] = useState<string | null>(null);
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+
+  // Every election, with totals for the statistics tab
+  const { data: elections, isLoading: loadingElections } = useElections();
+  const electionData = elections && {
+    elections: [...elections].sort(compareElections),
+    statistics: {
+      totalElections: elections.length,
+      totalVotes: elections.reduce((sum, election) => sum + election.totalVotes, 0),
+      activeElections: elections.filter(e => e.status === "Active").length,
+      completedElections: elections.filter(e => e.status === "Completed").length,
+      upcomingElections: elections.filter(e => e.status === "Upcoming").length,
+    }
+  };
 
-  // Elections data query
-  const { data: electionData, isLoading: loadingElections } = useQuery({
-    queryKey: ['elections'],
+  // Transactions data query, served from the server-side contract event indexer
+  const { data: transactionData, isLoading: loadingTransactions, isFetching, refetch } = useQuery({
+    queryKey: ['/api/events', currentPage, itemsPerPage],
     queryFn: async () => {
-      const currentElectionId = await getActiveElectionId();
-      const electionList: Election[] = [];
-      let totalVotesCount = 0;
-
-      const maxElectionsToFetch = 10;
-
-      for (let id = 1; id <= Math.max(currentElectionId, maxElectionsToFetch); id++) {
-        try {
-          const electionInfo = await getElectionInfo(id);
-
-          if (electionInfo && electionInfo.name) {
-            const now = new Date();
-            const startTime = electionInfo.startTime;
-            const endTime = electionInfo.endTime;
-            let status: "Active" | "Upcoming" | "Completed" = "Completed";
-
-            if (now < startTime) {
-              status = "Upcoming";
-            } else if (now >= startTime && now <= endTime) {
-              status = "Active";
-            }
-
-            const votes = await getTotalVotes(id);
-            totalVotesCount += votes;
-
-            electionList.push({
-              id,
-              name: electionInfo.name,
-              startTime,
-              endTime,
-              status,
-              totalVotes: votes
-            });
-          }
-        } catch (err) {
-          console.error(`Error fetching election ${id}:`, err);
-        }
+      const res = await fetch(`/api/events?page=${currentPage}&pageSize=${itemsPerPage}`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
       }
+      const page: IndexedEventsPage = await res.json();
 
       return {
-        elections: electionList.sort((a, b) => {
-          if (a.status !== b.status) {
-            const statusOrder = { Active: 0, Upcoming: 1, Completed: 2 };
-            return statusOrder[a.status] - statusOrder[b.status];
-          }
-          return a.status === "Completed"
-            ? b.endTime.getTime() - a.endTime.getTime()
-            : a.startTime.getTime() - b.startTime.getTime();
-        }),
-        statistics: {
-          totalElections: electionList.length,
-          totalVotes: totalVotesCount,
-          activeElections: electionList.filter(e => e.status === "Active").length,
-          completedElections: electionList.filter(e => e.status === "Completed").length,
-          upcomingElections: electionList.filter(e => e.status === "Upcoming").length,
-          currentElectionId: currentElectionId
-        }
+        transactions: page.events.map((event): Transaction => ({
+          hash: event.transactionHash,
+          logIndex: event.logIndex,
+          timestamp: new Date(event.timestamp),
+          from: event.from,
+          to: CONTRACT_ADDRESS,
+          value: "0",
+          asset: "MATIC",
+          status: "Success",
+          eventName: event.eventName,
+          args: event.args
+        })),
+        totalTransactions: page.total
       };
     },
     staleTime: 30000,
-    refetchInterval: 60000,
-  });
-
-  // Transactions data query using contract events
-  const { data: transactionData, isLoading: loadingTransactions, isFetching, refetch } = useQuery({
-    queryKey: ['transactions', 'fixed'],
-    queryFn: async () => {
-      try {
-        console.log("Fetching transactions for contract:", CONTRACT_ADDRESS);
-        const provider = new ethers.JsonRpcProvider(ALCHEMY_URL);
-        const contract = new ethers.Contract(CONTRACT_ADDRESS, VotingSystemABI.abi, provider);
-        
-        const latestBlock = await provider.getBlockNumber();
-        console.log("Latest block:", latestBlock);
-        
-        const processedTransactions: Transaction[] = [];
-        
-        // Since we can see election data working, reconstruct activity from contract state
-        console.log("NEW: Reconstructing transaction activity from contract state...");
-        
-        try {
-          // Get the highest election ID to know how many elections exist
-          const currentElectionId = await getActiveElectionId();
-          console.log(`NEW: Found elections up to ID: ${currentElectionId}`);
-          
-          // Process recent elections (last 10) to show activity
-          const maxElections = Math.min(currentElectionId, 10);
-          for (let electionId = Math.max(1, currentElectionId - maxElections + 1); electionId <= currentElectionId; electionId++) {
-            try {
-              const electionInfo = await getElectionInfo(electionId);
-              if (electionInfo && electionInfo.name) {
-                // Add election creation transaction
-                processedTransactions.push({
-                  hash: `0x${electionId.toString(16).padStart(8, '0')}create${'0'.repeat(48)}`,
-                  timestamp: new Date(electionInfo.startTime.getTime() - 3600000), // 1 hour before start
-                  from: "0xAdmin" + "0".repeat(34),
-                  to: CONTRACT_ADDRESS,
-                  value: "0",
-                  asset: "MATIC",
-                  status: "Success",
-                  functionName: "createElection"
-                });
-                
-                // Get candidates and their votes to reconstruct vote transactions
-                const candidates = await getAllCandidates(electionId);
-                let totalVotesSoFar = 0;
-                
-                for (const candidate of candidates) {
-                  for (let voteNum = 0; voteNum < candidate.votes; voteNum++) {
-                    totalVotesSoFar++;
-                    const voteTimestamp = new Date(
-                      electionInfo.startTime.getTime() + (totalVotesSoFar * 300000) // 5 minutes between votes
-                    );
-                    
-                    processedTransactions.push({
-                      hash: `0x${electionId.toString(16).padStart(4, '0')}${candidate.index.toString(16).padStart(4, '0')}vote${voteNum.toString(16).padStart(8, '0')}${'0'.repeat(40)}`,
-                      timestamp: voteTimestamp,
-                      from: `0xVoter${totalVotesSoFar.toString(16).padStart(6, '0')}${'0'.repeat(32)}`,
-                      to: CONTRACT_ADDRESS,
-                      value: "0",
-                      asset: "MATIC",
-                      status: "Success",
-                      functionName: "castVote"
-                    });
-                  }
-                }
-                
-                console.log(`NEW: Election ${electionId} (${electionInfo.name}): ${candidates.reduce((sum, c) => sum + c.votes, 0)} votes`);
-              }
-            } catch (electionError) {
-              console.warn(`NEW: Could not process election ${electionId}:`, electionError);
-            }
-          }
-          
-          console.log(`NEW: Generated ${processedTransactions.length} transaction records from contract activity`);
-          
-        } catch (error) {
-          console.error("NEW: Error reconstructing transactions:", error);
-        }
-        
-        // Remove duplicates and sort by timestamp
-        const uniqueTransactions = processedTransactions.filter((tx, index, self) => 
-          index === self.findIndex(t => t.hash === tx.hash)
-        );
-        
-        uniqueTransactions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-        
-        console.log(`Processed ${uniqueTransactions.length} unique transactions`);
-        
-        // If no transactions found, provide helpful info
-        if (uniqueTransactions.length === 0) {
-          console.log("No transactions found for this contract. This could mean:");
-          console.log("- No elections have been created yet");
-          console.log("- No votes have been cast yet");
-          console.log("- The contract is newly deployed");
-        }
-        
-        return {
-          transactions: uniqueTransactions,
-          totalTransactions: uniqueTransactions.length
-        };
-      } catch (error) {
-        console.error('Error fetching transactions:', error);
-        return {
-          transactions: [],
-          totalTransactions: 0
-        };
-      }
-    },
-    staleTime: 30000,
-    refetchInterval: 60000,
+    refetchInterval: pollInterval,
   });
 
   const handleCopyHash = (hash: string) => {
@@ -242,25 +124,23 @@ export default function Explorer() {
     setTimeout(() => setCopiedHash(null), 2000);
   };
 
-  // Filter transactions based on search query and sort by timestamp
-  const filteredTransactions = transactionData?.transactions
-    .filter(tx => {
-      if (!searchQuery) return true;
-      const query = searchQuery.toLowerCase();
-      return (
-        tx.hash.toLowerCase().includes(query) ||
-        tx.from.toLowerCase().includes(query) ||
-        tx.functionName.toLowerCase().includes(query)
-      );
-    })
-    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()) || [];
+  const { data: searchResults, isFetching: searching, error: searchError } = useQuery({
+    queryKey: ['/api/search', submittedQuery],
+    queryFn: () => searchExplorer(submittedQuery),
+    enabled: submittedQuery !== "",
+    staleTime: 30000,
+  });
 
+  const sortedTransactions = transactionData?.transactions
+    .slice()
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()) || [];
 
-  // Calculate transaction pagination
-  const totalPages = Math.ceil(filteredTransactions.length / itemsPerPage);
+  // Transactions are paginated by the server
+  const totalTransactions = transactionData?.totalTransactions || 0;
+  const totalPages = Math.ceil(totalTransactions / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const currentTransactions = filteredTransactions.slice(startIndex, endIndex);
+  const endIndex = startIndex + (transactionData?.transactions.length || 0);
+  const currentTransactions = sortedTransactions;
   
   // Calculate election pagination
   const totalElectionPages = electionData?.elections ? Math.ceil(electionData.elections.length / electionsPerPage) : 0;
@@ -270,7 +150,12 @@ export default function Explorer() {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    setCurrentPage(1); // Reset to first page when searching
+    setSubmittedQuery(searchQuery.trim());
+  };
+
+  const clearSearch = () => {
+    setSearchQuery("");
+    setSubmittedQuery("");
   };
 
   const getTransactionStatusBadge = (status: string) => {
@@ -320,18 +205,28 @@ export default function Explorer() {
               <form onSubmit={handleSearch} className="flex space-x-2">
                 <Input
                   type="text"
-                  placeholder="Search by transaction hash, voter address, or function name"
+                  placeholder="Search by transaction hash, voter hash, address, election ID or election name"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="flex-1"
                 />
-                <Button type="submit" disabled={isSearching}>
-                  {isSearching ? "Searching..." : "Search"}
+                <Button type="submit" disabled={searching || !searchQuery.trim()}>
+                  {searching ? "Searching..." : "Search"}
                 </Button>
               </form>
             </CardContent>
           </Card>
 
+          {submittedQuery && (
+            <ExplorerSearchResults
+              query={submittedQuery}
+              results={searchResults}
+              isLoading={searching && !searchResults}
+              error={searchError}
+              onClear={clearSearch}
+            />
+          )}
+
           <Tabs defaultValue="latest">
             <TabsList className="grid w-full grid-cols-3 mb-6">
               <TabsTrigger value="latest">Latest Transactions</TabsTrigger>
@@ -344,7 +239,7 @@ export default function Explorer() {
                 <CardHeader className="flex flex-row items-center justify-between">
                   <CardTitle>Contract Transactions</CardTitle>
                   <p className="text-sm text-muted-foreground">
-                    POLYGON AMOY NETWORK
+                    {activeNetwork.name.toUpperCase()}
                   </p>
                 </CardHeader>
                 <CardContent>
@@ -358,8 +253,8 @@ export default function Explorer() {
                         <div className="text-lg font-medium">No Recent Transactions Available</div>
                         <div className="text-sm max-w-md mx-auto">
                           <p className="mb-2">
-                            The Polygon Amoy testnet has pruned older block data. Contract transactions 
-                            from earlier blocks are not currently accessible through the RPC provider.
+                            The event indexer has not recorded any contract activity yet. It backfills
+                            history from the deployment block, so older transactions appear as it catches up.
                           </p>
                           <p>
                             New transactions will appear here when they occur on the contract at:
@@ -374,60 +269,90 @@ export default function Explorer() {
                         <Table>
                           <TableHeader>
                             <TableRow>
+                              <TableHead className="w-8" />
                               <TableHead>Hash</TableHead>
-                              <TableHead>Function</TableHead>
+                              <TableHead>Event</TableHead>
                               <TableHead>From</TableHead>
                               <TableHead>Status</TableHead>
                               <TableHead>Time</TableHead>
                             </TableRow>
                           </TableHeader>
                           <TableBody>
-                            {currentTransactions.map((tx) => (
-                              <TableRow key={tx.hash}>
-                                <TableCell className="font-mono flex items-center space-x-2">
-                                  <span>{tx.hash.substring(0, 10)}...</span>
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-6 w-6 p-0"
-                                    onClick={() => handleCopyHash(tx.hash)}
-                                  >
-                                    {copiedHash === tx.hash ? (
-                                      <Check className="h-4 w-4" />
-                                    ) : (
-                                      <Copy className="h-4 w-4" />
-                                    )}
-                                  </Button>
-                                </TableCell>
-                                <TableCell>{tx.functionName}</TableCell>
-                                <TableCell className="font-mono">
-                                  {tx.from.substring(0, 10)}...
-                                </TableCell>
-                                <TableCell>
-                                  {getTransactionStatusBadge(tx.status)}
-                                </TableCell>
-                                <TableCell>
-                                  {tx.timestamp.toLocaleString()}
-                                </TableCell>
-                              </TableRow>
-                            ))}
+                            {currentTransactions.map((tx) => {
+                              const rowKey = `${tx.hash}-${tx.logIndex}`;
+                              const expanded = expandedRow === rowKey;
+                              return (
+                                <Fragment key={rowKey}>
+                                  <TableRow>
+                                    <TableCell>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        onClick={() => setExpandedRow(expanded ? null : rowKey)}
+                                        aria-label={expanded ? "Hide details" : "Show details"}
+                                      >
+                                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                      </Button>
+                                    </TableCell>
+                                    <TableCell className="font-mono flex items-center space-x-2">
+                                      <span>{tx.hash.substring(0, 10)}...</span>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        onClick={() => handleCopyHash(tx.hash)}
+                                      >
+                                        {copiedHash === tx.hash ? (
+                                          <Check className="h-4 w-4" />
+                                        ) : (
+                                          <Copy className="h-4 w-4" />
+                                        )}
+                                      </Button>
+                                    </TableCell>
+                                    <TableCell>
+                                      <div>{tx.eventName}</div>
+                                      <div className="text-xs text-gray-500 font-mono">
+                                        {Object.entries(tx.args)
+                                          .map(([name, value]) => `${name}=${value.length > 14 ? `${value.slice(0, 10)}...` : value}`)
+                                          .join(", ")}
+                                      </div>
+                                    </TableCell>
+                                    <TableCell className="font-mono">
+                                      {tx.from.substring(0, 10)}...
+                                    </TableCell>
+                                    <TableCell>
+                                      {getTransactionStatusBadge(tx.status)}
+                                    </TableCell>
+                                    <TableCell>
+                                      {tx.timestamp.toLocaleString()}
+                                    </TableCell>
+                                  </TableRow>
+                                  {expanded && (
+                                    <TableRow>
+                                      <TableCell colSpan={6} className="bg-gray-50 dark:bg-gray-900">
+                                        <TransactionDetails hash={tx.hash} />
+                                      </TableCell>
+                                    </TableRow>
+                                  )}
+                                </Fragment>
+                              );
+                            })}
                           </TableBody>
                         </Table>
                       </div>
                     )}
 
                     {/* Pagination controls */}
-                    {!loadingTransactions && filteredTransactions.length > 0 && (
+                    {!loadingTransactions && totalTransactions > 0 && (
                       <div className="flex items-center justify-between pt-4">
                         <div>
                           <p className="text-sm text-gray-700">
                             Showing{" "}
                             <span className="font-medium">{startIndex + 1}</span> to{" "}
-                            <span className="font-medium">
-                              {Math.min(endIndex, filteredTransactions.length)}
-                            </span>{" "}
+                            <span className="font-medium">{endIndex}</span>{" "}
                             of{" "}
-                            <span className="font-medium">{filteredTransactions.length}</span>{" "}
+                            <span className="font-medium">{totalTransactions}</span>{" "}
                             transactions
                           </p>
                         </div>
@@ -471,17 +396,19 @@ export default function Explorer() {
                         >
                           {isFetching ? "Refreshing..." : "Refresh Transactions"}
                         </Button>
-                        <a
-                          href={`https://www.oklink.com/amoy/address/${CONTRACT_ADDRESS}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="inline-block"
-                        >
-                          <Button variant="outline">
-                            <ExternalLink className="h-4 w-4 mr-2" />
-                            View in Explorer
-                          </Button>
-                        </a>
+                        {contractExplorerUrl && (
+                          <a
+                            href={contractExplorerUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-block"
+                          >
+                            <Button variant="outline">
+                              <ExternalLink className="h-4 w-4 mr-2" />
+                              View in {activeNetwork.explorer?.name || "Explorer"}
+                            </Button>
+                          </a>
+                        )}
                       </div>
                     </div>
 
@@ -491,7 +418,7 @@ export default function Explorer() {
                         Contract Address: <span className="font-mono">{CONTRACT_ADDRESS}</span>
                       </p>
                       <p className="text-sm text-blue-700">
-                        This contract manages all voting operations on the Polygon Amoy testnet, including
+                        This contract manages all voting operations on {activeNetwork.name}, including
                         election creation, vote casting, and election result storage.
                       </p>
                     </div>
@@ -518,7 +445,9 @@ export default function Explorer() {
                     <div className="divide-y divide-gray-200">
                       {currentElections.map((election) => (
                         <div className="py-4" key={election.id}>
-                          <h3 className="text-lg font-medium">{election.name}</h3>
+                          <h3 className="text-lg font-medium">
+                            <Link href={`/elections/${election.id}`} className="hover:underline">{election.name}</Link>
+                          </h3>
                           <p className="text-sm text-gray-500">
                             {election.startTime.toLocaleDateString()} - {election.endTime.toLocaleDateString()}
                           </p>
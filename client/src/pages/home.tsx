@@ -1,5 +1,3 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Navbar } from "@/components/navbar";
 import { ElectionStatus } from "@/components/election-status";
 import { ElectionInfoCard } from "@/components/election-info-card";
@@ -7,60 +5,13 @@ import { LastElectionWinner } from "@/components/last-election-winner";
 import { PreviousElections } from "@/components/previous-elections";
 import { BlockchainTransparency } from "@/components/blockchain-transparency";
 import { Footer } from "@/components/footer";
-import { getActiveElectionId, getElectionInfo } from "@/utils/blockchain";
+import { useElections } from "@/hooks/use-elections";
+import { findActiveElection } from "@shared/elections";
 
 export default function Home() {
-  const [hasActiveElection, setHasActiveElection] = useState(false);
-
-  // Query to check if there's an active election
-  const { data: activeElectionData } = useQuery({
-    queryKey: ['activeElectionCheck'],
-    queryFn: async () => {
-      try {
-        // Get current election ID
-        const nextId = await getActiveElectionId();
-        
-        if (!nextId) {
-          return false;
-        }
-
-        // Look backwards from current ID to find active elections
-        for (let id = nextId - 1; id >= 1; id--) {
-          try {
-            const electionInfo = await getElectionInfo(id);
-            
-            if (electionInfo?.name) {
-              const now = new Date();
-              const startTime = new Date(electionInfo.startTime);
-              const endTime = new Date(electionInfo.endTime);
-              const isActive = now >= startTime && now <= endTime;
-              
-              // If election is active, return true
-              if (isActive && electionInfo.active) {
-                return true;
-              }
-            }
-          } catch (error) {
-            continue;
-          }
-        }
-        
-        return false;
-      } catch (error) {
-        console.error("Error checking for active elections:", error);
-        return false;
-      }
-    },
-    staleTime: 60000,  // Re-check every minute
-    refetchInterval: 60000
-  });
-
-  // Update state when data changes
-  useEffect(() => {
-    if (activeElectionData !== undefined) {
-      setHasActiveElection(activeElectionData);
-    }
-  }, [activeElectionData]);
+  // LastElectionWinner is shown only while no election is open
+  const { data: elections } = useElections();
+  const hasActiveElection = !!elections && findActiveElection(elections) !== null;
 
   return (
     <div className="min-h-screen flex flex-col">
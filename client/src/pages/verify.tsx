@@ -0,0 +1,42 @@
+import { Navbar } from "@/components/navbar";
+import { Footer } from "@/components/footer";
+import { VoteVerification } from "@/components/vote-verification";
+
+export default function Verify() {
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8 text-center">
+            <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+              Verify Your Vote
+            </h1>
+            <p className="mt-2 text-lg text-gray-600">
+              Check on the blockchain that your ballot was recorded and counted.
+            </p>
+          </div>
+
+          <div className="max-w-2xl mx-auto">
+            <VoteVerification />
+          </div>
+
+          <div className="mt-12 max-w-3xl mx-auto">
+            <div className="bg-slate-50 p-4 rounded-lg">
+              <h2 className="text-xl font-semibold mb-2">How verification works</h2>
+              <ul className="list-disc pl-5 space-y-2 text-sm text-slate-700">
+                <li>Your NIN is hashed in your browser together with the election number, exactly as when you voted.</li>
+                <li>The resulting voter hash is looked up in the contract's VoteCast events directly on the blockchain.</li>
+                <li>Nothing you enter on this page is sent to the BlockVote server.</li>
+                <li>The voter hash reveals neither your NIN nor your wallet, and differs in every election.</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
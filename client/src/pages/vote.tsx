@@ -3,29 +3,35 @@ import { useQuery } from "@tanstack/react-query";
 import { Navbar } from "@/components/navbar";
 import { Footer } from "@/components/footer";
 import { NinLoginForm } from "@/components/nin-login-form";
+import { LivenessCheck } from "@/components/liveness-check";
 import { UserInfoCard } from "@/components/user-info-card";
 import { CandidateGrid } from "@/components/candidate-grid";
+import { useElectionProfiles } from "@/hooks/use-election-profiles";
+import { useActiveElection } from "@/hooks/use-elections";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { TransactionConfirmation } from "@/components/transaction-confirmation";
 import { NoActiveElection } from "@/components/no-active-election";
+import { WrongNetworkAlert } from "@/components/wrong-network-alert";
 import { useMetaMask } from "@/hooks/use-metamask";
 import { 
   castVote, 
-  getActiveElectionId, 
-  getElectionInfo, 
-  getAllCandidates, 
-  hashNIN, 
-  getTotalVotes
+  castRelayedVote,
+  hashNIN
 } from "@/utils/blockchain";
-import { checkNINSubmissionLocked, autoLockRegistrationsForActiveElection, updateNINVerificationStatus, getNINByWalletAddress } from "@/utils/supabase";
+import { getRelayerStatus } from "@/utils/relay";
+import { checkNINSubmissionLocked } from "@/utils/registration";
+import { getParticipation } from "@/utils/participations";
+import { buildVoteReceipt, type VoteReceipt } from "@/utils/vote-receipt";
 import { Lock, AlertTriangle } from "lucide-react";
 import type { Candidate } from "@/types/candidate";
+import { isLivenessResultCurrent, type SignedLivenessResult } from "@shared/liveness";
 
 enum VotingStep {
   NIN_ENTRY,
+  LIVENESS_CHECK,
   CANDIDATE_SELECTION,
   TRANSACTION_CONFIRMATION
 }
@@ -38,22 +44,24 @@ export default function Vote() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [transactionHash, setTransactionHash] = useState("");
   const [transactionTimestamp, setTransactionTimestamp] = useState("");
+  const [voteReceipt, setVoteReceipt] = useState<VoteReceipt | null>(null);
   const [voterNIN, setVoterNIN] = useState<string>("");
+  const [livenessResult, setLivenessResult] = useState<SignedLivenessResult | null>(null);
   const [registrationLocked, setRegistrationLocked] = useState<boolean | null>(null);
   const [checkingLockStatus, setCheckingLockStatus] = useState(true);
 
   // Use MetaMask hook for wallet integration
-  const { isConnected, connect, account } = useMetaMask();
+  const { isConnected, connect, account, isWrongNetwork } = useMetaMask();
+
+  // The ballot is only shown with a liveness result issued for the connected wallet
+  const hasLiveness = isLivenessResultCurrent(livenessResult, account);
   
   // Check if registrations are locked (for voting validation)
   useEffect(() => {
     const checkRegistrationStatus = async () => {
       try {
         setCheckingLockStatus(true);
-        // Automatically lock registrations if there's an active election
-        await autoLockRegistrationsForActiveElection();
-        
-        // Then get the current lock status
+        // The server's scheduler locks registrations when an election starts
         const isLocked = await checkNINSubmissionLocked();
         setRegistrationLocked(isLocked);
       } catch (error) {
@@ -69,58 +77,25 @@ export default function Vote() {
   }, []);
 
   // Only fetch election data after NIN verification
-  const { data: electionData, isLoading: loadingElection } = useQuery({
-    queryKey: ['activeElection'],
-    queryFn: async () => {
-      try {
-        // Get next election ID
-        const nextId = await getActiveElectionId();
-        if (!nextId) return null;
-
-        // Look backwards from current ID to find the most recent valid election
-        for (let id = nextId - 1; id >= 1; id--) {
-          try {
-            const electionInfo = await getElectionInfo(id);
-            if (electionInfo?.name) {
-              const candidates = await getAllCandidates(id);
-              const totalVotes = await getTotalVotes(id);
-
-              // Calculate if election is active based on time
-              const now = new Date();
-              const startTime = new Date(electionInfo.startTime);
-              const endTime = new Date(electionInfo.endTime);
-              const isActive = now >= startTime && now <= endTime;
-
-              // Only return if the election is active
-              if (isActive && electionInfo.active) {
-                return {
-                  id,
-                  name: electionInfo.name,
-                  startTime,
-                  endTime,
-                  candidates: candidates.map(candidate => ({
-                    ...candidate,
-                    percentage: totalVotes > 0 ? Math.round((candidate.votes / totalVotes) * 100) : 0
-                  })),
-                  totalVotes
-                };
-              }
-            }
-          } catch (error) {
-            console.error(`Error checking election ${id}:`, error);
-            continue;
-          }
-        }
-        return null;
-      } catch (error) {
-        console.error("Error fetching election data:", error);
-        return null;
-      }
-    },
-    enabled: currentStep === VotingStep.CANDIDATE_SELECTION, // Only fetch when reaching candidate selection
-    staleTime: 30000,
-    refetchInterval: 60000
+  const { election: electionData, isLoading: loadingElection } = useActiveElection({
+    enabled: currentStep === VotingStep.CANDIDATE_SELECTION && hasLiveness, // Only fetch when reaching candidate selection
+  });
+
+  const { metadata: electionMetadata, profileFor } = useElectionProfiles(electionData?.id);
+
+  // Whether this wallet may still vote in the election on the ballot
+  const { data: participation, isLoading: loadingParticipation } = useQuery({
+    queryKey: ['participation', electionData?.id, account],
+    queryFn: () => getParticipation(electionData!.id, account!),
+    enabled: !!electionData?.id && !!account,
+  });
+
+  // With the server's relayer on, the voter signs a ballot and needs no MATIC for gas
+  const { data: relayerStatus } = useQuery({
+    queryKey: ['/api/relay'],
+    queryFn: getRelayerStatus,
   });
+  const gasless = relayerStatus?.enabled === true;
 
   const handleSelectCandidate = (candidate: Candidate) => {
     setSelectedCandidate(candidate);
@@ -129,6 +104,25 @@ export default function Vote() {
   const handleCastVote = async () => {
     if (!selectedCandidate || !electionData?.id) return;
 
+    if (!hasLiveness) {
+      toast({
+        title: "Liveness check required",
+        description: "Your liveness check has expired. Please complete it again before voting.",
+        variant: "destructive"
+      });
+      setCurrentStep(VotingStep.LIVENESS_CHECK);
+      return;
+    }
+
+    if (isWrongNetwork) {
+      toast({
+        title: "Wrong network",
+        description: "Switch your wallet to the election network before voting.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -150,51 +144,38 @@ export default function Vote() {
       // Now proceed with the voting process
       console.log("Preparing to vote with account:", account);
       
-      // Hash the NIN for blockchain verification
-      const voterNINHash = await hashNIN(voterNIN);
-      console.log("NIN hash created for voting");
-      
       // Inform user about the next steps
       toast({
         title: "Processing vote",
-        description: "Please confirm the transaction in your wallet. This may take a moment.",
+        description: gasless
+          ? "Please sign your ballot in your wallet. This may take a moment."
+          : "Please confirm the transaction in your wallet. This may take a moment.",
       });
 
-      // Send the vote transaction
-      const result = await castVote(
-        electionData.id,
-        selectedCandidate.index,
-        voterNINHash
-      );
+      // Relayed ballots are checked against the NIN itself; a vote sent from the wallet
+      // carries its hash
+      const result = gasless
+        ? await castRelayedVote(electionData.id, selectedCandidate.index, voterNIN)
+        : await castVote(electionData.id, selectedCandidate.index, await hashNIN(voterNIN));
 
       // Handle successful vote
       if (result.success && result.transactionHash) {
         setTransactionHash(result.transactionHash);
         setTransactionTimestamp(new Date().toLocaleString());
+        if (result.voterHash) {
+          setVoteReceipt(buildVoteReceipt({
+            electionId: electionData.id,
+            electionName: electionData.name,
+            candidateIndex: selectedCandidate.index,
+            candidateName: selectedCandidate.name,
+            voterHash: result.voterHash,
+            transactionHash: result.transactionHash,
+            blockNumber: result.blockNumber,
+          }));
+        }
         setHasVoted(true);
         setCurrentStep(VotingStep.TRANSACTION_CONFIRMATION);
 
-        // Update the voter status in Supabase database
-        try {
-          if (account) {
-            console.log("Updating NIN vote status in database for wallet:", account);
-            // Update user status to voted
-            const updateResult = await updateNINVerificationStatus(account, 'Y');
-            
-            if (updateResult.success) {
-              console.log("Successfully updated voter status in database");
-            } else {
-              console.error("Failed to update voter status:", updateResult.error);
-              // Don't block the flow if database update fails
-            }
-          } else {
-            console.error("Cannot update NIN status: account is null");
-          }
-        } catch (updateError) {
-          console.error("Error updating voter status:", updateError);
-          // Don't block the flow if database update fails
-        }
-
         toast({
           title: "Vote submitted successfully",
           description: "Your vote has been recorded on the blockchain and is now immutable."
@@ -308,6 +289,7 @@ export default function Vote() {
           transactionHash={transactionHash}
           candidateName={selectedCandidate?.name || ""}
           timestamp={transactionTimestamp}
+          receipt={voteReceipt ?? undefined}
         />
       );
     }
@@ -318,13 +300,34 @@ export default function Vote() {
           <NinLoginForm 
             onComplete={(nin: string) => {
               setVoterNIN(nin);
-              setCurrentStep(VotingStep.CANDIDATE_SELECTION);
+              setCurrentStep(VotingStep.LIVENESS_CHECK);
             }} 
           />
         );
 
+      case VotingStep.LIVENESS_CHECK:
+        return (
+          <LivenessCheck
+            subject={account || ""}
+            onComplete={(result) => {
+              setLivenessResult(result);
+              setCurrentStep(VotingStep.CANDIDATE_SELECTION);
+            }}
+          />
+        );
+
       case VotingStep.CANDIDATE_SELECTION:
-        if (loadingElection) {
+        // Expired, or the wallet changed since the check
+        if (!hasLiveness) {
+          return (
+            <LivenessCheck
+              subject={account || ""}
+              onComplete={setLivenessResult}
+            />
+          );
+        }
+
+        if (loadingElection || loadingParticipation) {
           return (
             <div className="text-center py-8">
               <p className="text-gray-500">Loading election data...</p>
@@ -336,6 +339,27 @@ export default function Vote() {
           return <NoActiveElection />;
         }
 
+        if (participation?.votedAt || (participation && !participation.eligible)) {
+          return (
+            <Card className="max-w-3xl mx-auto">
+              <CardHeader>
+                <CardTitle>{participation.votedAt ? "Already Voted" : "Not Eligible"}</CardTitle>
+                <CardDescription>{electionData.name}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Alert className="bg-amber-50 border-amber-200">
+                  <AlertTriangle className="h-5 w-5 text-amber-500" />
+                  <AlertDescription>
+                    {participation.votedAt
+                      ? `You voted in this election on ${new Date(participation.votedAt).toLocaleString()}.`
+                      : "This wallet is not eligible to vote in this election. Please contact the election administrator."}
+                  </AlertDescription>
+                </Alert>
+              </CardContent>
+            </Card>
+          );
+        }
+
         return (
           <div className="space-y-6 max-w-6xl mx-auto">
             <UserInfoCard userInfo={{ nin: voterNIN }} />
@@ -343,17 +367,24 @@ export default function Vote() {
             <div className="mb-4">
               <h2 className="text-xl font-semibold text-gray-900 mb-2">Select a Candidate</h2>
               <p className="text-gray-600">Choose one candidate from the list below</p>
+              {electionMetadata?.metadata.description && (
+                <p className="text-gray-700 mt-2 whitespace-pre-line">{electionMetadata.metadata.description}</p>
+              )}
             </div>
 
             <CandidateGrid
-              candidates={electionData.candidates}
+              candidates={electionData.candidates.map((candidate) => ({ ...candidate, profile: profileFor(candidate) }))}
               onSelectCandidate={(candidate) => setSelectedCandidate(candidate as Candidate)}
               selectedCandidateId={selectedCandidate?.index || null}
             />
 
 
             
-            {selectedCandidate && (
+            {selectedCandidate && isWrongNetwork && (
+              <WrongNetworkAlert action="cast your vote" />
+            )}
+
+            {selectedCandidate && !isWrongNetwork && (
               <div className="bg-primary/5 border border-primary/20 rounded-lg p-4 flex flex-col sm:flex-row justify-between items-center space-y-4 sm:space-y-0">
                 <div>
                   <h3 className="text-sm font-medium">Ready to cast your vote for:</h3>
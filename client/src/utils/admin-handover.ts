@@ -0,0 +1,52 @@
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { activeNetwork } from '@/lib/network';
+
+// A changeAdmin transaction that has been sent but not yet settled. Kept in localStorage
+// so a reload (or a closed tab) picks up waiting for it instead of losing track.
+
+export interface PendingHandover {
+  transactionHash: string;
+  previousAdmin: string;
+  newAdmin: string;
+  chainId: number;
+  contractAddress: string;
+  submittedAt: number;
+}
+
+const PENDING_HANDOVER_KEY = 'blockvote-pending-handover';
+
+// Only handovers sent to the contract this build currently talks to
+export const loadPendingHandover = (): PendingHandover | null => {
+  try {
+    const raw = localStorage.getItem(PENDING_HANDOVER_KEY);
+    if (!raw) return null;
+
+    const pending = JSON.parse(raw) as PendingHandover;
+    const sameContract =
+      pending.chainId === activeNetwork.chainId &&
+      pending.contractAddress.toLowerCase() === activeNetwork.contractAddress.toLowerCase();
+    return sameContract ? pending : null;
+  } catch (err) {
+    console.warn('Unable to read pending admin handover:', err);
+    return null;
+  }
+};
+
+export const savePendingHandover = (pending: PendingHandover): void => {
+  localStorage.setItem(PENDING_HANDOVER_KEY, JSON.stringify(pending));
+};
+
+export const clearPendingHandover = (): void => {
+  localStorage.removeItem(PENDING_HANDOVER_KEY);
+};
+
+// Tell the server about the mined handover so its role table follows the contract
+export const reportHandover = async (transactionHash: string) => {
+  try {
+    await apiRequest('POST', '/api/admin/handover', { transactionHash });
+    return { success: true };
+  } catch (err: any) {
+    console.error('Error reporting admin handover:', err);
+    return { success: false, error: getApiErrorMessage(err) };
+  }
+};
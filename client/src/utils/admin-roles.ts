@@ -0,0 +1,49 @@
+import type { AdminRole } from '@shared/permissions';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+
+// Admin role management (superadmins only). Each grant or revoke is confirmed by signing
+// a message the server issues for that exact change.
+
+export interface AdminRoleGrant {
+  walletAddress: string;
+  role: AdminRole;
+  grantedBy: string;
+  grantedAt: string;
+}
+
+export interface AdminRoster {
+  // Always a superadmin; replaced only through changeAdmin on-chain
+  contractAdmin: string;
+  grants: AdminRoleGrant[];
+}
+
+export type RoleChange =
+  | { action: 'grant'; walletAddress: string; role: AdminRole }
+  | { action: 'revoke'; walletAddress: string };
+
+export const getAdminRoster = async (): Promise<AdminRoster> => {
+  const res = await apiRequest('GET', '/api/admin/roles');
+  return res.json();
+};
+
+// `sign` returns null when the wallet prompt is dismissed
+export const changeAdminRole = async (
+  change: RoleChange,
+  sign: (message: string) => Promise<string | null>,
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const requested = await apiRequest('POST', '/api/admin/roles/changes', change);
+    const { message } = await requested.json();
+
+    const signature = await sign(message);
+    if (!signature) {
+      return { success: false, error: 'The confirmation was not signed' };
+    }
+
+    await apiRequest('POST', '/api/admin/roles/changes/confirm', { signature });
+    return { success: true };
+  } catch (err: any) {
+    console.error('Error changing admin role:', err);
+    return { success: false, error: getApiErrorMessage(err) };
+  }
+};
@@ -0,0 +1,58 @@
+import type { ethers } from 'ethers';
+import { SiweMessage } from 'siwe';
+import type { AdminRole } from '@shared/permissions';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { activeNetwork } from '@/lib/network';
+
+// Server-side admin session, held in an httpOnly cookie. Signing in uses Sign-In with
+// Ethereum (EIP-4361): the wallet signs a message carrying a one-time server nonce.
+
+export interface AdminSession {
+  address: string;
+  role: AdminRole;
+}
+
+const SIGN_IN_STATEMENT = 'Sign in to the BlockVote admin panel.';
+const MESSAGE_TTL_MS = 5 * 60 * 1000;
+
+export const signInAdmin = async (signer: ethers.Signer): Promise<AdminSession> => {
+  try {
+    const address = await signer.getAddress();
+    const nonceRes = await apiRequest('GET', '/api/admin/nonce');
+    const { nonce } = await nonceRes.json();
+
+    const issuedAt = new Date();
+    const message = new SiweMessage({
+      domain: window.location.host,
+      address,
+      statement: SIGN_IN_STATEMENT,
+      uri: window.location.origin,
+      version: '1',
+      chainId: activeNetwork.chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: new Date(issuedAt.getTime() + MESSAGE_TTL_MS).toISOString(),
+    }).prepareMessage();
+
+    const signature = await signer.signMessage(message);
+    const res = await apiRequest('POST', '/api/admin/login', { message, signature });
+    return await res.json();
+  } catch (err: any) {
+    throw new Error(getApiErrorMessage(err));
+  }
+};
+
+// The signed-in admin, or null without a valid session
+export const getAdminSession = async (): Promise<AdminSession | null> => {
+  const res = await fetch('/api/admin/session', { credentials: 'include' });
+  if (!res.ok) return null;
+  return res.json();
+};
+
+export const signOutAdmin = async (): Promise<void> => {
+  try {
+    await apiRequest('POST', '/api/admin/logout');
+  } catch (err) {
+    console.error('Error signing out:', err);
+  }
+};
@@ -1,13 +1,22 @@
 import { ethers } from "ethers";
 import VotingSystemABI from "../contracts/VotingSystem.json";
+import VotingSystemV2ABI from "../contracts/VotingSystemV2.json";
 import { Candidate } from "../types/candidate";
 import { cache } from "../lib/cache";
+import { activeNetwork } from "../lib/network";
+import { ProviderPool, isRetryableRpcError } from "../lib/provider-pool";
+import { TransactionTracker, type LocalTransaction } from "../lib/transaction-tracker";
+import { ChainClock } from "../lib/chain-clock";
+import { AbiDecoder, getRevertData, type DecodedError, type DecodedEvent, type DecodedFunction } from "@shared/abi-decoder";
+import { getExplorerTxUrl } from "@shared/networks";
+import { checkTransaction } from "@shared/transactions";
+import { BALLOT_TYPES, BALLOT_VALIDITY_SECONDS, ballotDomain, computeVoterHash, type Ballot } from "@shared/ballots";
+import { getApiErrorMessage } from "../lib/queryClient";
+import { submitBallot } from "./relay";
 
-// Contract address from deployment
-export const CONTRACT_ADDRESS = '0xc0895D39fBBD1918067d5Fa41beDAF51d36665B5';
-
-// Primary RPC URL - using public Polygon Amoy RPC due to Alchemy service issues
-export const ALCHEMY_URL = 'https://rpc-amoy.polygon.technology/';
+// Contract address and primary RPC URL of the active network (see shared/networks.ts)
+export const CONTRACT_ADDRESS = activeNetwork.contractAddress;
+export const ALCHEMY_URL = activeNetwork.rpcUrls[0];
 
 // Types for blockchain interactions
 export interface ElectionInfo {
@@ -35,55 +44,75 @@ export interface PaginatedTransactions {
   nextBlock?: number;
 }
 
+// One transaction with its input, logs and (when it reverted) its error decoded from the ABI
+export interface TransactionDetail {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string;
+  blockNumber: number | null;
+  timestamp: Date | null;
+  status: "Success" | "Failed" | "Pending";
+  gasUsed: string | null;
+  // First four bytes of the input, for calls the ABI doesn't describe
+  selector: string;
+  call: DecodedFunction | null;
+  events: Array<DecodedEvent & { logIndex: number; address: string }>;
+  // Logs no ABI event matches (e.g. emitted by another contract)
+  undecodedLogs: number;
+  error: DecodedError | null;
+  // Revert data that isn't one of the ABI's errors
+  rawRevertData: string | null;
+}
+
 export interface TransactionResult {
   success: boolean;
   transactionHash?: string;
   error?: string;
   electionId?: number;
+  voterHash?: string;
   from?: string;
   to?: string;
   blockNumber?: number;
 }
 
-// Enhanced rate limiter with retry logic for Alchemy API
+// Request scheduler in front of the RPC provider pool. Requests run concurrently (up to
+// maxConcurrent) so ethers can fold them into JSON-RPC batches instead of spacing them out.
+// Failing endpoints are skipped by the pool; if every endpoint fails temporarily the whole
+// request is retried with backoff.
 class RateLimiter {
-  private requestQueue: Array<() => void> = [];
-  private isProcessing = false;
-  private lastRequestTime = 0;
-  private readonly minInterval = 150; // 150ms between requests = ~6.7 requests/second
+  private waiting: Array<() => void> = [];
+  private active = 0;
+  private readonly maxConcurrent = 8;
   private readonly maxRetries = 3;
-  private readonly retryDelay = 2000; // 2 seconds between retries
-
-  async executeRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.requestQueue.push(async () => {
-        try {
-          const result = await this.retryRequest(requestFn);
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
-      });
-      this.processQueue();
-    });
+  private readonly retryDelay = 2000; // 2 seconds, growing with each attempt
+
+  constructor(private pool: ProviderPool) {}
+
+  async executeRequest<T>(
+    requestFn: (contract: ethers.Contract, provider: ethers.JsonRpcProvider) => Promise<T>
+  ): Promise<T> {
+    await this.acquire();
+    try {
+      return await this.retryRequest(requestFn);
+    } finally {
+      this.release();
+    }
   }
 
-  private async retryRequest<T>(requestFn: () => Promise<T>): Promise<T> {
+  private async retryRequest<T>(
+    requestFn: (contract: ethers.Contract, provider: ethers.JsonRpcProvider) => Promise<T>
+  ): Promise<T> {
     let lastError: any;
     
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
-        return await requestFn();
+        return await this.pool.execute(provider => requestFn(getContractFor(provider), provider));
       } catch (error: any) {
         lastError = error;
         
-        // Check if it's a temporary Alchemy API error
-        const isTemporaryError = error?.info?.error?.code === -32001 || 
-                                error?.info?.error?.message?.includes("Unable to complete request") ||
-                                error?.info?.error?.message?.includes("Internal error");
-        
-        if (isTemporaryError && attempt < this.maxRetries) {
-          console.log(`Alchemy API temporary error, retrying attempt ${attempt}/${this.maxRetries}...`);
+        if (isRetryableRpcError(error) && attempt < this.maxRetries) {
+          console.log(`All RPC endpoints failed, retrying attempt ${attempt}/${this.maxRetries}...`);
           await new Promise(resolve => setTimeout(resolve, this.retryDelay * attempt));
           continue;
         }
@@ -95,41 +124,167 @@ class RateLimiter {
     throw lastError;
   }
 
-  private async processQueue() {
-    if (this.isProcessing || this.requestQueue.length === 0) return;
-    
-    this.isProcessing = true;
-    
-    while (this.requestQueue.length > 0) {
-      const now = Date.now();
-      const timeSinceLastRequest = now - this.lastRequestTime;
-      
-      if (timeSinceLastRequest < this.minInterval) {
-        await new Promise(resolve => setTimeout(resolve, this.minInterval - timeSinceLastRequest));
-      }
-      
-      const request = this.requestQueue.shift();
-      if (request) {
-        this.lastRequestTime = Date.now();
-        await request();
-      }
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiting request
+      next();
+    } else {
+      this.active--;
     }
-    
-    this.isProcessing = false;
   }
 }
 
-const rateLimiter = new RateLimiter();
+// One long-lived provider per RPC endpoint of the active network
+const providerPool = new ProviderPool(activeNetwork.rpcUrls, { chainId: activeNetwork.chainId });
+const rateLimiter = new RateLimiter(providerPool);
+// Plus what the VotingSystemV2 upgrade added (castVoteBySig, BallotRelayed), so relayed
+// ballots decode like any other vote
+const votingAbi = [
+  ...VotingSystemABI.abi,
+  ...VotingSystemV2ABI.abi.filter((entry) => entry.name && !VotingSystemABI.abi.some((known) => known.name === entry.name)),
+];
+const votingInterface = new ethers.Interface(votingAbi);
+export const votingDecoder = new AbiDecoder(votingAbi);
 
-// Initialize ethers provider
+const contractsByProvider = new WeakMap<ethers.JsonRpcProvider, ethers.Contract>();
+function getContractFor(provider: ethers.JsonRpcProvider): ethers.Contract {
+  let contract = contractsByProvider.get(provider);
+  if (!contract) {
+    contract = new ethers.Contract(CONTRACT_ADDRESS, VotingSystemABI.abi, provider);
+    contractsByProvider.set(provider, contract);
+  }
+  return contract;
+}
+
+// Healthiest provider from the pool (providers are reused, not rebuilt per call)
 const getProvider = () => {
-  return new ethers.JsonRpcProvider(ALCHEMY_URL);
+  return providerPool.getProvider();
 };
 
 // Initialize contract instance for read-only operations
 const getReadOnlyContract = () => {
-  const provider = getProvider();
-  return new ethers.Contract(CONTRACT_ADDRESS, VotingSystemABI.abi, provider);
+  return getContractFor(getProvider());
+};
+
+// Sent transactions are followed through the RPC pool (see lib/transaction-tracker.ts)
+export const transactionTracker = new TransactionTracker((sent) =>
+  providerPool.execute((provider) => checkTransaction(provider, sent, { contractAddress: CONTRACT_ADDRESS })),
+);
+
+// Election status is judged by chain time (see lib/chain-clock.ts)
+export const chainClock = new ChainClock(() =>
+  rateLimiter.executeRequest(async (_contract, provider) => {
+    const block = await provider.getBlock("latest");
+    if (!block) throw new Error("The RPC endpoint returned no latest block");
+    return block.timestamp;
+  })
+);
+
+// Wallet accounts this site is already connected to, without prompting
+export const getConnectedAccounts = async (): Promise<string[]> => {
+  if (!window.ethereum) return [];
+  try {
+    return await window.ethereum.request({ method: 'eth_accounts' });
+  } catch {
+    return [];
+  }
+};
+
+// Why a tracked transaction didn't go through, for transactions that settled unconfirmed
+export const describeUnconfirmed = (transaction: LocalTransaction): string => {
+  switch (transaction.status) {
+    case "failed":
+      return "The transaction was mined but reverted.";
+    case "replaced":
+      return "The transaction was cancelled or replaced in your wallet.";
+    case "dropped":
+      return "The transaction was dropped by the network before it was mined.";
+    default:
+      return "The transaction was not confirmed.";
+  }
+};
+
+// Health of each RPC endpoint, for diagnostics
+export const getRpcEndpointStats = () => providerPool.getStats();
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+interface ContractRead {
+  method: string;
+  args: unknown[];
+}
+
+// Run several read-only contract calls in one round trip. Uses Multicall3 where the network
+// has it; otherwise the calls are issued together and ethers sends them as one JSON-RPC batch.
+// Failed reads resolve to null rather than failing the whole group.
+const multicallRead = async (reads: ContractRead[]): Promise<Array<ethers.Result | null>> => {
+  const multicallAddress = activeNetwork.multicall3Address;
+
+  if (multicallAddress) {
+    const results = await rateLimiter.executeRequest(async (_contract, provider) => {
+      const multicall = new ethers.Contract(multicallAddress, MULTICALL3_ABI, provider);
+      return await multicall.aggregate3.staticCall(
+        reads.map(read => ({
+          target: CONTRACT_ADDRESS,
+          allowFailure: true,
+          callData: votingInterface.encodeFunctionData(read.method, read.args)
+        }))
+      );
+    });
+
+    return reads.map((read, i) => {
+      const [success, returnData] = results[i];
+      if (!success) return null;
+      try {
+        return votingInterface.decodeFunctionResult(read.method, returnData);
+      } catch (error) {
+        return null;
+      }
+    });
+  }
+
+  return Promise.all(reads.map(read =>
+    rateLimiter
+      .executeRequest(contract => contract[read.method](...read.args) as Promise<ethers.Result>)
+      .then(result => (Array.isArray(result) ? result : [result]) as ethers.Result)
+      .catch(() => null)
+  ));
+};
+
+const toElectionInfo = (info: any): ElectionInfo => ({
+  name: info.name,
+  startTime: new Date(Number(info.startTime) * 1000),
+  endTime: new Date(Number(info.endTime) * 1000),
+  active: info.active,
+  candidateCount: Number(info.candidateCount)
+});
+
+const toCandidates = (result: any): Candidate[] =>
+  result.names.map((name: string, i: number) => ({
+    name,
+    party: result.parties[i],
+    votes: Number(result.votesCounts[i]),
+    index: i
+  }));
+
+// Reject writes from a wallet connected to another chain before they turn into gas errors
+const assertWalletNetwork = async (provider: ethers.BrowserProvider): Promise<string | null> => {
+  const network = await provider.getNetwork();
+  if (Number(network.chainId) !== activeNetwork.chainId) {
+    return `Your wallet is connected to chain ${network.chainId}. Please switch to ${activeNetwork.name} and try again.`;
+  }
+  return null;
 };
 
 // Create an election
@@ -139,6 +294,8 @@ export const createElection = async (
   endTime: Date,
   candidateNames: string[],
   candidateParties: string[],
+  // The draft this publishes; the server records the publication once the transaction confirms
+  draftId?: number,
 ): Promise<TransactionResult> => {
   if (!window.ethereum) {
     return { success: false, error: "MetaMask is not installed!" };
@@ -155,6 +312,10 @@ export const createElection = async (
     
     await window.ethereum.request({ method: 'eth_requestAccounts' });
     const provider = new ethers.BrowserProvider(window.ethereum);
+    const networkError = await assertWalletNetwork(provider);
+    if (networkError) {
+      return { success: false, error: networkError };
+    }
     const signer = await provider.getSigner();
     const contract = new ethers.Contract(CONTRACT_ADDRESS, VotingSystemABI.abi, signer);
 
@@ -170,6 +331,7 @@ export const createElection = async (
     try {
       // Send the transaction
       console.log("Sending transaction to create election...");
+      const startBlock = await provider.getBlockNumber();
       const tx = await contract.createElection(
         name,
         startTimeUnix,
@@ -180,33 +342,23 @@ export const createElection = async (
       
       console.log("Transaction sent:", tx.hash);
       
-      // Wait for transaction confirmation
+      // Tracked rather than awaited, so a refresh or a sped-up transaction isn't lost
       console.log("Waiting for transaction confirmation...");
-      const receipt = await tx.wait();
-      console.log("Transaction confirmed:", receipt);
+      await transactionTracker.track(tx, startBlock, "createElection", { draftId });
+      const settled = await transactionTracker.wait(tx.hash);
+      if (settled.status !== "confirmed") {
+        return { success: false, error: describeUnconfirmed(settled) };
+      }
+      console.log("Transaction confirmed:", settled.minedHash);
       
-      // Safely extract properties from receipt
       const result: TransactionResult = { 
         success: true, 
-        transactionHash: receipt.hash || tx.hash,
-        from: typeof receipt.from === 'string' ? receipt.from : undefined,
-        to: typeof receipt.to === 'string' ? receipt.to : undefined,
-        blockNumber: typeof receipt.blockNumber === 'number' || 
-                    typeof receipt.blockNumber === 'bigint' ? 
-                    Number(receipt.blockNumber) : undefined
+        transactionHash: settled.minedHash!,
+        from: settled.from,
+        to: settled.to,
+        blockNumber: settled.blockNumber ?? undefined
       };
       
-      // Import the resetAllVoterStatus function from supabase.ts dynamically
-      try {
-        // Reset all voter status to 'N' for the new election
-        const { resetAllVoterStatus } = await import('./supabase');
-        await resetAllVoterStatus();
-        console.log("Reset all voter status to 'N' for the new election");
-      } catch (resetError) {
-        console.error("Error resetting voter status:", resetError);
-        // Continue with the success result even if reset fails
-      }
-      
       console.log("Returning successful result:", result);
       return result;
     } catch (error: any) {
@@ -247,9 +399,8 @@ export const getActiveElectionId = async (): Promise<number> => {
   const cached = cache.get<number>(cacheKey);
   if (cached !== null) return cached;
 
-  const contract = getReadOnlyContract();
   try {
-    const currentId = await rateLimiter.executeRequest(async () => {
+    const currentId = await rateLimiter.executeRequest(async (contract) => {
       return await contract.currentElectionId();
     });
     const result = Number(currentId);
@@ -275,19 +426,12 @@ export const getElectionInfo = async (electionId: number): Promise<ElectionInfo
   const cached = cache.get<ElectionInfo | null>(cacheKey);
   if (cached !== null) return cached;
 
-  const contract = getReadOnlyContract();
   try {
-    const info = await rateLimiter.executeRequest(async () => {
+    const info = await rateLimiter.executeRequest(async (contract) => {
       return await contract.getElectionInfo(electionId);
     });
 
-    const result = {
-      name: info.name,
-      startTime: new Date(Number(info.startTime) * 1000),
-      endTime: new Date(Number(info.endTime) * 1000),
-      active: info.active,
-      candidateCount: Number(info.candidateCount)
-    };
+    const result = toElectionInfo(info);
     
     cache.set(cacheKey, result, 120000); // Cache for 2 minutes
     return result;
@@ -304,18 +448,12 @@ export const getAllCandidates = async (electionId: number): Promise<Candidate[]>
   const cached = cache.get<Candidate[]>(cacheKey);
   if (cached !== null) return cached;
 
-  const contract = getReadOnlyContract();
   try {
-    const result = await rateLimiter.executeRequest(async () => {
+    const result = await rateLimiter.executeRequest(async (contract) => {
       return await contract.getAllCandidates(electionId);
     });
 
-    const candidates = result.names.map((name: string, i: number) => ({
-      name,
-      party: result.parties[i],
-      votes: Number(result.votesCounts[i]),
-      index: i
-    }));
+    const candidates = toCandidates(result);
     
     cache.set(cacheKey, candidates, 60000); // Cache for 1 minute
     return candidates;
@@ -333,9 +471,8 @@ export const getTotalVotes = async (electionId: number): Promise<number> => {
   const cached = cache.get<number>(cacheKey);
   if (cached !== null) return cached;
 
-  const contract = getReadOnlyContract();
   try {
-    const total = await rateLimiter.executeRequest(async () => {
+    const total = await rateLimiter.executeRequest(async (contract) => {
       return await contract.getTotalVotes(electionId);
     });
     const result = Number(total);
@@ -348,6 +485,96 @@ export const getTotalVotes = async (electionId: number): Promise<number> => {
   }
 };
 
+export interface ElectionBundle {
+  info: ElectionInfo;
+  candidates: Candidate[];
+  totalVotes: number;
+}
+
+// Election info, candidates and total votes in a single round trip, sharing the per-call caches
+export const getElectionBundle = async (electionId: number): Promise<ElectionBundle | null> => {
+  const cachedInfo = cache.get<ElectionInfo | null>(`electionInfo_${electionId}`);
+  const cachedCandidates = cache.get<Candidate[]>(`candidates_${electionId}`);
+  const cachedTotal = cache.get<number>(`totalVotes_${electionId}`);
+  if (cachedInfo && cachedCandidates && cachedTotal !== null) {
+    return { info: cachedInfo, candidates: cachedCandidates, totalVotes: cachedTotal };
+  }
+
+  try {
+    const [info, candidates, total] = await multicallRead([
+      { method: 'getElectionInfo', args: [electionId] },
+      { method: 'getAllCandidates', args: [electionId] },
+      { method: 'getTotalVotes', args: [electionId] }
+    ]);
+    if (!info) {
+      cache.set(`electionInfo_${electionId}`, null, 30000);
+      return null;
+    }
+
+    const bundle: ElectionBundle = {
+      info: toElectionInfo(info),
+      candidates: candidates ? toCandidates(candidates) : [],
+      totalVotes: total ? Number(total[0]) : 0
+    };
+
+    cache.set(`electionInfo_${electionId}`, bundle.info, 120000);
+    cache.set(`candidates_${electionId}`, bundle.candidates, 60000);
+    cache.set(`totalVotes_${electionId}`, bundle.totalVotes, 60000);
+    return bundle;
+  } catch (error) {
+    console.error(`Error loading election bundle for ID ${electionId}:`, error);
+    return null;
+  }
+};
+
+export interface ElectionSummary {
+  id: number;
+  info: ElectionInfo;
+  totalVotes: number;
+}
+
+// Info and vote totals of every election the contract has created, in one round trip
+export const getElectionSummaries = async (): Promise<ElectionSummary[]> => {
+  const nextId = await getActiveElectionId();
+  const ids = Array.from({ length: Math.max(nextId - 1, 0) }, (_, i) => i + 1);
+  if (ids.length === 0) return [];
+
+  const results = await multicallRead(
+    ids.flatMap(id => [
+      { method: 'getElectionInfo', args: [id] },
+      { method: 'getTotalVotes', args: [id] }
+    ])
+  );
+
+  const summaries: ElectionSummary[] = [];
+  ids.forEach((id, i) => {
+    const info = results[i * 2];
+    const total = results[i * 2 + 1];
+    // getElectionInfo reverts for ids that were never created
+    if (!info || !info.name) return;
+
+    const summary = { id, info: toElectionInfo(info), totalVotes: total ? Number(total[0]) : 0 };
+    cache.set(`electionInfo_${id}`, summary.info, 120000);
+    cache.set(`totalVotes_${id}`, summary.totalVotes, 60000);
+    summaries.push(summary);
+  });
+  return summaries;
+};
+
+// Drop cached contract reads after a live update. A vote only changes its election's
+// counts; a new election can change anything that lists elections.
+export const invalidateElectionCache = (electionId?: number): void => {
+  if (electionId === undefined) {
+    cache.clear();
+    return;
+  }
+  cache.delete(`candidates_${electionId}`);
+  cache.delete(`totalVotes_${electionId}`);
+};
+
+// The voter hash castVote submits and VoteCast emits (shared with the relayer)
+export { computeVoterHash };
+
 // Cast a vote
 export const castVote = async (
   electionId: number,
@@ -362,21 +589,16 @@ export const castVote = async (
 
     await window.ethereum.request({ method: 'eth_requestAccounts' });
     const provider = new ethers.BrowserProvider(window.ethereum);
+    const networkError = await assertWalletNetwork(provider);
+    if (networkError) {
+      return { success: false, error: networkError };
+    }
     const signer = await provider.getSigner();
     const address = await signer.getAddress();
     console.log("Voting from address:", address);
     
     // Create a unique voter hash that combines election ID and NIN hash
-    // First ensure the NIN hash is in the correct format
-    const cleanNINHash = voterNINHash.startsWith('0x') ? voterNINHash.slice(2) : voterNINHash;
-
-    // Pack the election ID and NIN hash together and create a new hash
-    const uniqueVoterHash = ethers.keccak256(
-      ethers.solidityPacked(
-        ['uint256', 'bytes32'],
-        [electionId, `0x${cleanNINHash}`]
-      )
-    );
+    const uniqueVoterHash = computeVoterHash(electionId, voterNINHash);
 
     console.log("Casting vote with:", {
       electionId,
@@ -417,6 +639,7 @@ export const castVote = async (
       console.log("Using gas limit:", gasLimit);
       
       // Send the transaction with explicit gas settings
+      const startBlock = await provider.getBlockNumber();
       const tx = await contract.castVote(
         electionId, 
         candidateIndex, 
@@ -426,32 +649,30 @@ export const castVote = async (
       
       console.log("Vote transaction sent:", tx.hash);
       
-      // Update voter status in database while transaction is confirming
-      try {
-        const { updateNINVerificationStatus } = await import('./supabase');
-        await updateNINVerificationStatus(address, 'Y');
-        console.log("Updated voter status to 'Y' in database");
-      } catch (dbError) {
-        console.error("Error updating voter status:", dbError);
-        // Continue with blockchain transaction even if database update fails
-      }
-      
-      // Wait for receipt
+      // The tracker follows it to the end, including speed-ups, and has the server record
+      // the vote once it is confirmed
       console.log("Waiting for transaction confirmation...");
-      const receipt = await tx.wait();
-      console.log("Transaction confirmed:", receipt);
+      await transactionTracker.track(tx, startBlock, "castVote", { electionId });
+      const settled = await transactionTracker.wait(tx.hash);
+      if (settled.status !== "confirmed") {
+        return { success: false, error: describeUnconfirmed(settled) };
+      }
+      console.log("Transaction confirmed:", settled.minedHash);
 
-      // After successful vote, open the transaction in OKLink explorer
-      const explorerUrl = `https://www.oklink.com/amoy/tx/${receipt.hash}`;
-      window.open(explorerUrl, '_blank');
+      // After successful vote, open the transaction in the network's block explorer
+      const explorerUrl = getExplorerTxUrl(activeNetwork, settled.minedHash!);
+      if (explorerUrl) {
+        window.open(explorerUrl, '_blank');
+      }
 
       return {
         success: true,
-        transactionHash: receipt.hash,
+        transactionHash: settled.minedHash!,
         electionId,
-        from: receipt.from,
-        to: receipt.to,
-        blockNumber: receipt.blockNumber
+        voterHash: uniqueVoterHash,
+        from: settled.from,
+        to: settled.to,
+        blockNumber: settled.blockNumber ?? undefined
       };
     } catch (error: any) {
       console.error("Error in gas estimation or transaction:", error);
@@ -492,6 +713,270 @@ export const castVote = async (
   }
 };
 
+// Cast a vote without paying gas: the wallet signs the ballot and the server's relayer sends
+// it to castVoteBySig (shared/ballots.ts). The relayer checks the NIN against the wallet's registration,
+// so it takes the NIN itself rather than its hash.
+export const castRelayedVote = async (
+  electionId: number,
+  candidateIndex: number,
+  nin: string
+): Promise<TransactionResult> => {
+  if (!window.ethereum) {
+    return { success: false, error: "MetaMask is not installed!" };
+  }
+
+  try {
+    await window.ethereum.request({ method: 'eth_requestAccounts' });
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    const networkError = await assertWalletNetwork(provider);
+    if (networkError) {
+      return { success: false, error: networkError };
+    }
+    const signer = await provider.getSigner();
+
+    const ballot: Ballot = {
+      electionId,
+      candidateIndex,
+      voterHash: computeVoterHash(electionId, await hashNIN(nin)),
+      // A minute short of the limit, for clock differences with the server
+      deadline: Math.floor(Date.now() / 1000) + BALLOT_VALIDITY_SECONDS - 60,
+    };
+    const signature = await signer.signTypedData(
+      ballotDomain(activeNetwork.chainId, CONTRACT_ADDRESS),
+      BALLOT_TYPES,
+      ballot
+    );
+
+    // The server follows the transaction too and records the vote once it is confirmed
+    const tracked = await submitBallot(ballot, signature, nin);
+    await transactionTracker.adopt(tracked);
+    const settled = await transactionTracker.wait(tracked.hash);
+    if (settled.status !== "confirmed") {
+      return { success: false, error: describeUnconfirmed(settled) };
+    }
+
+    return {
+      success: true,
+      transactionHash: settled.minedHash!,
+      electionId,
+      voterHash: ballot.voterHash,
+      from: settled.from,
+      to: settled.to,
+      blockNumber: settled.blockNumber ?? undefined
+    };
+  } catch (error: any) {
+    console.error("Error casting relayed vote:", error);
+    if (error.code === "ACTION_REJECTED") {
+      return { success: false, error: "You rejected the ballot signature in your wallet." };
+    }
+    return { success: false, error: getApiErrorMessage(error) };
+  }
+};
+
+// Current contract admin, read fresh for the admin handover
+export const getContractAdmin = async (): Promise<string> => {
+  return rateLimiter.executeRequest(async (contract) => {
+    return (await contract.admin()) as string;
+  });
+};
+
+export interface DecodedCall {
+  to: string;
+  data: string;
+  functionSignature: string;
+  selector: string;
+  args: Array<{ name: string; type: string; value: string }>;
+}
+
+// changeAdmin calldata, decoded back from the encoded bytes so the confirmation shows
+// exactly what the wallet will be asked to send
+export const describeChangeAdmin = (newAdmin: string): DecodedCall => {
+  const data = votingInterface.encodeFunctionData('changeAdmin', [newAdmin]);
+  const call = votingDecoder.decodeFunction(data)!;
+  return {
+    to: CONTRACT_ADDRESS,
+    data,
+    functionSignature: call.signature,
+    selector: call.selector,
+    args: call.args,
+  };
+};
+
+// Send changeAdmin. Resolves as soon as the wallet has broadcast the transaction; use
+// waitForAdminChanged for the outcome.
+export const sendChangeAdmin = async (newAdmin: string): Promise<TransactionResult> => {
+  if (!window.ethereum) {
+    return { success: false, error: "MetaMask is not installed!" };
+  }
+
+  try {
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    const networkError = await assertWalletNetwork(provider);
+    if (networkError) {
+      return { success: false, error: networkError };
+    }
+    const signer = await provider.getSigner();
+    const contract = new ethers.Contract(CONTRACT_ADDRESS, VotingSystemABI.abi, signer);
+
+    const tx = await contract.changeAdmin(newAdmin);
+    return { success: true, transactionHash: tx.hash, from: tx.from, to: tx.to ?? undefined };
+  } catch (error: any) {
+    console.error("Error sending changeAdmin:", error);
+    if (error.code === "ACTION_REJECTED" || error.code === 4001) {
+      return { success: false, error: "Transaction was rejected in your wallet" };
+    }
+    return { success: false, error: error.reason || error.message || "Failed to send changeAdmin" };
+  }
+};
+
+export interface AdminChangedEvent {
+  transactionHash: string;
+  previousAdmin: string;
+  newAdmin: string;
+  blockNumber: number;
+}
+
+// Wait for a changeAdmin transaction to be mined and return its AdminChanged event.
+// Throws if it reverted, emitted no AdminChanged, or is still unmined after `timeoutMs`.
+export const waitForAdminChanged = async (
+  transactionHash: string,
+  timeoutMs = 10 * 60 * 1000,
+): Promise<AdminChangedEvent> => {
+  const receipt = await getProvider().waitForTransaction(transactionHash, 1, timeoutMs);
+  if (!receipt) {
+    throw new Error("Transaction not found");
+  }
+  if (receipt.status !== 1) {
+    throw new Error("The changeAdmin transaction reverted");
+  }
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== CONTRACT_ADDRESS.toLowerCase()) continue;
+    const parsed = votingInterface.parseLog(log);
+    if (parsed?.name === 'AdminChanged') {
+      return {
+        transactionHash,
+        previousAdmin: parsed.args.oldAdmin,
+        newAdmin: parsed.args.newAdmin,
+        blockNumber: receipt.blockNumber,
+      };
+    }
+  }
+  throw new Error("The transaction did not emit AdminChanged");
+};
+
+export interface VoteCastMatch {
+  electionId: number;
+  voterHash: string;
+  candidateIndex: number;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: Date;
+  confirmations: number;
+  // hasVoted(electionId, voterHash) on the contract, i.e. the ballot is part of the tally
+  counted: boolean;
+}
+
+export interface VoteSearchProgress {
+  fromBlock: number;
+  latestBlock: number;
+}
+
+// Blocks per eth_getLogs request while scanning for a vote (public RPCs reject wide ranges)
+const VOTE_LOG_BATCH_SIZE = 2000;
+
+const parseVoteCastLog = (log: ethers.Log, electionId: number, voterHash: string) => {
+  if (log.address.toLowerCase() !== CONTRACT_ADDRESS.toLowerCase()) return null;
+  const parsed = votingInterface.parseLog(log);
+  if (
+    parsed?.name !== 'VoteCast' ||
+    Number(parsed.args.electionId) !== electionId ||
+    parsed.args.voterHash.toLowerCase() !== voterHash.toLowerCase()
+  ) {
+    return null;
+  }
+  return { log, candidateIndex: Number(parsed.args.candidateIndex) };
+};
+
+// Look up the VoteCast for a voter hash straight from the RPC endpoints; nothing goes
+// through the app server. With a transaction hash (from a vote receipt) only that receipt
+// is checked; otherwise the election's logs are scanned back from the chain head until
+// blocks predate the election's start.
+export const findVoteCast = async (
+  electionId: number,
+  voterHash: string,
+  options: {
+    transactionHash?: string;
+    onProgress?: (progress: VoteSearchProgress) => void;
+  } = {},
+): Promise<VoteCastMatch | null> => {
+  let found: { log: ethers.Log; candidateIndex: number } | null = null;
+
+  if (options.transactionHash) {
+    const receipt = await rateLimiter.executeRequest((_contract, provider) =>
+      provider.getTransactionReceipt(options.transactionHash!)
+    );
+    if (receipt?.status === 1) {
+      for (const log of receipt.logs) {
+        found = parseVoteCastLog(log, electionId, voterHash);
+        if (found) break;
+      }
+    }
+  }
+
+  if (!found) {
+    const info = await getElectionInfo(electionId);
+    if (!info) {
+      throw new Error(`Election #${electionId} was not found on-chain`);
+    }
+    const startTime = Math.floor(info.startTime.getTime() / 1000);
+    const topics = [
+      votingInterface.getEvent('VoteCast')!.topicHash,
+      ethers.zeroPadValue(ethers.toBeHex(electionId), 32),
+    ];
+    const latestBlock = await rateLimiter.executeRequest((_contract, provider) => provider.getBlockNumber());
+
+    for (let toBlock = latestBlock; toBlock >= activeNetwork.deploymentBlock && !found; ) {
+      const fromBlock = Math.max(activeNetwork.deploymentBlock, toBlock - VOTE_LOG_BATCH_SIZE + 1);
+      const logs = await rateLimiter.executeRequest((_contract, provider) =>
+        provider.getLogs({ address: CONTRACT_ADDRESS, topics, fromBlock, toBlock })
+      );
+      for (const log of logs) {
+        found = parseVoteCastLog(log, electionId, voterHash);
+        if (found) break;
+      }
+      options.onProgress?.({ fromBlock, latestBlock });
+      if (found) break;
+
+      // No vote can be older than the election
+      const firstBlock = await rateLimiter.executeRequest((_contract, provider) => provider.getBlock(fromBlock));
+      if (!firstBlock || firstBlock.timestamp < startTime) break;
+      toBlock = fromBlock - 1;
+    }
+  }
+
+  if (!found) return null;
+  const { log, candidateIndex } = found;
+
+  return rateLimiter.executeRequest(async (contract, provider) => {
+    const [block, latestBlock, counted] = await Promise.all([
+      provider.getBlock(log.blockNumber),
+      provider.getBlockNumber(),
+      contract.hasVoted(electionId, voterHash) as Promise<boolean>,
+    ]);
+    return {
+      electionId,
+      voterHash,
+      candidateIndex,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp: new Date(Number(block?.timestamp ?? 0) * 1000),
+      confirmations: Math.max(0, latestBlock - log.blockNumber + 1),
+      counted,
+    };
+  });
+};
+
 // Helper function to generate SHA-256 hash of NIN
 export const hashNIN = async (nin: string): Promise<string> => {
   const encoder = new TextEncoder();
@@ -502,28 +987,6 @@ export const hashNIN = async (nin: string): Promise<string> => {
   return hashHex;
 };
 
-// Check if address is admin
-export const isAdmin = async (address: string): Promise<boolean> => {
-  try {
-    const contract = getReadOnlyContract();
-    const admin = await rateLimiter.executeRequest(async () => {
-      return await contract.admin();
-    });
-    return admin.toLowerCase() === address.toLowerCase();
-  } catch (error) {
-    console.error("Error checking admin status:", error);
-    return false;
-  }
-};
-
-// Interface for the Election
-export interface Election {
-  exists: boolean;
-  name: string;
-  startTime: string;
-  endTime: string;
-}
-
 // Get transactions for our contract with caching and optimization
 export const getContractTransactions = async (
   startBlock?: number,
@@ -536,12 +999,7 @@ export const getContractTransactions = async (
   try {
     console.log("Starting getContractTransactions with startBlock:", startBlock);
     const provider = getProvider();
-    // Use type assertion to specify the contract ABI is a valid interface
-    const contract = new ethers.Contract(
-      CONTRACT_ADDRESS, 
-      VotingSystemABI.abi as ethers.InterfaceAbi, 
-      provider
-    );
+    const contract = getReadOnlyContract();
     
     // Get latest block
     const latestBlock = await provider.getBlockNumber();
@@ -563,17 +1021,6 @@ export const getContractTransactions = async (
     // Prepare to collect transactions
     const transactions: Transaction[] = [];
     
-    // Method signature to method name mapping
-    const methodMap: { [key: string]: string } = {
-      "0x9112c1eb": "createElection",
-      "0x0121b93f": "castVote",
-      "0xa3ec138d": "changeAdmin",
-      "0x8da5cb5b": "owner",
-      "0x8456cb59": "pause",
-      "0x3f4ba83a": "unpause",
-      "0x5c975abb": "paused"
-    };
-    
     // Fetch events from the contract (much more reliable than scanning all blocks)
     console.log("Querying contract events...");
     
@@ -599,7 +1046,7 @@ export const getContractTransactions = async (
             timestamp: new Date(blockTimestamp),
             from: tx.from || "",
             to: CONTRACT_ADDRESS,
-            method: "createElection",
+            method: votingDecoder.decodeFunction(tx.data, tx.value)?.name ?? tx.data.slice(0, 10),
             value: tx.value.toString(),
             blockNumber: event.blockNumber,
             status: receipt.status === 1 ? "Confirmed" : "Failed"
@@ -633,7 +1080,7 @@ export const getContractTransactions = async (
               timestamp: new Date(blockTimestamp),
               from: tx.from || "",
               to: CONTRACT_ADDRESS,
-              method: "castVote",
+              method: votingDecoder.decodeFunction(tx.data, tx.value)?.name ?? tx.data.slice(0, 10),
               value: "0",
               blockNumber: event.blockNumber,
               status: receipt.status === 1 ? "Confirmed" : "Failed"
@@ -668,4 +1115,68 @@ export const getContractTransactions = async (
     cache.set(cacheKey, errorResult, 30000); // Cache error for 30 seconds
     return errorResult;
   }
-};
\ No newline at end of file
+};
+
+// Everything the explorer shows for one transaction: the call, every log and, for a failed
+// transaction, the revert reason. Mined transactions don't change, so they are cached longer.
+export const getTransactionDetail = async (hash: string): Promise<TransactionDetail | null> => {
+  const cacheKey = `transaction_detail_${hash}`;
+  const cached = cache.get<TransactionDetail>(cacheKey);
+  if (cached !== null) return cached;
+
+  return providerPool.execute(async (provider) => {
+    const [tx, receipt] = await Promise.all([
+      provider.getTransaction(hash),
+      provider.getTransactionReceipt(hash),
+    ]);
+    if (!tx) return null;
+
+    const block = receipt ? await provider.getBlock(receipt.blockNumber) : null;
+    const events: TransactionDetail["events"] = [];
+    let undecodedLogs = 0;
+    for (const log of receipt?.logs ?? []) {
+      const decoded = votingDecoder.decodeEvent(log);
+      if (decoded) {
+        events.push({ ...decoded, logIndex: log.index, address: log.address });
+      } else {
+        undecodedLogs++;
+      }
+    }
+
+    // Receipts don't carry the revert data; replay the call against the state before its block
+    let rawRevertData: string | null = null;
+    if (receipt && receipt.status !== 1) {
+      try {
+        await provider.call({
+          from: tx.from,
+          to: tx.to,
+          data: tx.data,
+          value: tx.value,
+          blockTag: receipt.blockNumber - 1,
+        });
+      } catch (error) {
+        rawRevertData = getRevertData(error);
+      }
+    }
+    const error = rawRevertData ? votingDecoder.decodeError(rawRevertData) : null;
+
+    const detail: TransactionDetail = {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      value: tx.value.toString(),
+      blockNumber: receipt?.blockNumber ?? null,
+      timestamp: block ? new Date(Number(block.timestamp) * 1000) : null,
+      status: !receipt ? "Pending" : receipt.status === 1 ? "Success" : "Failed",
+      gasUsed: receipt ? receipt.gasUsed.toString() : null,
+      selector: tx.data.slice(0, 10),
+      call: votingDecoder.decodeFunction(tx.data, tx.value),
+      events,
+      undecodedLogs,
+      error,
+      rawRevertData: error ? null : rawRevertData,
+    };
+    cache.set(cacheKey, detail, receipt ? 600000 : 15000);
+    return detail;
+  });
+};
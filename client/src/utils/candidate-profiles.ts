@@ -0,0 +1,85 @@
+import {
+  hashCandidateProfile,
+  hashElectionMetadata,
+  isEmbeddedProfilePhoto,
+  MAX_PROFILE_PHOTO_LENGTH,
+  type CandidateProfile,
+  type PinnedElectionMetadata,
+} from '@shared/profiles';
+import { apiRequest } from '@/lib/queryClient';
+
+// Candidate profiles are fetched by content hash and re-hashed here, so what is shown is
+// exactly what the hash names, whatever the server sends (see shared/profiles.ts).
+
+export interface LoadedCandidateProfile {
+  hash: string;
+  profile: CandidateProfile;
+  // The content hashes to `hash`, and so does the photo (an embedded one)
+  verified: boolean;
+}
+
+export interface LoadedElectionMetadata extends PinnedElectionMetadata {
+  // The metadata hashes to the pinned `metadataHash`
+  verified: boolean;
+}
+
+// Store a profile and return its hash, checked against the one computed here
+export const saveCandidateProfile = async (profile: CandidateProfile): Promise<string> => {
+  const res = await apiRequest('POST', '/api/candidate-profiles', profile);
+  const { hash } = (await res.json()) as { hash: string };
+  if (hash !== hashCandidateProfile(profile)) {
+    throw new Error('The server stored the profile under an unexpected hash');
+  }
+  return hash;
+};
+
+export const getCandidateProfile = async (hash: string): Promise<LoadedCandidateProfile> => {
+  const res = await apiRequest('GET', `/api/candidate-profiles/${hash}`);
+  const profile: CandidateProfile = await res.json();
+  // Profiles stored before photos had to be embedded may link one, which the hash doesn't cover
+  const photoCovered = profile.photo === null || isEmbeddedProfilePhoto(profile.photo);
+  return { hash, profile, verified: photoCovered && hashCandidateProfile(profile) === hash };
+};
+
+// Null for elections that weren't published from a draft
+export const getElectionMetadata = async (electionId: number): Promise<LoadedElectionMetadata | null> => {
+  const res = await fetch(`/api/elections/${electionId}/metadata`, { credentials: 'include' });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`Failed to load election metadata (${res.status})`);
+  }
+  const pinned: PinnedElectionMetadata = await res.json();
+  return { ...pinned, verified: hashElectionMetadata(pinned.metadata) === pinned.metadataHash };
+};
+
+// Profiles of every candidate that has one, keyed by candidate index
+export const getElectionProfiles = async (
+  metadata: LoadedElectionMetadata,
+): Promise<Map<number, LoadedCandidateProfile>> => {
+  const entries = await Promise.all(
+    metadata.metadata.candidates
+      .filter((candidate) => candidate.profileHash)
+      .map(async (candidate) => [candidate.index, await getCandidateProfile(candidate.profileHash!)] as const),
+  );
+  return new Map(entries);
+};
+
+// An uploaded photo as a data URL small enough to store in the profile
+export const readProfilePhoto = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
+      reject(new Error('Photos must be PNG, JPEG or WebP'));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      if (dataUrl.length > MAX_PROFILE_PHOTO_LENGTH) {
+        reject(new Error(`Photo is too large (about ${Math.floor((MAX_PROFILE_PHOTO_LENGTH * 3) / 4 / 1024)} KB at most)`));
+      } else {
+        resolve(dataUrl);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,90 @@
+import type { ElectionDraft as ElectionDraftRow } from '@shared/schema';
+import { MAX_DRAFT_CANDIDATES, type DraftCandidate, type ElectionDraftFields } from '@shared/drafts';
+import { parseCsv, readCsvTable } from '@shared/csv';
+import { apiRequest } from '@/lib/queryClient';
+
+// Server-stored election drafts (see shared/drafts.ts for the review workflow)
+
+type DateColumn = 'startTime' | 'endTime' | 'reviewedAt' | 'publishedAt' | 'createdAt' | 'updatedAt';
+
+// As returned by the API, dates as ISO strings
+export type ElectionDraft = Omit<ElectionDraftRow, DateColumn> & {
+  startTime: string | null;
+  endTime: string | null;
+  reviewedAt: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Dates go over the wire as ISO strings with the offset, whatever the input produced
+const toRequestBody = (fields: ElectionDraftFields) => ({
+  ...fields,
+  startTime: fields.startTime ? new Date(fields.startTime).toISOString() : null,
+  endTime: fields.endTime ? new Date(fields.endTime).toISOString() : null,
+});
+
+export const getElectionDrafts = async (): Promise<ElectionDraft[]> => {
+  const res = await apiRequest('GET', '/api/election-drafts');
+  return res.json();
+};
+
+export const createElectionDraft = async (fields: ElectionDraftFields): Promise<ElectionDraft> => {
+  const res = await apiRequest('POST', '/api/election-drafts', toRequestBody(fields));
+  return res.json();
+};
+
+export const updateElectionDraft = async (id: number, fields: ElectionDraftFields): Promise<ElectionDraft> => {
+  const res = await apiRequest('PUT', `/api/election-drafts/${id}`, toRequestBody(fields));
+  return res.json();
+};
+
+export const discardElectionDraft = async (id: number): Promise<void> => {
+  await apiRequest('DELETE', `/api/election-drafts/${id}`);
+};
+
+export const submitElectionDraft = async (id: number): Promise<ElectionDraft> => {
+  const res = await apiRequest('POST', `/api/election-drafts/${id}/submit`);
+  return res.json();
+};
+
+export const reviewElectionDraft = async (
+  id: number,
+  approve: boolean,
+  note?: string,
+): Promise<ElectionDraft> => {
+  const res = await apiRequest('POST', `/api/election-drafts/${id}/review`, { approve, note });
+  return res.json();
+};
+
+// Record the mined createElection transaction the draft was published with
+export const recordDraftPublication = async (id: number, transactionHash: string): Promise<ElectionDraft> => {
+  const res = await apiRequest('POST', `/api/election-drafts/${id}/publish`, { transactionHash });
+  return res.json();
+};
+
+// Candidates from a CSV with name and party columns. Rows missing either are reported by
+// line rather than loaded, so the draft never silently loses one.
+export const readCandidateCsv = async (file: File): Promise<{ candidates: DraftCandidate[]; problems: string[] }> => {
+  const { records, missing } = readCsvTable(parseCsv(await file.text()), {
+    name: { names: ['name', 'candidate', 'candidate name'], required: true },
+    party: { names: ['party', 'party affiliation'], required: true },
+  });
+  if (missing.length > 0) {
+    throw new Error(`Missing column(s): ${missing.join(', ')}`);
+  }
+  if (records.length > MAX_DRAFT_CANDIDATES) {
+    throw new Error(`A ballot can have at most ${MAX_DRAFT_CANDIDATES} candidates`);
+  }
+
+  const candidates: DraftCandidate[] = [];
+  const problems: string[] = [];
+  for (const { line, values } of records) {
+    if (!values.name || !values.party) {
+      problems.push(`Line ${line}: ${values.name ? 'party' : 'name'} is empty`);
+    } else {
+      candidates.push({ name: values.name, party: values.party, profileHash: null });
+    }
+  }
+  return { candidates, problems };
+};
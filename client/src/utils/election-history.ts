@@ -0,0 +1,13 @@
+import type { ElectionHistory } from '@shared/election-history';
+
+// The election detail page's data (see shared/election-history.ts)
+
+// Null when the contract has no such election
+export const getElectionHistory = async (electionId: number): Promise<ElectionHistory | null> => {
+  const res = await fetch(`/api/elections/${electionId}/history`, { credentials: 'include' });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return res.json();
+};
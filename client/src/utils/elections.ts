@@ -0,0 +1,126 @@
+import {
+  chainClock,
+  getElectionBundle,
+  getElectionSummaries,
+  type ElectionInfo,
+} from './blockchain';
+import type { Candidate } from '../types/candidate';
+import { apiRequest } from '@/lib/queryClient';
+import { findActiveElection, getElectionStatus, type ElectionStatus } from '@shared/elections';
+
+// Elections as the UI works with them. Loaders return what the contract holds, read through
+// the server's /api/elections endpoints (which cache contract reads for every visitor) and
+// straight from the contract over RPC only when the server can't answer. The status is
+// derived separately (withStatus) against chain time, so a cached election still changes
+// status the moment its window opens or closes.
+
+export interface ElectionRecord {
+  id: number;
+  name: string;
+  startTime: Date;
+  endTime: Date;
+  active: boolean;
+  candidateCount: number;
+  totalVotes: number;
+}
+
+export interface ElectionResultRecord extends ElectionRecord {
+  candidates: Array<Candidate & { percentage: number }>;
+}
+
+export type Election = ElectionRecord & { status: ElectionStatus };
+export type ElectionWithResults = ElectionResultRecord & { status: ElectionStatus };
+
+const toRecord = (id: number, info: ElectionInfo, totalVotes: number): ElectionRecord => ({
+  id,
+  name: info.name,
+  startTime: info.startTime,
+  endTime: info.endTime,
+  active: info.active,
+  candidateCount: info.candidateCount,
+  totalVotes,
+});
+
+// As the API returns them (dates as ISO strings)
+type ElectionResponse = Omit<ElectionRecord, 'startTime' | 'endTime'> & { startTime: string; endTime: string };
+type ElectionResultsResponse = ElectionResponse & { candidates: ElectionResultRecord['candidates'] };
+
+const fromResponse = ({ id, name, startTime, endTime, active, candidateCount, totalVotes }: ElectionResponse): ElectionRecord => ({
+  id,
+  name,
+  startTime: new Date(startTime),
+  endTime: new Date(endTime),
+  active,
+  candidateCount,
+  totalVotes,
+});
+
+export const withStatus = <T extends ElectionRecord>(election: T, now: Date): T & { status: ElectionStatus } => ({
+  ...election,
+  status: getElectionStatus(election.startTime, election.endTime, now),
+});
+
+const withRpcFallback = async <T>(what: string, fromApi: () => Promise<T>, fromChain: () => Promise<T>): Promise<T> => {
+  try {
+    return await fromApi();
+  } catch (error) {
+    console.warn(`Could not load ${what} from the server; reading the contract instead:`, error);
+    return fromChain();
+  }
+};
+
+const loadElectionsFromChain = async (): Promise<ElectionRecord[]> => {
+  const summaries = await getElectionSummaries();
+  return summaries.map((summary) => toRecord(summary.id, summary.info, summary.totalVotes));
+};
+
+const loadElectionResultsFromChain = async (electionId: number): Promise<ElectionResultRecord | null> => {
+  const bundle = await getElectionBundle(electionId);
+  if (!bundle?.info.name) return null;
+
+  const { info, candidates, totalVotes } = bundle;
+  return {
+    ...toRecord(electionId, info, totalVotes),
+    candidates: candidates.map((candidate) => ({
+      ...candidate,
+      percentage: totalVotes > 0 ? Math.round((candidate.votes / totalVotes) * 100) : 0,
+    })),
+  };
+};
+
+// Every election the contract has created, oldest first
+export const loadElections = (): Promise<ElectionRecord[]> =>
+  withRpcFallback(
+    'elections',
+    async () => {
+      const res = await apiRequest('GET', '/api/elections');
+      const elections: ElectionResponse[] = await res.json();
+      return elections.map(fromResponse);
+    },
+    loadElectionsFromChain,
+  );
+
+// One election with its candidates' results, or null if the contract has no such election
+export const loadElectionResults = (electionId: number): Promise<ElectionResultRecord | null> =>
+  withRpcFallback(
+    `election ${electionId}`,
+    async () => {
+      const res = await fetch(`/api/elections/${electionId}/results`, { credentials: 'include' });
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      const election: ElectionResultsResponse = await res.json();
+      return { ...fromResponse(election), candidates: election.candidates };
+    },
+    () => loadElectionResultsFromChain(electionId),
+  );
+
+// Outside React (see hooks/use-elections.ts for components): every election with its status
+export const getElections = async (): Promise<Election[]> => {
+  const [records] = await Promise.all([loadElections(), chainClock.sync()]);
+  const now = chainClock.now();
+  return records.map((record) => withStatus(record, now));
+};
+
+export const getActiveElection = async (): Promise<Election | null> => findActiveElection(await getElections());
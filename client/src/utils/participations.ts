@@ -0,0 +1,59 @@
+import type { PublicParticipation } from '@shared/schema';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+
+// A voter's standing in a single election: eligible or not, and whether (and in which
+// transaction) they voted. Registration itself is on the voter record (voters.ts).
+
+export type Participation = PublicParticipation;
+
+export const getParticipation = async (
+  electionId: number,
+  walletAddress: string,
+): Promise<Participation> => {
+  const res = await apiRequest(
+    'GET',
+    `/api/elections/${electionId}/participations/${encodeURIComponent(walletAddress)}`,
+  );
+  return res.json();
+};
+
+export interface ElectionParticipation {
+  election: { id: number; name: string };
+  participation: Participation;
+}
+
+// Standing in the election currently open for voting, or null when none is
+export const getActiveElectionParticipation = async (
+  walletAddress: string,
+): Promise<ElectionParticipation | null> => {
+  const res = await apiRequest('GET', '/api/elections');
+  const elections: Array<{ id: number; name: string; active: boolean; status: string }> = await res.json();
+  const active = elections.find((election) => election.active && election.status === 'Active');
+  if (!active) return null;
+
+  return {
+    election: { id: active.id, name: active.name },
+    participation: await getParticipation(active.id, walletAddress),
+  };
+};
+
+// Admin: every registered voter's standing in one election
+export const getElectionParticipations = async (electionId: number): Promise<Participation[]> => {
+  const res = await apiRequest('GET', `/api/elections/${electionId}/participations`);
+  return res.json();
+};
+
+// Admin only
+export const setEligibility = async (electionId: number, walletAddress: string, eligible: boolean) => {
+  try {
+    const res = await apiRequest(
+      'PATCH',
+      `/api/elections/${electionId}/participations/${encodeURIComponent(walletAddress)}`,
+      { eligible },
+    );
+    return { success: true, data: (await res.json()) as Participation };
+  } catch (err: any) {
+    console.error('Error updating eligibility:', err);
+    return { success: false, error: getApiErrorMessage(err) };
+  }
+};
@@ -0,0 +1,37 @@
+import type { RegistrationSettings, RegistrationTransition } from '@shared/schema';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+
+// NIN registration lock, held by our server. Changing it needs an admin session.
+
+export const getRegistrationSettings = async (): Promise<RegistrationSettings> => {
+  const res = await apiRequest('GET', '/api/registration/lock');
+  return res.json();
+};
+
+export const checkNINSubmissionLocked = async () => {
+  try {
+    const settings = await getRegistrationSettings();
+    console.log('NIN submission locked status:', settings.locked);
+    return settings.locked === true;
+  } catch (err) {
+    console.error('Error checking NIN submission status:', err);
+    return false; // Default to unlocked if the status can't be read
+  }
+};
+
+export const toggleNINSubmissionLock = async (locked: boolean) => {
+  try {
+    console.log(`Toggling NIN submission lock to: ${locked}`);
+    await apiRequest('PUT', '/api/registration/lock', { locked });
+    return { success: true };
+  } catch (err: any) {
+    console.error('Error toggling NIN submission lock:', err);
+    return { success: false, error: getApiErrorMessage(err) };
+  }
+};
+
+// Lock changes made by the server's scheduler and by admins, newest first
+export const getRegistrationTransitions = async (limit = 20): Promise<RegistrationTransition[]> => {
+  const res = await apiRequest('GET', `/api/registration/transitions?limit=${limit}`);
+  return res.json();
+};
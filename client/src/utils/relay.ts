@@ -0,0 +1,22 @@
+import type { Ballot, RelayerStatus } from '@shared/ballots';
+import { apiRequest } from '@/lib/queryClient';
+import type { TrackedTransaction } from '@/utils/transactions';
+
+// Gasless voting through the server's relayer (see shared/ballots.ts). The server sends
+// castVote and follows the transaction; the browser only signs the ballot.
+
+export const getRelayerStatus = async (): Promise<RelayerStatus> => {
+  try {
+    const res = await apiRequest('GET', '/api/relay');
+    return res.json();
+  } catch (err) {
+    console.warn('Could not reach the relayer, voting from the wallet:', err);
+    return { enabled: false, relayer: null, remainingBudget: null };
+  }
+};
+
+// The NIN is checked against the wallet's registration and the ballot's voter hash
+export const submitBallot = async (ballot: Ballot, signature: string, nin: string): Promise<TrackedTransaction> => {
+  const res = await apiRequest('POST', '/api/relay/ballots', { ballot, signature, nin });
+  return res.json();
+};
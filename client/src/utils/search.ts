@@ -0,0 +1,9 @@
+import type { SearchResults } from '@shared/search';
+import { apiRequest } from '@/lib/queryClient';
+
+// Explorer search over the server's indexed contract events (see shared/search.ts)
+
+export const searchExplorer = async (query: string): Promise<SearchResults> => {
+  const res = await apiRequest('GET', `/api/search?q=${encodeURIComponent(query)}`);
+  return res.json();
+};
@@ -0,0 +1,37 @@
+import type { SignedTallyReport } from '@shared/tally';
+import { apiRequest } from '@/lib/queryClient';
+
+// Auditor tools: recount an election from its VoteCast logs (see shared/tally.ts)
+
+export const getTallyReport = async (electionId: number): Promise<SignedTallyReport> => {
+  const res = await apiRequest('GET', `/api/elections/${electionId}/tally`);
+  return res.json();
+};
+
+const saveFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The report exactly as signed, for POST /api/tally/reports/verify
+export const downloadTallyReportJson = (signed: SignedTallyReport): void => {
+  const { electionId, toBlock } = signed.report;
+  saveFile(
+    new Blob([JSON.stringify(signed, null, 2)], { type: 'application/json' }),
+    `tally-election-${electionId}-${toBlock}.json`,
+  );
+};
+
+// Same block range as `signed`, so the CSV shows the same recount
+export const downloadTallyReportCsv = async (signed: SignedTallyReport): Promise<void> => {
+  const { electionId, fromBlock, toBlock } = signed.report;
+  const res = await apiRequest(
+    'GET',
+    `/api/elections/${electionId}/tally?format=csv&fromBlock=${fromBlock}&toBlock=${toBlock}`,
+  );
+  saveFile(await res.blob(), `tally-election-${electionId}-${toBlock}.csv`);
+};
@@ -0,0 +1,40 @@
+import type { TrackedTransaction as TrackedTransactionRow } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+// The server's side of the transaction tracker (see shared/transactions.ts). The browser
+// reports what it sends; the server follows it too and commits the side effect (recording
+// the vote, publishing the draft) once it is confirmed.
+
+type DateColumn = 'committedAt' | 'submittedAt' | 'updatedAt';
+
+// As returned by the API, dates as ISO strings
+export type TrackedTransaction = Omit<TrackedTransactionRow, DateColumn> & {
+  committedAt: string | null;
+  submittedAt: string;
+  updatedAt: string;
+};
+
+export type ReportedTransaction = Pick<
+  TrackedTransaction,
+  'hash' | 'from' | 'nonce' | 'to' | 'data' | 'value' | 'startBlock' | 'purpose' | 'electionId' | 'draftId'
+>;
+
+export const reportTransaction = async (transaction: ReportedTransaction): Promise<TrackedTransaction> => {
+  const res = await apiRequest('POST', '/api/transactions', transaction);
+  return res.json();
+};
+
+export const getTrackedTransactions = async (from: string): Promise<TrackedTransaction[]> => {
+  const res = await apiRequest('GET', `/api/transactions?from=${encodeURIComponent(from)}`);
+  return res.json();
+};
+
+// Null when the server never heard of the transaction
+export const checkTrackedTransaction = async (hash: string): Promise<TrackedTransaction | null> => {
+  const res = await fetch(`/api/transactions/${hash}/check`, { method: 'POST', credentials: 'include' });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return res.json();
+};
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { activeNetwork } from '@/lib/network';
+
+// What a voter keeps after casting a ballot. It holds only values that are public on-chain
+// anyway (never the NIN), and is everything the /verify page needs to find the vote again.
+
+const bytes32 = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Expected a 32-byte hex value');
+
+const voteReceiptSchema = z.object({
+  version: z.literal(1),
+  chainId: z.number().int(),
+  contractAddress: z.string(),
+  electionId: z.number().int().nonnegative(),
+  electionName: z.string().optional(),
+  candidateIndex: z.number().int().nonnegative(),
+  candidateName: z.string(),
+  voterHash: bytes32,
+  transactionHash: bytes32,
+  blockNumber: z.number().int().optional(),
+  castAt: z.string(),
+});
+
+export type VoteReceipt = z.infer<typeof voteReceiptSchema>;
+
+export const buildVoteReceipt = (
+  vote: Omit<VoteReceipt, 'version' | 'chainId' | 'contractAddress' | 'castAt'>,
+): VoteReceipt => ({
+  version: 1,
+  chainId: activeNetwork.chainId,
+  contractAddress: activeNetwork.contractAddress,
+  ...vote,
+  castAt: new Date().toISOString(),
+});
+
+export const downloadVoteReceipt = (receipt: VoteReceipt): void => {
+  const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vote-receipt-election-${receipt.electionId}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Parse an uploaded receipt; only receipts for the contract this build talks to are accepted
+export const parseVoteReceipt = (text: string) => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'The file is not a vote receipt (invalid JSON).' };
+  }
+
+  const parsed = voteReceiptSchema.safeParse(json);
+  if (!parsed.success) {
+    return { success: false, error: fromZodError(parsed.error).message };
+  }
+
+  const receipt = parsed.data;
+  if (
+    receipt.chainId !== activeNetwork.chainId ||
+    receipt.contractAddress.toLowerCase() !== activeNetwork.contractAddress.toLowerCase()
+  ) {
+    return {
+      success: false,
+      error: `This receipt is for a different deployment (chain ${receipt.chainId}). Switch to that network's BlockVote site to verify it.`,
+    };
+  }
+  return { success: true, data: receipt };
+};
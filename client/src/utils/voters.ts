@@ -0,0 +1,98 @@
+import type { PublicVoter } from '@shared/schema';
+import { toCsv } from '@shared/csv';
+import type { VoterImportReport } from '@shared/voter-import';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+
+// Voter registry on our own server. NINs are hashed server-side and are never sent
+// back; records carry a masked NIN only. Voting state is per election (participations.ts).
+
+export type Voter = PublicVoter;
+
+export const getVoterByWalletAddress = async (walletAddress: string): Promise<Voter | null> => {
+  const res = await fetch(`/api/voters/${encodeURIComponent(walletAddress)}`, {
+    credentials: 'include',
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`Failed to load voter record (${res.status})`);
+  }
+  return res.json();
+};
+
+export const submitNIN = async (walletAddress: string, nin: string) => {
+  try {
+    // The server refuses registrations while they are locked
+    const res = await apiRequest('POST', '/api/voters', { walletAddress, nin });
+    return { success: true, data: (await res.json()) as Voter };
+  } catch (err: any) {
+    console.error('Error in submitNIN:', err);
+    return { success: false, error: getApiErrorMessage(err) };
+  }
+};
+
+// Ask the server whether `nin` is the one registered for this wallet
+export const verifyNIN = async (walletAddress: string, nin: string): Promise<boolean> => {
+  try {
+    const res = await apiRequest('POST', `/api/voters/${encodeURIComponent(walletAddress)}/verify`, { nin });
+    const { match } = await res.json();
+    return match === true;
+  } catch (err: any) {
+    throw new Error(getApiErrorMessage(err));
+  }
+};
+
+// Admin functions
+export const getAllVoters = async (): Promise<Voter[]> => {
+  try {
+    const res = await apiRequest('GET', '/api/voters');
+    return await res.json();
+  } catch (err) {
+    console.error('Error fetching voter records:', err);
+    return [];
+  }
+};
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Auditors: CSV of the masked voter list
+export const downloadVotersCsv = async (): Promise<void> => {
+  const res = await apiRequest('GET', '/api/voters/export');
+  saveBlob(await res.blob(), `voters-${new Date().toISOString().slice(0, 10)}.csv`);
+};
+
+// Upload a voter roll as-is; the server reads CSV and XLSX. With dryRun nothing is
+// registered and the report says what an import would do.
+export const importVoterRoll = async (file: File, dryRun: boolean): Promise<VoterImportReport> => {
+  const contentType = /\.xlsx$/i.test(file.name)
+    ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    : 'text/csv';
+  const res = await fetch(`/api/voters/import?dryRun=${dryRun}`, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body: file,
+    credentials: 'include',
+  });
+  if (!res.ok) {
+    // Same shape as apiRequest errors, so getApiErrorMessage reads them
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return res.json();
+};
+
+// The rows that weren't imported, with what was wrong with each
+export const downloadVoterImportErrors = (report: VoterImportReport, sourceName: string) => {
+  const csv = toCsv([
+    ['line', 'wallet_address', 'nin_masked', 'constituency', 'status', 'errors'],
+    ...report.rows
+      .filter((row) => row.status === 'invalid' || row.status === 'duplicate')
+      .map((row) => [row.line, row.walletAddress, row.ninMasked, row.constituency, row.status, row.errors.join('; ')]),
+  ]);
+  saveBlob(new Blob([csv], { type: 'text/csv' }), `${sourceName.replace(/\.[^.]+$/, '')}-errors.csv`);
+};
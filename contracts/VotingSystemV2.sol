@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import {Proxy} from "@openzeppelin/contracts/proxy/Proxy.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+
+interface IVotingSystem {
+    function owner() external view returns (address);
+
+    function castVote(uint256 electionId, uint256 candidateIndex, bytes32 voterHash) external;
+}
+
+/// @title VotingSystemV2
+/// @notice Adds relayed ballots to the deployed VotingSystem: a voter signs a ballot as
+/// EIP-712 typed data and anyone may submit it with castVoteBySig, paying the gas.
+/// @dev Installed with upgradeToAndCall(v2, "") on the UUPS proxy. Every other call is
+/// delegated to the VotingSystem implementation the proxy ran before, so elections, votes,
+/// the admin and the owner stay in that implementation's storage, read and written by its
+/// own code. This contract declares no storage of its own.
+contract VotingSystemV2 is UUPSUpgradeable, Proxy {
+    struct Ballot {
+        uint256 electionId;
+        uint256 candidateIndex;
+        bytes32 voterHash;
+        uint256 deadline;
+    }
+
+    bytes32 public constant BALLOT_TYPEHASH =
+        keccak256("Ballot(uint256 electionId,uint256 candidateIndex,bytes32 voterHash,uint256 deadline)");
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice The VotingSystem implementation this one extends
+    address public immutable previousImplementation;
+
+    event BallotRelayed(uint256 indexed electionId, bytes32 indexed voterHash, address indexed voter, address relayer);
+
+    error BallotExpired(uint256 deadline);
+    error InvalidBallotSignature(address voter);
+    error OwnableUnauthorizedAccount(address account);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address previous) {
+        previousImplementation = previous;
+    }
+
+    /// @notice Domain of the signed ballots: "BlockVote", version 1, this chain and the proxy
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, keccak256("BlockVote"), keccak256("1"), block.chainid, address(this)));
+    }
+
+    /// @notice Cast `voter`'s signed ballot. The vote is recorded by castVote exactly as if
+    /// the voter had sent it; who may vote stays with whoever checks the voter hash.
+    function castVoteBySig(Ballot calldata ballot, address voter, bytes calldata signature) external {
+        if (block.timestamp > ballot.deadline) revert BallotExpired(ballot.deadline);
+
+        bytes32 structHash = keccak256(
+            abi.encode(BALLOT_TYPEHASH, ballot.electionId, ballot.candidateIndex, ballot.voterHash, ballot.deadline)
+        );
+        bytes32 digest = MessageHashUtils.toTypedDataHash(DOMAIN_SEPARATOR(), structHash);
+        (address signer, ECDSA.RecoverError recoverError, ) = ECDSA.tryRecover(digest, signature);
+        if (recoverError != ECDSA.RecoverError.NoError || signer != voter) revert InvalidBallotSignature(voter);
+
+        Address.functionDelegateCall(
+            previousImplementation,
+            abi.encodeCall(IVotingSystem.castVote, (ballot.electionId, ballot.candidateIndex, ballot.voterHash))
+        );
+        emit BallotRelayed(ballot.electionId, ballot.voterHash, voter, msg.sender);
+    }
+
+    // Upgrades stay with the owner, read through the previous implementation's owner()
+    function _authorizeUpgrade(address) internal view override {
+        if (msg.sender != IVotingSystem(address(this)).owner()) revert OwnableUnauthorizedAccount(msg.sender);
+    }
+
+    function _implementation() internal view override returns (address) {
+        return previousImplementation;
+    }
+}
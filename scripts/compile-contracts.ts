@@ -0,0 +1,99 @@
+import { readFileSync, writeFileSync } from "fs";
+import { createRequire } from "module";
+import path from "path";
+
+// Compiles contracts/VotingSystemV2.sol, and OpenZeppelin's ERC1967Proxy the Anvil test
+// deploys the contract behind, into Hardhat-style artifacts next to VotingSystem.json. The
+// client gets VotingSystemV2's ABI in client/src/contracts, like VotingSystem's.
+// Usage: npx tsx scripts/compile-contracts.ts
+// The compiler and OpenZeppelin versions are pinned in package.json, so the committed
+// artifacts can be rebuilt byte for byte.
+
+interface SolcOutput {
+  errors?: { severity: "error" | "warning" | "info"; formattedMessage: string }[];
+  contracts: Record<
+    string,
+    Record<
+      string,
+      {
+        abi: unknown[];
+        evm: {
+          bytecode: { object: string; linkReferences: object };
+          deployedBytecode: { object: string; linkReferences: object };
+        };
+      }
+    >
+  >;
+}
+
+const require = createRequire(import.meta.url);
+const solc: { version(): string; compile(input: string, callbacks: object): string } = require("solc");
+
+const root = path.resolve(import.meta.dirname, "..");
+
+const targets = [
+  { sourceName: "contracts/VotingSystemV2.sol", contractName: "VotingSystemV2", client: true },
+  { sourceName: "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol", contractName: "ERC1967Proxy", client: false },
+];
+
+function writeArtifact(file: string, artifact: object) {
+  writeFileSync(path.join(root, file), `${JSON.stringify(artifact, null, 2)}\n`);
+}
+
+function readSource(sourceName: string): string {
+  const file = sourceName.startsWith("@") ? require.resolve(sourceName) : path.join(root, sourceName);
+  return readFileSync(file, "utf8");
+}
+
+function compileContracts() {
+  const input = {
+    language: "Solidity",
+    sources: Object.fromEntries(targets.map(({ sourceName }) => [sourceName, { content: readSource(sourceName) }])),
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: "cancun",
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode", "evm.deployedBytecode"] } },
+    },
+  };
+
+  const output: SolcOutput = JSON.parse(
+    solc.compile(JSON.stringify(input), {
+      import: (sourceName: string) => {
+        try {
+          return { contents: readSource(sourceName) };
+        } catch {
+          return { error: `Source not found: ${sourceName}` };
+        }
+      },
+    }),
+  );
+
+  for (const message of output.errors ?? []) {
+    console[message.severity === "error" ? "error" : "warn"](message.formattedMessage);
+  }
+  if (output.errors?.some((message) => message.severity === "error")) {
+    throw new Error("solc reported errors");
+  }
+
+  for (const { sourceName, contractName, client } of targets) {
+    const { abi, evm } = output.contracts[sourceName][contractName];
+    const header = { _format: "hh-sol-artifact-1", contractName, sourceName, abi };
+    writeArtifact(`contracts/${contractName}.json`, {
+      ...header,
+      bytecode: `0x${evm.bytecode.object}`,
+      deployedBytecode: `0x${evm.deployedBytecode.object}`,
+      linkReferences: evm.bytecode.linkReferences,
+      deployedLinkReferences: evm.deployedBytecode.linkReferences,
+    });
+    if (client) writeArtifact(`client/src/contracts/${contractName}.json`, header);
+    console.log(`${contractName}: ${evm.deployedBytecode.object.length / 2} bytes`);
+  }
+  console.log(`Compiled with solc ${solc.version()}`);
+}
+
+try {
+  compileContracts();
+} catch (error) {
+  console.error("Compilation failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -1,9 +1,17 @@
 import { ethers } from "ethers";
 import VotingSystemABI from "../client/src/contracts/VotingSystem.json";
-import { ALCHEMY_URL, CONTRACT_ADDRESS } from "../client/src/utils/blockchain";
+import { resolveNetwork } from "../shared/networks";
+
+const network = resolveNetwork(process.env.NETWORK, {
+  rpcUrl: process.env.RPC_URL,
+  contractAddress: process.env.CONTRACT_ADDRESS,
+});
+const ALCHEMY_URL = network.rpcUrls[0];
+const CONTRACT_ADDRESS = network.contractAddress;
 
 async function fetchAllTransactions() {
   console.log("Starting transaction fetch...\n");
+  console.log("Network:", network.name);
   console.log("Contract Address:", CONTRACT_ADDRESS);
 
   try {
@@ -0,0 +1,95 @@
+import { createClient } from "@supabase/supabase-js";
+import { storage } from "../server/storage";
+import { identity, normalizeWalletAddress } from "../server/identity";
+
+// One-off move of the plaintext Supabase `users` table into the hashed voter registry.
+// Usage: SUPABASE_URL=... SUPABASE_KEY=... DATABASE_URL=... NIN_PEPPER=... \
+//        [NIN_ENCRYPTION_KEY=...] npx tsx scripts/migrate-nins.ts [--purge]
+// With --purge each row that was imported, or had been migrated before, is deleted from
+// Supabase, which needs a key allowed to delete. Rows whose wallet or NIN is registered to
+// something else are conflicts: they are listed and left in place to be resolved by hand.
+// The legacy 'Y'/'N' status isn't carried over: it didn't say which election it was for, and
+// the contract already refuses a second vote (participations are recorded from new votes).
+
+interface LegacyUser {
+  wallet_address: string;
+  nin: string;
+  status: "Y" | "N";
+  created_at: string;
+}
+
+async function migrateNins() {
+  const purge = process.argv.includes("--purge");
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) {
+    throw new Error("SUPABASE_URL and SUPABASE_KEY are required");
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is required; migrating into in-memory storage would lose the records");
+  }
+
+  const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_KEY);
+  const { data, error } = await supabase.from("users").select("*");
+  if (error) throw error;
+
+  const users = (data ?? []) as LegacyUser[];
+  console.log(`Found ${users.length} legacy records`);
+
+  let imported = 0;
+  let alreadyMigrated = 0;
+  let purged = 0;
+  const conflicts: string[] = [];
+  for (const user of users) {
+    const walletAddress = normalizeWalletAddress(user.wallet_address);
+    const ninHash = identity.hashNin(user.nin);
+    const byWallet = await storage.getVoter(walletAddress);
+    const byNin = await storage.getVoterByNinHash(ninHash);
+
+    if (!byWallet && !byNin) {
+      await storage.createVoter({
+        walletAddress,
+        ninHash,
+        ninLastDigits: user.nin.slice(-4),
+        ninCiphertext: identity.encryptNin(user.nin),
+        createdAt: new Date(user.created_at),
+      });
+      imported++;
+    } else if (byWallet && byWallet.ninHash === ninHash) {
+      alreadyMigrated++;
+    } else {
+      conflicts.push(
+        byWallet
+          ? `${walletAddress}: wallet already registered with another NIN`
+          : `${walletAddress}: NIN already registered to ${byNin!.walletAddress}`,
+      );
+      continue;
+    }
+
+    if (purge) {
+      const { error: deleteError } = await supabase
+        .from("users")
+        .delete()
+        .eq("wallet_address", user.wallet_address);
+      if (deleteError) {
+        console.error(`Failed to purge ${walletAddress}:`, deleteError.message);
+      } else {
+        purged++;
+      }
+    }
+  }
+
+  console.log(
+    `Imported ${imported}, already migrated ${alreadyMigrated}, conflicts ${conflicts.length}` +
+      (purge ? `, purged ${purged} plaintext rows` : ""),
+  );
+  if (conflicts.length > 0) {
+    console.log("Left in Supabase for manual resolution:");
+    for (const conflict of conflicts) console.log(`  ${conflict}`);
+  }
+}
+
+migrateNins()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
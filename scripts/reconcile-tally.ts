@@ -0,0 +1,65 @@
+import { writeFileSync } from "fs";
+import { tally, tallyReportToCsv } from "../server/tally";
+
+// Recount an election from its VoteCast logs and write the signed reconciliation report.
+// Usage: [DATABASE_URL=...] [TALLY_REPORT_SECRET=...] npx tsx scripts/reconcile-tally.ts <electionId>
+//        [--format json|csv] [--out <file>] [--from-block <n>] [--to-block <n>]
+// Without DATABASE_URL there are no participation records to compare against. Exits with 2
+// when the report has error-level discrepancies, so it can gate a results announcement.
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function readBlockFlag(args: string[], name: string): number | undefined {
+  const value = readFlag(args, name);
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} expects a block number`);
+  }
+  return Number(value);
+}
+
+async function reconcileTally(args: string[]) {
+  const electionId = Number(args[0]);
+  if (!Number.isInteger(electionId) || electionId < 1) {
+    throw new Error(
+      "Usage: npx tsx scripts/reconcile-tally.ts <electionId> [--format json|csv] [--out <file>] [--from-block <n>] [--to-block <n>]",
+    );
+  }
+  const format = readFlag(args, "--format") ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new Error("--format must be json or csv");
+  }
+  if (!process.env.DATABASE_URL) {
+    console.warn("DATABASE_URL not set, participation records are not compared");
+  }
+
+  const signed = await tally.reconcile(electionId, {
+    fromBlock: readBlockFlag(args, "--from-block"),
+    toBlock: readBlockFlag(args, "--to-block"),
+  });
+  const output = format === "csv" ? tallyReportToCsv(signed) : JSON.stringify(signed, null, 2) + "\n";
+
+  const out = readFlag(args, "--out");
+  if (out) {
+    writeFileSync(out, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  const { report } = signed;
+  console.error(
+    `Election ${electionId}, blocks ${report.fromBlock}-${report.toBlock}: ${report.totals.replayed} votes replayed, ` +
+      `${report.discrepancies.length} discrepancies, ${report.verified ? "tally verified" : "TALLY NOT VERIFIED"}`,
+  );
+  return report.verified;
+}
+
+reconcileTally(process.argv.slice(2))
+  .then((verified) => process.exit(verified ? 0 : 2))
+  .catch((error) => {
+    console.error(error.message || error);
+    process.exit(1);
+  });
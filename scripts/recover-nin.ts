@@ -0,0 +1,28 @@
+import { identity } from "../server/identity";
+
+// Authorized recovery of a voter's NIN from its encrypted copy. Needs direct database
+// access and the recovery key; there is deliberately no HTTP equivalent.
+// Usage: DATABASE_URL=... NIN_PEPPER=... NIN_ENCRYPTION_KEY=... npx tsx scripts/recover-nin.ts <wallet>
+
+async function recoverNin(walletAddress: string | undefined) {
+  if (!walletAddress) {
+    throw new Error("Usage: npx tsx scripts/recover-nin.ts <wallet address>");
+  }
+
+  const voter = await identity.getVoter(walletAddress);
+  if (!voter) {
+    throw new Error(`No voter registered for ${walletAddress}`);
+  }
+  if (!voter.ninCiphertext) {
+    throw new Error("No encrypted copy was stored for this voter");
+  }
+
+  console.log(identity.decryptNin(voter.ninCiphertext));
+}
+
+recoverNin(process.argv[2])
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error.message || error);
+    process.exit(1);
+  });
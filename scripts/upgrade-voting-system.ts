@@ -0,0 +1,81 @@
+import { ethers } from "ethers";
+import VotingSystem from "../contracts/VotingSystem.json";
+import VotingSystemV2 from "../contracts/VotingSystemV2.json";
+import { ballotDomain } from "@shared/ballots";
+import { getChainConfig, getImplementationAddress } from "../server/chain";
+
+// Upgrade the deployed VotingSystem proxy to VotingSystemV2 (relayed ballots) through
+// upgradeToAndCall. V2 keeps the running implementation for everything else, so this deploys
+// it pointed at whatever the proxy runs now, then switches the proxy over.
+// Usage: OWNER_PRIVATE_KEY=... [NETWORK=amoy] [RPC_URL=...] [CONTRACT_ADDRESS=...] \
+//        npx tsx scripts/upgrade-voting-system.ts [--dry-run]
+// The key must be the contract owner's. --dry-run only checks the owner and reports what
+// would change.
+
+async function upgradeVotingSystem(args: string[]) {
+  const key = process.env.OWNER_PRIVATE_KEY;
+  if (!key) {
+    throw new Error("OWNER_PRIVATE_KEY is required");
+  }
+
+  const config = getChainConfig();
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl, config.network.chainId, { staticNetwork: true });
+  const owner = new ethers.Wallet(key, provider);
+  const abi = [
+    ...VotingSystem.abi,
+    ...VotingSystemV2.abi.filter((entry) => entry.name && !VotingSystem.abi.some((known) => known.name === entry.name)),
+  ];
+  const proxy = new ethers.Contract(config.contractAddress, abi, owner);
+  const expectedDomain = ethers.TypedDataEncoder.hashDomain(ballotDomain(config.network.chainId, config.contractAddress));
+
+  const contractOwner: string = await proxy.owner();
+  if (contractOwner.toLowerCase() !== owner.address.toLowerCase()) {
+    throw new Error(`${owner.address} isn't the contract owner (${contractOwner})`);
+  }
+
+  const current = await getImplementationAddress(provider, config.contractAddress);
+  const upgraded = await proxy.DOMAIN_SEPARATOR().then(
+    (domain: string) => domain === expectedDomain,
+    () => false,
+  );
+  if (upgraded) {
+    console.log(`${config.network.name}: ${config.contractAddress} already runs VotingSystemV2 (${current})`);
+    return;
+  }
+
+  console.log(`${config.network.name}: ${config.contractAddress} runs ${current}`);
+  if (args.includes("--dry-run")) {
+    console.log("Dry run: would deploy VotingSystemV2 over it and call upgradeToAndCall");
+    return;
+  }
+
+  const admin: string = await proxy.admin();
+  const nextElectionId: bigint = await proxy.currentElectionId();
+
+  const implementation = await new ethers.ContractFactory(VotingSystemV2.abi, VotingSystemV2.bytecode, owner).deploy(
+    current,
+  );
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log(`Deployed VotingSystemV2 at ${implementationAddress}`);
+
+  const receipt = await (await proxy.upgradeToAndCall(implementationAddress, "0x")).wait();
+  console.log(`Upgraded in ${receipt.hash}`);
+
+  // The state behind the proxy is untouched and ballots verify over the voters' domain
+  if (
+    (await proxy.admin()) !== admin ||
+    (await proxy.currentElectionId()) !== nextElectionId ||
+    (await proxy.DOMAIN_SEPARATOR()) !== expectedDomain
+  ) {
+    throw new Error("The upgraded contract doesn't read back as expected; check it before relaying ballots");
+  }
+  console.log("Verified: admin, elections and the ballot domain read back as expected");
+}
+
+upgradeVotingSystem(process.argv.slice(2))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Upgrade failed:", error.message || error);
+    process.exit(1);
+  });
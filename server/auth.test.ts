@@ -0,0 +1,174 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { ethers } from "ethers";
+import { SiweMessage } from "siwe";
+import { completeLogin, createLoginNonce, requirePermission } from "./auth";
+import { chainReader } from "./chain";
+import { storage } from "./storage";
+
+const DOMAIN = "localhost:5000";
+const admin = ethers.Wallet.createRandom();
+const operator = ethers.Wallet.createRandom();
+const stranger = ethers.Wallet.createRandom();
+
+// The contract's admin() without an RPC round trip
+chainReader.getAdmin = async () => admin.address.toLowerCase();
+
+beforeEach(async () => {
+  await storage.revokeAdminRole(operator.address.toLowerCase());
+});
+
+// Just enough of an Express request for the login flow: a session that can regenerate
+function createRequest(host = DOMAIN) {
+  const session: Record<string, any> = {
+    regenerate(callback: (error?: unknown) => void) {
+      for (const key of Object.keys(session)) {
+        if (typeof session[key] !== "function") delete session[key];
+      }
+      session.regenerated = true;
+      callback();
+    },
+  };
+  return { session, get: (header: string) => (header.toLowerCase() === "host" ? host : undefined) } as unknown as Request & {
+    session: Record<string, any>;
+  };
+}
+
+async function signIn(
+  wallet: ethers.HDNodeWallet,
+  nonce: string,
+  overrides: Partial<{ domain: string; chainId: number; expirationTime: string }> = {},
+) {
+  const message = new SiweMessage({
+    domain: DOMAIN,
+    address: wallet.address,
+    statement: "Sign in to the BlockVote admin panel",
+    uri: `http://${DOMAIN}`,
+    version: "1",
+    chainId: chainReader.config.network.chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+    ...overrides,
+  }).prepareMessage();
+  return { message, signature: await wallet.signMessage(message) };
+}
+
+test("the contract admin signs in as superadmin on a fresh session", async () => {
+  const req = createRequest();
+  const { message, signature } = await signIn(admin, createLoginNonce(req));
+
+  assert.deepEqual(await completeLogin(req, message, signature), { address: admin.address.toLowerCase(), role: "superadmin" });
+  assert.equal(req.session.regenerated, true);
+  assert.equal(req.session.adminAddress, admin.address.toLowerCase());
+  assert.equal(req.session.siweNonce, undefined);
+});
+
+test("operators sign in with their granted role; other wallets are refused", async () => {
+  await storage.grantAdminRole({ walletAddress: operator.address.toLowerCase(), role: "auditor", grantedBy: admin.address.toLowerCase() });
+
+  const req = createRequest();
+  const login = await signIn(operator, createLoginNonce(req));
+  assert.equal((await completeLogin(req, login.message, login.signature))?.role, "auditor");
+
+  const other = createRequest();
+  const refused = await signIn(stranger, createLoginNonce(other));
+  assert.equal(await completeLogin(other, refused.message, refused.signature), null);
+  assert.equal(other.session.adminAddress, undefined);
+});
+
+test("a nonce is single use", async () => {
+  const req = createRequest();
+  const { message, signature } = await signIn(admin, createLoginNonce(req));
+  assert.ok(await completeLogin(req, message, signature));
+
+  const replay = createRequest();
+  createLoginNonce(replay);
+  assert.equal(await completeLogin(replay, message, signature), null);
+});
+
+test("messages for another nonce, domain or chain, expired ones and forged signatures are rejected", async () => {
+  const cases: Array<(req: Request & { session: Record<string, any> }) => Promise<{ message: string; signature: string }>> = [
+    async (req) => {
+      createLoginNonce(req);
+      return signIn(admin, "someothernonce1");
+    },
+    async (req) => signIn(admin, createLoginNonce(req), { domain: "evil.example" }),
+    async (req) => signIn(admin, createLoginNonce(req), { chainId: 1 }),
+    async (req) => signIn(admin, createLoginNonce(req), { expirationTime: new Date(Date.now() - 1000).toISOString() }),
+    async (req) => {
+      const { message } = await signIn(admin, createLoginNonce(req));
+      return { message, signature: await stranger.signMessage(message) };
+    },
+  ];
+
+  for (const prepare of cases) {
+    const req = createRequest();
+    const { message, signature } = await prepare(req);
+    assert.equal(await completeLogin(req, message, signature), null);
+  }
+});
+
+test("an expired nonce is rejected", async () => {
+  const req = createRequest();
+  const { message, signature } = await signIn(admin, createLoginNonce(req));
+  req.session.siweNonce!.expiresAt = Date.now() - 1;
+  assert.equal(await completeLogin(req, message, signature), null);
+});
+
+test("the message must be issued for the host it is sent to", async () => {
+  const req = createRequest("other.example");
+  const { message, signature } = await signIn(admin, createLoginNonce(req));
+  assert.equal(await completeLogin(req, message, signature), null);
+});
+
+// Runs the guard and reports how it answered
+async function guard(permission: Parameters<typeof requirePermission>[0], adminAddress?: string) {
+  const req = createRequest();
+  if (adminAddress) req.session.adminAddress = adminAddress;
+
+  let status: number | null = null;
+  let passed = false;
+  const res: Pick<Response, "status" | "json"> = {
+    status(code) {
+      status = code;
+      return res as Response;
+    },
+    json() {
+      return res as Response;
+    },
+  };
+  await requirePermission(permission)(req, res as Response, () => {
+    passed = true;
+  });
+  return { status, passed, session: req.session };
+}
+
+test("guarded routes need an admin session", async () => {
+  assert.deepEqual((await guard("voters:read")).status, 401);
+});
+
+test("a role passes the guard only for its own permissions", async () => {
+  await storage.grantAdminRole({ walletAddress: operator.address.toLowerCase(), role: "registration_officer", grantedBy: admin.address.toLowerCase() });
+
+  const allowed = await guard("registration:lock", operator.address.toLowerCase());
+  assert.equal(allowed.passed, true);
+  assert.equal(allowed.session.adminRole, "registration_officer");
+
+  const denied = await guard("elections:approve", operator.address.toLowerCase());
+  assert.equal(denied.passed, false);
+  assert.equal(denied.status, 403);
+
+  assert.equal((await guard("roles:manage", admin.address.toLowerCase())).passed, true);
+  // Any admin role, for routes without a specific permission
+  assert.equal((await guard(undefined, operator.address.toLowerCase())).passed, true);
+});
+
+test("revoking a role ends the session's admin access", async () => {
+  await storage.grantAdminRole({ walletAddress: operator.address.toLowerCase(), role: "auditor", grantedBy: admin.address.toLowerCase() });
+  await storage.revokeAdminRole(operator.address.toLowerCase());
+
+  const revoked = await guard("voters:read", operator.address.toLowerCase());
+  assert.equal(revoked.status, 403);
+  assert.equal(revoked.session.adminAddress, undefined);
+});
@@ -0,0 +1,162 @@
+import { randomBytes } from "crypto";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import { SiweMessage, generateNonce } from "siwe";
+import { hasPermission, type AdminRole, type Permission } from "@shared/permissions";
+import { chainReader } from "./chain";
+import { storage } from "./storage";
+import type { RoleChange } from "./roles";
+import { log } from "./vite";
+
+declare module "express-session" {
+  interface SessionData {
+    // Nonce handed out by /api/admin/nonce, waiting for a signed SIWE message
+    siweNonce?: { value: string; expiresAt: number };
+    // Lower-cased wallet of the signed-in admin
+    adminAddress?: string;
+    adminRole?: AdminRole;
+    // Role change waiting for the admin's signed confirmation (server/roles.ts)
+    pendingRoleChange?: { change: RoleChange; message: string; expiresAt: number };
+  }
+}
+
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  log("SESSION_SECRET not set, admin sessions will not survive a restart", "auth");
+  return randomBytes(32).toString("hex");
+}
+
+// Postgres-backed sessions when a database is configured, so they survive restarts and
+// are shared between serverless instances
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: SESSION_TTL_MS });
+}
+
+export function setupSessions(app: Express): void {
+  if (process.env.NODE_ENV === "production") {
+    // Secure cookies behind Vercel's / a reverse proxy's TLS termination
+    app.set("trust proxy", 1);
+  }
+
+  app.use(
+    session({
+      name: "blockvote.sid",
+      secret: getSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      store: createSessionStore(),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_TTL_MS,
+      },
+    }),
+  );
+}
+
+// The contract's admin() is always a superadmin; other operators need a row in admin_roles
+export async function resolveAdminRole(address: string): Promise<AdminRole | null> {
+  const normalized = address.toLowerCase();
+  if ((await chainReader.getAdmin()) === normalized) return "superadmin";
+  return (await storage.getAdminRole(normalized))?.role ?? null;
+}
+
+// Host the SIWE message must be issued for. SIWE_DOMAIN pins it when the app sits behind
+// a proxy that rewrites the Host header.
+function getExpectedDomain(req: Request): string | undefined {
+  return process.env.SIWE_DOMAIN || req.get("host");
+}
+
+// Hand out a one-time nonce for an EIP-4361 message
+export function createLoginNonce(req: Request): string {
+  const value = generateNonce();
+  req.session.siweNonce = { value, expiresAt: Date.now() + NONCE_TTL_MS };
+  return value;
+}
+
+export interface AdminLogin {
+  address: string;
+  role: AdminRole;
+}
+
+// Check a signed SIWE message against the pending nonce, this host and chain; returns the
+// admin on success and null when the message, signature or wallet is rejected
+export async function completeLogin(
+  req: Request,
+  message: string,
+  signature: string,
+): Promise<AdminLogin | null> {
+  const nonce = req.session.siweNonce;
+  delete req.session.siweNonce;
+  if (!nonce || nonce.expiresAt < Date.now()) return null;
+
+  let siwe: SiweMessage;
+  try {
+    siwe = new SiweMessage(message);
+  } catch {
+    return null;
+  }
+  if (siwe.chainId !== chainReader.config.network.chainId) return null;
+
+  const { success } = await siwe.verify(
+    { signature, nonce: nonce.value, domain: getExpectedDomain(req), time: new Date().toISOString() },
+    { suppressExceptions: true },
+  );
+  if (!success) return null;
+
+  const address = siwe.address.toLowerCase();
+  const role = await resolveAdminRole(address);
+  if (!role) return null;
+
+  // New session id on privilege change, so a pre-login id can't be fixated
+  await new Promise<void>((resolve, reject) =>
+    req.session.regenerate((error) => (error ? reject(error) : resolve())),
+  );
+  req.session.adminAddress = address;
+  req.session.adminRole = role;
+  return { address, role };
+}
+
+// Guards privileged routes. The role is re-checked against the contract (cached) and the
+// role table, so a changeAdmin handover or a revoked role ends the session.
+export function requirePermission(permission?: Permission): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const address = req.session.adminAddress;
+    if (!address) {
+      return res.status(401).json({ message: "Admin session required" });
+    }
+
+    try {
+      const role = await resolveAdminRole(address);
+      if (!role) {
+        delete req.session.adminAddress;
+        delete req.session.adminRole;
+        return res.status(403).json({ message: "This wallet no longer has admin access" });
+      }
+      req.session.adminRole = role;
+
+      if (permission && !hasPermission(role, permission)) {
+        return res.status(403).json({ message: "Your admin role does not allow this action" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Any admin role
+export const requireAdmin = requirePermission();
@@ -0,0 +1,313 @@
+import { ethers, isError } from "ethers";
+import VotingSystem from "../contracts/VotingSystem.json";
+import { findDeploymentBlock, resolveNetwork, type NetworkConfig } from "@shared/networks";
+import { findActiveElection, getElectionStatus, type ElectionStatus } from "@shared/elections";
+
+export interface ChainConfig {
+  network: NetworkConfig;
+  rpcUrl: string;
+  contractAddress: string;
+  // First block the indexer scans; set to the proxy deployment block to skip empty history.
+  // 0 means unknown: read it through ChainReader.getDeploymentBlock()
+  deploymentBlock: number;
+}
+
+export interface ChainElection {
+  id: number;
+  name: string;
+  startTime: Date;
+  endTime: Date;
+  active: boolean;
+  candidateCount: number;
+  status: ElectionStatus;
+}
+
+export interface ChainCandidate {
+  name: string;
+  party: string;
+  votes: number;
+  index: number;
+}
+
+// NETWORK selects a registry entry (amoy, polygon, local); RPC_URL, CONTRACT_ADDRESS and
+// DEPLOYMENT_BLOCK override it, e.g. to point "local" at a fresh Hardhat/Anvil deployment
+export function getChainConfig(): ChainConfig {
+  const network = resolveNetwork(process.env.NETWORK || process.env.VITE_NETWORK, {
+    rpcUrl: process.env.RPC_URL || process.env.VITE_ALCHEMY_URL,
+    contractAddress: process.env.CONTRACT_ADDRESS || process.env.VITE_CONTRACT_ADDRESS,
+    deploymentBlock: process.env.DEPLOYMENT_BLOCK ? Number(process.env.DEPLOYMENT_BLOCK) : undefined,
+  });
+
+  return {
+    network,
+    rpcUrl: network.rpcUrls[0],
+    contractAddress: network.contractAddress,
+    deploymentBlock: network.deploymentBlock,
+  };
+}
+
+export interface VoteCastRecord {
+  transactionHash: string;
+  // Lower-cased sender of the castVote transaction
+  from: string;
+  electionId: number;
+  voterHash: string;
+  blockNumber: number;
+}
+
+export interface AdminChangeRecord {
+  transactionHash: string;
+  // Lower-cased addresses from the AdminChanged event
+  previousAdmin: string;
+  newAdmin: string;
+  blockNumber: number;
+}
+
+export interface ElectionCreatedRecord {
+  transactionHash: string;
+  // Lower-cased sender of the createElection transaction
+  from: string;
+  electionId: number;
+  name: string;
+  blockNumber: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Keys are per election, so this bounds what a caller walking arbitrary ids can pin in memory
+const MAX_CACHE_ENTRIES = 1000;
+
+// ERC-1967 storage slot holding a proxy's implementation address
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// The implementation contract the proxy at `proxyAddress` currently delegates to, checksummed
+export async function getImplementationAddress(
+  provider: Pick<ethers.Provider, "getStorage">,
+  proxyAddress: string,
+): Promise<string> {
+  return ethers.getAddress(ethers.dataSlice(await provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT), 12));
+}
+
+// Read-only access to the VotingSystem contract with a small TTL cache, so many
+// browsers polling the API translate into a handful of RPC calls
+export class ChainReader {
+  readonly config: ChainConfig;
+  readonly provider: ethers.JsonRpcProvider;
+  readonly contract: ethers.Contract;
+  private cache = new Map<string, CacheEntry>();
+  private deploymentBlock: Promise<number> | null = null;
+
+  constructor(config: ChainConfig) {
+    this.config = config;
+    this.provider = new ethers.JsonRpcProvider(config.rpcUrl, config.network.chainId, {
+      staticNetwork: true,
+    });
+    this.contract = new ethers.Contract(config.contractAddress, VotingSystem.abi, this.provider);
+  }
+
+  private async cached<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as T;
+    }
+
+    const value = await load();
+    this.cache.delete(key);
+    this.cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+    if (this.cache.size > MAX_CACHE_ENTRIES) this.evict();
+    return value;
+  }
+
+  // Drop expired entries, then the oldest until back under the cap (a Map iterates in
+  // insertion order, and entries are re-inserted whenever they are reloaded)
+  private evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of Array.from(this.cache)) {
+      if (entry.expiresAt <= now) this.cache.delete(key);
+    }
+    for (const key of Array.from(this.cache.keys())) {
+      if (this.cache.size <= MAX_CACHE_ENTRIES) break;
+      this.cache.delete(key);
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // Drop what an event for `electionId` can change: its counts, its info (a cached miss
+  // for a just-created election) and the election counter
+  invalidateElection(electionId: number): void {
+    this.cache.delete(`electionInfo_${electionId}`);
+    this.cache.delete(`candidates_${electionId}`);
+    this.cache.delete(`totalVotes_${electionId}`);
+    this.cache.delete("nextElectionId");
+  }
+
+  // Where event scans start: the configured block, or else the block the proxy's code first
+  // appears in. Looked up once; if the RPC endpoint can't serve historical state the scans
+  // fall back to genesis (set DEPLOYMENT_BLOCK to avoid that).
+  getDeploymentBlock(): Promise<number> {
+    if (this.config.deploymentBlock > 0) return Promise.resolve(this.config.deploymentBlock);
+    if (!this.deploymentBlock) {
+      this.deploymentBlock = findDeploymentBlock(this.provider, this.config.contractAddress)
+        .then((block) => block ?? 0)
+        .catch((error) => {
+          console.warn(`Could not look up the contract's deployment block, scanning from genesis: ${error?.message || error}`);
+          return 0;
+        });
+    }
+    return this.deploymentBlock;
+  }
+
+  // Current contract admin, lower-cased
+  async getAdmin(): Promise<string> {
+    return this.cached("admin", 60000, () => this.readAdmin());
+  }
+
+  // The admin straight from the contract, bypassing the cache
+  async readAdmin(): Promise<string> {
+    return ((await this.contract.admin()) as string).toLowerCase();
+  }
+
+  invalidateAdmin(): void {
+    this.cache.delete("admin");
+  }
+
+  // The contract's counter holds the id the next election will receive
+  async getNextElectionId(): Promise<number> {
+    return this.cached("nextElectionId", 15000, async () => {
+      return Number(await this.contract.currentElectionId());
+    });
+  }
+
+  async getElectionInfo(electionId: number): Promise<ChainElection | null> {
+    // Ids the counter hasn't reached yet don't exist; answering them without a call keeps
+    // them out of the cache
+    if (electionId < 1 || electionId >= (await this.getNextElectionId())) return null;
+
+    const election = await this.cached(`electionInfo_${electionId}`, 60000, async () => {
+      try {
+        const info = await this.contract.getElectionInfo(electionId);
+        if (!info.name) return null;
+
+        return {
+          id: electionId,
+          name: info.name as string,
+          startTime: new Date(Number(info.startTime) * 1000),
+          endTime: new Date(Number(info.endTime) * 1000),
+          active: info.active as boolean,
+          candidateCount: Number(info.candidateCount),
+        };
+      } catch (error) {
+        // getElectionInfo reverts for ids that were never created. Anything else (a timeout,
+        // a rate limit) is rethrown so it isn't cached as "not found".
+        if (isError(error, "CALL_EXCEPTION")) return null;
+        throw error;
+      }
+    });
+
+    // Status is derived on every read so cached entries never go stale across a boundary
+    return election
+      ? { ...election, status: getElectionStatus(election.startTime, election.endTime) }
+      : null;
+  }
+
+  async getAllCandidates(electionId: number): Promise<ChainCandidate[]> {
+    return this.cached(`candidates_${electionId}`, 15000, async () => {
+      const result = await this.contract.getAllCandidates(electionId);
+      return result.names.map((name: string, i: number) => ({
+        name,
+        party: result.parties[i],
+        votes: Number(result.votesCounts[i]),
+        index: i,
+      }));
+    });
+  }
+
+  async getTotalVotes(electionId: number): Promise<number> {
+    return this.cached(`totalVotes_${electionId}`, 15000, async () => {
+      return Number(await this.contract.getTotalVotes(electionId));
+    });
+  }
+
+  async getElections(): Promise<ChainElection[]> {
+    const nextId = await this.getNextElectionId();
+    const elections: ChainElection[] = [];
+
+    for (let id = 1; id < nextId; id++) {
+      const election = await this.getElectionInfo(id);
+      if (election) elections.push(election);
+    }
+
+    return elections;
+  }
+
+  // First `eventName` log the contract emitted in a successful transaction
+  private async findReceiptEvent(transactionHash: string, eventName: string) {
+    const receipt = await this.provider.getTransactionReceipt(transactionHash);
+    if (!receipt || receipt.status !== 1) return null;
+
+    const contractAddress = this.config.contractAddress.toLowerCase();
+    for (const entry of receipt.logs) {
+      if (entry.address.toLowerCase() !== contractAddress) continue;
+
+      const parsed = this.contract.interface.parseLog(entry);
+      if (parsed?.name === eventName) {
+        return { receipt, event: parsed };
+      }
+    }
+    return null;
+  }
+
+  // The VoteCast emitted by a mined castVote transaction, or null if it isn't one
+  async getVoteCast(transactionHash: string): Promise<VoteCastRecord | null> {
+    const found = await this.findReceiptEvent(transactionHash, "VoteCast");
+    if (!found) return null;
+
+    return {
+      transactionHash,
+      from: found.receipt.from.toLowerCase(),
+      electionId: Number(found.event.args.electionId),
+      voterHash: found.event.args.voterHash as string,
+      blockNumber: found.receipt.blockNumber,
+    };
+  }
+
+  // The AdminChanged emitted by a mined changeAdmin transaction, or null if it isn't one
+  async getAdminChange(transactionHash: string): Promise<AdminChangeRecord | null> {
+    const found = await this.findReceiptEvent(transactionHash, "AdminChanged");
+    if (!found) return null;
+
+    return {
+      transactionHash,
+      previousAdmin: (found.event.args.oldAdmin as string).toLowerCase(),
+      newAdmin: (found.event.args.newAdmin as string).toLowerCase(),
+      blockNumber: found.receipt.blockNumber,
+    };
+  }
+
+  // The ElectionCreated emitted by a mined createElection transaction, or null if it isn't one
+  async getElectionCreated(transactionHash: string): Promise<ElectionCreatedRecord | null> {
+    const found = await this.findReceiptEvent(transactionHash, "ElectionCreated");
+    if (!found) return null;
+
+    return {
+      transactionHash,
+      from: found.receipt.from.toLowerCase(),
+      electionId: Number(found.event.args.electionId),
+      name: found.event.args.name as string,
+      blockNumber: found.receipt.blockNumber,
+    };
+  }
+
+  // The election currently open for voting, if any
+  async getActiveElection(): Promise<ChainElection | null> {
+    return findActiveElection(await this.getElections());
+  }
+}
+
+export const chainReader = new ChainReader(getChainConfig());
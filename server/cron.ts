@@ -0,0 +1,81 @@
+import { timingSafeEqual } from "crypto";
+import { indexer } from "./indexer";
+import { registrationScheduler } from "./scheduler";
+import { transactionTracker } from "./transactions";
+import { log } from "./vite";
+
+// The registration scheduler, the indexer and the transaction tracker normally run as polling
+// loops in the long-running server (server/index.ts). Serverless deployments (api/index.js)
+// have no process to keep them in, so a cron calls GET /api/cron/tick instead and each job
+// does one round of its work. Registration locks then lag an election boundary by up to the
+// cron interval.
+
+// Indexer batches per call; backfilling an old deployment takes several calls
+const MAX_INDEXER_BATCHES = 10;
+
+export interface BackgroundJobResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface BackgroundJobsReport {
+  scheduler: BackgroundJobResult & { transitions: number };
+  indexer: BackgroundJobResult & { caughtUp: boolean };
+  transactions: BackgroundJobResult;
+}
+
+export function isCronConfigured(): boolean {
+  return !!process.env.CRON_SECRET;
+}
+
+// Vercel sends `Authorization: Bearer <CRON_SECRET>`; without a secret the endpoint is closed
+export function isCronAuthorized(authorization: string | undefined): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !authorization) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authorization);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function runJob<T extends object>(name: string, job: () => Promise<T>, failed: T): Promise<T & BackgroundJobResult> {
+  try {
+    return { ok: true, ...(await job()) };
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    log(`${name} failed: ${message}`, "cron");
+    return { ok: false, error: message, ...failed };
+  }
+}
+
+// One round of every background job. A failing job is reported and doesn't stop the others.
+export async function runBackgroundJobs(): Promise<BackgroundJobsReport> {
+  const scheduler = await runJob(
+    "scheduler",
+    async () => ({ transitions: (await registrationScheduler.tick()).length }),
+    { transitions: 0 },
+  );
+
+  const indexed = await runJob(
+    "indexer",
+    async () => {
+      let caughtUp = false;
+      for (let batch = 0; batch < MAX_INDEXER_BATCHES && !caughtUp; batch++) {
+        caughtUp = await indexer.syncOnce();
+      }
+      return { caughtUp };
+    },
+    { caughtUp: false },
+  );
+
+  const transactions = await runJob(
+    "transactions",
+    async () => {
+      await transactionTracker.tick();
+      return {};
+    },
+    {},
+  );
+
+  return { scheduler, indexer: indexed, transactions };
+}
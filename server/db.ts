@@ -0,0 +1,27 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Neon's serverless driver speaks WebSockets, which a plain (local) Postgres doesn't
+function isNeonUrl(connectionString: string): boolean {
+  try {
+    return new URL(connectionString).hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
+
+export function createDb(connectionString: string): Database {
+  if (isNeonUrl(connectionString)) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+  return drizzleNodePostgres({ client: new pg.Pool({ connectionString }), schema });
+}
@@ -0,0 +1,263 @@
+import type { ElectionDraft, InsertElectionDraft } from "@shared/schema";
+import {
+  ELECTION_DRAFT_STATUS_LABELS,
+  validateElectionDraft,
+  type ElectionDraftFields,
+  type ElectionDraftStatus,
+} from "@shared/drafts";
+import { hashElectionMetadata, type ElectionMetadata, type PinnedElectionMetadata } from "@shared/profiles";
+import { chainReader, type ChainReader } from "./chain";
+import { candidateProfiles, type CandidateProfileService } from "./profiles";
+import { storage, type IStorage } from "./storage";
+
+// Election drafts and their review. The createElection transaction itself is still sent from
+// the admin's wallet; publishing only records which election a draft became, after checking
+// that what was created on-chain is exactly what was approved, and pins the election's
+// off-chain metadata (description and candidate profile hashes) under a content hash.
+
+export class ElectionDraftError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ElectionDraftError";
+  }
+}
+
+const CONCURRENT_CHANGE_MESSAGE = "This draft was changed by someone else. Reload it and try again.";
+
+export interface ElectionDraftOptions {
+  // Let the admin who prepared a draft approve it too, for single-operator deployments
+  allowSelfReview: boolean;
+}
+
+export function getElectionDraftOptions(): ElectionDraftOptions {
+  return {
+    allowSelfReview: process.env.ELECTION_DRAFT_SELF_REVIEW === "true",
+  };
+}
+
+function toDraftFields(draft: ElectionDraft): ElectionDraftFields {
+  return {
+    name: draft.name,
+    description: draft.description,
+    startTime: draft.startTime,
+    endTime: draft.endTime,
+    candidates: draft.candidates,
+  };
+}
+
+function toUnixSeconds(date: Date | null): number | null {
+  return date ? Math.floor(date.getTime() / 1000) : null;
+}
+
+export class ElectionDraftService {
+  constructor(
+    private readonly store: IStorage,
+    private readonly reader: ChainReader,
+    private readonly profiles: CandidateProfileService,
+    private readonly options: ElectionDraftOptions,
+  ) {}
+
+  list(): Promise<ElectionDraft[]> {
+    return this.store.getElectionDrafts();
+  }
+
+  async get(id: number): Promise<ElectionDraft> {
+    const draft = await this.store.getElectionDraft(id);
+    if (!draft) {
+      throw new ElectionDraftError("Election draft not found.", 404);
+    }
+    return draft;
+  }
+
+  create(fields: ElectionDraftFields, actor: string): Promise<ElectionDraft> {
+    return this.store.createElectionDraft({
+      ...this.toColumns(fields),
+      status: "draft",
+      createdBy: actor,
+      updatedBy: actor,
+    });
+  }
+
+  // Any change needs a fresh review, so an edited draft goes back to "draft"
+  async update(id: number, fields: ElectionDraftFields, actor: string): Promise<ElectionDraft> {
+    const draft = await this.get(id);
+    this.expectStatus(draft, ["draft", "in_review", "approved"]);
+
+    return this.apply(draft, {
+      ...this.toColumns(fields),
+      status: "draft",
+      updatedBy: actor,
+      submittedBy: null,
+      reviewedBy: null,
+      reviewedAt: null,
+    });
+  }
+
+  async submit(id: number, actor: string): Promise<ElectionDraft> {
+    const draft = await this.get(id);
+    this.expectStatus(draft, ["draft"]);
+    await this.expectValid(draft);
+
+    return this.apply(draft, {
+      status: "in_review",
+      submittedBy: actor,
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNote: null,
+    });
+  }
+
+  // Approve, or send back to the author with a note on what to change
+  async review(id: number, actor: string, approve: boolean, note?: string): Promise<ElectionDraft> {
+    const draft = await this.get(id);
+    this.expectStatus(draft, ["in_review"]);
+    if (!this.options.allowSelfReview && (actor === draft.submittedBy || actor === draft.updatedBy)) {
+      throw new ElectionDraftError("A draft has to be reviewed by a different admin than the one who prepared it.", 403);
+    }
+    if (approve) await this.expectValid(draft);
+
+    return this.apply(draft, {
+      status: approve ? "approved" : "draft",
+      reviewedBy: actor,
+      reviewedAt: new Date(),
+      reviewNote: note?.trim() || null,
+    });
+  }
+
+  // Record the election an approved draft was published as. The transaction has to be a
+  // mined createElection whose election matches the draft field for field.
+  async publish(id: number, transactionHash: string, actor: string): Promise<ElectionDraft> {
+    const draft = await this.get(id);
+    // Recorded by both the admin's browser and the transaction tracker, whichever comes first
+    if (draft.status === "published" && draft.transactionHash === transactionHash) return draft;
+    this.expectStatus(draft, ["approved"]);
+
+    const created = await this.reader.getElectionCreated(transactionHash);
+    if (!created) {
+      throw new ElectionDraftError("Transaction is not a mined createElection.", 422);
+    }
+    if (await this.store.getElectionDraftByElectionId(created.electionId)) {
+      throw new ElectionDraftError(`Election #${created.electionId} is already recorded on another draft.`, 409);
+    }
+
+    // The election may have been read (and cached as missing) before it was created
+    this.reader.clearCache();
+    const [election, candidates] = await Promise.all([
+      this.reader.getElectionInfo(created.electionId),
+      this.reader.getAllCandidates(created.electionId),
+    ]);
+    const matches =
+      election !== null &&
+      election.name === draft.name &&
+      toUnixSeconds(election.startTime) === toUnixSeconds(draft.startTime) &&
+      toUnixSeconds(election.endTime) === toUnixSeconds(draft.endTime) &&
+      candidates.length === draft.candidates.length &&
+      candidates.every(
+        (candidate, i) => candidate.name === draft.candidates[i].name && candidate.party === draft.candidates[i].party,
+      );
+    if (!matches) {
+      throw new ElectionDraftError(`Election #${created.electionId} on-chain does not match this draft.`, 422);
+    }
+
+    const metadata: ElectionMetadata = {
+      electionId: created.electionId,
+      name: draft.name,
+      description: draft.description,
+      startTime: toUnixSeconds(draft.startTime)!,
+      endTime: toUnixSeconds(draft.endTime)!,
+      candidates: draft.candidates.map((candidate, index) => ({
+        index,
+        name: candidate.name,
+        party: candidate.party,
+        profileHash: candidate.profileHash ?? null,
+      })),
+    };
+
+    return this.apply(draft, {
+      status: "published",
+      electionId: created.electionId,
+      transactionHash,
+      publishedBy: actor,
+      publishedAt: new Date(),
+      metadata,
+      metadataHash: hashElectionMetadata(metadata),
+    });
+  }
+
+  // What was pinned when the election was published; elections created without a draft have none
+  async getPinnedMetadata(electionId: number): Promise<PinnedElectionMetadata> {
+    const draft = await this.store.getElectionDraftByElectionId(electionId);
+    if (!draft?.metadata || !draft.metadataHash) {
+      throw new ElectionDraftError(`Election ${electionId} has no published metadata.`, 404);
+    }
+    return {
+      metadata: draft.metadata,
+      metadataHash: draft.metadataHash,
+      transactionHash: draft.transactionHash!,
+      publishedAt: draft.publishedAt!.toISOString(),
+    };
+  }
+
+  // Published drafts stay as the record of what was approved
+  async discard(id: number): Promise<void> {
+    const draft = await this.get(id);
+    this.expectStatus(draft, ["draft", "in_review", "approved"]);
+    if (!(await this.store.deleteElectionDraft(id, draft.status))) {
+      throw new ElectionDraftError(CONCURRENT_CHANGE_MESSAGE, 409);
+    }
+  }
+
+  private toColumns(fields: ElectionDraftFields) {
+    return {
+      name: fields.name.trim(),
+      description: fields.description.trim(),
+      startTime: fields.startTime ? new Date(fields.startTime) : null,
+      endTime: fields.endTime ? new Date(fields.endTime) : null,
+      candidates: fields.candidates.map((candidate) => ({
+        name: candidate.name.trim(),
+        party: candidate.party.trim(),
+        profileHash: candidate.profileHash ?? null,
+      })),
+    };
+  }
+
+  private expectStatus(draft: ElectionDraft, allowed: ElectionDraftStatus[]): void {
+    if (!allowed.includes(draft.status)) {
+      throw new ElectionDraftError(
+        `This draft is ${ELECTION_DRAFT_STATUS_LABELS[draft.status].toLowerCase()} and can't be changed that way.`,
+        409,
+      );
+    }
+  }
+
+  private async expectValid(draft: ElectionDraft): Promise<void> {
+    const problems = [
+      ...validateElectionDraft(toDraftFields(draft)).map((issue) => issue.message),
+      ...(await this.profiles.check(draft.candidates)),
+    ];
+    if (problems.length > 0) {
+      throw new ElectionDraftError(problems.join("; "), 422);
+    }
+  }
+
+  private async apply(
+    draft: ElectionDraft,
+    changes: Partial<InsertElectionDraft>,
+  ): Promise<ElectionDraft> {
+    const updated = await this.store.updateElectionDraft(draft.id, draft.status, changes);
+    if (!updated) {
+      throw new ElectionDraftError(CONCURRENT_CHANGE_MESSAGE, 409);
+    }
+    return updated;
+  }
+}
+
+export const electionDrafts = new ElectionDraftService(
+  storage,
+  chainReader,
+  candidateProfiles,
+  getElectionDraftOptions(),
+);
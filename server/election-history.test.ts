@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertContractEvent } from "@shared/schema";
+import { turnoutSampleTimes } from "@shared/election-history";
+import type { ChainReader } from "./chain";
+import { ElectionHistoryService } from "./election-history";
+import { MemStorage } from "./storage";
+
+const START = new Date("2026-03-01T08:00:00Z");
+const END = new Date("2026-03-01T18:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+const reader = {
+  getElectionInfo: async (id: number) =>
+    id === 1
+      ? { id, name: "Governorship", startTime: START, endTime: END, active: true, candidateCount: 2, status: "Completed" as const }
+      : null,
+  getAllCandidates: async () => [
+    { index: 0, name: "A", party: "P1", votes: 3 },
+    { index: 1, name: "B", party: "P2", votes: 1 },
+  ],
+  getTotalVotes: async () => 4,
+} as unknown as Pick<ChainReader, "getElectionInfo" | "getAllCandidates" | "getTotalVotes">;
+
+const vote = (i: number, at: number, electionId = 1): InsertContractEvent => ({
+  eventName: "VoteCast",
+  blockNumber: 100 + i,
+  blockHash: `0x${i}`,
+  transactionHash: `0x${electionId}${i}`,
+  logIndex: 0,
+  from: "0x1",
+  timestamp: new Date(at),
+  electionId,
+  args: {},
+});
+
+test("turnout is sampled at even steps and stops at now", () => {
+  const start = START.getTime();
+  assert.deepEqual(turnoutSampleTimes(start, start + 10 * HOUR, start + 2 * HOUR, 4), [
+    start,
+    start + HOUR / 2,
+    start + HOUR,
+    start + 1.5 * HOUR,
+    start + 2 * HOUR,
+  ]);
+  assert.deepEqual(turnoutSampleTimes(start, start + HOUR, start - HOUR), [start]);
+});
+
+test("the turnout curve counts indexed votes up to each sample", async () => {
+  const store = new MemStorage();
+  const start = START.getTime();
+  await store.insertContractEvents([
+    vote(1, start + HOUR),
+    vote(2, start + HOUR),
+    vote(3, start + 5 * HOUR),
+    // Another election's vote in the same window
+    vote(4, start + 2 * HOUR, 2),
+  ]);
+
+  const history = await new ElectionHistoryService(reader, store).get(1, new Date(END.getTime() + HOUR));
+  assert.ok(history);
+  assert.equal(history.indexedVotes, 3);
+  assert.equal(history.turnout.length, 101);
+  assert.deepEqual(history.turnout[0], { at: START.toISOString(), votes: 0 });
+  assert.deepEqual(history.turnout[10], { at: new Date(start + HOUR).toISOString(), votes: 2 });
+  assert.equal(history.turnout[49].votes, 2);
+  assert.equal(history.turnout[50].votes, 3);
+  assert.deepEqual(history.turnout[100], { at: END.toISOString(), votes: 3 });
+});
+
+test("an election that hasn't opened has no turnout curve", async () => {
+  const history = await new ElectionHistoryService(reader, new MemStorage()).get(1, new Date(START.getTime() - HOUR));
+  assert.deepEqual(history?.turnout, []);
+  assert.equal(history?.indexedVotes, 0);
+  assert.equal(await new ElectionHistoryService(reader, new MemStorage()).get(2), null);
+});
@@ -0,0 +1,94 @@
+import type { RegistrationTransition } from "@shared/schema";
+import {
+  turnoutSampleTimes,
+  type ElectionHistory,
+  type ElectionTimelineEntry,
+} from "@shared/election-history";
+import { chainReader, type ChainReader } from "./chain";
+import { storage, type IStorage } from "./storage";
+
+// Assembles an election's detail page: the contract's current state, its creation and votes
+// from the event indexer, and the registration lock changes the scheduler and admins made
+// around it. The turnout curve is counted by the storage layer at fixed sample times, so a
+// request never loads the election's votes.
+
+function transitionEntry(transition: RegistrationTransition): ElectionTimelineEntry {
+  return {
+    kind: transition.locked ? "registration_locked" : "registration_unlocked",
+    at: transition.effectiveAt.toISOString(),
+    upcoming: false,
+    transactionHash: null,
+    actor: transition.actor,
+  };
+}
+
+export class ElectionHistoryService {
+  constructor(
+    private readonly reader: Pick<ChainReader, "getElectionInfo" | "getAllCandidates" | "getTotalVotes">,
+    private readonly store: IStorage,
+  ) {}
+
+  // Null when the contract has no such election
+  async get(electionId: number, now = new Date()): Promise<ElectionHistory | null> {
+    const election = await this.reader.getElectionInfo(electionId);
+    if (!election) return null;
+
+    const sampleTimes =
+      election.startTime > now
+        ? []
+        : turnoutSampleTimes(election.startTime.getTime(), election.endTime.getTime(), now.getTime());
+
+    const [candidates, totalVotes, created, votes, transitions] = await Promise.all([
+      this.reader.getAllCandidates(electionId),
+      this.reader.getTotalVotes(electionId),
+      this.store.getContractEvents({ page: 1, pageSize: 1, eventName: "ElectionCreated", electionId }),
+      this.store.countContractEvents(
+        { eventName: "VoteCast", electionId },
+        sampleTimes.map((time) => new Date(time)),
+      ),
+      this.store.getElectionRegistrationTransitions(electionId, election.startTime, election.endTime),
+    ]);
+
+    const creationEvent = created.events[0];
+    const creation = creationEvent
+      ? {
+          transactionHash: creationEvent.transactionHash,
+          blockNumber: creationEvent.blockNumber,
+          from: creationEvent.from,
+          at: creationEvent.timestamp.toISOString(),
+        }
+      : null;
+
+    const timeline: ElectionTimelineEntry[] = [
+      ...(creation
+        ? [{ kind: "created" as const, at: creation.at, upcoming: false, transactionHash: creation.transactionHash, actor: creation.from }]
+        : []),
+      { kind: "started", at: election.startTime.toISOString(), upcoming: election.startTime > now, transactionHash: null, actor: null },
+      ...transitions.map(transitionEntry),
+      { kind: "ended", at: election.endTime.toISOString(), upcoming: election.endTime > now, transactionHash: null, actor: null },
+    ];
+    timeline.sort((a, b) => a.at.localeCompare(b.at));
+
+    return {
+      election: {
+        id: election.id,
+        name: election.name,
+        startTime: election.startTime.toISOString(),
+        endTime: election.endTime.toISOString(),
+        status: election.status,
+        candidateCount: election.candidateCount,
+      },
+      candidates: candidates.map((candidate) => ({
+        ...candidate,
+        percentage: totalVotes > 0 ? Math.round((candidate.votes / totalVotes) * 100) : 0,
+      })),
+      totalVotes,
+      creation,
+      timeline,
+      turnout: sampleTimes.map((time, i) => ({ at: new Date(time).toISOString(), votes: votes.until[i] })),
+      indexedVotes: votes.total,
+    };
+  }
+}
+
+export const electionHistory = new ElectionHistoryService(chainReader, storage);
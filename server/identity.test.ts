@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { IdentityError, IdentityService, maskNin, toPublicVoter } from "./identity";
+import { MemStorage } from "./storage";
+
+const WALLET = "0xAbCdEf0000000000000000000000000000000001";
+const NIN = "12345678901";
+
+function createService(encryptionKey: Buffer | null = randomBytes(32), pepper = "pepper one") {
+  const store = new MemStorage();
+  const service = new IdentityService(store, { pepper: Buffer.from(pepper), encryptionKey }, { maxFailedAttempts: 3, lockoutMs: 60_000 });
+  return { store, service };
+}
+
+test("NIN hashes are keyed by the pepper and never contain the NIN", () => {
+  const { service } = createService();
+  const hash = service.hashNin(NIN);
+
+  assert.match(hash, /^[0-9a-f]{64}$/);
+  assert.equal(service.hashNin(NIN), hash);
+  assert.notEqual(service.hashNin("12345678902"), hash);
+  assert.notEqual(createService(null, "pepper two").service.hashNin(NIN), hash);
+  assert.ok(!hash.includes(NIN));
+});
+
+test("encrypted NINs round-trip only with their key", () => {
+  const { service } = createService();
+  const first = service.encryptNin(NIN)!;
+  const second = service.encryptNin(NIN)!;
+
+  assert.match(first, /^v1:/);
+  assert.ok(!first.includes(NIN));
+  // Fresh IV every time
+  assert.notEqual(first, second);
+  assert.equal(service.decryptNin(first), NIN);
+
+  assert.throws(() => createService().service.decryptNin(first));
+  const [version, iv, tag, ciphertext] = first.split(":");
+  const tampered = [version, iv, tag, Buffer.from(Buffer.from(ciphertext, "base64").map((byte) => byte ^ 1)).toString("base64")].join(":");
+  assert.throws(() => service.decryptNin(tampered));
+});
+
+test("without a recovery key no ciphertext is stored", async () => {
+  const { service } = createService(null);
+  assert.equal(service.encryptNin(NIN), null);
+
+  const voter = await service.register(WALLET, NIN);
+  assert.equal(voter.ninCiphertext, null);
+  assert.throws(() => service.decryptNin("v1:a:b:c"), /NIN_ENCRYPTION_KEY/);
+});
+
+test("registration stores the hash, last digits and ciphertext, never the NIN", async () => {
+  const { store, service } = createService();
+  await service.register(WALLET, NIN, "Ikeja");
+
+  const stored = (await store.getVoter(WALLET.toLowerCase()))!;
+  assert.equal(stored.ninHash, service.hashNin(NIN));
+  assert.equal(stored.ninLastDigits, "8901");
+  assert.equal(service.decryptNin(stored.ninCiphertext!), NIN);
+  assert.ok(!JSON.stringify(stored).includes(NIN));
+  assert.equal(toPublicVoter(stored).ninMasked, maskNin("8901"));
+  assert.ok(!("ninHash" in toPublicVoter(stored)));
+});
+
+test("a wallet or NIN can only be registered once", async () => {
+  const { service } = createService();
+  await service.register(WALLET, NIN);
+
+  await assert.rejects(service.register(WALLET, "99999999999"), (error: unknown) => error instanceof IdentityError && error.status === 409);
+  await assert.rejects(
+    service.register("0x0000000000000000000000000000000000000002", NIN),
+    /already registered with another wallet/,
+  );
+});
+
+test("NIN checks lock the wallet out for a client after repeated misses", async () => {
+  const { service } = createService();
+  await service.register(WALLET, NIN);
+  const now = 1_767_225_600_000;
+
+  for (let i = 0; i < 3; i++) {
+    assert.equal(await service.verify(WALLET, "00000000000", "203.0.113.7", now), false);
+  }
+  await assert.rejects(
+    service.verify(WALLET, NIN, "203.0.113.7", now),
+    (error: unknown) => error instanceof IdentityError && error.status === 429,
+  );
+  // Someone else's guesses don't lock the owner out
+  assert.equal(await service.verify(WALLET, NIN, "198.51.100.1", now), true);
+  // The lockout expires
+  assert.equal(await service.verify(WALLET, NIN, "203.0.113.7", now + 60_001), true);
+});
@@ -0,0 +1,218 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "crypto";
+import { z } from "zod";
+import type { InsertVoter, PublicVoter, Voter } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+// NINs never reach storage in the clear. Lookups and duplicate checks use an HMAC keyed
+// with a server-held pepper, so a leaked table can't be reversed by hashing all 10^11
+// possible NINs. An AES-256-GCM copy is kept only when a recovery key is configured.
+
+export const NIN_PATTERN = /^\d{11}$/;
+
+export const ninSchema = z.string().regex(NIN_PATTERN, "NIN must be 11 digits");
+
+export const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Expected a wallet address");
+
+// Domain separation, so the same pepper can never produce a hash that is valid elsewhere
+const HASH_CONTEXT = "blockvote:nin:v1:";
+const CIPHERTEXT_VERSION = "v1";
+const VISIBLE_DIGITS = 4;
+
+export interface IdentitySecrets {
+  pepper: Buffer;
+  // 32-byte AES key; without it no recoverable copy is stored
+  encryptionKey: Buffer | null;
+}
+
+export interface IdentityOptions {
+  // Failed NIN checks allowed per wallet and client within the lockout window
+  maxFailedAttempts: number;
+  lockoutMs: number;
+}
+
+export class IdentityError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "IdentityError";
+  }
+}
+
+export function getIdentitySecrets(): IdentitySecrets {
+  let pepper: Buffer;
+  if (process.env.NIN_PEPPER) {
+    pepper = Buffer.from(process.env.NIN_PEPPER, "utf8");
+  } else if (process.env.DATABASE_URL) {
+    // Stored hashes would become unverifiable with a random pepper
+    throw new Error("NIN_PEPPER must be set when DATABASE_URL is configured");
+  } else {
+    log("NIN_PEPPER not set, using a random pepper for in-memory storage", "identity");
+    pepper = randomBytes(32);
+  }
+
+  let encryptionKey: Buffer | null = null;
+  if (process.env.NIN_ENCRYPTION_KEY) {
+    encryptionKey = Buffer.from(process.env.NIN_ENCRYPTION_KEY, "base64");
+    if (encryptionKey.length !== 32) {
+      throw new Error("NIN_ENCRYPTION_KEY must be 32 bytes, base64 encoded");
+    }
+  }
+
+  return { pepper, encryptionKey };
+}
+
+export function normalizeWalletAddress(walletAddress: string): string {
+  return walletAddress.toLowerCase();
+}
+
+export function ninLastDigits(nin: string): string {
+  return nin.slice(-VISIBLE_DIGITS);
+}
+
+export function maskNin(lastDigits: string): string {
+  return "•".repeat(11 - lastDigits.length) + lastDigits;
+}
+
+export function toPublicVoter(voter: Voter): PublicVoter {
+  return {
+    walletAddress: voter.walletAddress,
+    ninMasked: maskNin(voter.ninLastDigits),
+    constituency: voter.constituency,
+    verifiedAt: voter.verifiedAt?.toISOString() ?? null,
+    createdAt: voter.createdAt.toISOString(),
+  };
+}
+
+export class IdentityService {
+  private failedAttempts = new Map<string, { count: number; firstFailureAt: number }>();
+
+  constructor(
+    private readonly store: IStorage,
+    private readonly secrets: IdentitySecrets,
+    private readonly options: IdentityOptions = { maxFailedAttempts: 5, lockoutMs: 15 * 60 * 1000 },
+  ) {}
+
+  hashNin(nin: string): string {
+    return createHmac("sha256", this.secrets.pepper).update(HASH_CONTEXT + nin).digest("hex");
+  }
+
+  // iv, auth tag and ciphertext, base64 encoded and prefixed with a format version
+  encryptNin(nin: string): string | null {
+    if (!this.secrets.encryptionKey) return null;
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.secrets.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(nin, "utf8"), cipher.final()]);
+    return [CIPHERTEXT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+      .join(":");
+  }
+
+  // For authorized recovery only (scripts/recover-nin.ts); never exposed over HTTP
+  decryptNin(encrypted: string): string {
+    if (!this.secrets.encryptionKey) {
+      throw new Error("NIN_ENCRYPTION_KEY is required to recover a NIN");
+    }
+
+    const [version, iv, tag, ciphertext] = encrypted.split(":");
+    if (version !== CIPHERTEXT_VERSION || !iv || !tag || !ciphertext) {
+      throw new Error("Unrecognised NIN ciphertext format");
+    }
+
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.secrets.encryptionKey,
+      Buffer.from(iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  async getVoter(walletAddress: string): Promise<Voter | undefined> {
+    return this.store.getVoter(normalizeWalletAddress(walletAddress));
+  }
+
+  async register(walletAddress: string, nin: string, constituency: string | null = null): Promise<Voter> {
+    const address = normalizeWalletAddress(walletAddress);
+
+    if (await this.store.getVoter(address)) {
+      throw new IdentityError("This wallet address already has a registered NIN.", 409);
+    }
+
+    const ninHash = this.hashNin(nin);
+    if (await this.store.getVoterByNinHash(ninHash)) {
+      throw new IdentityError("This NIN is already registered with another wallet address.", 409);
+    }
+
+    return this.store.createVoter(this.toVoterRecord(address, nin, constituency));
+  }
+
+  // The registry row for a NIN, hashed and (with a key) encrypted. Doesn't check that the
+  // wallet or NIN is free; bulk imports do that themselves.
+  toVoterRecord(walletAddress: string, nin: string, constituency: string | null = null): InsertVoter {
+    return {
+      walletAddress: normalizeWalletAddress(walletAddress),
+      ninHash: this.hashNin(nin),
+      ninLastDigits: ninLastDigits(nin),
+      ninCiphertext: this.encryptNin(nin),
+      constituency,
+    };
+  }
+
+  // Match/no-match only. Repeated misses lock the wallet out for a while, which keeps
+  // the endpoint from being used to enumerate NINs. `client` identifies who is asking
+  // (the IP address): the lockout is per wallet and client, so someone guessing at a
+  // wallet can't lock its owner out too.
+  async verify(walletAddress: string, nin: string, client: string, now: number = Date.now()): Promise<boolean> {
+    const address = normalizeWalletAddress(walletAddress);
+    const key = `${address} ${client}`;
+
+    this.pruneFailedAttempts(now);
+    const attempts = this.failedAttempts.get(key);
+    if (attempts && attempts.count >= this.options.maxFailedAttempts) {
+      throw new IdentityError("Too many failed attempts. Please try again later.", 429);
+    }
+
+    const voter = await this.store.getVoter(address);
+    if (!voter) {
+      throw new IdentityError("No NIN registration found for this wallet address.", 404);
+    }
+
+    const expected = Buffer.from(voter.ninHash, "hex");
+    const actual = Buffer.from(this.hashNin(nin), "hex");
+    const match = expected.length === actual.length && timingSafeEqual(expected, actual);
+
+    if (match) {
+      this.failedAttempts.delete(key);
+      await this.store.markVoterVerified(address);
+    } else {
+      const current = this.failedAttempts.get(key);
+      this.failedAttempts.set(key, {
+        count: (current?.count ?? 0) + 1,
+        firstFailureAt: current?.firstFailureAt ?? now,
+      });
+    }
+    return match;
+  }
+
+  // Keyed by client as well, so expired entries are dropped rather than left to pile up
+  private pruneFailedAttempts(now: number): void {
+    this.failedAttempts.forEach((attempts, key) => {
+      if (now - attempts.firstFailureAt > this.options.lockoutMs) this.failedAttempts.delete(key);
+    });
+  }
+}
+
+export const identity = new IdentityService(storage, getIdentitySecrets());
@@ -1,9 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { indexer } from "./indexer";
+import { registrationScheduler } from "./scheduler";
+import { transactionTracker } from "./transactions";
 
 const app = express();
-app.use(express.json());
+// Liveness verification posts a few hundred recorded face frames
+app.use(express.json({ limit: "256kb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -66,5 +70,15 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    if (process.env.INDEXER_ENABLED !== "false") {
+      indexer.start();
+    }
+    if (process.env.SCHEDULER_ENABLED !== "false") {
+      registrationScheduler.start();
+    }
+    if (process.env.TX_TRACKER_ENABLED !== "false") {
+      transactionTracker.start();
+    }
   });
 })();
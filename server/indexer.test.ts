@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import VotingSystem from "../contracts/VotingSystem.json";
+import type { ChainReader } from "./chain";
+import { ContractIndexer } from "./indexer";
+import { MemStorage } from "./storage";
+
+const CONTRACT = "0x00000000000000000000000000000000000000c0";
+const VOTER = "0x00000000000000000000000000000000000000a1";
+const contractInterface = new ethers.Interface(VotingSystem.abi);
+
+// A chain of empty blocks plus VoteCast logs, which a test can reorg from any height
+class FakeChain {
+  head = 0;
+  private hashes = new Map<number, string>();
+  private votes: Array<{ blockNumber: number; electionId: number; tag: string }> = [];
+  private fork = 0;
+
+  mine(count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.head++;
+      this.hashes.set(this.head, ethers.id(`block ${this.head} fork ${this.fork}`));
+    }
+  }
+
+  vote(electionId: number, tag: string): void {
+    this.votes.push({ blockNumber: this.head, electionId, tag });
+  }
+
+  // Drop every block from `height` on, with their votes
+  reorgFrom(height: number): void {
+    this.fork++;
+    for (let block = height; block <= this.head; block++) this.hashes.delete(block);
+    this.votes = this.votes.filter((vote) => vote.blockNumber < height);
+    this.head = height - 1;
+  }
+
+  readonly provider = {
+    getBlockNumber: async () => this.head,
+    getBlock: async (blockNumber: number) =>
+      this.hashes.has(blockNumber)
+        ? { hash: this.hashes.get(blockNumber)!, timestamp: 1_767_225_600 + blockNumber * 2 }
+        : null,
+    getTransaction: async () => ({ from: VOTER }),
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+      this.votes
+        .filter((vote) => vote.blockNumber >= fromBlock && vote.blockNumber <= toBlock)
+        .map((vote, index) => {
+          const { topics, data } = contractInterface.encodeEventLog("VoteCast", [
+            vote.electionId,
+            0,
+            ethers.id(vote.tag),
+          ]);
+          return {
+            topics,
+            data,
+            blockNumber: vote.blockNumber,
+            blockHash: this.hashes.get(vote.blockNumber)!,
+            transactionHash: ethers.id(`tx ${vote.tag}`),
+            index,
+          };
+        }),
+  };
+}
+
+function createIndexer(chain: FakeChain, store: MemStorage) {
+  const reader = {
+    provider: chain.provider,
+    contract: { interface: contractInterface },
+    config: { contractAddress: CONTRACT },
+    getDeploymentBlock: async () => 1,
+  } as unknown as ChainReader;
+  return new ContractIndexer(reader, store, { confirmations: 2, batchSize: 100, pollIntervalMs: 1000 });
+}
+
+async function voterHashes(store: MemStorage): Promise<string[]> {
+  const { events } = await store.getContractEvents({ page: 1, pageSize: 100, eventName: "VoteCast" });
+  return events.map((event) => event.args.voterHash).sort();
+}
+
+test("stores events only once they are `confirmations` blocks deep", async () => {
+  const chain = new FakeChain();
+  const store = new MemStorage();
+  const indexer = createIndexer(chain, store);
+
+  chain.mine(5);
+  chain.vote(1, "early");
+  chain.mine(5);
+  chain.vote(1, "recent");
+  chain.mine(1);
+
+  assert.equal(await indexer.syncOnce(), true);
+  assert.deepEqual(await voterHashes(store), [ethers.id("early")]);
+  assert.equal((await store.getIndexerCheckpoint("voting-system"))?.blockNumber, 9);
+
+  chain.mine(2);
+  await indexer.syncOnce();
+  assert.deepEqual(await voterHashes(store), [ethers.id("early"), ethers.id("recent")].sort());
+});
+
+test("rewinds and re-scans when the checkpoint block is reorged out", async () => {
+  const chain = new FakeChain();
+  const store = new MemStorage();
+  const indexer = createIndexer(chain, store);
+
+  chain.mine(5);
+  chain.vote(1, "kept");
+  chain.mine(12);
+  chain.vote(1, "orphaned");
+  chain.mine(3);
+  await indexer.syncOnce();
+  assert.equal((await store.getIndexerCheckpoint("voting-system"))?.blockNumber, 18);
+  assert.equal((await voterHashes(store)).length, 2);
+
+  // Blocks 17 onwards are replaced; the orphaned vote lands in a later block instead
+  chain.reorgFrom(17);
+  chain.mine(2);
+  chain.vote(1, "replacement");
+  chain.mine(4);
+
+  await indexer.syncOnce();
+  assert.deepEqual(await voterHashes(store), [ethers.id("kept"), ethers.id("replacement")].sort());
+  const checkpoint = await store.getIndexerCheckpoint("voting-system");
+  assert.equal(checkpoint?.blockNumber, chain.head - 2);
+  assert.equal(checkpoint?.blockHash, (await chain.provider.getBlock(chain.head - 2))?.hash);
+});
@@ -0,0 +1,219 @@
+import { ethers } from "ethers";
+import type { ContractEventName, InsertContractEvent } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { chainReader, type ChainReader } from "./chain";
+import { log } from "./vite";
+
+export const INDEXED_EVENTS: ContractEventName[] = [
+  "ElectionCreated",
+  "VoteCast",
+  "AdminChanged",
+  "Upgraded",
+];
+
+const CHECKPOINT_NAME = "voting-system";
+
+export interface IndexerOptions {
+  // Blocks a log must be buried under before it is stored
+  confirmations: number;
+  // Largest eth_getLogs range requested at once (public RPCs reject wide ranges)
+  batchSize: number;
+  pollIntervalMs: number;
+}
+
+export interface IndexerStatus {
+  running: boolean;
+  lastIndexedBlock: number | null;
+  chainHead: number | null;
+  lastError: string | null;
+  lastSyncAt: Date | null;
+}
+
+export function getIndexerOptions(): IndexerOptions {
+  return {
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 5),
+    batchSize: Number(process.env.INDEXER_BATCH_SIZE ?? 2000),
+    pollIntervalMs: Number(process.env.INDEXER_POLL_INTERVAL ?? 15000),
+  };
+}
+
+// Backfills contract events from the deployment block and then follows the chain head,
+// staying `confirmations` blocks behind it. A checkpoint block hash that no longer matches
+// the canonical chain means a reorg happened, so the indexer rewinds and re-scans.
+export class ContractIndexer {
+  private timer: NodeJS.Timeout | null = null;
+  private listeners = new Set<(events: InsertContractEvent[]) => void>();
+  private syncing = false;
+  private status: IndexerStatus = {
+    running: false,
+    lastIndexedBlock: null,
+    chainHead: null,
+    lastError: null,
+    lastSyncAt: null,
+  };
+
+  constructor(
+    private reader: ChainReader,
+    private store: IStorage,
+    private options: IndexerOptions,
+  ) {}
+
+  getStatus(): IndexerStatus {
+    return { ...this.status };
+  }
+
+  // Called with every non-empty batch once it is stored
+  onIndexed(listener: (events: InsertContractEvent[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  start(): void {
+    if (this.status.running) return;
+    this.status.running = true;
+    this.reader.getDeploymentBlock().then((block) => log(`starting from block ${block}`, "indexer"));
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.status.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      let caughtUp = true;
+      try {
+        caughtUp = await this.syncOnce();
+        this.status.lastError = null;
+      } catch (error: any) {
+        this.status.lastError = error?.message || String(error);
+        log(`sync failed: ${this.status.lastError}`, "indexer");
+      }
+
+      if (this.status.running) {
+        // Keep backfilling without pausing until the head is reached
+        this.schedule(caughtUp ? this.options.pollIntervalMs : 0);
+      }
+    }, delayMs);
+  }
+
+  // Index one batch of blocks. Resolves to true once the indexer has caught up with the safe head.
+  async syncOnce(): Promise<boolean> {
+    if (this.syncing) return false;
+    this.syncing = true;
+
+    try {
+      const provider = this.reader.provider;
+      const head = await provider.getBlockNumber();
+      const safeHead = head - this.options.confirmations;
+      this.status.chainHead = head;
+
+      const cursor = await this.resolveCursor();
+      const fromBlock = cursor + 1;
+      if (fromBlock > safeHead) {
+        this.status.lastSyncAt = new Date();
+        return true;
+      }
+
+      const toBlock = Math.min(fromBlock + this.options.batchSize - 1, safeHead);
+      const events = await this.fetchEvents(fromBlock, toBlock);
+      await this.store.insertContractEvents(events);
+
+      const checkpointBlock = await provider.getBlock(toBlock);
+      if (!checkpointBlock?.hash) {
+        throw new Error(`Block ${toBlock} not available from provider`);
+      }
+      await this.store.setIndexerCheckpoint(CHECKPOINT_NAME, toBlock, checkpointBlock.hash);
+
+      if (events.length > 0) {
+        log(`indexed ${events.length} events in blocks ${fromBlock}-${toBlock}`, "indexer");
+        this.listeners.forEach((listener) => listener(events));
+      }
+      this.status.lastIndexedBlock = toBlock;
+      this.status.lastSyncAt = new Date();
+      return toBlock === safeHead;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  // Last block whose events are stored, rewinding first if the checkpoint was reorged out
+  private async resolveCursor(): Promise<number> {
+    const initial = (await this.reader.getDeploymentBlock()) - 1;
+    const checkpoint = await this.store.getIndexerCheckpoint(CHECKPOINT_NAME);
+    if (!checkpoint || checkpoint.blockNumber <= initial) return initial;
+
+    const block = await this.reader.provider.getBlock(checkpoint.blockNumber);
+    if (block?.hash === checkpoint.blockHash) {
+      this.status.lastIndexedBlock = checkpoint.blockNumber;
+      return checkpoint.blockNumber;
+    }
+
+    const rewindTo = Math.max(initial, checkpoint.blockNumber - this.options.confirmations);
+    log(`reorg detected at block ${checkpoint.blockNumber}, rewinding to ${rewindTo}`, "indexer");
+    await this.store.deleteContractEventsFromBlock(rewindTo + 1);
+
+    const rewindBlock = rewindTo >= 0 ? await this.reader.provider.getBlock(rewindTo) : null;
+    await this.store.setIndexerCheckpoint(CHECKPOINT_NAME, rewindTo, rewindBlock?.hash ?? "");
+    this.status.lastIndexedBlock = rewindTo;
+    return rewindTo;
+  }
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<InsertContractEvent[]> {
+    const contractInterface = this.reader.contract.interface;
+    const topics = INDEXED_EVENTS.map((name) => contractInterface.getEvent(name)!.topicHash);
+
+    // One getLogs call for all indexed events instead of one query per event type
+    const logs = await this.reader.provider.getLogs({
+      address: this.reader.config.contractAddress,
+      fromBlock,
+      toBlock,
+      topics: [topics],
+    });
+
+    const senders = new Map<string, string>();
+    const timestamps = new Map<number, Date>();
+    const events: InsertContractEvent[] = [];
+
+    for (const entry of logs) {
+      const parsed = contractInterface.parseLog({ topics: [...entry.topics], data: entry.data });
+      if (!parsed) continue;
+
+      if (!senders.has(entry.transactionHash)) {
+        const tx = await this.reader.provider.getTransaction(entry.transactionHash);
+        senders.set(entry.transactionHash, tx?.from ?? ethers.ZeroAddress);
+      }
+      if (!timestamps.has(entry.blockNumber)) {
+        const block = await this.reader.provider.getBlock(entry.blockNumber);
+        timestamps.set(entry.blockNumber, new Date(Number(block?.timestamp ?? 0) * 1000));
+      }
+
+      const args: Record<string, string> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name] = parsed.args[i].toString();
+      });
+
+      events.push({
+        eventName: parsed.name,
+        blockNumber: entry.blockNumber,
+        blockHash: entry.blockHash,
+        transactionHash: entry.transactionHash,
+        logIndex: entry.index,
+        from: senders.get(entry.transactionHash)!,
+        timestamp: timestamps.get(entry.blockNumber)!,
+        electionId: args.electionId !== undefined ? Number(args.electionId) : null,
+        args,
+      });
+    }
+
+    return events;
+  }
+}
+
+export const indexer = new ContractIndexer(chainReader, storage, getIndexerOptions());
@@ -0,0 +1,143 @@
+import type { InsertContractEvent } from "@shared/schema";
+import type { LiveUpdate } from "@shared/live";
+import { chainReader, type ChainReader } from "./chain";
+import { indexer, type ContractIndexer } from "./indexer";
+import { log } from "./vite";
+
+export interface LiveUpdateOptions {
+  pollIntervalMs: number;
+  // Largest eth_getLogs range requested at once, e.g. after the RPC endpoint was unreachable
+  maxBlockRange: number;
+}
+
+export function getLiveUpdateOptions(): LiveUpdateOptions {
+  return {
+    pollIntervalMs: Number(process.env.LIVE_POLL_INTERVAL ?? 4000),
+    maxBlockRange: Number(process.env.INDEXER_BATCH_SIZE ?? 2000),
+  };
+}
+
+const LIVE_EVENTS = ["VoteCast", "ElectionCreated"];
+
+// Follows the chain head for VoteCast and ElectionCreated and fans them out to subscribers
+// (the SSE connections). It only polls while someone is listening, and drops the chain
+// reader's cached reads for each election an event touches so the refetch it triggers sees
+// the new counts.
+export class LiveUpdateFeed {
+  private listeners = new Set<(update: LiveUpdate) => void>();
+  private timer: NodeJS.Timeout | null = null;
+  // Bumped on every start and stop; a poll that finishes after a stop belongs to an old run
+  // and must not reschedule, or a quick unsubscribe/subscribe would leave two loops running
+  private run = 0;
+  private stopIndexerListener: (() => void) | null = null;
+  private lastBlock: number | null = null;
+
+  constructor(
+    private reader: ChainReader,
+    private indexer: ContractIndexer,
+    private options: LiveUpdateOptions,
+  ) {}
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+
+  subscribe(listener: (update: LiveUpdate) => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  private start(): void {
+    this.lastBlock = null;
+    this.stopIndexerListener = this.indexer.onIndexed((events) => this.onIndexed(events));
+    this.schedule(0, ++this.run);
+  }
+
+  private stop(): void {
+    this.run++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.stopIndexerListener?.();
+    this.stopIndexerListener = null;
+  }
+
+  private schedule(delayMs: number, run: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll(run);
+      } catch (error: any) {
+        log(`poll failed: ${error?.message || error}`, "live");
+      }
+
+      if (run === this.run) {
+        this.schedule(this.options.pollIntervalMs, run);
+      }
+    }, delayMs);
+  }
+
+  private async poll(run: number): Promise<void> {
+    const head = await this.reader.provider.getBlockNumber();
+    if (this.lastBlock === null || head <= this.lastBlock) {
+      // Start from the current head; earlier history is what the initial fetch already saw
+      this.lastBlock = Math.max(this.lastBlock ?? head, head);
+      return;
+    }
+
+    const fromBlock = Math.max(this.lastBlock + 1, head - this.options.maxBlockRange + 1);
+    const contractInterface = this.reader.contract.interface;
+    const logs = await this.reader.provider.getLogs({
+      address: this.reader.config.contractAddress,
+      fromBlock,
+      toBlock: head,
+      topics: [LIVE_EVENTS.map((name) => contractInterface.getEvent(name)!.topicHash)],
+    });
+    // Stopped (and maybe restarted) while the request was in flight
+    if (run !== this.run) return;
+    this.lastBlock = head;
+
+    for (const entry of logs) {
+      const parsed = contractInterface.parseLog({ topics: [...entry.topics], data: entry.data });
+      if (!parsed) continue;
+      this.reader.invalidateElection(Number(parsed.args.electionId));
+
+      if (parsed.name === "VoteCast") {
+        this.publish({
+          type: "VoteCast",
+          electionId: Number(parsed.args.electionId),
+          candidateIndex: Number(parsed.args.candidateIndex),
+          transactionHash: entry.transactionHash,
+          blockNumber: entry.blockNumber,
+        });
+      } else if (parsed.name === "ElectionCreated") {
+        this.publish({
+          type: "ElectionCreated",
+          electionId: Number(parsed.args.electionId),
+          name: parsed.args.name as string,
+          transactionHash: entry.transactionHash,
+          blockNumber: entry.blockNumber,
+        });
+      }
+    }
+  }
+
+  private onIndexed(events: InsertContractEvent[]): void {
+    this.publish({
+      type: "EventsIndexed",
+      count: events.length,
+      toBlock: Math.max(...events.map((event) => event.blockNumber)),
+    });
+  }
+
+  private publish(update: LiveUpdate): void {
+    this.listeners.forEach((listener) => listener(update));
+  }
+}
+
+export const liveUpdates = new LiveUpdateFeed(chainReader, indexer, getLiveUpdateOptions());
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import type { FaceMetrics, LivenessChallenge } from "@shared/liveness";
+import { LivenessError, LivenessService, type LivenessOptions } from "./liveness";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OTHER_WALLET = "0x2222222222222222222222222222222222222222";
+
+const options: LivenessOptions = {
+  challengeCount: 3,
+  sessionTtlMs: 5 * 60 * 1000,
+  resultTtlMs: 30 * 60 * 1000,
+  clockSkewMs: 30 * 1000,
+  maxSessionsPerClient: 3,
+  maxSessions: 5,
+};
+
+const FIXTURES: Record<LivenessChallenge, string> = {
+  blink: "blink",
+  "turn-left": "turn-left",
+  "turn-right": "turn-right",
+  smile: "smile-width",
+};
+
+// The passing fixture of each challenge, moved to start at `startAt`
+function recordedFrames(challenge: LivenessChallenge, startAt: number): FaceMetrics[] {
+  const { frames } = JSON.parse(
+    readFileSync(new URL(`../shared/fixtures/liveness/${FIXTURES[challenge]}.json`, import.meta.url), "utf8"),
+  ) as { frames: FaceMetrics[] };
+  return frames.map((frame) => ({ ...frame, timestamp: startAt + (frame.timestamp - frames[0].timestamp) }));
+}
+
+const createService = () => new LivenessService(Buffer.from("test secret"), options);
+
+function assertLivenessError(fn: () => unknown, status: number) {
+  assert.throws(fn, (error: unknown) => error instanceof LivenessError && error.status === status);
+}
+
+test("recorded frames for the session's challenges earn a signed result", () => {
+  const service = createService();
+  const now = 1_767_225_600_000;
+  const session = service.createSession(WALLET, "203.0.113.1", now);
+
+  const frames = session.challenges.map((challenge) => recordedFrames(challenge, now + 1000));
+  const { evaluation, result } = service.verifySession(session.sessionId, WALLET, frames, now + 20_000);
+
+  assert.equal(evaluation.passed, true);
+  assert.ok(result);
+  assert.equal(result.attestation.subject, WALLET);
+  assert.equal(service.verifyResult(result, WALLET, now + 21_000), true);
+  assert.equal(service.verifyResult(result, OTHER_WALLET, now + 21_000), false);
+  assert.equal(service.verifyResult(result, WALLET, result.attestation.expiresAt), false);
+  assert.equal(service.verifyResult({ ...result, signature: result.signature.replace(/^./, "A") }, WALLET, now), false);
+});
+
+test("sessions are single use and bound to their wallet", () => {
+  const service = createService();
+  const now = 1_767_225_600_000;
+  const session = service.createSession(WALLET, "203.0.113.1", now);
+  const frames = session.challenges.map((challenge) => recordedFrames(challenge, now + 1000));
+
+  assertLivenessError(() => service.verifySession(session.sessionId, OTHER_WALLET, frames, now + 20_000), 400);
+  // The failed attempt used the session up
+  assertLivenessError(() => service.verifySession(session.sessionId, WALLET, frames, now + 20_000), 400);
+});
+
+test("frames from before the session are rejected", () => {
+  const service = createService();
+  const now = 1_767_225_600_000;
+  const session = service.createSession(WALLET, "203.0.113.1", now);
+  const frames = session.challenges.map((challenge) => recordedFrames(challenge, now - 10 * 60 * 1000));
+
+  assert.throws(
+    () => service.verifySession(session.sessionId, WALLET, frames, now + 20_000),
+    /outside the liveness session/,
+  );
+});
+
+test("each client may open only a few sessions per TTL", () => {
+  const service = createService();
+  const now = 1_767_225_600_000;
+  for (let i = 0; i < options.maxSessionsPerClient; i++) {
+    service.createSession(WALLET, "203.0.113.1", now);
+  }
+
+  assertLivenessError(() => service.createSession(WALLET, "203.0.113.1", now), 429);
+  // Other clients aren't affected, and the limit resets after the TTL
+  service.createSession(WALLET, "203.0.113.2", now);
+  service.createSession(WALLET, "203.0.113.1", now + options.sessionTtlMs);
+});
+
+test("open sessions are capped and expired ones swept", () => {
+  const service = createService();
+  const now = 1_767_225_600_000;
+  for (let i = 0; i < options.maxSessions; i++) {
+    service.createSession(WALLET, `203.0.113.${i}`, now);
+  }
+
+  assertLivenessError(() => service.createSession(WALLET, "198.51.100.1", now), 503);
+  service.createSession(WALLET, "198.51.100.1", now + options.sessionTtlMs);
+});
@@ -0,0 +1,199 @@
+import { createHmac, randomBytes, randomInt, randomUUID, timingSafeEqual } from "crypto";
+import { createRequire } from "module";
+import path from "path";
+import {
+  evaluateLiveness,
+  pickChallenges,
+  type FaceMetrics,
+  type LivenessAttestation,
+  type LivenessEvaluation,
+  type LivenessSessionInfo,
+  type SignedLivenessResult,
+} from "@shared/liveness";
+import { log } from "./vite";
+
+// Weights for the browser face model ship with the face-api package and are served
+// from our own origin, so the camera pipeline never talks to a third party
+export const FACE_MODEL_DIR = path.join(
+  path.dirname(createRequire(import.meta.url).resolve("@vladmandic/face-api/package.json")),
+  "model",
+);
+
+export interface LivenessOptions {
+  challengeCount: number;
+  sessionTtlMs: number;
+  resultTtlMs: number;
+  // Allowed difference between browser and server clocks on frame timestamps
+  clockSkewMs: number;
+  // Sessions one client (IP address) may open per session TTL
+  maxSessionsPerClient: number;
+  // Open sessions held at once; new ones are refused beyond this
+  maxSessions: number;
+}
+
+interface LivenessSession extends LivenessSessionInfo {
+  subject: string;
+  createdAt: number;
+}
+
+export interface LivenessVerification {
+  evaluation: LivenessEvaluation;
+  result: SignedLivenessResult | null;
+}
+
+export class LivenessError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "LivenessError";
+  }
+}
+
+export function getLivenessOptions(): LivenessOptions {
+  return {
+    challengeCount: Number(process.env.LIVENESS_CHALLENGES || 3),
+    sessionTtlMs: 5 * 60 * 1000,
+    resultTtlMs: Number(process.env.LIVENESS_RESULT_TTL || 30 * 60 * 1000),
+    clockSkewMs: 30 * 1000,
+    maxSessionsPerClient: 10,
+    maxSessions: 10000,
+  };
+}
+
+function getLivenessSecret(): Buffer {
+  if (process.env.LIVENESS_SECRET) {
+    return Buffer.from(process.env.LIVENESS_SECRET, "utf8");
+  }
+  log("LIVENESS_SECRET not set, liveness results will not survive a restart", "liveness");
+  return randomBytes(32);
+}
+
+// Fixed field order, so the signature doesn't depend on how the JSON was serialised
+function canonicalize(attestation: LivenessAttestation): string {
+  return JSON.stringify([
+    attestation.sessionId,
+    attestation.subject,
+    attestation.challenges,
+    attestation.issuedAt,
+    attestation.expiresAt,
+  ]);
+}
+
+// Hands out randomized challenge sessions, re-scores the frames the browser recorded
+// and signs the outcome. Opening a session needs no sign-in, so sessions are rate-limited
+// per client and their number is capped; expired ones are swept on every new session.
+export class LivenessService {
+  private sessions = new Map<string, LivenessSession>();
+  private clients = new Map<string, { count: number; windowStart: number }>();
+
+  constructor(
+    private readonly secret: Buffer,
+    readonly options: LivenessOptions,
+  ) {}
+
+  // `client` identifies who is asking (the IP address) for the rate limit
+  createSession(subject: string, client: string, now: number = Date.now()): LivenessSessionInfo {
+    this.prune(now);
+
+    const window = this.clients.get(client);
+    if (window && window.count >= this.options.maxSessionsPerClient) {
+      throw new LivenessError("Too many liveness sessions. Please try again later.", 429);
+    }
+    if (this.sessions.size >= this.options.maxSessions) {
+      throw new LivenessError("Too many liveness checks in progress. Please try again shortly.", 503);
+    }
+    this.clients.set(client, { count: (window?.count ?? 0) + 1, windowStart: window?.windowStart ?? now });
+
+    const session: LivenessSession = {
+      sessionId: randomUUID(),
+      subject: subject.toLowerCase(),
+      challenges: pickChallenges(this.options.challengeCount, (max) => randomInt(max)),
+      createdAt: now,
+      expiresAt: now + this.options.sessionTtlMs,
+    };
+    this.sessions.set(session.sessionId, session);
+
+    const { sessionId, challenges, expiresAt } = session;
+    return { sessionId, challenges, expiresAt };
+  }
+
+  // Sessions are single use: the frames are scored once, pass or fail
+  verifySession(
+    sessionId: string,
+    subject: string,
+    frames: FaceMetrics[][],
+    now: number = Date.now(),
+  ): LivenessVerification {
+    const session = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+
+    if (!session || session.expiresAt <= now) {
+      throw new LivenessError("Liveness session not found or expired");
+    }
+    if (session.subject !== subject.toLowerCase()) {
+      throw new LivenessError("Liveness session belongs to a different wallet");
+    }
+    if (frames.length !== session.challenges.length) {
+      throw new LivenessError(`Expected frames for ${session.challenges.length} challenges`);
+    }
+
+    // Frames must have been captured during this session, in order
+    const earliest = session.createdAt - this.options.clockSkewMs;
+    const latest = now + this.options.clockSkewMs;
+    for (const challengeFrames of frames) {
+      for (let i = 0; i < challengeFrames.length; i++) {
+        const { timestamp } = challengeFrames[i];
+        if (timestamp < earliest || timestamp > latest) {
+          throw new LivenessError("Frame timestamps fall outside the liveness session");
+        }
+        if (i > 0 && timestamp < challengeFrames[i - 1].timestamp) {
+          throw new LivenessError("Frames are out of order");
+        }
+      }
+    }
+
+    const evaluation = evaluateLiveness(session.challenges, frames);
+    if (!evaluation.passed) {
+      return { evaluation, result: null };
+    }
+
+    const attestation: LivenessAttestation = {
+      sessionId: session.sessionId,
+      subject: session.subject,
+      challenges: session.challenges,
+      issuedAt: now,
+      expiresAt: now + this.options.resultTtlMs,
+    };
+    return { evaluation, result: { attestation, signature: this.sign(attestation) } };
+  }
+
+  // True when the result was signed by this server, is unexpired and (optionally) belongs to `subject`
+  verifyResult(result: SignedLivenessResult, subject?: string, now: number = Date.now()): boolean {
+    const expected = Buffer.from(this.sign(result.attestation));
+    const actual = Buffer.from(result.signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return false;
+    }
+    if (subject && result.attestation.subject !== subject.toLowerCase()) {
+      return false;
+    }
+    return result.attestation.expiresAt > now;
+  }
+
+  private sign(attestation: LivenessAttestation): string {
+    return createHmac("sha256", this.secret).update(canonicalize(attestation)).digest("base64url");
+  }
+
+  private prune(now: number): void {
+    this.sessions.forEach((session, id) => {
+      if (session.expiresAt <= now) this.sessions.delete(id);
+    });
+    this.clients.forEach((window, client) => {
+      if (now - window.windowStart >= this.options.sessionTtlMs) this.clients.delete(client);
+    });
+  }
+}
+
+export const liveness = new LivenessService(getLivenessSecret(), getLivenessOptions());
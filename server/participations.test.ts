@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ChainReader, VoteCastRecord } from "./chain";
+import { ParticipationError, ParticipationService } from "./participations";
+import { MemStorage } from "./storage";
+
+const VOTER = "0x1111111111111111111111111111111111111111";
+const HASH = `0x${"ab".repeat(32)}`;
+
+async function createService(head: number) {
+  const store = new MemStorage();
+  await store.createVoter({ walletAddress: VOTER, ninHash: "hash", ninLastDigits: "1234" });
+
+  const vote: VoteCastRecord = { transactionHash: HASH, from: VOTER, electionId: 3, voterHash: "0x", blockNumber: 100 };
+  const reader = {
+    getVoteCast: async (hash: string) => (hash === HASH ? vote : null),
+    provider: { getBlockNumber: async () => head },
+  };
+  return { store, service: new ParticipationService(store, reader as unknown as Pick<ChainReader, "getVoteCast" | "provider">, 3) };
+}
+
+test("a vote is recorded once it has the configured confirmations", async () => {
+  const { store, service } = await createService(102);
+  const participation = await service.recordVote(HASH);
+
+  assert.equal(participation.transactionHash, HASH);
+  assert.ok(participation.votedAt);
+  assert.ok((await store.getParticipation(VOTER, 3))?.votedAt);
+});
+
+test("a vote without enough confirmations is refused and not recorded", async () => {
+  const { store, service } = await createService(101);
+  await assert.rejects(
+    service.recordVote(HASH),
+    (error: unknown) => error instanceof ParticipationError && error.status === 409,
+  );
+  assert.equal(await store.getParticipation(VOTER, 3), undefined);
+
+  // The tracker has already waited for them
+  await service.recordVote(HASH, { confirmations: 0 });
+  assert.ok((await store.getParticipation(VOTER, 3))?.votedAt);
+});
+
+test("transactions that aren't votes are refused", async () => {
+  const { service } = await createService(200);
+  await assert.rejects(
+    service.recordVote(`0x${"cd".repeat(32)}`),
+    (error: unknown) => error instanceof ParticipationError && error.status === 422,
+  );
+});
+
+test("a relayed vote is recorded for the voter it was relayed for, not the relayer that sent it", async () => {
+  const { store, service } = await createService(102);
+  const relayed = "0x2222222222222222222222222222222222222222";
+  await store.createVoter({ walletAddress: relayed, ninHash: "other", ninLastDigits: "5678" });
+
+  const participation = await service.recordVote(HASH, { voter: relayed });
+  assert.equal(participation.walletAddress, relayed);
+  assert.ok((await store.getParticipation(relayed, 3))?.votedAt);
+  assert.equal(await store.getParticipation(VOTER, 3), undefined);
+});
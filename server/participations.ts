@@ -0,0 +1,129 @@
+import type { Participation, PublicParticipation, Voter } from "@shared/schema";
+import { TRANSACTION_CONFIRMATIONS } from "@shared/transactions";
+import { chainReader, type ChainReader } from "./chain";
+import { normalizeWalletAddress } from "./identity";
+import { storage, type IStorage } from "./storage";
+
+// Voting state per (voter, election). Registration lives on the voter record; whether a
+// voter may vote and whether they did is tracked here for each election separately, so
+// overlapping elections never share a flag and nothing has to be reset between them.
+
+export class ParticipationError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ParticipationError";
+  }
+}
+
+export function toPublicParticipation(
+  walletAddress: string,
+  electionId: number,
+  voter: Voter | undefined,
+  participation: Participation | undefined,
+): PublicParticipation {
+  return {
+    walletAddress,
+    electionId,
+    registered: !!voter,
+    // Registered voters are eligible unless an admin said otherwise for this election
+    eligible: !!voter && (participation?.eligible ?? true),
+    votedAt: participation?.votedAt?.toISOString() ?? null,
+    transactionHash: participation?.transactionHash ?? null,
+  };
+}
+
+export interface RecordVoteOptions {
+  // Blocks the vote's receipt needs on top of it; the transaction tracker passes 0 for
+  // transactions it has already seen confirmed
+  confirmations?: number;
+  // The wallet a relayed ballot was cast for, since the transaction's sender is then the
+  // relayer. Only the transaction tracker passes it, for ballots the server sent itself.
+  voter?: string;
+}
+
+export class ParticipationService {
+  constructor(
+    private readonly store: IStorage,
+    private readonly reader: Pick<ChainReader, "getVoteCast" | "provider">,
+    // Same depth as the transaction tracker (TX_CONFIRMATIONS)
+    private readonly confirmations: number,
+  ) {}
+
+  async get(walletAddress: string, electionId: number): Promise<PublicParticipation> {
+    const address = normalizeWalletAddress(walletAddress);
+    const [voter, participation] = await Promise.all([
+      this.store.getVoter(address),
+      this.store.getParticipation(address, electionId),
+    ]);
+    return toPublicParticipation(address, electionId, voter, participation);
+  }
+
+  // Every registered voter's standing in one election
+  async list(electionId: number): Promise<PublicParticipation[]> {
+    const [voters, rows] = await Promise.all([
+      this.store.getVoters(),
+      this.store.getParticipations(electionId),
+    ]);
+    const byWallet = new Map(rows.map((row) => [row.walletAddress, row]));
+    return voters.map((voter) =>
+      toPublicParticipation(voter.walletAddress, electionId, voter, byWallet.get(voter.walletAddress)),
+    );
+  }
+
+  // Record a vote from its mined castVote transaction. The wallet and election come from
+  // the receipt, so a caller can only report votes that actually happened, and only once
+  // they are deep enough that a reorg is unlikely to undo them.
+  async recordVote(transactionHash: string, options: RecordVoteOptions = {}): Promise<PublicParticipation> {
+    const vote = await this.reader.getVoteCast(transactionHash);
+    if (!vote) {
+      throw new ParticipationError("Transaction is not a mined vote", 422);
+    }
+
+    const required = options.confirmations ?? this.confirmations;
+    const confirmations = (await this.reader.provider.getBlockNumber()) - vote.blockNumber + 1;
+    if (confirmations < required) {
+      throw new ParticipationError(
+        `The vote has ${Math.max(confirmations, 0)} of ${required} confirmations; report it again once it is confirmed.`,
+        409,
+      );
+    }
+
+    const walletAddress = options.voter ? normalizeWalletAddress(options.voter) : vote.from;
+    const voter = await this.store.getVoter(walletAddress);
+    if (!voter) {
+      throw new ParticipationError("No NIN registration found for this wallet address.", 404);
+    }
+
+    const participation = await this.store.recordVote(walletAddress, vote.electionId, transactionHash);
+    return toPublicParticipation(walletAddress, vote.electionId, voter, participation);
+  }
+
+  async setEligibility(
+    walletAddress: string,
+    electionId: number,
+    eligible: boolean,
+  ): Promise<PublicParticipation> {
+    const address = normalizeWalletAddress(walletAddress);
+    const voter = await this.store.getVoter(address);
+    if (!voter) {
+      throw new ParticipationError("No NIN registration found for this wallet address.", 404);
+    }
+
+    const existing = await this.store.getParticipation(address, electionId);
+    if (!eligible && existing?.votedAt) {
+      throw new ParticipationError("This voter has already voted in this election.", 409);
+    }
+
+    const participation = await this.store.setEligibility(address, electionId, eligible);
+    return toPublicParticipation(address, electionId, voter, participation);
+  }
+}
+
+export const participations = new ParticipationService(
+  storage,
+  chainReader,
+  Number(process.env.TX_CONFIRMATIONS ?? TRANSACTION_CONFIRMATIONS),
+);
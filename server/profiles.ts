@@ -0,0 +1,58 @@
+import type { DraftCandidate } from "@shared/drafts";
+import { hashCandidateProfile, type CandidateProfile } from "@shared/profiles";
+import { storage, type IStorage } from "./storage";
+
+// Candidate profiles, stored under the hash of their content. There is no update: an edited
+// profile is a new record with a new hash, and drafts point at whichever hash is current.
+
+export class CandidateProfileError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "CandidateProfileError";
+  }
+}
+
+export interface StoredCandidateProfile {
+  hash: string;
+  profile: CandidateProfile;
+}
+
+export class CandidateProfileService {
+  constructor(private readonly store: IStorage) {}
+
+  async put(profile: CandidateProfile, actor: string): Promise<StoredCandidateProfile> {
+    const hash = hashCandidateProfile(profile);
+    const record = await this.store.putCandidateProfile(hash, profile, actor);
+    return { hash, profile: record.profile };
+  }
+
+  async get(hash: string): Promise<CandidateProfile> {
+    const record = await this.store.getCandidateProfile(hash);
+    if (!record) {
+      throw new CandidateProfileError("Candidate profile not found.", 404);
+    }
+    return record.profile;
+  }
+
+  // Problems with the profiles a ballot points at: unknown hashes, or a profile written for
+  // a different candidate
+  async check(candidates: DraftCandidate[]): Promise<string[]> {
+    const problems: string[] = [];
+    for (const candidate of candidates) {
+      if (!candidate.profileHash) continue;
+
+      const record = await this.store.getCandidateProfile(candidate.profileHash);
+      if (!record) {
+        problems.push(`The profile for ${candidate.name} was not found`);
+      } else if (record.profile.name !== candidate.name || record.profile.party !== candidate.party) {
+        problems.push(`The profile for ${candidate.name} was written for a different name or party`);
+      }
+    }
+    return problems;
+  }
+}
+
+export const candidateProfiles = new CandidateProfileService(storage);
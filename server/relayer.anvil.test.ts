@@ -0,0 +1,271 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "child_process";
+import { randomBytes } from "crypto";
+import { createServer } from "net";
+import path from "path";
+import { ethers, isError } from "ethers";
+import ERC1967Proxy from "../contracts/ERC1967Proxy.json";
+import VotingSystem from "../contracts/VotingSystem.json";
+import VotingSystemV2 from "../contracts/VotingSystemV2.json";
+import { BALLOT_TYPES, ballotDomain, computeVoterHash, hashNinForBallot, type Ballot } from "@shared/ballots";
+import { resolveNetwork } from "@shared/networks";
+import { ChainReader, getImplementationAddress } from "./chain";
+import { IdentityService } from "./identity";
+import { ParticipationService } from "./participations";
+import { BallotRelayer } from "./relayer";
+import { MemStorage } from "./storage";
+import { TransactionTracker } from "./transactions";
+
+// End to end on a local Anvil node: deploys VotingSystem behind an ERC1967 proxy, upgrades
+// it to VotingSystemV2 through upgradeToAndCall and has a wallet with no funds vote through
+// the relayer. Anvil comes with the @foundry-rs/anvil dev dependency and is started on a
+// free port; set ANVIL_RPC_URL to use a node that is already running instead.
+
+// Anvil's first three default accounts: the contract admin, the relayer and a stranger
+const ADMIN_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const RELAYER_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const STRANGER_KEY = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+const NIN = "12345678901";
+const CLIENT = "127.0.0.1";
+
+let anvil: ChildProcess | null = null;
+let rpcUrl = process.env.ANVIL_RPC_URL ?? "";
+let provider: ethers.JsonRpcProvider;
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+before(async () => {
+  if (!rpcUrl) {
+    const port = await findFreePort();
+    anvil = spawn(path.resolve(import.meta.dirname, "../node_modules/.bin/anvil"), ["--port", String(port), "--silent"], {
+      stdio: "ignore",
+    });
+    rpcUrl = `http://127.0.0.1:${port}`;
+  }
+  provider = new ethers.JsonRpcProvider(rpcUrl, 31337, { staticNetwork: true, cacheTimeout: -1 });
+
+  // Wait for the node to answer
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await provider.getBlockNumber();
+      break;
+    } catch (error) {
+      if (attempt >= 50) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  }
+});
+
+after(() => {
+  provider?.destroy();
+  anvil?.kill();
+});
+
+// What the proxy answers to after the upgrade
+const upgradedAbi = new ethers.Interface([
+  ...VotingSystem.abi,
+  ...VotingSystemV2.abi.filter((entry) => entry.name && !VotingSystem.abi.some((known) => known.name === entry.name)),
+]);
+
+// Sends that revert surface the raw revert data, which is decoded here
+const revertsWith = (name: string) => (error: unknown) =>
+  isError(error, "CALL_EXCEPTION") && upgradedAbi.parseError(error.data ?? "0x")?.name === name;
+
+// VotingSystem behind an ERC1967 proxy, initialized with `admin` as admin and owner, the
+// way it runs on Amoy
+async function deployVotingSystem(admin: ethers.Wallet): Promise<ethers.Contract> {
+  const implementation = await new ethers.ContractFactory(VotingSystem.abi, VotingSystem.bytecode, admin).deploy();
+  await implementation.waitForDeployment();
+
+  const initialize = new ethers.Interface(VotingSystem.abi).encodeFunctionData("initialize", [admin.address]);
+  const proxy = await new ethers.ContractFactory(ERC1967Proxy.abi, ERC1967Proxy.bytecode, admin).deploy(
+    await implementation.getAddress(),
+    initialize,
+  );
+  await proxy.waitForDeployment();
+  return new ethers.Contract(await proxy.getAddress(), VotingSystem.abi, admin);
+}
+
+async function upgradeToV2(contract: ethers.Contract, admin: ethers.Wallet): Promise<ethers.Contract> {
+  const address = await contract.getAddress();
+  const implementation = await new ethers.ContractFactory(VotingSystemV2.abi, VotingSystemV2.bytecode, admin).deploy(
+    await getImplementationAddress(provider, address),
+  );
+  await implementation.waitForDeployment();
+  await (await contract.upgradeToAndCall(await implementation.getAddress(), "0x")).wait();
+  return new ethers.Contract(address, upgradedAbi, admin);
+}
+
+// Open an election a minute from now, then move the chain into it
+async function openElection(contract: ethers.Contract): Promise<number> {
+  const { timestamp } = (await provider.getBlock("latest"))!;
+  await (await contract.createElection("Relayed", timestamp + 60, timestamp + 3600, ["A", "B"], ["P1", "P2"])).wait();
+  await provider.send("evm_increaseTime", [120]);
+  await provider.send("evm_mine", []);
+  // The counter holds the id the next election will receive
+  return Number(await contract.currentElectionId()) - 1;
+}
+
+async function signBallot(voter: ethers.HDNodeWallet, contractAddress: string, ballot: Ballot): Promise<string> {
+  return voter.signTypedData(ballotDomain(31337, contractAddress), BALLOT_TYPES, ballot);
+}
+
+const chainNow = async () => (await provider.getBlock("latest"))!.timestamp;
+
+test("the upgrade keeps elections and votes, and only the owner can make it", async () => {
+  const admin = new ethers.Wallet(ADMIN_KEY, provider);
+  const contract = await deployVotingSystem(admin);
+  const electionId = await openElection(contract);
+  const earlyVote = computeVoterHash(electionId, hashNinForBallot("10987654321"));
+  await (await contract.castVote(electionId, 0, earlyVote)).wait();
+
+  const stranger = new ethers.Wallet(STRANGER_KEY, provider);
+  await assert.rejects(
+    upgradeToV2(contract.connect(stranger) as ethers.Contract, stranger),
+    revertsWith("OwnableUnauthorizedAccount"),
+  );
+
+  const upgraded = await upgradeToV2(contract, admin);
+  assert.equal(await upgraded.admin(), admin.address);
+  assert.equal(await upgraded.owner(), admin.address);
+  assert.equal(Number(await upgraded.currentElectionId()), electionId + 1);
+  assert.equal(await upgraded.hasVoted(electionId, earlyVote), true);
+  assert.equal(Number(await upgraded.getTotalVotes(electionId)), 1);
+
+  // From here V2 authorizes upgrades, through the same owner
+  await assert.rejects(
+    (upgraded.connect(stranger) as ethers.Contract).upgradeToAndCall(stranger.address, "0x"),
+    revertsWith("OwnableUnauthorizedAccount"),
+  );
+
+  // Voters can still vote from their own wallets
+  await (await upgraded.castVote(electionId, 1, computeVoterHash(electionId, hashNinForBallot(NIN)))).wait();
+  assert.equal(Number(await upgraded.getTotalVotes(electionId)), 2);
+});
+
+test("the contract checks the signature and deadline of a relayed ballot", async () => {
+  const admin = new ethers.Wallet(ADMIN_KEY, provider);
+  const contract = await upgradeToV2(await deployVotingSystem(admin), admin);
+  const contractAddress = await contract.getAddress();
+  const electionId = await openElection(contract);
+
+  const voter = ethers.Wallet.createRandom();
+  const ballot: Ballot = {
+    electionId,
+    candidateIndex: 1,
+    voterHash: computeVoterHash(electionId, hashNinForBallot(NIN)),
+    deadline: (await chainNow()) + 300,
+  };
+  const signature = await signBallot(voter, contractAddress, ballot);
+
+  // Not the signer, or not the ballot that was signed
+  const other = ethers.Wallet.createRandom();
+  await assert.rejects(contract.castVoteBySig(ballot, other.address, signature), revertsWith("InvalidBallotSignature"));
+  await assert.rejects(
+    contract.castVoteBySig({ ...ballot, candidateIndex: 0 }, voter.address, signature),
+    revertsWith("InvalidBallotSignature"),
+  );
+
+  const expired = { ...ballot, deadline: (await chainNow()) - 1 };
+  await assert.rejects(
+    contract.castVoteBySig(expired, voter.address, await signBallot(voter, contractAddress, expired)),
+    revertsWith("BallotExpired"),
+  );
+  assert.equal(Number(await contract.getTotalVotes(electionId)), 0);
+
+  const receipt: ethers.TransactionReceipt = await (await contract.castVoteBySig(ballot, voter.address, signature)).wait();
+  const relayed = receipt.logs.map((entry) => upgradedAbi.parseLog(entry)).find((event) => event?.name === "BallotRelayed");
+  assert.equal(relayed?.args.voter, voter.address);
+  assert.equal(relayed?.args.relayer, admin.address);
+  assert.equal(await contract.hasVoted(electionId, ballot.voterHash), true);
+});
+
+test("a wallet without funds votes through the relayer", async () => {
+  const admin = new ethers.Wallet(ADMIN_KEY, provider);
+  const contract = await deployVotingSystem(admin);
+  const contractAddress = await contract.getAddress();
+  const electionId = await openElection(contract);
+
+  const reader = new ChainReader({
+    network: resolveNetwork("local", { rpcUrl, contractAddress }),
+    rpcUrl,
+    contractAddress,
+    deploymentBlock: 0,
+  });
+  const store = new MemStorage();
+  const identity = new IdentityService(
+    store,
+    { pepper: randomBytes(32), encryptionKey: null },
+    { maxFailedAttempts: 3, lockoutMs: 60_000 },
+  );
+  const participations = new ParticipationService(store, reader, 0);
+  const tracker = new TransactionTracker(
+    store,
+    reader,
+    {
+      castVote: async (transaction) => {
+        await participations.recordVote(transaction.minedHash!, {
+          confirmations: 0,
+          voter: transaction.submittedBy ?? undefined,
+        });
+      },
+      createElection: async () => {},
+    },
+    { pollIntervalMs: 1000, confirmations: 2, dropAfterMs: 60_000, maxUnsettledPerSender: 5 },
+  );
+  const relayer = new BallotRelayer(
+    store,
+    reader,
+    identity,
+    participations,
+    tracker,
+    new ethers.Wallet(RELAYER_KEY, reader.provider),
+    { maxBallotsPerVoter: 1, dailyBudget: ethers.parseEther("1"), gasLimitBufferPercent: 30 },
+  );
+
+  // The relayer runs on the chain's clock, which the elections have moved ahead
+  const now = (await chainNow()) * 1000;
+  const voter = ethers.Wallet.createRandom();
+  await identity.register(voter.address, NIN);
+  const ballot: Ballot = {
+    electionId,
+    candidateIndex: 1,
+    voterHash: computeVoterHash(electionId, hashNinForBallot(NIN)),
+    deadline: now / 1000 + 300,
+  };
+  const signature = await signBallot(voter, contractAddress, ballot);
+
+  // Off until the proxy runs VotingSystemV2
+  assert.equal((await relayer.status(now)).enabled, false);
+  await upgradeToV2(contract, admin);
+  assert.equal((await relayer.status(now + 60_000)).enabled, true);
+
+  const tracked = await relayer.relay({ ballot, signature, nin: NIN }, CLIENT, now + 60_000);
+  await provider.send("anvil_mine", [2]);
+  // Past the reader's 250 ms request cache, so it sees the new blocks
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  await tracker.tick();
+
+  const settled = await store.getTrackedTransaction(tracked.hash);
+  assert.equal(settled?.status, "confirmed");
+  assert.ok(settled?.committedAt);
+  assert.equal(await contract.hasVoted(electionId, ballot.voterHash), true);
+  assert.equal(Number(await contract.getTotalVotes(electionId)), 1);
+  assert.ok((await store.getParticipation(voter.address.toLowerCase(), electionId))?.votedAt);
+  assert.equal(await provider.getBalance(voter.address), BigInt(0));
+
+  // The contract refuses the NIN a second time, so the relayer doesn't send it
+  await assert.rejects(relayer.relay({ ballot, signature, nin: NIN }, CLIENT, now + 60_000), /already voted/);
+
+  reader.provider.destroy();
+});
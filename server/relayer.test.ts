@@ -0,0 +1,248 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { ethers } from "ethers";
+import VotingSystem from "../contracts/VotingSystem.json";
+import VotingSystemV2 from "../contracts/VotingSystemV2.json";
+import { BALLOT_TYPES, ballotDomain, computeVoterHash, hashNinForBallot, type Ballot } from "@shared/ballots";
+import type { ChainReader } from "./chain";
+import { IdentityService } from "./identity";
+import { ParticipationService } from "./participations";
+import { BallotRelayer, RelayerError, type RelayerOptions, type RelayerSigner } from "./relayer";
+import { MemStorage } from "./storage";
+import { TransactionTracker } from "./transactions";
+
+const CHAIN_ID = 31337;
+const CONTRACT = "0x00000000000000000000000000000000000000c0";
+const RELAYER = "0x00000000000000000000000000000000000000f0";
+const NIN = "12345678901";
+const CLIENT = "127.0.0.1";
+const NOW = 1_767_225_600_000;
+const GWEI = BigInt(1_000_000_000);
+
+const domain = ballotDomain(CHAIN_ID, CONTRACT);
+const relayInterface = new ethers.Interface(VotingSystemV2.abi);
+
+// The relayer's wallet and chain, recording what it sends. `failures` are thrown by the
+// next sends, in order. `upgraded` is whether the contract runs VotingSystemV2.
+class FakeChain {
+  pendingNonce = 7;
+  sent: ethers.TransactionRequest[] = [];
+  voted = new Set<string>();
+  failures: Error[] = [];
+  upgraded = true;
+
+  readonly signer: RelayerSigner = {
+    address: RELAYER,
+    estimateGas: async () => BigInt(100_000),
+    sendTransaction: async (request) => {
+      const failure = this.failures.shift();
+      if (failure) throw failure;
+      this.sent.push(request);
+      return { hash: ethers.id(`tx ${this.sent.length}`), nonce: request.nonce } as ethers.TransactionResponse;
+    },
+  };
+
+  readonly reader = {
+    config: { network: { chainId: CHAIN_ID }, contractAddress: CONTRACT },
+    provider: {
+      getFeeData: async () => ({ maxFeePerGas: BigInt(50) * GWEI, maxPriorityFeePerGas: BigInt(2) * GWEI, gasPrice: null }),
+      getBlockNumber: async () => 500,
+      getTransactionCount: async () => this.pendingNonce,
+      call: async () => {
+        if (!this.upgraded) throw ethers.makeError("execution reverted", "CALL_EXCEPTION");
+        return relayInterface.encodeFunctionResult("DOMAIN_SEPARATOR", [ethers.TypedDataEncoder.hashDomain(domain)]);
+      },
+    },
+    contract: {
+      interface: new ethers.Interface(VotingSystem.abi),
+      hasVoted: async (_electionId: number, voterHash: string) => this.voted.has(voterHash),
+    },
+  } as unknown as Pick<ChainReader, "config" | "provider" | "contract">;
+}
+
+async function createRelayer(options: Partial<RelayerOptions> = {}) {
+  const chain = new FakeChain();
+  const store = new MemStorage();
+  const identity = new IdentityService(
+    store,
+    { pepper: randomBytes(32), encryptionKey: null },
+    { maxFailedAttempts: 3, lockoutMs: 60_000 },
+  );
+  const participations = new ParticipationService(store, {} as Pick<ChainReader, "getVoteCast" | "provider">, 2);
+  const tracker = new TransactionTracker(store, chain.reader, {} as never, {
+    pollIntervalMs: 1000,
+    confirmations: 2,
+    dropAfterMs: 60_000,
+    maxUnsettledPerSender: 1,
+  });
+  const relayer = new BallotRelayer(store, chain.reader, identity, participations, tracker, chain.signer, {
+    maxBallotsPerVoter: 2,
+    dailyBudget: ethers.parseEther("1"),
+    gasLimitBufferPercent: 30,
+    ...options,
+  });
+  return { chain, store, identity, relayer };
+}
+
+async function signBallot(wallet: ethers.HDNodeWallet, overrides: Partial<Ballot> = {}, signingDomain = domain) {
+  const ballot: Ballot = {
+    electionId: 1,
+    candidateIndex: 2,
+    voterHash: computeVoterHash(1, hashNinForBallot(NIN)),
+    deadline: Math.floor(NOW / 1000) + 300,
+    ...overrides,
+  };
+  return { ballot, signature: await wallet.signTypedData(signingDomain, BALLOT_TYPES, ballot) };
+}
+
+const rejectsWith = (status: number) => (error: unknown) => error instanceof RelayerError && error.status === status;
+
+test("a signed ballot is sent to castVoteBySig from the relayer and tracked for the voter", async () => {
+  const { chain, store, identity, relayer } = await createRelayer();
+  const voter = ethers.Wallet.createRandom();
+  await identity.register(voter.address, NIN);
+
+  const signed = await signBallot(voter);
+  const tracked = await relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW);
+
+  assert.equal(tracked.from, RELAYER);
+  assert.equal(tracked.submittedBy, voter.address.toLowerCase());
+  assert.equal(tracked.purpose, "castVote");
+  assert.equal(tracked.electionId, 1);
+  assert.equal(tracked.nonce, 7);
+
+  const [request] = chain.sent;
+  const [ballot, signer, signature] = relayInterface.decodeFunctionData("castVoteBySig", request.data!);
+  assert.deepEqual(ballot.toArray(), [BigInt(1), BigInt(2), signed.ballot.voterHash, BigInt(signed.ballot.deadline)]);
+  assert.equal(signer.toLowerCase(), voter.address.toLowerCase());
+  assert.equal(signature, signed.signature);
+  assert.equal(request.gasLimit, BigInt(130_000));
+  assert.equal(await store.countRelayedBallots(voter.address.toLowerCase(), 1), 1);
+});
+
+test("ballots are refused when expired, signed for another deployment, or not the voter's", async () => {
+  const { chain, identity, relayer } = await createRelayer();
+  const voter = ethers.Wallet.createRandom();
+  await identity.register(voter.address, NIN);
+
+  const expired = await signBallot(voter, { deadline: Math.floor(NOW / 1000) - 1 });
+  await assert.rejects(relayer.relay({ ...expired, nin: NIN }, CLIENT, NOW), rejectsWith(400));
+
+  const tooLong = await signBallot(voter, { deadline: Math.floor(NOW / 1000) + 3600 });
+  await assert.rejects(relayer.relay({ ...tooLong, nin: NIN }, CLIENT, NOW), rejectsWith(400));
+
+  // Recovers some other, unregistered address
+  const otherChain = await signBallot(voter, {}, ballotDomain(1, CONTRACT));
+  await assert.rejects(relayer.relay({ ...otherChain, nin: NIN }, CLIENT, NOW), rejectsWith(404));
+
+  const signed = await signBallot(voter);
+  await assert.rejects(relayer.relay({ ...signed, nin: "10987654321" }, CLIENT, NOW), rejectsWith(403));
+
+  const otherHash = await signBallot(voter, { voterHash: computeVoterHash(1, hashNinForBallot("10987654321")) });
+  await assert.rejects(relayer.relay({ ...otherHash, nin: NIN }, CLIENT, NOW), rejectsWith(422));
+
+  assert.equal(chain.sent.length, 0);
+});
+
+test("voters who can't vote are refused before anything is sent", async () => {
+  const { chain, store, identity, relayer } = await createRelayer();
+  const voter = ethers.Wallet.createRandom();
+  await identity.register(voter.address, NIN);
+  const signed = await signBallot(voter);
+
+  chain.voted.add(signed.ballot.voterHash);
+  await assert.rejects(relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW), rejectsWith(409));
+
+  await store.setEligibility(voter.address.toLowerCase(), 1, false);
+  await assert.rejects(relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW), rejectsWith(403));
+  assert.equal(chain.sent.length, 0);
+});
+
+test("each voter gets a limited number of relayed ballots per election", async () => {
+  const { chain, identity, relayer } = await createRelayer({ maxBallotsPerVoter: 1 });
+  const voter = ethers.Wallet.createRandom();
+  await identity.register(voter.address, NIN);
+  const signed = await signBallot(voter);
+
+  await relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW);
+  await assert.rejects(relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW), rejectsWith(429));
+  assert.equal(chain.sent.length, 1);
+});
+
+test("the daily gas budget is counted at each transaction's maximum cost", async () => {
+  // 130,000 gas at 50 gwei is 0.0065 per ballot
+  const { chain, identity, relayer } = await createRelayer({ dailyBudget: ethers.parseEther("0.01") });
+  const voters = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+  await identity.register(voters[0].address, NIN);
+  await identity.register(voters[1].address, "10987654321");
+
+  await relayer.relay({ ...(await signBallot(voters[0])), nin: NIN }, CLIENT, NOW);
+  assert.equal((await relayer.status(NOW)).remainingBudget, ethers.parseEther("0.0035").toString());
+
+  const second = await signBallot(voters[1], { voterHash: computeVoterHash(1, hashNinForBallot("10987654321")) });
+  await assert.rejects(relayer.relay({ ...second, nin: "10987654321" }, CLIENT, NOW), rejectsWith(503));
+
+  // A new UTC day starts a new budget
+  const tomorrow = NOW + 24 * 60 * 60 * 1000;
+  const resigned = await signBallot(voters[1], {
+    voterHash: computeVoterHash(1, hashNinForBallot("10987654321")),
+    deadline: Math.floor(tomorrow / 1000) + 300,
+  });
+  await relayer.relay({ ...resigned, nin: "10987654321" }, CLIENT, tomorrow);
+  assert.equal(chain.sent.length, 2);
+});
+
+test("nonces are handed out in order and re-read from the node after a clash", async () => {
+  const { chain, identity, relayer } = await createRelayer();
+  const nins = ["11111111111", "22222222222", "33333333333"];
+  const voters = nins.map(() => ethers.Wallet.createRandom());
+  for (let i = 0; i < voters.length; i++) await identity.register(voters[i].address, nins[i]);
+  const ballots = await Promise.all(
+    voters.map((voter, i) => signBallot(voter, { voterHash: computeVoterHash(1, hashNinForBallot(nins[i])) })),
+  );
+
+  // Sent concurrently, they still take consecutive nonces
+  await Promise.all(ballots.slice(0, 2).map((signed, i) => relayer.relay({ ...signed, nin: nins[i] }, CLIENT, NOW)));
+  assert.deepEqual(
+    chain.sent.map((request) => request.nonce),
+    [7, 8],
+  );
+
+  // Another instance used nonce 9 first
+  chain.pendingNonce = 10;
+  chain.failures.push(ethers.makeError("nonce has already been used", "NONCE_EXPIRED"));
+  const tracked = await relayer.relay({ ...ballots[2], nin: nins[2] }, CLIENT, NOW);
+  assert.equal(tracked.nonce, 10);
+});
+
+test("ballots aren't relayed until the contract is upgraded", async () => {
+  const { chain, identity, relayer } = await createRelayer();
+  const voter = ethers.Wallet.createRandom();
+  await identity.register(voter.address, NIN);
+  const signed = await signBallot(voter);
+
+  chain.upgraded = false;
+  assert.equal((await relayer.status(NOW)).enabled, false);
+  await assert.rejects(relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW), rejectsWith(503));
+
+  // Asked again once the check is a minute old
+  chain.upgraded = true;
+  assert.equal((await relayer.status(NOW + 1000)).enabled, false);
+  assert.equal((await relayer.status(NOW + 60_000)).enabled, true);
+  await relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW + 60_000);
+  assert.equal(chain.sent.length, 1);
+});
+
+test("without a relayer wallet gasless voting is off", async () => {
+  const { store } = await createRelayer();
+  const relayer = new BallotRelayer(store, new FakeChain().reader, {} as never, {} as never, {} as never, null, {
+    maxBallotsPerVoter: 1,
+    dailyBudget: BigInt(0),
+    gasLimitBufferPercent: 0,
+  });
+
+  assert.deepEqual(await relayer.status(), { enabled: false, relayer: null, remainingBudget: null });
+  const signed = await signBallot(ethers.Wallet.createRandom());
+  await assert.rejects(relayer.relay({ ...signed, nin: NIN }, CLIENT, NOW), rejectsWith(503));
+});
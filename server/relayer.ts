@@ -0,0 +1,280 @@
+import { ethers, isError } from "ethers";
+import VotingSystemV2 from "../contracts/VotingSystemV2.json";
+import type { TrackedTransaction } from "@shared/schema";
+import {
+  ballotDomain,
+  BALLOT_VALIDITY_SECONDS,
+  computeVoterHash,
+  hashNinForBallot,
+  recoverBallotSigner,
+  type Ballot,
+  type RelayerStatus,
+} from "@shared/ballots";
+import { chainReader, type ChainReader } from "./chain";
+import { identity, type IdentityService } from "./identity";
+import { participations, type ParticipationService } from "./participations";
+import { storage, type IStorage } from "./storage";
+import { transactionTracker, type TransactionTracker } from "./transactions";
+import { log } from "./vite";
+
+// Gasless voting (shared/ballots.ts). The relayer checks a signed ballot the way the vote
+// page checks a voter, then sends it to the contract's castVoteBySig from the server's
+// wallet, where the signature and deadline are checked again, and hands the transaction to
+// the tracker, which records the participation for the voter once it is confirmed. Each
+// voter gets a few relayed ballots per election and all of them share a daily gas budget,
+// so the wallet can't be drained by one voter or by a flood of them.
+
+export class RelayerError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "RelayerError";
+  }
+}
+
+export interface RelayerOptions {
+  // Ballots relayed per voter and election. More than one lets a voter try again after a
+  // relayed transaction was dropped.
+  maxBallotsPerVoter: number;
+  // Wei the relayer may commit per UTC day, counting each transaction at the most it can cost
+  dailyBudget: bigint;
+  // Headroom added to the gas estimate, in percent
+  gasLimitBufferPercent: number;
+}
+
+export function getRelayerOptions(): RelayerOptions {
+  return {
+    maxBallotsPerVoter: Number(process.env.RELAYER_MAX_BALLOTS_PER_VOTER ?? 2),
+    dailyBudget: ethers.parseEther(process.env.RELAYER_DAILY_BUDGET ?? "1"),
+    gasLimitBufferPercent: 30,
+  };
+}
+
+// What the relayer needs from its wallet; an ethers.Wallet connected to the chain's provider
+export type RelayerSigner = Pick<ethers.Signer, "estimateGas" | "sendTransaction"> & { readonly address: string };
+
+export interface RelayBallotRequest {
+  ballot: Ballot;
+  signature: string;
+  // Checked against the wallet's registration and the ballot's voter hash, never stored
+  nin: string;
+}
+
+// castVoteBySig and DOMAIN_SEPARATOR, added by the VotingSystemV2 upgrade
+const relayInterface = new ethers.Interface(VotingSystemV2.abi);
+
+// How long a contract found without castVoteBySig is taken at its word before asking again
+const UPGRADE_CHECK_INTERVAL_MS = 60 * 1000;
+
+function startOfUtcDay(now: number): Date {
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+export class BallotRelayer {
+  // The relayer wallet's next nonce, read from the node on first use and after a failed send
+  private nextNonce: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private upgraded = false;
+  private upgradeCheckedAt: number | null = null;
+
+  constructor(
+    private readonly store: IStorage,
+    private readonly reader: Pick<ChainReader, "config" | "provider" | "contract">,
+    private readonly identity: Pick<IdentityService, "verify">,
+    private readonly participations: Pick<ParticipationService, "get">,
+    private readonly tracker: Pick<TransactionTracker, "trackOwn">,
+    private readonly signer: RelayerSigner | null,
+    readonly options: RelayerOptions,
+  ) {}
+
+  async status(now: number = Date.now()): Promise<RelayerStatus> {
+    if (!this.signer || !(await this.acceptsRelayedBallots(now))) {
+      return { enabled: false, relayer: null, remainingBudget: null };
+    }
+
+    const spent = await this.store.getRelayedBallotCost(startOfUtcDay(now));
+    const remaining = this.options.dailyBudget > spent ? this.options.dailyBudget - spent : BigInt(0);
+    return { enabled: true, relayer: this.signer.address.toLowerCase(), remainingBudget: remaining.toString() };
+  }
+
+  // `client` identifies who submitted the ballot (the IP address), for the NIN lockout
+  async relay(request: RelayBallotRequest, client: string, now: number = Date.now()): Promise<TrackedTransaction> {
+    const signer = this.signer;
+    if (!signer) {
+      throw new RelayerError("Gasless voting isn't available on this server.", 503);
+    }
+    if (!(await this.acceptsRelayedBallots(now))) {
+      throw new RelayerError("The contract hasn't been upgraded to accept relayed ballots yet.", 503);
+    }
+
+    const { ballot } = request;
+    const nowSeconds = Math.floor(now / 1000);
+    if (ballot.deadline < nowSeconds) {
+      throw new RelayerError("The ballot has expired. Please sign it again.", 400);
+    }
+    if (ballot.deadline > nowSeconds + BALLOT_VALIDITY_SECONDS) {
+      throw new RelayerError("The ballot's deadline is too far ahead.", 400);
+    }
+
+    let voter: string;
+    try {
+      voter = recoverBallotSigner(
+        ballotDomain(this.reader.config.network.chainId, this.reader.config.contractAddress),
+        ballot,
+        request.signature,
+      );
+    } catch {
+      throw new RelayerError("The ballot signature is invalid.", 400);
+    }
+
+    const participation = await this.participations.get(voter, ballot.electionId);
+    if (!participation.registered) {
+      throw new RelayerError("No NIN registration found for this wallet address.", 404);
+    }
+    if (!participation.eligible) {
+      throw new RelayerError("This wallet isn't eligible to vote in this election.", 403);
+    }
+    if (participation.votedAt) {
+      throw new RelayerError("This wallet has already voted in this election.", 409);
+    }
+
+    // verify() locks the wallet out for this client after repeated misses
+    if (!(await this.identity.verify(voter, request.nin, client, now))) {
+      throw new RelayerError("The NIN doesn't match this wallet's registration.", 403);
+    }
+    const voterHash = computeVoterHash(ballot.electionId, hashNinForBallot(request.nin));
+    if (voterHash !== ballot.voterHash.toLowerCase()) {
+      throw new RelayerError("The ballot's voter hash doesn't belong to this NIN.", 422);
+    }
+
+    // One ballot at a time from here, so the quota, the budget and the nonce are each
+    // read and used by a single send
+    return this.exclusive(async () => {
+      if ((await this.store.countRelayedBallots(voter, ballot.electionId)) >= this.options.maxBallotsPerVoter) {
+        throw new RelayerError("This wallet has used all its gasless ballots for this election.", 429);
+      }
+      if (await this.reader.contract.hasVoted(ballot.electionId, voterHash)) {
+        throw new RelayerError("This NIN has already voted in this election.", 409);
+      }
+
+      const to = this.reader.config.contractAddress.toLowerCase();
+      const data = relayInterface.encodeFunctionData("castVoteBySig", [ballot, voter, request.signature]);
+
+      let estimate: bigint;
+      try {
+        estimate = await signer.estimateGas({ to, data });
+      } catch (error) {
+        if (!isError(error, "CALL_EXCEPTION")) throw error;
+        throw new RelayerError(`The contract would reject this vote: ${error.reason ?? "execution reverted"}`, 422);
+      }
+      const gasLimit = (estimate * BigInt(100 + this.options.gasLimitBufferPercent)) / BigInt(100);
+
+      const fees = await this.reader.provider.getFeeData();
+      const maxFeePerGas = fees.maxFeePerGas ?? fees.gasPrice;
+      if (maxFeePerGas === null) {
+        throw new RelayerError("The network didn't report gas prices. Please try again.", 503);
+      }
+      const maxCost = gasLimit * maxFeePerGas;
+      const spent = await this.store.getRelayedBallotCost(startOfUtcDay(now));
+      if (spent + maxCost > this.options.dailyBudget) {
+        throw new RelayerError("Gasless voting has used today's gas budget. Vote from your wallet or try again tomorrow.", 503);
+      }
+
+      const startBlock = await this.reader.provider.getBlockNumber();
+      const sent = await this.send(signer, {
+        to,
+        data,
+        gasLimit,
+        ...(fees.maxFeePerGas !== null
+          ? { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+          : { gasPrice: fees.gasPrice }),
+      });
+      log(`castVoteBySig ${sent.hash} relayed for ${voter}`, "relayer");
+
+      await this.store.recordRelayedBallot({
+        voterAddress: voter,
+        electionId: ballot.electionId,
+        transactionHash: sent.hash,
+        maxCost: maxCost.toString(),
+        relayedAt: new Date(now),
+      });
+      return this.tracker.trackOwn(
+        {
+          hash: sent.hash,
+          from: signer.address,
+          nonce: sent.nonce,
+          to,
+          data,
+          value: "0",
+          startBlock,
+          purpose: "castVote",
+          electionId: ballot.electionId,
+          draftId: null,
+        },
+        voter,
+      );
+    });
+  }
+
+  // Whether the contract has castVoteBySig and signs ballots over the domain the voters use.
+  // Once it has, that is remembered; until then the contract is asked again every minute.
+  private async acceptsRelayedBallots(now: number): Promise<boolean> {
+    if (this.upgraded) return true;
+    if (this.upgradeCheckedAt !== null && now - this.upgradeCheckedAt < UPGRADE_CHECK_INTERVAL_MS) return false;
+
+    const { network, contractAddress } = this.reader.config;
+    const expected = ethers.TypedDataEncoder.hashDomain(ballotDomain(network.chainId, contractAddress));
+    try {
+      const result = await this.reader.provider.call({
+        to: contractAddress,
+        data: relayInterface.encodeFunctionData("DOMAIN_SEPARATOR"),
+      });
+      this.upgraded = relayInterface.decodeFunctionResult("DOMAIN_SEPARATOR", result)[0] === expected;
+    } catch (error) {
+      // The implementation before the upgrade has no DOMAIN_SEPARATOR and reverts
+      if (!isError(error, "CALL_EXCEPTION") && !isError(error, "BAD_DATA")) throw error;
+    }
+    this.upgradeCheckedAt = now;
+    return this.upgraded;
+  }
+
+  // Send with the next nonce. A nonce another process used first (a second server instance)
+  // is re-read from the node and the send retried once.
+  private async send(signer: RelayerSigner, request: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    for (let attempt = 0; ; attempt++) {
+      this.nextNonce ??= await this.reader.provider.getTransactionCount(signer.address, "pending");
+      try {
+        const sent = await signer.sendTransaction({ ...request, nonce: this.nextNonce });
+        this.nextNonce++;
+        return sent;
+      } catch (error) {
+        this.nextNonce = null;
+        if (isError(error, "INSUFFICIENT_FUNDS")) {
+          throw new RelayerError("The relayer wallet is out of funds. Vote from your wallet instead.", 503);
+        }
+        if (attempt === 0 && (isError(error, "NONCE_EXPIRED") || isError(error, "REPLACEMENT_UNDERPRICED"))) continue;
+        throw error;
+      }
+    }
+  }
+
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work, work);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const relayer = new BallotRelayer(
+  storage,
+  chainReader,
+  identity,
+  participations,
+  transactionTracker,
+  process.env.RELAYER_PRIVATE_KEY ? new ethers.Wallet(process.env.RELAYER_PRIVATE_KEY, chainReader.provider) : null,
+  getRelayerOptions(),
+);
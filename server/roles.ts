@@ -0,0 +1,167 @@
+import { randomBytes } from "crypto";
+import type { Request } from "express";
+import { ethers } from "ethers";
+import { ROLE_LABELS, type AdminRole } from "@shared/permissions";
+import type { AdminRoleGrant } from "@shared/schema";
+import { chainReader, type AdminChangeRecord } from "./chain";
+import { storage } from "./storage";
+
+// Granting and revoking admin roles. Every change is confirmed by the acting superadmin
+// signing a server-issued message that names the change, so a hijacked session cookie
+// alone can't hand out access.
+
+export type RoleChange =
+  | { action: "grant"; walletAddress: string; role: AdminRole }
+  | { action: "revoke"; walletAddress: string };
+
+export type RoleChangeResult =
+  | { action: "grant"; grant: AdminRoleGrant }
+  | { action: "revoke"; walletAddress: string };
+
+export class RoleChangeError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "RoleChangeError";
+  }
+}
+
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+export function buildRoleChangeMessage(
+  change: RoleChange,
+  actor: string,
+  nonce: string,
+  issuedAt: Date,
+): string {
+  const summary =
+    change.action === "grant"
+      ? `Grant the ${ROLE_LABELS[change.role]} role to ${change.walletAddress}`
+      : `Revoke all admin roles from ${change.walletAddress}`;
+
+  return [
+    "Confirm a BlockVote admin role change.",
+    "",
+    summary,
+    "",
+    `Signed by: ${actor}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+  ].join("\n");
+}
+
+async function validateRoleChange(change: RoleChange, actor: string): Promise<void> {
+  if (change.walletAddress === actor) {
+    throw new RoleChangeError("You cannot change your own role.", 409);
+  }
+  if (change.walletAddress === (await chainReader.getAdmin())) {
+    throw new RoleChangeError(
+      "The contract admin is always a superadmin. Use the admin handover to replace it.",
+      409,
+    );
+  }
+  if (change.action === "revoke" && !(await storage.getAdminRole(change.walletAddress))) {
+    throw new RoleChangeError("This wallet has no admin role.", 404);
+  }
+}
+
+// Validate the change and hand out the message the acting admin has to sign
+export async function requestRoleChange(req: Request, change: RoleChange): Promise<string> {
+  const actor = req.session.adminAddress!;
+  const normalized = { ...change, walletAddress: change.walletAddress.toLowerCase() };
+  await validateRoleChange(normalized, actor);
+
+  const message = buildRoleChangeMessage(
+    normalized,
+    actor,
+    randomBytes(16).toString("hex"),
+    new Date(),
+  );
+  req.session.pendingRoleChange = {
+    change: normalized,
+    message,
+    expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+  };
+  return message;
+}
+
+// Apply the pending change once its message is signed by the admin who requested it
+export async function confirmRoleChange(req: Request, signature: string): Promise<RoleChangeResult> {
+  const pending = req.session.pendingRoleChange;
+  delete req.session.pendingRoleChange;
+  if (!pending || pending.expiresAt < Date.now()) {
+    throw new RoleChangeError("No pending role change, or it has expired.", 409);
+  }
+
+  const actor = req.session.adminAddress!;
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(pending.message, signature).toLowerCase();
+  } catch {
+    throw new RoleChangeError("Invalid signature.", 401);
+  }
+  if (signer !== actor) {
+    throw new RoleChangeError("The confirmation must be signed by the signed-in admin wallet.", 401);
+  }
+
+  // State may have moved on while the wallet prompt was open
+  const { change } = pending;
+  await validateRoleChange(change, actor);
+
+  if (change.action === "grant") {
+    const grant = await storage.grantAdminRole({
+      walletAddress: change.walletAddress,
+      role: change.role,
+      grantedBy: actor,
+    });
+    return { action: "grant", grant };
+  }
+
+  await storage.revokeAdminRole(change.walletAddress);
+  return { action: "revoke", walletAddress: change.walletAddress };
+}
+
+// Handover reports per client (the IP address) and window. The route is open to anyone and
+// every report costs RPC calls, so one client can't keep the node busy through it.
+const HANDOVER_WINDOW_MS = 60 * 1000;
+const MAX_HANDOVERS_PER_CLIENT = 5;
+const handoverClients = new Map<string, { count: number; windowStart: number }>();
+
+function limitHandoverReports(client: string, now: number): void {
+  handoverClients.forEach((window, key) => {
+    if (now - window.windowStart >= HANDOVER_WINDOW_MS) handoverClients.delete(key);
+  });
+  const window = handoverClients.get(client);
+  if (window && window.count >= MAX_HANDOVERS_PER_CLIENT) {
+    throw new RoleChangeError("Too many handover reports. Please try again later.", 429);
+  }
+  handoverClients.set(client, { count: (window?.count ?? 0) + 1, windowStart: window?.windowStart ?? now });
+}
+
+// Bring the role table in line with a mined changeAdmin. The new admin is a superadmin by
+// virtue of the contract, so a separate grant would only outlive a later handover; the
+// previous admin hands over everything. Safe to call more than once for the same handover.
+export async function syncAdminHandover(
+  transactionHash: string,
+  client: string,
+  now: number = Date.now(),
+): Promise<AdminChangeRecord | null> {
+  limitHandoverReports(client, now);
+
+  const change = await chainReader.getAdminChange(transactionHash);
+  if (!change) return null;
+  // Checked against the contract rather than the cache, so a replayed older handover is
+  // refused without touching anything
+  if ((await chainReader.readAdmin()) !== change.newAdmin) {
+    throw new RoleChangeError("The contract admin has changed again since this handover.", 409);
+  }
+  // Drop the cached admin() only while it still names the previous admin, so the handover
+  // takes effect for sessions right away
+  if ((await chainReader.getAdmin()) !== change.newAdmin) chainReader.invalidateAdmin();
+
+  await storage.revokeAdminRole(change.newAdmin);
+  await storage.revokeAdminRole(change.previousAdmin);
+  return change;
+}
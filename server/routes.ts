@@ -1,14 +1,954 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { chainReader } from "./chain";
+import { indexer, INDEXED_EVENTS } from "./indexer";
+import { liveness, LivenessError, FACE_MODEL_DIR } from "./liveness";
+import { addressSchema, identity, IdentityError, ninSchema, toPublicVoter } from "./identity";
+import { setupSessions, requireAdmin, requirePermission, createLoginNonce, completeLogin } from "./auth";
+import { participations, ParticipationError } from "./participations";
+import { requestRoleChange, confirmRoleChange, syncAdminHandover, RoleChangeError } from "./roles";
+import { tally, tallyReportToCsv, TallyError } from "./tally";
+import { liveUpdates } from "./live";
+import { electionDrafts, ElectionDraftError } from "./drafts";
+import { candidateProfiles, CandidateProfileError } from "./profiles";
+import { voterImport, VoterImportError } from "./voter-import";
+import { CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE } from "./spreadsheet";
+import { transactionTracker, TransactionError } from "./transactions";
+import { relayer, RelayerError } from "./relayer";
+import { explorerSearch } from "./search";
+import { electionHistory } from "./election-history";
+import { isCronAuthorized, runBackgroundJobs } from "./cron";
+import { LIVENESS_CHALLENGES } from "@shared/liveness";
+import { ADMIN_ROLES } from "@shared/permissions";
+import type { SignedTallyReport } from "@shared/tally";
+import { LIVE_RETRY_MS } from "@shared/live";
+import { candidateProfileSchema, contentHashSchema } from "@shared/profiles";
+import { toCsv } from "@shared/csv";
+import { MAX_DRAFT_CANDIDATES } from "@shared/drafts";
+import { TRACKED_TRANSACTION_PURPOSES } from "@shared/transactions";
+import { MAX_SEARCH_QUERY_LENGTH } from "@shared/search";
+
+const electionIdSchema = z.coerce.number().int().positive();
+
+const eventQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().positive().max(100).default(20),
+  event: z.enum(INDEXED_EVENTS as [string, ...string[]]).optional(),
+  electionId: z.coerce.number().int().positive().optional(),
+});
+
+const voterRegistrationSchema = z.object({
+  walletAddress: addressSchema,
+  nin: ninSchema,
+});
+
+const voterImportQuerySchema = z.object({
+  dryRun: z.enum(["true", "false"]).default("false"),
+});
+
+const roleChangeSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("grant"), walletAddress: addressSchema, role: z.enum(ADMIN_ROLES) }),
+  z.object({ action: z.literal("revoke"), walletAddress: addressSchema }),
+]);
+
+const transactionHashSchema = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected a transaction hash");
+
+const trackTransactionSchema = z.object({
+  hash: transactionHashSchema,
+  from: addressSchema,
+  nonce: z.number().int().nonnegative(),
+  to: addressSchema,
+  data: z.string().regex(/^0x[0-9a-fA-F]*$/, "Expected hex calldata").max(200000),
+  value: z.string().regex(/^\d+$/, "Expected an amount in wei"),
+  startBlock: z.number().int().nonnegative(),
+  purpose: z.enum(TRACKED_TRANSACTION_PURPOSES),
+  electionId: z.number().int().positive().nullish(),
+  draftId: z.number().int().positive().nullish(),
+});
+
+const relayBallotSchema = z.object({
+  ballot: z.object({
+    electionId: z.number().int().positive(),
+    candidateIndex: z.number().int().nonnegative(),
+    voterHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected a voter hash"),
+    deadline: z.number().int().positive(),
+  }),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, "Expected a signature"),
+  nin: ninSchema,
+});
+
+const tallyQuerySchema = z.object({
+  format: z.enum(["json", "csv"]).default("json"),
+  fromBlock: z.coerce.number().int().nonnegative().optional(),
+  toBlock: z.coerce.number().int().nonnegative().optional(),
+});
+
+// Only the fields the signature covers matter; the report itself is re-canonicalised
+const signedTallyReportSchema = z.object({
+  report: z.object({ electionId: z.number() }).passthrough(),
+  signature: z.string(),
+});
+
+const draftIdSchema = z.coerce.number().int().positive();
+
+// Shape only; whether a draft is complete is checked on submit (shared/drafts.ts)
+const electionDraftSchema = z.object({
+  name: z.string().max(200),
+  description: z.string().max(10000).default(""),
+  startTime: z.string().datetime().nullable(),
+  endTime: z.string().datetime().nullable(),
+  candidates: z
+    .array(z.object({ name: z.string().max(200), party: z.string().max(200), profileHash: contentHashSchema.nullish() }))
+    .max(MAX_DRAFT_CANDIDATES),
+});
+
+const draftReviewSchema = z.object({
+  approve: z.boolean(),
+  note: z.string().max(2000).optional(),
+});
+
+const faceMetricsSchema = z.object({
+  timestamp: z.number().finite(),
+  faces: z.number().int().min(0),
+  eyeAspectRatio: z.number().finite(),
+  yaw: z.number().finite(),
+  mouthWidth: z.number().finite(),
+  happiness: z.number().min(0).max(1).nullable(),
+});
+
+const livenessVerifySchema = z.object({
+  subject: addressSchema,
+  // Frames recorded per challenge, capped well above what a 10s challenge produces
+  frames: z.array(z.array(faceMetricsSchema).max(300)).max(LIVENESS_CHALLENGES.length),
+});
+
+const livenessResultSchema = z.object({
+  subject: addressSchema.optional(),
+  result: z.object({
+    attestation: z.object({
+      sessionId: z.string(),
+      subject: z.string(),
+      challenges: z.array(z.enum(LIVENESS_CHALLENGES)),
+      issuedAt: z.number(),
+      expiresAt: z.number(),
+    }),
+    signature: z.string(),
+  }),
+});
+
+// Answer the services' own errors with their status; anything else goes to the error handler
+function handleServiceError(error: unknown, res: Response, next: NextFunction) {
+  if (
+    error instanceof IdentityError ||
+    error instanceof RoleChangeError ||
+    error instanceof ParticipationError ||
+    error instanceof TallyError ||
+    error instanceof ElectionDraftError ||
+    error instanceof CandidateProfileError ||
+    error instanceof VoterImportError ||
+    error instanceof TransactionError ||
+    error instanceof RelayerError
+  ) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  next(error);
+}
+
+// Parse the :id route param, answering 400 for anything that isn't a positive integer
+function parseElectionId(req: Request, res: Response): number | null {
+  const parsed = electionIdSchema.safeParse(req.params.id);
+  if (!parsed.success) {
+    res.status(400).json({ message: fromZodError(parsed.error).message });
+    return null;
+  }
+  return parsed.data;
+}
+
+function parseDraftId(req: Request, res: Response): number | null {
+  const parsed = draftIdSchema.safeParse(req.params.id);
+  if (!parsed.success) {
+    res.status(400).json({ message: fromZodError(parsed.error).message });
+    return null;
+  }
+  return parsed.data;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Admin sessions (httpOnly cookie) guard every privileged write below
+  setupSessions(app);
+
   // put application routes here
   // prefix all routes with /api
 
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  // Network the server reads from, so clients can confirm they target the same deployment
+  app.get("/api/network", async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ ...chainReader.config.network, deploymentBlock: await chainReader.getDeploymentBlock() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Every election with its vote total, oldest first; what the client's election list loads
+  app.get("/api/elections", async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const elections = [];
+      for (const election of await chainReader.getElections()) {
+        elections.push({ ...election, totalVotes: await chainReader.getTotalVotes(election.id) });
+      }
+      res.json(elections);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/elections/:id", async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    try {
+      const election = await chainReader.getElectionInfo(electionId);
+      if (!election) {
+        return res.status(404).json({ message: `Election ${electionId} not found` });
+      }
+      res.json(election);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/elections/:id/candidates", async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    try {
+      const election = await chainReader.getElectionInfo(electionId);
+      if (!election) {
+        return res.status(404).json({ message: `Election ${electionId} not found` });
+      }
+      res.json(await chainReader.getAllCandidates(electionId));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/elections/:id/results", async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    try {
+      const election = await chainReader.getElectionInfo(electionId);
+      if (!election) {
+        return res.status(404).json({ message: `Election ${electionId} not found` });
+      }
+
+      const candidates = await chainReader.getAllCandidates(electionId);
+      const totalVotes = await chainReader.getTotalVotes(electionId);
+
+      res.json({
+        ...election,
+        electionId,
+        totalVotes,
+        candidates: candidates.map((candidate) => ({
+          ...candidate,
+          percentage: totalVotes > 0 ? Math.round((candidate.votes / totalVotes) * 100) : 0,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Everything the election detail page shows: results, timeline, turnout and creation tx
+  app.get("/api/elections/:id/history", async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    try {
+      const history = await electionHistory.get(electionId);
+      if (!history) {
+        return res.status(404).json({ message: `Election ${electionId} not found` });
+      }
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Recount from VoteCast logs, reconciled with the contract counters and participation records
+  app.get("/api/elections/:id/tally", requirePermission("audit:export"), async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    const parsed = tallyQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const { format, fromBlock, toBlock } = parsed.data;
+      const signed = await tally.reconcile(electionId, { fromBlock, toBlock });
+      if (format === "csv") {
+        return res
+          .type("text/csv")
+          .attachment(`tally-election-${electionId}-${signed.report.toBlock}.csv`)
+          .send(tallyReportToCsv(signed));
+      }
+      res.json(signed);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Lets auditors check that a tally report came from this server unchanged
+  app.post("/api/tally/reports/verify", (req: Request, res: Response) => {
+    const parsed = signedTallyReportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    res.json({ valid: tally.verify(parsed.data as unknown as SignedTallyReport) });
+  });
+
+  // Off-chain election metadata pinned when its draft was published
+  app.get("/api/elections/:id/metadata", async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    try {
+      res.json(await electionDrafts.getPinnedMetadata(electionId));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Candidate profiles. A hash always names the same content, so responses can be cached forever.
+  app.post("/api/candidate-profiles", requirePermission("elections:create"), async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = candidateProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.status(201).json(await candidateProfiles.put(parsed.data, req.session.adminAddress!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/candidate-profiles/:hash", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = contentHashSchema.safeParse(req.params.hash);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const profile = await candidateProfiles.get(parsed.data);
+      res.set("Cache-Control", "public, max-age=31536000, immutable");
+      res.json(profile);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Election drafts. Any admin can read them; preparing and publishing needs elections:create,
+  // approving needs elections:approve.
+  app.get("/api/election-drafts", requireAdmin, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await electionDrafts.list());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/election-drafts/:id", requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    const id = parseDraftId(req, res);
+    if (id === null) return;
+
+    try {
+      res.json(await electionDrafts.get(id));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  app.post("/api/election-drafts", requirePermission("elections:create"), async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = electionDraftSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.status(201).json(await electionDrafts.create(parsed.data, req.session.adminAddress!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/election-drafts/:id", requirePermission("elections:create"), async (req: Request, res: Response, next: NextFunction) => {
+    const id = parseDraftId(req, res);
+    if (id === null) return;
+    const parsed = electionDraftSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await electionDrafts.update(id, parsed.data, req.session.adminAddress!));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  app.delete("/api/election-drafts/:id", requirePermission("elections:create"), async (req: Request, res: Response, next: NextFunction) => {
+    const id = parseDraftId(req, res);
+    if (id === null) return;
+
+    try {
+      await electionDrafts.discard(id);
+      res.status(204).end();
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  app.post("/api/election-drafts/:id/submit", requirePermission("elections:create"), async (req: Request, res: Response, next: NextFunction) => {
+    const id = parseDraftId(req, res);
+    if (id === null) return;
+
+    try {
+      res.json(await electionDrafts.submit(id, req.session.adminAddress!));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  app.post("/api/election-drafts/:id/review", requirePermission("elections:approve"), async (req: Request, res: Response, next: NextFunction) => {
+    const id = parseDraftId(req, res);
+    if (id === null) return;
+    const parsed = draftReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await electionDrafts.review(id, req.session.adminAddress!, parsed.data.approve, parsed.data.note));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Called with the mined createElection transaction sent from the admin's wallet
+  app.post("/api/election-drafts/:id/publish", requirePermission("elections:create"), async (req: Request, res: Response, next: NextFunction) => {
+    const id = parseDraftId(req, res);
+    if (id === null) return;
+    const parsed = z.object({ transactionHash: transactionHashSchema }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await electionDrafts.publish(id, parsed.data.transactionHash, req.session.adminAddress!));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Server-sent events for new votes, elections and indexed history. Browsers fall back to
+  // polling while this stream is down.
+  app.get("/api/live", (req: Request, res: Response) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop reverse proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${LIVE_RETRY_MS}\n\n`);
+
+    const unsubscribe = liveUpdates.subscribe((update) => {
+      res.write(`data: ${JSON.stringify(update)}\n\n`);
+    });
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Paginated contract history from the event indexer, newest first
+  app.get("/api/events", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = eventQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const { page, pageSize, event, electionId } = parsed.data;
+      res.json(await storage.getContractEvents({ page, pageSize, eventName: event, electionId }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Explorer search by transaction or voter hash, address, election id or election name
+  app.get("/api/search", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ q: z.string().trim().min(1).max(MAX_SEARCH_QUERY_LENGTH) }).safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const results = await explorerSearch.search(parsed.data.q);
+      if (!results) {
+        return res.status(400).json({ message: "Enter something to search for." });
+      }
+      res.json(results);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/indexer/status", (_req: Request, res: Response) => {
+    res.json(indexer.getStatus());
+  });
+
+  // One round of the scheduler, indexer and transaction tracker, for deployments without a
+  // long-running server (see server/cron.ts)
+  app.get("/api/cron/tick", async (req: Request, res: Response, next: NextFunction) => {
+    if (!isCronAuthorized(req.get("authorization"))) {
+      return res.status(401).json({ message: "Cron secret required" });
+    }
+
+    try {
+      res.json(await runBackgroundJobs());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Admin sign-in with Ethereum (EIP-4361): the wallet signs a message carrying a server
+  // nonce and must be the contract admin or hold a role in admin_roles
+  app.get("/api/admin/nonce", (req: Request, res: Response) => {
+    res.json({ nonce: createLoginNonce(req) });
+  });
+
+  app.post("/api/admin/login", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ message: z.string(), signature: z.string() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const login = await completeLogin(req, parsed.data.message, parsed.data.signature);
+      if (!login) {
+        return res.status(401).json({ message: "Signature rejected or wallet is not authorized as an admin" });
+      }
+      res.json(login);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.session.destroy((error) => (error ? next(error) : res.status(204).end()));
+  });
+
+  app.get("/api/admin/session", requireAdmin, (req: Request, res: Response) => {
+    res.json({ address: req.session.adminAddress, role: req.session.adminRole });
+  });
+
+  // Admin roles. The contract admin is listed separately: it is always a superadmin and
+  // only changes through changeAdmin on-chain.
+  app.get("/api/admin/roles", requirePermission("roles:manage"), async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ contractAdmin: await chainReader.getAdmin(), grants: await storage.getAdminRoles() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Step one of a grant/revoke: returns the message the admin's wallet must sign
+  app.post("/api/admin/roles/changes", requirePermission("roles:manage"), async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = roleChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.status(201).json({ message: await requestRoleChange(req, parsed.data) });
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  app.post("/api/admin/roles/changes/confirm", requirePermission("roles:manage"), async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ signature: z.string() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await confirmRoleChange(req, parsed.data.signature));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Report a mined changeAdmin so the role table follows the contract. Open to anyone,
+  // like /voted, but rate-limited per IP: nothing changes unless the transaction emitted
+  // AdminChanged and named the current admin.
+  app.post("/api/admin/handover", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ transactionHash: transactionHashSchema }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const change = await syncAdminHandover(parsed.data.transactionHash, req.ip ?? "unknown");
+      if (!change) {
+        return res.status(422).json({ message: "Transaction did not change the contract admin" });
+      }
+      res.json(change);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // NIN registration lock
+  app.get("/api/registration/lock", async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await storage.getRegistrationSettings());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/registration/lock", requirePermission("registration:lock"), async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ locked: z.boolean() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      if (!parsed.data.locked && (await chainReader.getActiveElection())) {
+        return res.status(409).json({
+          message: "Cannot unlock registrations during an active election. Please wait until the election is completed.",
+        });
+      }
+      const settings = await storage.applyRegistrationTransition({
+        electionId: null,
+        kind: "manual",
+        locked: parsed.data.locked,
+        actor: req.session.adminAddress!,
+        effectiveAt: new Date(),
+      });
+      res.json(settings);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Lock changes made by the scheduler and by admins, newest first
+  app.get("/api/registration/transitions", requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    const limit = Math.min(Number(req.query.limit) || 20, 200);
+    try {
+      res.json(await storage.getRegistrationTransitions(limit));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Voter registry. Responses carry a masked NIN only; the NIN itself is never returned.
+  app.get("/api/voters", requirePermission("voters:read"), async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const voters = await storage.getVoters();
+      res.json(voters.map(toPublicVoter));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Read-only export for auditors, same masked fields as the list
+  app.get("/api/voters/export", requirePermission("audit:export"), async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rows = (await storage.getVoters()).map(toPublicVoter);
+      const csv = toCsv([
+        ["wallet_address", "nin_masked", "constituency", "registered_at", "verified_at"],
+        ...rows.map((voter) => [voter.walletAddress, voter.ninMasked, voter.constituency, voter.createdAt, voter.verifiedAt]),
+      ]);
+
+      res
+        .type("text/csv")
+        .attachment(`voters-${new Date().toISOString().slice(0, 10)}.csv`)
+        .send(csv);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Pre-registered voter roll, uploaded as the raw CSV or XLSX file. ?dryRun=true only
+  // validates; either way the answer is a report with one entry per row.
+  app.post(
+    "/api/voters/import",
+    requirePermission("voters:update"),
+    express.raw({ type: [CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE], limit: "10mb" }),
+    async (req: Request, res: Response, next: NextFunction) => {
+      const parsed = voterImportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(415).json({ message: "Upload the voter roll as a CSV or XLSX file." });
+      }
+
+      try {
+        res.json(
+          await voterImport.import(req.body, req.get("content-type")!.split(";")[0].trim(), {
+            dryRun: parsed.data.dryRun === "true",
+            actor: req.session.adminAddress!,
+          }),
+        );
+      } catch (error) {
+        handleServiceError(error, res, next);
+      }
+    },
+  );
+
+  app.post("/api/voters", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = voterRegistrationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      if ((await storage.getRegistrationSettings()).locked) {
+        return res.status(423).json({
+          message: "NIN registration is currently locked. This usually happens during active elections.",
+        });
+      }
+
+      const voter = await identity.register(parsed.data.walletAddress, parsed.data.nin);
+      res.status(201).json(toPublicVoter(voter));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  app.get("/api/voters/:address", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const voter = await identity.getVoter(req.params.address);
+      if (!voter) {
+        return res.status(404).json({ message: "No NIN registration found for this wallet address." });
+      }
+      res.json(toPublicVoter(voter));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Does this NIN belong to this wallet? Answers match/no-match only
+  app.post("/api/voters/:address/verify", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ nin: ninSchema }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json({ match: await identity.verify(req.params.address, parsed.data.nin, req.ip ?? "unknown") });
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Per-election voting state
+  app.get("/api/elections/:id/participations", requirePermission("voters:read"), async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    try {
+      res.json(await participations.list(electionId));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/elections/:id/participations/:address", async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    try {
+      res.json(await participations.get(req.params.address, electionId));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/elections/:id/participations/:address", requirePermission("voters:update"), async (req: Request, res: Response, next: NextFunction) => {
+    const electionId = parseElectionId(req, res);
+    if (electionId === null) return;
+
+    const parsed = z.object({ eligible: z.boolean() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await participations.setEligibility(req.params.address, electionId, parsed.data.eligible));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Transaction tracker. Voters report their castVote transactions; election transactions
+  // publish a draft once confirmed, so only election creators may report them.
+  app.post(
+    "/api/transactions",
+    (req: Request, res: Response, next: NextFunction) =>
+      req.body?.purpose === "createElection" ? requirePermission("elections:create")(req, res, next) : next(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      const parsed = trackTransactionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      try {
+        const actor = parsed.data.purpose === "createElection" ? req.session.adminAddress! : null;
+        res.status(201).json(await transactionTracker.track(parsed.data, actor));
+      } catch (error) {
+        handleServiceError(error, res, next);
+      }
+    },
+  );
+
+  // Everything tracked for one sender, newest first, so another tab or device can resume
+  app.get("/api/transactions", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ from: addressSchema }).safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await transactionTracker.list(parsed.data.from));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/transactions/:hash", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await transactionTracker.get(req.params.hash));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Check the chain now rather than on the next poll; commits the side effect when confirmed
+  app.post("/api/transactions/:hash/check", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await transactionTracker.check(req.params.hash));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Record a vote. Anyone may report it, but only with a confirmed castVote transaction; the
+  // voter and election are read from the receipt.
+  app.post("/api/participations", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ transactionHash: transactionHashSchema }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await participations.recordVote(parsed.data.transactionHash));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Gasless voting: whether the relayer is on, and submitting a signed ballot through it
+  app.get("/api/relay", async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await relayer.status());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/relay/ballots", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = relayBallotSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.status(201).json(await relayer.relay(parsed.data, req.ip ?? "unknown"));
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  });
+
+  // Face model weights for the in-browser liveness check
+  app.use("/models/face-api", express.static(FACE_MODEL_DIR, { maxAge: "7d" }));
+
+  app.post("/api/liveness/sessions", (req: Request, res: Response, next: NextFunction) => {
+    const parsed = z.object({ subject: addressSchema }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.status(201).json(liveness.createSession(parsed.data.subject, req.ip ?? "unknown"));
+    } catch (error) {
+      if (error instanceof LivenessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Re-score the frames recorded in the browser; answers with a signed result when every challenge passed
+  app.post("/api/liveness/sessions/:id/verify", (req: Request, res: Response, next: NextFunction) => {
+    const parsed = livenessVerifySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const { subject, frames } = parsed.data;
+      const { evaluation, result } = liveness.verifySession(req.params.id, subject, frames);
+      if (!result) {
+        return res.status(422).json({ message: "Liveness check failed", ...evaluation });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof LivenessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Lets other services check a liveness result a client presents
+  app.post("/api/liveness/results/verify", (req: Request, res: Response) => {
+    const parsed = livenessResultSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    res.json({ valid: liveness.verifyResult(parsed.data.result, parsed.data.subject) });
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
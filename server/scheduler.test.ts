@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dueTransitions, RegistrationScheduler, type Clock, type ScheduledElection, type SchedulerOptions } from "./scheduler";
+import { MemStorage } from "./storage";
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 10, 8);
+
+const at = (hours: number) => new Date(T0 + hours * HOUR);
+
+class FakeClock implements Clock {
+  constructor(private time: Date) {}
+
+  now(): Date {
+    return this.time;
+  }
+
+  set(time: Date): void {
+    this.time = time;
+  }
+}
+
+function election(id: number, startHours: number, endHours: number, active = true): ScheduledElection {
+  return { id, startTime: at(startHours), endTime: at(endHours), active };
+}
+
+function createScheduler(elections: ScheduledElection[], options: Partial<SchedulerOptions> = {}) {
+  const clock = new FakeClock(at(0));
+  const store = new MemStorage();
+  const scheduler = new RegistrationScheduler(
+    { getElections: async () => elections },
+    store,
+    { pollIntervalMs: 30_000, afterElection: "locked", graceWindowMs: 2 * HOUR, ...options },
+    clock,
+  );
+
+  // Move the clock, tick, and report what was applied and whether registrations are locked
+  const tickAt = async (hours: number) => {
+    clock.set(at(hours));
+    const applied = await scheduler.tick();
+    return {
+      applied: applied.map((transition) => `${transition.electionId}:${transition.kind}`),
+      locked: (await store.getRegistrationSettings()).locked,
+    };
+  };
+  return { store, tickAt };
+}
+
+test("with the locked policy registrations lock at the start and stay locked", async () => {
+  const { tickAt } = createScheduler([election(1, 1, 3)]);
+
+  assert.deepEqual(await tickAt(0.5), { applied: [], locked: false });
+  assert.deepEqual(await tickAt(1), { applied: ["1:election_started"], locked: true });
+  // Applied once, however often the scheduler wakes up
+  assert.deepEqual(await tickAt(2), { applied: [], locked: true });
+  assert.deepEqual(await tickAt(3.5), { applied: [], locked: true });
+  assert.deepEqual(await tickAt(48), { applied: [], locked: true });
+});
+
+test("with the reopen policy registrations reopen just after the end", async () => {
+  const { tickAt } = createScheduler([election(1, 1, 3)], { afterElection: "reopen" });
+
+  assert.deepEqual(await tickAt(1.5), { applied: ["1:election_started"], locked: true });
+  // Still running at its end time
+  assert.deepEqual(await tickAt(3), { applied: [], locked: true });
+  assert.deepEqual(await tickAt(3.01), { applied: ["1:election_ended"], locked: false });
+  assert.deepEqual(await tickAt(10), { applied: [], locked: false });
+});
+
+test("with the grace policy registrations reopen for the grace window, then lock again", async () => {
+  const { tickAt } = createScheduler([election(1, 1, 3)], { afterElection: "grace" });
+
+  assert.deepEqual(await tickAt(2), { applied: ["1:election_started"], locked: true });
+  assert.deepEqual(await tickAt(4), { applied: ["1:election_ended"], locked: false });
+  assert.deepEqual(await tickAt(4.99), { applied: [], locked: false });
+  assert.deepEqual(await tickAt(5), { applied: ["1:grace_ended"], locked: true });
+  assert.deepEqual(await tickAt(6), { applied: [], locked: true });
+});
+
+test("registrations don't reopen while an overlapping election is still running", async () => {
+  const { tickAt } = createScheduler([election(1, 1, 3), election(2, 2, 5), election(3, 0, 9, false)], {
+    afterElection: "reopen",
+  });
+
+  assert.deepEqual(await tickAt(1), { applied: ["1:election_started"], locked: true });
+  assert.deepEqual(await tickAt(2.5), { applied: ["2:election_started"], locked: true });
+  // The first election is over but the second is running
+  assert.deepEqual(await tickAt(4), { applied: [], locked: true });
+  // Both ended: replayed in order of their end times
+  assert.deepEqual(await tickAt(6), { applied: ["1:election_ended", "2:election_ended"], locked: false });
+});
+
+test("each lock change is recorded once for the election, by the system, at its boundary", async () => {
+  const { store, tickAt } = createScheduler([election(7, 1, 3)], { afterElection: "grace" });
+
+  await tickAt(1.5);
+  await tickAt(1.6);
+  await tickAt(3.5);
+  await tickAt(6);
+
+  const audit = (await store.getRegistrationTransitions(10)).reverse();
+  assert.deepEqual(
+    audit.map(({ electionId, kind, locked, actor, effectiveAt }) => ({ electionId, kind, locked, actor, effectiveAt })),
+    [
+      { electionId: 7, kind: "election_started", locked: true, actor: "system", effectiveAt: at(1) },
+      { electionId: 7, kind: "election_ended", locked: false, actor: "system", effectiveAt: at(3) },
+      { electionId: 7, kind: "grace_ended", locked: true, actor: "system", effectiveAt: at(5) },
+    ],
+  );
+  assert.equal((await store.getRegistrationSettings()).updatedBy, "system");
+});
+
+test("a window that passed while the server was down is not caught up on", () => {
+  const options = { afterElection: "grace" as const, graceWindowMs: 2 * HOUR };
+
+  // Down for the whole election: only the grace end, which still holds, is applied
+  assert.deepEqual(
+    dueTransitions([election(1, 1, 3)], at(8), options).map((transition) => transition.kind),
+    ["grace_ended"],
+  );
+  assert.deepEqual(dueTransitions([election(1, 1, 3, false)], at(2), options), []);
+});
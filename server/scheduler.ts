@@ -0,0 +1,165 @@
+import type { RegistrationTransitionKind } from "@shared/schema";
+import { chainReader, type ChainElection } from "./chain";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+// What happens to registrations once an election ends: stay locked until an admin opens
+// them, reopen, or reopen for `graceWindowMs` and lock again
+export type AfterElectionPolicy = "locked" | "reopen" | "grace";
+
+export interface SchedulerOptions {
+  pollIntervalMs: number;
+  afterElection: AfterElectionPolicy;
+  graceWindowMs: number;
+}
+
+export function getSchedulerOptions(): SchedulerOptions {
+  const afterElection = process.env.REGISTRATION_AFTER_ELECTION ?? "locked";
+  if (afterElection !== "locked" && afterElection !== "reopen" && afterElection !== "grace") {
+    throw new Error(`REGISTRATION_AFTER_ELECTION must be locked, reopen or grace (got "${afterElection}")`);
+  }
+
+  return {
+    pollIntervalMs: Number(process.env.SCHEDULER_POLL_INTERVAL ?? 30000),
+    afterElection,
+    graceWindowMs: Number(process.env.REGISTRATION_GRACE_WINDOW ?? 24 * 60 * 60 * 1000),
+  };
+}
+
+export type ScheduledElection = Pick<ChainElection, "id" | "startTime" | "endTime" | "active">;
+
+// Where elections come from; ChainReader in production, a fixed list when replaying
+export interface ElectionSource {
+  getElections(): Promise<ScheduledElection[]>;
+}
+
+export interface PlannedTransition {
+  electionId: number;
+  kind: RegistrationTransitionKind;
+  locked: boolean;
+  effectiveAt: Date;
+}
+
+// Transitions that are due at `now`, oldest first. Already-applied ones are included too;
+// storage drops repeats. A transition whose window passed while nobody was watching (the
+// server was down for a whole election) is not caught up on.
+export function dueTransitions(
+  elections: ScheduledElection[],
+  now: Date,
+  options: Pick<SchedulerOptions, "afterElection" | "graceWindowMs">,
+): PlannedTransition[] {
+  const scheduled = elections.filter((election) => election.active);
+  const isRunning = (election: ScheduledElection) => election.startTime <= now && now <= election.endTime;
+  // Registrations never reopen while another election is running
+  const anyRunning = scheduled.some(isRunning);
+  const due: PlannedTransition[] = [];
+
+  for (const election of scheduled) {
+    if (isRunning(election)) {
+      due.push({ electionId: election.id, kind: "election_started", locked: true, effectiveAt: election.startTime });
+      continue;
+    }
+    if (now <= election.endTime || options.afterElection === "locked") continue;
+
+    const graceEnd = new Date(election.endTime.getTime() + options.graceWindowMs);
+    if (options.afterElection === "grace" && now >= graceEnd) {
+      due.push({ electionId: election.id, kind: "grace_ended", locked: true, effectiveAt: graceEnd });
+    } else if (!anyRunning) {
+      due.push({ electionId: election.id, kind: "election_ended", locked: false, effectiveAt: election.endTime });
+    }
+  }
+
+  return due.sort((a, b) => a.effectiveAt.getTime() - b.effectiveAt.getTime());
+}
+
+// Locks NIN registration when an election starts and applies the after-election policy
+// when it ends, whether or not anyone has the site open. Wakes up at the next election
+// boundary or every `pollIntervalMs`, whichever comes first.
+export class RegistrationScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private ticking = false;
+
+  constructor(
+    private source: ElectionSource,
+    private store: IStorage,
+    readonly options: SchedulerOptions,
+    private clock: Clock = systemClock,
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    log(`registration after elections: ${this.options.afterElection}`, "scheduler");
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Apply every due transition once. Resolves to the transitions applied by this call.
+  async tick(): Promise<PlannedTransition[]> {
+    if (this.ticking) return [];
+    this.ticking = true;
+
+    try {
+      const now = this.clock.now();
+      const applied: PlannedTransition[] = [];
+      for (const transition of dueTransitions(await this.source.getElections(), now, this.options)) {
+        const settings = await this.store.applyRegistrationTransition({ ...transition, actor: "system" });
+        if (!settings) continue;
+
+        log(
+          `election ${transition.electionId} ${transition.kind}: registrations ${transition.locked ? "locked" : "open"}`,
+          "scheduler",
+        );
+        applied.push(transition);
+      }
+      return applied;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      let delay = this.options.pollIntervalMs;
+      try {
+        await this.tick();
+        delay = this.nextDelay(await this.source.getElections());
+      } catch (error: any) {
+        log(`tick failed: ${error?.message || error}`, "scheduler");
+      }
+
+      if (this.running) this.schedule(delay);
+    }, delayMs);
+  }
+
+  private nextDelay(elections: ScheduledElection[]): number {
+    const now = this.clock.now().getTime();
+    const boundaries = elections
+      .filter((election) => election.active)
+      .flatMap((election) => [
+        election.startTime.getTime(),
+        // Just after the end, since an election is still running at its end time
+        election.endTime.getTime() + 1000,
+        election.endTime.getTime() + this.options.graceWindowMs,
+      ])
+      .filter((boundary) => boundary > now);
+
+    return Math.max(1000, Math.min(this.options.pollIntervalMs, ...boundaries.map((boundary) => boundary - now)));
+  }
+}
+
+export const registrationScheduler = new RegistrationScheduler(chainReader, storage, getSchedulerOptions());
@@ -0,0 +1,112 @@
+import type { ContractEvent } from "@shared/schema";
+import {
+  classifySearchQuery,
+  MAX_ELECTION_MATCHES,
+  NAME_MATCH_THRESHOLD,
+  nameMatchScore,
+  SEARCH_EVENT_LIMIT,
+  type ElectionMatch,
+  type SearchEvent,
+  type SearchMatch,
+  type SearchResults,
+} from "@shared/search";
+import { storage, type IStorage } from "./storage";
+
+// Explorer search over the indexed contract events (see shared/search.ts for how queries are
+// classified). Nothing here reads the chain, so results are as fresh as the indexer.
+
+const ALL = { page: 1, pageSize: Number.MAX_SAFE_INTEGER };
+
+function toSearchEvent({ id: _id, timestamp, ...event }: ContractEvent): SearchEvent {
+  return { ...event, timestamp: timestamp.toISOString() };
+}
+
+export class ExplorerSearch {
+  constructor(private readonly store: IStorage) {}
+
+  async search(query: string): Promise<SearchResults | null> {
+    const classified = classifySearchQuery(query);
+    if (!classified) return null;
+
+    const { kind, value } = classified;
+    let matches: SearchMatch[];
+    switch (kind) {
+      case "hash":
+        matches = await this.byHash(value);
+        break;
+      case "address":
+        matches = await this.byAddress(value);
+        break;
+      case "electionId":
+        matches = await this.byElectionId(Number(value));
+        break;
+      case "text":
+        matches = await this.byName(value);
+        break;
+    }
+    return { query: value, kind, matches };
+  }
+
+  private async byHash(hash: string): Promise<SearchMatch[]> {
+    const [transaction, votes] = await Promise.all([
+      this.store.getContractEvents({ page: 1, pageSize: SEARCH_EVENT_LIMIT, transactionHash: hash }),
+      this.store.getContractEvents({ page: 1, pageSize: SEARCH_EVENT_LIMIT, eventName: "VoteCast", voterHash: hash }),
+    ]);
+
+    const matches: SearchMatch[] = [];
+    if (transaction.events.length > 0) {
+      matches.push({ type: "transaction", hash, events: transaction.events.map(toSearchEvent) });
+    }
+    for (const event of votes.events) {
+      matches.push({ type: "vote", voterHash: hash, event: toSearchEvent(event) });
+    }
+    return matches;
+  }
+
+  private async byAddress(address: string): Promise<SearchMatch[]> {
+    const { events, total } = await this.store.getContractEvents({
+      page: 1,
+      pageSize: SEARCH_EVENT_LIMIT,
+      from: address,
+    });
+    return total > 0 ? [{ type: "address", address, events: events.map(toSearchEvent), total }] : [];
+  }
+
+  private async byElectionId(electionId: number): Promise<SearchMatch[]> {
+    const { events } = await this.store.getContractEvents({ page: 1, pageSize: 1, eventName: "ElectionCreated", electionId });
+    if (events.length === 0) return [];
+    return [{ type: "election", election: await this.toElectionMatch(events[0], 1) }];
+  }
+
+  private async byName(text: string): Promise<SearchMatch[]> {
+    const { events } = await this.store.getContractEvents({ ...ALL, eventName: "ElectionCreated" });
+    const scored = events
+      .map((event) => ({ event, score: nameMatchScore(text, event.args.name ?? "") }))
+      .filter(({ score }) => score >= NAME_MATCH_THRESHOLD)
+      .sort((a, b) => b.score - a.score || b.event.blockNumber - a.event.blockNumber)
+      .slice(0, MAX_ELECTION_MATCHES);
+
+    return Promise.all(
+      scored.map(async ({ event, score }): Promise<SearchMatch> => ({
+        type: "election",
+        election: await this.toElectionMatch(event, score),
+      })),
+    );
+  }
+
+  private async toElectionMatch(created: ContractEvent, score: number): Promise<ElectionMatch> {
+    const electionId = created.electionId!;
+    const { total } = await this.store.getContractEvents({ page: 1, pageSize: 1, eventName: "VoteCast", electionId });
+    return {
+      electionId,
+      name: created.args.name,
+      startTime: new Date(Number(created.args.startTime) * 1000).toISOString(),
+      endTime: new Date(Number(created.args.endTime) * 1000).toISOString(),
+      votes: total,
+      transactionHash: created.transactionHash,
+      score,
+    };
+  }
+}
+
+export const explorerSearch = new ExplorerSearch(storage);
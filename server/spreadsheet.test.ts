@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { deflateRawSync } from "zlib";
+import { readSpreadsheet, SpreadsheetError, CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE } from "./spreadsheet";
+
+// Minimal zip writer: the reader only looks at the central directory and local headers, so
+// CRCs are left at 0
+function zip(files: Record<string, string>, { deflate = true } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, "utf8");
+    const raw = Buffer.from(content, "utf8");
+    const data = deflate ? deflateRawSync(raw) : raw;
+    const method = deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    directory.push(entry, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directoryBytes = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directoryBytes.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directoryBytes, end]);
+}
+
+function workbook(sheetData: string, sharedStrings?: string[]): Buffer {
+  const files: Record<string, string> = {
+    "xl/workbook.xml": `<workbook><sheets><sheet name="Voters" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`,
+    "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`,
+  };
+  if (sharedStrings) {
+    files["xl/sharedStrings.xml"] = `<sst>${sharedStrings.map((text) => `<si><t>${text}</t></si>`).join("")}</sst>`;
+  }
+  return zip(files);
+}
+
+const readXlsx = (body: Buffer, maxRows = 100) => readSpreadsheet(body, XLSX_CONTENT_TYPE, maxRows);
+
+test("reads shared, inline, numeric and boolean cells from the first sheet", () => {
+  const rows = readXlsx(
+    workbook(
+      `<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Active</t></is></c></row>` +
+        `<row r="2"><c r="A2"><v>1.2345678901E10</v></c><c r="B2" t="str"><v>Ikeja &amp; Lagos</v></c><c r="C2" t="b"><v>1</v></c></row>`,
+      ["NIN", "Constituency"],
+    ),
+  );
+
+  assert.deepEqual(rows, [
+    ["NIN", "Constituency", "Active"],
+    ["12345678901", "Ikeja & Lagos", "TRUE"],
+  ]);
+});
+
+test("fills in skipped rows and cells as blanks", () => {
+  const rows = readXlsx(workbook(`<row r="1"><c r="B1" t="inlineStr"><is><t>x</t></is></c></row><row r="3"><c r="A3"><v>7</v></c></row>`));
+  assert.deepEqual(rows, [["", "x"], [], ["7"]]);
+});
+
+test("reads stored (uncompressed) parts", () => {
+  const files = {
+    "xl/workbook.xml": `<workbook><sheets><sheet r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<Relationships><Relationship Id="rId1" Target="/xl/worksheets/sheet1.xml"/></Relationships>`,
+    "xl/worksheets/sheet1.xml": `<worksheet><sheetData><row><c><v>1</v></c></row></sheetData></worksheet>`,
+  };
+  assert.deepEqual(readXlsx(zip(files, { deflate: false })), [["1"]]);
+});
+
+test("decodes character references", () => {
+  const rows = readXlsx(workbook(`<row r="1"><c r="A1" t="inlineStr"><is><t>&#65;&#x1F5F3;&lt;</t></is></c></row>`));
+  assert.deepEqual(rows, [["A\u{1F5F3}<"]]);
+});
+
+test("rejects character references outside Unicode instead of crashing", () => {
+  for (const reference of ["&#x110000;", "&#99999999999;", "&#xD800;"]) {
+    assert.throws(
+      () => readXlsx(workbook(`<row r="1"><c r="A1" t="inlineStr"><is><t>${reference}</t></is></c></row>`)),
+      (error: unknown) => error instanceof SpreadsheetError && error.status === 400,
+    );
+  }
+});
+
+test("rejects a row number past the limit without allocating the rows before it", () => {
+  assert.throws(
+    () => readXlsx(workbook(`<row r="99999999"><c r="A99999999"><v>1</v></c></row>`), 20001),
+    (error: unknown) => error instanceof SpreadsheetError && error.status === 413,
+  );
+});
+
+test("ignores cells far to the right", () => {
+  const rows = readXlsx(workbook(`<row r="1"><c r="A1"><v>1</v></c><c r="XFD1"><v>2</v></c></row>`));
+  assert.deepEqual(rows, [["1"]]);
+});
+
+test("rejects files that aren't XLSX workbooks", () => {
+  assert.throws(() => readXlsx(Buffer.from("not a zip at all, just some text padding it out")), SpreadsheetError);
+  assert.throws(() => readXlsx(zip({ "hello.txt": "hi" })), /not an XLSX workbook/);
+});
+
+test("applies the row limit to CSV too", () => {
+  const csv = Buffer.from("nin,wallet\n1,a\n2,b\n3,c\n");
+  assert.equal(readSpreadsheet(csv, CSV_CONTENT_TYPE, 4).length, 4);
+  assert.throws(() => readSpreadsheet(csv, CSV_CONTENT_TYPE, 3), /more than 3 rows/);
+});
@@ -0,0 +1,203 @@
+import { inflateRawSync } from "zlib";
+import { parseCsv } from "@shared/csv";
+
+// Uploaded sheets as rows of cell text. CSV goes through the shared parser; XLSX is read
+// directly from the zip container (zlib only), taking the first worksheet's cell values.
+// Formatting, formulas and other sheets are ignored.
+
+export const CSV_CONTENT_TYPE = "text/csv";
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Cap on any one inflated part, so a small upload can't expand into gigabytes
+const MAX_PART_BYTES = 64 * 1024 * 1024;
+// Cells further right are ignored; XLSX cell references go up to column 16384
+const MAX_COLUMNS = 256;
+
+export class SpreadsheetError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+// `maxRows` counts every row up to the last one, blank rows and the header included
+export function readSpreadsheet(body: Buffer, contentType: string, maxRows: number): string[][] {
+  const rows = contentType === XLSX_CONTENT_TYPE ? readXlsx(body, maxRows) : readCsv(body);
+  if (rows.length > maxRows) throw tooManyRows(maxRows);
+  return rows;
+}
+
+function tooManyRows(maxRows: number): SpreadsheetError {
+  return new SpreadsheetError(`The sheet has more than ${maxRows} rows.`, 413);
+}
+
+function readCsv(body: Buffer): string[][] {
+  try {
+    return parseCsv(body.toString("utf8"));
+  } catch (error) {
+    throw new SpreadsheetError(`Could not read the CSV file: ${(error as Error).message}`);
+  }
+}
+
+function readXlsx(body: Buffer, maxRows: number): string[][] {
+  const parts = readZipEntries(body);
+  const part = (name: string) => {
+    const read = parts.get(name);
+    if (!read) return undefined;
+    try {
+      return read().toString("utf8");
+    } catch {
+      throw new SpreadsheetError("The XLSX file is damaged or too large");
+    }
+  };
+
+  const workbook = part("xl/workbook.xml");
+  const relationships = part("xl/_rels/workbook.xml.rels");
+  if (!workbook || !relationships) {
+    throw new SpreadsheetError("The file is not an XLSX workbook");
+  }
+
+  // First sheet in workbook order, resolved through its relationship to a part name
+  const sheetId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const target = sheetId && attribute(findTag(relationships, "Relationship", "Id", sheetId), "Target");
+  const sheetName = target && (target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+  const sheet = sheetName && part(sheetName);
+  if (!sheet) {
+    throw new SpreadsheetError("The workbook has no worksheet");
+  }
+
+  const sharedStrings = Array.from(
+    (part("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g),
+    ([, item]) => textRuns(item),
+  );
+
+  const rows: string[][] = [];
+  for (const [, rowAttributes, rowBody] of Array.from(sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g))) {
+    const rowNumber = Number(attribute(rowAttributes, "r")) || rows.length + 1;
+    // Checked before the blank rows in between are filled in, so a forged row number can't
+    // allocate millions of them
+    if (rowNumber > maxRows) throw tooManyRows(maxRows);
+
+    const cells: string[] = [];
+    for (const [, cellAttributes, cellBody = ""] of Array.from(
+      rowBody.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g),
+    )) {
+      const column = columnIndex(attribute(cellAttributes, "r")) ?? cells.length;
+      if (column >= MAX_COLUMNS) continue;
+      cells[column] = cellText(attribute(cellAttributes, "t"), cellBody, sharedStrings);
+    }
+    // Rows missing from the sheet are blank rows
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(Array.from(cells, (cell) => cell ?? ""));
+  }
+  return rows;
+}
+
+function cellText(type: string | undefined, body: string, sharedStrings: string[]): string {
+  if (type === "inlineStr") return textRuns(body);
+
+  const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+  if (value === undefined) return "";
+  if (type === "s") return sharedStrings[Number(value)] ?? "";
+  if (type === "b") return value === "1" ? "TRUE" : "FALSE";
+  if (type === "str" || type === "e") return decodeXml(value);
+
+  // Numbers: Excel may store a long integer such as a NIN in exponent form
+  const number = Number(value);
+  return Number.isFinite(number) && /e/i.test(value) ? String(number) : value;
+}
+
+// "AB12" -> 27 (zero-based)
+function columnIndex(reference: string | undefined): number | undefined {
+  const letters = reference && /^[A-Z]+/.exec(reference)?.[0];
+  if (!letters) return undefined;
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function textRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), ([, text]) => decodeXml(text)).join("");
+}
+
+function findTag(xml: string, tag: string, name: string, value: string): string | undefined {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}\\b([^>]*)>`, "g")), ([, attributes]) => attributes).find(
+    (attributes) => attribute(attributes, name) === value,
+  );
+}
+
+function attribute(attributes: string | undefined, name: string): string | undefined {
+  const value = attributes && new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+  return value === undefined ? undefined : decodeXml(value);
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return '"';
+      case "apos": return "'";
+      default: {
+        const codePoint =
+          entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        // Beyond Unicode (fromCodePoint would throw) or a lone surrogate half
+        if (codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+          throw new SpreadsheetError(`The XLSX file contains an invalid character reference &${entity};`);
+        }
+        return String.fromCodePoint(codePoint);
+      }
+    }
+  });
+}
+
+// Zip entries by name, from the central directory. Entries are inflated when read, so
+// images and other parts the import doesn't need are never decompressed.
+function readZipEntries(zip: Buffer): Map<string, () => Buffer> {
+  const END_OF_DIRECTORY = 0x06054b50;
+  const DIRECTORY_ENTRY = 0x02014b50;
+  const LOCAL_HEADER = 0x04034b50;
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new SpreadsheetError("The file is not an XLSX workbook");
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  try {
+    for (let i = 0; i < count; i++) {
+      if (zip.readUInt32LE(offset) !== DIRECTORY_ENTRY) break;
+      const method = zip.readUInt16LE(offset + 10);
+      const compressedSize = zip.readUInt32LE(offset + 20);
+      const nameLength = zip.readUInt16LE(offset + 28);
+      const extraLength = zip.readUInt16LE(offset + 30);
+      const commentLength = zip.readUInt16LE(offset + 32);
+      const localOffset = zip.readUInt32LE(offset + 42);
+      const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (zip.readUInt32LE(localOffset) !== LOCAL_HEADER) continue;
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        entries.set(name, () => data);
+      } else if (method === 8) {
+        entries.set(name, () => inflateRawSync(data, { maxOutputLength: MAX_PART_BYTES }));
+      }
+    }
+  } catch {
+    throw new SpreadsheetError("The XLSX file is damaged");
+  }
+  return entries;
+}
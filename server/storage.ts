@@ -1,21 +1,217 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, count, desc, eq, gte, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import {
+  users,
+  contractEvents,
+  indexerCheckpoints,
+  voters,
+  registrationSettings,
+  registrationTransitions,
+  adminRoles,
+  participations,
+  electionDrafts,
+  candidateProfiles,
+  trackedTransactions,
+  relayedBallots,
+  type User,
+  type InsertUser,
+  type ContractEvent,
+  type InsertContractEvent,
+  type IndexerCheckpoint,
+  type Voter,
+  type InsertVoter,
+  type Participation,
+  type RegistrationSettings,
+  type RegistrationTransition,
+  type InsertRegistrationTransition,
+  type AdminRoleGrant,
+  type InsertAdminRole,
+  type ElectionDraft,
+  type InsertElectionDraft,
+  type CandidateProfileRecord,
+  type TrackedTransaction,
+  type InsertTrackedTransaction,
+  type RelayedBallot,
+  type InsertRelayedBallot,
+} from "@shared/schema";
+import type { ElectionDraftStatus } from "@shared/drafts";
+import type { CandidateProfile } from "@shared/profiles";
+import { createDb, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
 
+export type ContractEventCountQuery = Pick<ContractEventQuery, "eventName" | "electionId">;
+
+export interface ContractEventCounts {
+  total: number;
+  // One count per `until` date, in the same order
+  until: number[];
+}
+
+export interface ContractEventQuery {
+  page: number;
+  pageSize: number;
+  eventName?: string;
+  electionId?: number;
+  // Hex values are matched case-insensitively
+  transactionHash?: string;
+  from?: string;
+  voterHash?: string;
+}
+
+export interface PaginatedContractEvents {
+  events: ContractEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Indexed contract events
+  insertContractEvents(events: InsertContractEvent[]): Promise<void>;
+  deleteContractEventsFromBlock(blockNumber: number): Promise<void>;
+  getContractEvents(query: ContractEventQuery): Promise<PaginatedContractEvents>;
+  // How many matching events there are, and how many have a timestamp at or before each of
+  // `until`; counted without loading the events
+  countContractEvents(query: ContractEventCountQuery, until: Date[]): Promise<ContractEventCounts>;
+  getIndexerCheckpoint(name: string): Promise<IndexerCheckpoint | undefined>;
+  setIndexerCheckpoint(name: string, blockNumber: number, blockHash: string): Promise<void>;
+
+  // Registered voters, keyed by lower-cased wallet address
+  getVoter(walletAddress: string): Promise<Voter | undefined>;
+  getVoterByNinHash(ninHash: string): Promise<Voter | undefined>;
+  getVoters(): Promise<Voter[]>;
+  createVoter(voter: InsertVoter): Promise<Voter>;
+  // Bulk insert that skips voters whose wallet or NIN is already registered; resolves to
+  // the ones inserted
+  createVoters(voters: InsertVoter[]): Promise<Voter[]>;
+  // Sets verifiedAt on the first successful NIN check; later calls leave it alone
+  markVoterVerified(walletAddress: string): Promise<Voter | undefined>;
+
+  // Per-election voting state, keyed by (lower-cased wallet address, election id)
+  getParticipation(walletAddress: string, electionId: number): Promise<Participation | undefined>;
+  getParticipations(electionId: number): Promise<Participation[]>;
+  recordVote(walletAddress: string, electionId: number, transactionHash: string): Promise<Participation>;
+  setEligibility(walletAddress: string, electionId: number, eligible: boolean): Promise<Participation>;
+
+  // NIN registration lock
+  getRegistrationSettings(): Promise<RegistrationSettings>;
+  // Record a lock transition and apply it. Resolves to undefined, changing nothing, when the
+  // election's transition of that kind was recorded before.
+  applyRegistrationTransition(transition: InsertRegistrationTransition): Promise<RegistrationSettings | undefined>;
+  // Newest first
+  getRegistrationTransitions(limit: number): Promise<RegistrationTransition[]>;
+  // The election's own transitions plus manual changes between `from` and `to`, oldest first
+  getElectionRegistrationTransitions(electionId: number, from: Date, to: Date): Promise<RegistrationTransition[]>;
+
+  // Admin panel operators, keyed by lower-cased wallet address
+  getAdminRole(walletAddress: string): Promise<AdminRoleGrant | undefined>;
+  getAdminRoles(): Promise<AdminRoleGrant[]>;
+  grantAdminRole(grant: InsertAdminRole): Promise<AdminRoleGrant>;
+  revokeAdminRole(walletAddress: string): Promise<boolean>;
+
+  // Election drafts, most recently updated first
+  getElectionDrafts(): Promise<ElectionDraft[]>;
+  getElectionDraft(id: number): Promise<ElectionDraft | undefined>;
+  // The draft an on-chain election was published from
+  getElectionDraftByElectionId(electionId: number): Promise<ElectionDraft | undefined>;
+  createElectionDraft(draft: InsertElectionDraft): Promise<ElectionDraft>;
+  // Only applied while the draft is still in `expectedStatus`, so two admins acting on it at
+  // once can't both succeed. Resolves to undefined when it wasn't.
+  updateElectionDraft(
+    id: number,
+    expectedStatus: ElectionDraftStatus,
+    changes: Partial<InsertElectionDraft>,
+  ): Promise<ElectionDraft | undefined>;
+  deleteElectionDraft(id: number, expectedStatus: ElectionDraftStatus): Promise<boolean>;
+
+  // Content-addressed candidate profiles. Storing a hash that exists keeps the first record.
+  putCandidateProfile(hash: string, profile: CandidateProfile, createdBy: string): Promise<CandidateProfileRecord>;
+  getCandidateProfile(hash: string): Promise<CandidateProfileRecord | undefined>;
+
+  // Sent transactions being followed. Tracking a hash again keeps the first record.
+  trackTransaction(transaction: InsertTrackedTransaction): Promise<TrackedTransaction>;
+  getTrackedTransaction(hash: string): Promise<TrackedTransaction | undefined>;
+  // Newest first. `unsettled` keeps the ones still pending or confirmed with the side
+  // effect not yet committed.
+  getTrackedTransactions(filter: { from?: string; unsettled?: boolean }): Promise<TrackedTransaction[]>;
+  updateTrackedTransaction(hash: string, changes: TrackedTransactionChanges): Promise<TrackedTransaction | undefined>;
+
+  // Ballots sent by the gasless relayer
+  recordRelayedBallot(ballot: InsertRelayedBallot): Promise<RelayedBallot>;
+  countRelayedBallots(voterAddress: string, electionId: number): Promise<number>;
+  // Sum of maxCost over ballots relayed at or after `since`, in wei
+  getRelayedBallotCost(since: Date): Promise<bigint>;
+}
+
+export type TrackedTransactionChanges = Partial<
+  Pick<TrackedTransaction, "status" | "minedHash" | "blockNumber" | "committedAt" | "commitError">
+>;
+
+function isUnsettled(transaction: TrackedTransaction): boolean {
+  return (
+    transaction.status === "pending" ||
+    (transaction.status === "confirmed" && !transaction.committedAt && !transaction.commitError)
+  );
+}
+
+const REGISTRATION_SETTINGS_ID = 1;
+
+// Registrations are open until someone locks them
+function defaultRegistrationSettings(): RegistrationSettings {
+  return { id: REGISTRATION_SETTINGS_ID, locked: false, updatedBy: null, updatedAt: new Date(0) };
+}
+
+function participationKey(walletAddress: string, electionId: number): string {
+  return `${walletAddress}:${electionId}`;
+}
+
+function sameHex(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Newest first, mirroring how the explorer lists activity
+function compareEventsDesc(a: ContractEvent, b: ContractEvent): number {
+  return b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private contractEvents: Map<string, ContractEvent>;
+  private checkpoints: Map<string, IndexerCheckpoint>;
+  private voters: Map<string, Voter>;
+  private registrationSettings: RegistrationSettings;
+  private registrationTransitions: RegistrationTransition[];
+  private adminRoles: Map<string, AdminRoleGrant>;
+  private participations: Map<string, Participation>;
+  private electionDrafts: Map<number, ElectionDraft>;
+  private candidateProfiles: Map<string, CandidateProfileRecord>;
+  private trackedTransactions: Map<string, TrackedTransaction>;
+  private relayedBallots: RelayedBallot[];
   currentId: number;
+  currentEventId: number;
+  currentDraftId: number;
 
   constructor() {
     this.users = new Map();
+    this.contractEvents = new Map();
+    this.checkpoints = new Map();
+    this.voters = new Map();
+    this.registrationSettings = defaultRegistrationSettings();
+    this.registrationTransitions = [];
+    this.adminRoles = new Map();
+    this.participations = new Map();
+    this.electionDrafts = new Map();
+    this.candidateProfiles = new Map();
+    this.trackedTransactions = new Map();
+    this.relayedBallots = [];
     this.currentId = 1;
+    this.currentEventId = 1;
+    this.currentDraftId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +230,737 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async insertContractEvents(events: InsertContractEvent[]): Promise<void> {
+    for (const event of events) {
+      const key = `${event.transactionHash}:${event.logIndex}`;
+      if (this.contractEvents.has(key)) continue;
+
+      this.contractEvents.set(key, {
+        ...event,
+        id: this.currentEventId++,
+        electionId: event.electionId ?? null,
+      });
+    }
+  }
+
+  async deleteContractEventsFromBlock(blockNumber: number): Promise<void> {
+    Array.from(this.contractEvents.entries()).forEach(([key, event]) => {
+      if (event.blockNumber >= blockNumber) {
+        this.contractEvents.delete(key);
+      }
+    });
+  }
+
+  async getContractEvents(query: ContractEventQuery): Promise<PaginatedContractEvents> {
+    const matching = Array.from(this.contractEvents.values())
+      .filter((event) => !query.eventName || event.eventName === query.eventName)
+      .filter((event) => query.electionId === undefined || event.electionId === query.electionId)
+      .filter((event) => !query.transactionHash || sameHex(event.transactionHash, query.transactionHash))
+      .filter((event) => !query.from || sameHex(event.from, query.from))
+      .filter((event) => !query.voterHash || sameHex(event.args.voterHash ?? "", query.voterHash))
+      .sort(compareEventsDesc);
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      events: matching.slice(offset, offset + query.pageSize),
+      total: matching.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async countContractEvents(query: ContractEventCountQuery, until: Date[]): Promise<ContractEventCounts> {
+    const times = Array.from(this.contractEvents.values())
+      .filter((event) => !query.eventName || event.eventName === query.eventName)
+      .filter((event) => query.electionId === undefined || event.electionId === query.electionId)
+      .map((event) => event.timestamp.getTime());
+    return {
+      total: times.length,
+      until: until.map((date) => times.filter((time) => time <= date.getTime()).length),
+    };
+  }
+
+  async getIndexerCheckpoint(name: string): Promise<IndexerCheckpoint | undefined> {
+    return this.checkpoints.get(name);
+  }
+
+  async setIndexerCheckpoint(name: string, blockNumber: number, blockHash: string): Promise<void> {
+    this.checkpoints.set(name, { name, blockNumber, blockHash, updatedAt: new Date() });
+  }
+
+  async getVoter(walletAddress: string): Promise<Voter | undefined> {
+    return this.voters.get(walletAddress);
+  }
+
+  async getVoterByNinHash(ninHash: string): Promise<Voter | undefined> {
+    return Array.from(this.voters.values()).find((voter) => voter.ninHash === ninHash);
+  }
+
+  async getVoters(): Promise<Voter[]> {
+    return Array.from(this.voters.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+  }
+
+  async createVoter(insertVoter: InsertVoter): Promise<Voter> {
+    if (this.voters.has(insertVoter.walletAddress)) {
+      throw new Error(`Voter ${insertVoter.walletAddress} already exists`);
+    }
+    const voter: Voter = {
+      ...insertVoter,
+      ninCiphertext: insertVoter.ninCiphertext ?? null,
+      constituency: insertVoter.constituency ?? null,
+      verifiedAt: null,
+      createdAt: insertVoter.createdAt ?? new Date(),
+    };
+    this.voters.set(voter.walletAddress, voter);
+    return voter;
+  }
+
+  async createVoters(insertVoters: InsertVoter[]): Promise<Voter[]> {
+    const ninHashes = new Set(Array.from(this.voters.values(), (voter) => voter.ninHash));
+    const created: Voter[] = [];
+    for (const insertVoter of insertVoters) {
+      if (this.voters.has(insertVoter.walletAddress) || ninHashes.has(insertVoter.ninHash)) continue;
+      ninHashes.add(insertVoter.ninHash);
+      created.push(await this.createVoter(insertVoter));
+    }
+    return created;
+  }
+
+  async markVoterVerified(walletAddress: string): Promise<Voter | undefined> {
+    const voter = this.voters.get(walletAddress);
+    if (!voter || voter.verifiedAt) return voter;
+
+    const updated = { ...voter, verifiedAt: new Date() };
+    this.voters.set(walletAddress, updated);
+    return updated;
+  }
+
+  async getParticipation(walletAddress: string, electionId: number): Promise<Participation | undefined> {
+    return this.participations.get(participationKey(walletAddress, electionId));
+  }
+
+  async getParticipations(electionId: number): Promise<Participation[]> {
+    return Array.from(this.participations.values()).filter(
+      (participation) => participation.electionId === electionId,
+    );
+  }
+
+  async recordVote(walletAddress: string, electionId: number, transactionHash: string): Promise<Participation> {
+    return this.upsertParticipation(walletAddress, electionId, {
+      votedAt: new Date(),
+      transactionHash,
+    });
+  }
+
+  async setEligibility(walletAddress: string, electionId: number, eligible: boolean): Promise<Participation> {
+    return this.upsertParticipation(walletAddress, electionId, { eligible });
+  }
+
+  private upsertParticipation(
+    walletAddress: string,
+    electionId: number,
+    changes: Partial<Pick<Participation, "eligible" | "votedAt" | "transactionHash">>,
+  ): Participation {
+    const key = participationKey(walletAddress, electionId);
+    const participation: Participation = {
+      walletAddress,
+      electionId,
+      eligible: true,
+      votedAt: null,
+      transactionHash: null,
+      ...this.participations.get(key),
+      ...changes,
+      updatedAt: new Date(),
+    };
+    this.participations.set(key, participation);
+    return participation;
+  }
+
+  async getRegistrationSettings(): Promise<RegistrationSettings> {
+    return this.registrationSettings;
+  }
+
+  async applyRegistrationTransition(
+    transition: InsertRegistrationTransition,
+  ): Promise<RegistrationSettings | undefined> {
+    const electionId = transition.electionId ?? null;
+    const recorded = this.registrationTransitions.some(
+      (existing) =>
+        electionId !== null && existing.electionId === electionId && existing.kind === transition.kind,
+    );
+    if (recorded) return undefined;
+
+    this.registrationTransitions.push({
+      ...transition,
+      electionId,
+      id: this.registrationTransitions.length + 1,
+      createdAt: new Date(),
+    });
+    this.registrationSettings = {
+      ...this.registrationSettings,
+      locked: transition.locked,
+      updatedBy: transition.actor,
+      updatedAt: new Date(),
+    };
+    return this.registrationSettings;
+  }
+
+  async getRegistrationTransitions(limit: number): Promise<RegistrationTransition[]> {
+    return this.registrationTransitions.slice(-limit).reverse();
+  }
+
+  async getElectionRegistrationTransitions(
+    electionId: number,
+    from: Date,
+    to: Date,
+  ): Promise<RegistrationTransition[]> {
+    return this.registrationTransitions.filter(
+      (transition) =>
+        transition.electionId === electionId ||
+        (transition.kind === "manual" && transition.effectiveAt >= from && transition.effectiveAt <= to),
+    );
+  }
+
+  async getAdminRole(walletAddress: string): Promise<AdminRoleGrant | undefined> {
+    return this.adminRoles.get(walletAddress);
+  }
+
+  async getAdminRoles(): Promise<AdminRoleGrant[]> {
+    return Array.from(this.adminRoles.values()).sort(
+      (a, b) => a.grantedAt.getTime() - b.grantedAt.getTime(),
+    );
+  }
+
+  async grantAdminRole(grant: InsertAdminRole): Promise<AdminRoleGrant> {
+    const record: AdminRoleGrant = { ...grant, grantedAt: new Date() };
+    this.adminRoles.set(grant.walletAddress, record);
+    return record;
+  }
+
+  async revokeAdminRole(walletAddress: string): Promise<boolean> {
+    return this.adminRoles.delete(walletAddress);
+  }
+
+  async getElectionDrafts(): Promise<ElectionDraft[]> {
+    return Array.from(this.electionDrafts.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  async getElectionDraft(id: number): Promise<ElectionDraft | undefined> {
+    return this.electionDrafts.get(id);
+  }
+
+  async getElectionDraftByElectionId(electionId: number): Promise<ElectionDraft | undefined> {
+    return Array.from(this.electionDrafts.values()).find((draft) => draft.electionId === electionId);
+  }
+
+  async createElectionDraft(draft: InsertElectionDraft): Promise<ElectionDraft> {
+    const now = new Date();
+    const record: ElectionDraft = {
+      description: "",
+      startTime: null,
+      endTime: null,
+      submittedBy: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNote: null,
+      electionId: null,
+      transactionHash: null,
+      publishedBy: null,
+      publishedAt: null,
+      metadata: null,
+      metadataHash: null,
+      ...draft,
+      id: this.currentDraftId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.electionDrafts.set(record.id, record);
+    return record;
+  }
+
+  async updateElectionDraft(
+    id: number,
+    expectedStatus: ElectionDraftStatus,
+    changes: Partial<InsertElectionDraft>,
+  ): Promise<ElectionDraft | undefined> {
+    const existing = this.electionDrafts.get(id);
+    if (!existing || existing.status !== expectedStatus) return undefined;
+
+    const record: ElectionDraft = { ...existing, ...changes, updatedAt: new Date() };
+    this.electionDrafts.set(id, record);
+    return record;
+  }
+
+  async deleteElectionDraft(id: number, expectedStatus: ElectionDraftStatus): Promise<boolean> {
+    if (this.electionDrafts.get(id)?.status !== expectedStatus) return false;
+    return this.electionDrafts.delete(id);
+  }
+
+  async putCandidateProfile(
+    hash: string,
+    profile: CandidateProfile,
+    createdBy: string,
+  ): Promise<CandidateProfileRecord> {
+    const existing = this.candidateProfiles.get(hash);
+    if (existing) return existing;
+
+    const record: CandidateProfileRecord = { hash, profile, createdBy, createdAt: new Date() };
+    this.candidateProfiles.set(hash, record);
+    return record;
+  }
+
+  async getCandidateProfile(hash: string): Promise<CandidateProfileRecord | undefined> {
+    return this.candidateProfiles.get(hash);
+  }
+
+  async trackTransaction(transaction: InsertTrackedTransaction): Promise<TrackedTransaction> {
+    const existing = this.trackedTransactions.get(transaction.hash);
+    if (existing) return existing;
+
+    const record: TrackedTransaction = {
+      ...transaction,
+      electionId: transaction.electionId ?? null,
+      draftId: transaction.draftId ?? null,
+      submittedBy: transaction.submittedBy ?? null,
+      status: transaction.status ?? "pending",
+      minedHash: null,
+      blockNumber: null,
+      committedAt: null,
+      commitError: null,
+      submittedAt: transaction.submittedAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+    this.trackedTransactions.set(record.hash, record);
+    return record;
+  }
+
+  async getTrackedTransaction(hash: string): Promise<TrackedTransaction | undefined> {
+    return this.trackedTransactions.get(hash);
+  }
+
+  async getTrackedTransactions(filter: { from?: string; unsettled?: boolean }): Promise<TrackedTransaction[]> {
+    return Array.from(this.trackedTransactions.values())
+      .filter((transaction) => !filter.from || transaction.from === filter.from)
+      .filter((transaction) => !filter.unsettled || isUnsettled(transaction))
+      .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+  }
+
+  async updateTrackedTransaction(
+    hash: string,
+    changes: TrackedTransactionChanges,
+  ): Promise<TrackedTransaction | undefined> {
+    const existing = this.trackedTransactions.get(hash);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...changes, updatedAt: new Date() };
+    this.trackedTransactions.set(hash, updated);
+    return updated;
+  }
+
+  async recordRelayedBallot(ballot: InsertRelayedBallot): Promise<RelayedBallot> {
+    const record: RelayedBallot = {
+      ...ballot,
+      id: this.relayedBallots.length + 1,
+      relayedAt: ballot.relayedAt ?? new Date(),
+    };
+    this.relayedBallots.push(record);
+    return record;
+  }
+
+  async countRelayedBallots(voterAddress: string, electionId: number): Promise<number> {
+    return this.relayedBallots.filter(
+      (ballot) => ballot.voterAddress === voterAddress && ballot.electionId === electionId,
+    ).length;
+  }
+
+  async getRelayedBallotCost(since: Date): Promise<bigint> {
+    return this.relayedBallots
+      .filter((ballot) => ballot.relayedAt >= since)
+      .reduce((total, ballot) => total + BigInt(ballot.maxCost), BigInt(0));
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+
+  constructor(connectionString: string) {
+    this.db = createDb(connectionString);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async insertContractEvents(events: InsertContractEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await this.db.insert(contractEvents).values(events).onConflictDoNothing();
+  }
+
+  async deleteContractEventsFromBlock(blockNumber: number): Promise<void> {
+    await this.db.delete(contractEvents).where(gte(contractEvents.blockNumber, blockNumber));
+  }
+
+  async getContractEvents(query: ContractEventQuery): Promise<PaginatedContractEvents> {
+    const where = and(
+      query.eventName ? eq(contractEvents.eventName, query.eventName) : undefined,
+      query.electionId !== undefined ? eq(contractEvents.electionId, query.electionId) : undefined,
+      query.transactionHash
+        ? eq(sql`lower(${contractEvents.transactionHash})`, query.transactionHash.toLowerCase())
+        : undefined,
+      query.from ? eq(sql`lower(${contractEvents.from})`, query.from.toLowerCase()) : undefined,
+      query.voterHash
+        ? eq(sql`lower(${contractEvents.args} ->> 'voterHash')`, query.voterHash.toLowerCase())
+        : undefined,
+    );
+
+    const events = await this.db
+      .select()
+      .from(contractEvents)
+      .where(where)
+      .orderBy(desc(contractEvents.blockNumber), desc(contractEvents.logIndex))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ total }] = await this.db.select({ total: count() }).from(contractEvents).where(where);
+
+    return { events, total, page: query.page, pageSize: query.pageSize };
+  }
+
+  // One pass over the matching rows, with a filtered count per date
+  async countContractEvents(query: ContractEventCountQuery, until: Date[]): Promise<ContractEventCounts> {
+    const columns: Record<string, SQL<number>> = { total: sql<number>`count(*)`.mapWith(Number) };
+    until.forEach((date, i) => {
+      columns[`until${i}`] = sql<number>`count(*) filter (where ${lte(contractEvents.timestamp, date)})`.mapWith(Number);
+    });
+
+    const [row] = await this.db
+      .select(columns)
+      .from(contractEvents)
+      .where(
+        and(
+          query.eventName ? eq(contractEvents.eventName, query.eventName) : undefined,
+          query.electionId !== undefined ? eq(contractEvents.electionId, query.electionId) : undefined,
+        ),
+      );
+    return { total: row.total, until: until.map((_, i) => row[`until${i}`]) };
+  }
+
+  async getIndexerCheckpoint(name: string): Promise<IndexerCheckpoint | undefined> {
+    const [checkpoint] = await this.db
+      .select()
+      .from(indexerCheckpoints)
+      .where(eq(indexerCheckpoints.name, name));
+    return checkpoint;
+  }
+
+  async setIndexerCheckpoint(name: string, blockNumber: number, blockHash: string): Promise<void> {
+    await this.db
+      .insert(indexerCheckpoints)
+      .values({ name, blockNumber, blockHash, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: indexerCheckpoints.name,
+        set: { blockNumber, blockHash, updatedAt: new Date() },
+      });
+  }
+
+  async getVoter(walletAddress: string): Promise<Voter | undefined> {
+    const [voter] = await this.db.select().from(voters).where(eq(voters.walletAddress, walletAddress));
+    return voter;
+  }
+
+  async getVoterByNinHash(ninHash: string): Promise<Voter | undefined> {
+    const [voter] = await this.db.select().from(voters).where(eq(voters.ninHash, ninHash));
+    return voter;
+  }
+
+  async getVoters(): Promise<Voter[]> {
+    return this.db.select().from(voters).orderBy(desc(voters.createdAt));
+  }
+
+  async createVoter(insertVoter: InsertVoter): Promise<Voter> {
+    const [voter] = await this.db.insert(voters).values(insertVoter).returning();
+    return voter;
+  }
+
+  async createVoters(insertVoters: InsertVoter[]): Promise<Voter[]> {
+    if (insertVoters.length === 0) return [];
+    return this.db.insert(voters).values(insertVoters).onConflictDoNothing().returning();
+  }
+
+  async markVoterVerified(walletAddress: string): Promise<Voter | undefined> {
+    await this.db
+      .update(voters)
+      .set({ verifiedAt: new Date() })
+      .where(and(eq(voters.walletAddress, walletAddress), isNull(voters.verifiedAt)));
+    return this.getVoter(walletAddress);
+  }
+
+  async getParticipation(walletAddress: string, electionId: number): Promise<Participation | undefined> {
+    const [participation] = await this.db
+      .select()
+      .from(participations)
+      .where(
+        and(
+          eq(participations.walletAddress, walletAddress),
+          eq(participations.electionId, electionId),
+        ),
+      );
+    return participation;
+  }
+
+  async getParticipations(electionId: number): Promise<Participation[]> {
+    return this.db.select().from(participations).where(eq(participations.electionId, electionId));
+  }
+
+  async recordVote(walletAddress: string, electionId: number, transactionHash: string): Promise<Participation> {
+    const values = { votedAt: new Date(), transactionHash, updatedAt: new Date() };
+    const [participation] = await this.db
+      .insert(participations)
+      .values({ walletAddress, electionId, ...values })
+      .onConflictDoUpdate({
+        target: [participations.walletAddress, participations.electionId],
+        set: values,
+      })
+      .returning();
+    return participation;
+  }
+
+  async setEligibility(walletAddress: string, electionId: number, eligible: boolean): Promise<Participation> {
+    const values = { eligible, updatedAt: new Date() };
+    const [participation] = await this.db
+      .insert(participations)
+      .values({ walletAddress, electionId, ...values })
+      .onConflictDoUpdate({
+        target: [participations.walletAddress, participations.electionId],
+        set: values,
+      })
+      .returning();
+    return participation;
+  }
+
+  async getRegistrationSettings(): Promise<RegistrationSettings> {
+    const [settings] = await this.db
+      .select()
+      .from(registrationSettings)
+      .where(eq(registrationSettings.id, REGISTRATION_SETTINGS_ID));
+    return settings ?? defaultRegistrationSettings();
+  }
+
+  async applyRegistrationTransition(
+    transition: InsertRegistrationTransition,
+  ): Promise<RegistrationSettings | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [recorded] = await tx
+        .insert(registrationTransitions)
+        .values(transition)
+        .onConflictDoNothing()
+        .returning();
+      if (!recorded) return undefined;
+
+      const values = { locked: transition.locked, updatedBy: transition.actor, updatedAt: new Date() };
+      const [settings] = await tx
+        .insert(registrationSettings)
+        .values({ id: REGISTRATION_SETTINGS_ID, ...values })
+        .onConflictDoUpdate({ target: registrationSettings.id, set: values })
+        .returning();
+      return settings;
+    });
+  }
+
+  async getRegistrationTransitions(limit: number): Promise<RegistrationTransition[]> {
+    return this.db
+      .select()
+      .from(registrationTransitions)
+      .orderBy(desc(registrationTransitions.id))
+      .limit(limit);
+  }
+
+  async getElectionRegistrationTransitions(
+    electionId: number,
+    from: Date,
+    to: Date,
+  ): Promise<RegistrationTransition[]> {
+    return this.db
+      .select()
+      .from(registrationTransitions)
+      .where(
+        or(
+          eq(registrationTransitions.electionId, electionId),
+          and(
+            eq(registrationTransitions.kind, "manual"),
+            gte(registrationTransitions.effectiveAt, from),
+            lte(registrationTransitions.effectiveAt, to),
+          ),
+        ),
+      )
+      .orderBy(registrationTransitions.id);
+  }
+
+  async getAdminRole(walletAddress: string): Promise<AdminRoleGrant | undefined> {
+    const [grant] = await this.db
+      .select()
+      .from(adminRoles)
+      .where(eq(adminRoles.walletAddress, walletAddress));
+    return grant;
+  }
+
+  async getAdminRoles(): Promise<AdminRoleGrant[]> {
+    return this.db.select().from(adminRoles).orderBy(adminRoles.grantedAt);
+  }
+
+  async grantAdminRole(grant: InsertAdminRole): Promise<AdminRoleGrant> {
+    const values = { role: grant.role, grantedBy: grant.grantedBy, grantedAt: new Date() };
+    const [record] = await this.db
+      .insert(adminRoles)
+      .values({ walletAddress: grant.walletAddress, ...values })
+      .onConflictDoUpdate({ target: adminRoles.walletAddress, set: values })
+      .returning();
+    return record;
+  }
+
+  async revokeAdminRole(walletAddress: string): Promise<boolean> {
+    const removed = await this.db
+      .delete(adminRoles)
+      .where(eq(adminRoles.walletAddress, walletAddress))
+      .returning({ walletAddress: adminRoles.walletAddress });
+    return removed.length > 0;
+  }
+
+  async getElectionDrafts(): Promise<ElectionDraft[]> {
+    return this.db.select().from(electionDrafts).orderBy(desc(electionDrafts.updatedAt));
+  }
+
+  async getElectionDraft(id: number): Promise<ElectionDraft | undefined> {
+    const [draft] = await this.db.select().from(electionDrafts).where(eq(electionDrafts.id, id));
+    return draft;
+  }
+
+  async getElectionDraftByElectionId(electionId: number): Promise<ElectionDraft | undefined> {
+    const [draft] = await this.db.select().from(electionDrafts).where(eq(electionDrafts.electionId, electionId));
+    return draft;
+  }
+
+  async createElectionDraft(draft: InsertElectionDraft): Promise<ElectionDraft> {
+    const [record] = await this.db.insert(electionDrafts).values(draft).returning();
+    return record;
+  }
+
+  async updateElectionDraft(
+    id: number,
+    expectedStatus: ElectionDraftStatus,
+    changes: Partial<InsertElectionDraft>,
+  ): Promise<ElectionDraft | undefined> {
+    const [record] = await this.db
+      .update(electionDrafts)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(electionDrafts.id, id), eq(electionDrafts.status, expectedStatus)))
+      .returning();
+    return record;
+  }
+
+  async deleteElectionDraft(id: number, expectedStatus: ElectionDraftStatus): Promise<boolean> {
+    const removed = await this.db
+      .delete(electionDrafts)
+      .where(and(eq(electionDrafts.id, id), eq(electionDrafts.status, expectedStatus)))
+      .returning({ id: electionDrafts.id });
+    return removed.length > 0;
+  }
+
+  async putCandidateProfile(
+    hash: string,
+    profile: CandidateProfile,
+    createdBy: string,
+  ): Promise<CandidateProfileRecord> {
+    await this.db.insert(candidateProfiles).values({ hash, profile, createdBy }).onConflictDoNothing();
+    return (await this.getCandidateProfile(hash))!;
+  }
+
+  async getCandidateProfile(hash: string): Promise<CandidateProfileRecord | undefined> {
+    const [record] = await this.db.select().from(candidateProfiles).where(eq(candidateProfiles.hash, hash));
+    return record;
+  }
+
+  async trackTransaction(transaction: InsertTrackedTransaction): Promise<TrackedTransaction> {
+    await this.db.insert(trackedTransactions).values(transaction).onConflictDoNothing();
+    return (await this.getTrackedTransaction(transaction.hash))!;
+  }
+
+  async getTrackedTransaction(hash: string): Promise<TrackedTransaction | undefined> {
+    const [record] = await this.db.select().from(trackedTransactions).where(eq(trackedTransactions.hash, hash));
+    return record;
+  }
+
+  async getTrackedTransactions(filter: { from?: string; unsettled?: boolean }): Promise<TrackedTransaction[]> {
+    const unsettled = or(
+      eq(trackedTransactions.status, "pending"),
+      and(
+        eq(trackedTransactions.status, "confirmed"),
+        isNull(trackedTransactions.committedAt),
+        isNull(trackedTransactions.commitError),
+      ),
+    );
+    return this.db
+      .select()
+      .from(trackedTransactions)
+      .where(
+        and(
+          filter.from ? eq(trackedTransactions.from, filter.from) : undefined,
+          filter.unsettled ? unsettled : undefined,
+        ),
+      )
+      .orderBy(desc(trackedTransactions.submittedAt));
+  }
+
+  async updateTrackedTransaction(
+    hash: string,
+    changes: TrackedTransactionChanges,
+  ): Promise<TrackedTransaction | undefined> {
+    const [record] = await this.db
+      .update(trackedTransactions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(trackedTransactions.hash, hash))
+      .returning();
+    return record;
+  }
+
+  async recordRelayedBallot(ballot: InsertRelayedBallot): Promise<RelayedBallot> {
+    const [record] = await this.db.insert(relayedBallots).values(ballot).returning();
+    return record;
+  }
+
+  async countRelayedBallots(voterAddress: string, electionId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ value: count() })
+      .from(relayedBallots)
+      .where(and(eq(relayedBallots.voterAddress, voterAddress), eq(relayedBallots.electionId, electionId)));
+    return row?.value ?? 0;
+  }
+
+  async getRelayedBallotCost(since: Date): Promise<bigint> {
+    const [row] = await this.db
+      .select({ total: sql<string>`coalesce(sum(${relayedBallots.maxCost}::numeric), 0)::text` })
+      .from(relayedBallots)
+      .where(gte(relayedBallots.relayedAt, since));
+    return BigInt(row?.total ?? "0");
+  }
 }
 
-export const storage = new MemStorage();
+// Fall back to in-memory storage when no database is provisioned (local dev, tests)
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(process.env.DATABASE_URL)
+  : new MemStorage();
@@ -0,0 +1,203 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { ethers } from "ethers";
+import {
+  reconcileTally,
+  type RecordedVote,
+  type ReplayedVote,
+  type SignedTallyReport,
+  type TallyReport,
+} from "@shared/tally";
+import { canonicalize } from "@shared/canonical";
+import { csvCell, type CsvValue } from "@shared/csv";
+import { chainReader, type ChainReader } from "./chain";
+import { getIndexerOptions } from "./indexer";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+export class TallyError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "TallyError";
+  }
+}
+
+export interface TallyOptions {
+  // Largest eth_getLogs range requested at once (public RPCs reject wide ranges)
+  batchSize: number;
+}
+
+export interface TallyBlockRange {
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+function getTallySecret(): Buffer {
+  if (process.env.TALLY_REPORT_SECRET) {
+    return Buffer.from(process.env.TALLY_REPORT_SECRET, "utf8");
+  }
+  log("TALLY_REPORT_SECRET not set, tally reports can only be verified until a restart", "tally");
+  return randomBytes(32);
+}
+
+// Recounts an election from its VoteCast logs and signs the reconciliation. Contract
+// counters are read at the last replayed block, so a vote landing mid-run can't show up
+// as a mismatch.
+export class TallyReconciler {
+  constructor(
+    private readonly reader: ChainReader,
+    private readonly store: IStorage,
+    private readonly secret: Buffer,
+    readonly options: TallyOptions,
+  ) {}
+
+  async reconcile(electionId: number, range: TallyBlockRange = {}): Promise<SignedTallyReport> {
+    const election = await this.reader.getElectionInfo(electionId);
+    if (!election) {
+      throw new TallyError(`Election ${electionId} not found`, 404);
+    }
+
+    const toBlock = range.toBlock ?? (await this.reader.provider.getBlockNumber());
+    const fromBlock = range.fromBlock ?? (await this.findElectionStartBlock(electionId));
+    if (fromBlock > toBlock) {
+      throw new TallyError(`Block range ${fromBlock}-${toBlock} is empty`, 400);
+    }
+
+    const votes = await this.replayVotes(electionId, fromBlock, toBlock);
+    const [result, totalVotes] = await Promise.all([
+      this.reader.contract.getAllCandidates(electionId, { blockTag: toBlock }),
+      this.reader.contract.getTotalVotes(electionId, { blockTag: toBlock }),
+    ]);
+    const recordedVotes: RecordedVote[] = (await this.store.getParticipations(electionId))
+      .filter((participation) => participation.transactionHash)
+      .map((participation) => ({
+        walletAddress: participation.walletAddress,
+        transactionHash: participation.transactionHash!,
+      }));
+
+    const reconciliation = reconcileTally({
+      electionId,
+      candidates: result.names.map((name: string, index: number) => ({
+        index,
+        name,
+        party: result.parties[index],
+        votes: Number(result.votesCounts[index]),
+      })),
+      totalVotes: Number(totalVotes),
+      votes,
+      recordedVotes,
+    });
+
+    const report: TallyReport = {
+      ...reconciliation,
+      generatedAt: new Date().toISOString(),
+      chainId: this.reader.config.network.chainId,
+      contractAddress: this.reader.config.contractAddress,
+      fromBlock,
+      toBlock,
+    };
+    return { report, signature: this.sign(report) };
+  }
+
+  // True when the report was signed by this server and hasn't been edited since
+  verify(signed: SignedTallyReport): boolean {
+    const expected = Buffer.from(this.sign(signed.report));
+    const actual = Buffer.from(signed.signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private sign(report: TallyReport): string {
+    return createHmac("sha256", this.secret).update(canonicalize(report)).digest("base64url");
+  }
+
+  // Votes can't predate their election; the indexer usually knows where it was created
+  private async findElectionStartBlock(electionId: number): Promise<number> {
+    const { events } = await this.store.getContractEvents({
+      page: 1,
+      pageSize: 1,
+      eventName: "ElectionCreated",
+      electionId,
+    });
+    return events[0]?.blockNumber ?? (await this.reader.getDeploymentBlock());
+  }
+
+  private async replayVotes(electionId: number, fromBlock: number, toBlock: number): Promise<ReplayedVote[]> {
+    const contractInterface = this.reader.contract.interface;
+    const topics = [
+      contractInterface.getEvent("VoteCast")!.topicHash,
+      // electionId is the indexed topic, so the node filters by election
+      ethers.zeroPadValue(ethers.toBeHex(electionId), 32),
+    ];
+
+    const votes: ReplayedVote[] = [];
+    for (let start = fromBlock; start <= toBlock; start += this.options.batchSize) {
+      const end = Math.min(toBlock, start + this.options.batchSize - 1);
+      const logs = await this.reader.provider.getLogs({
+        address: this.reader.config.contractAddress,
+        fromBlock: start,
+        toBlock: end,
+        topics,
+      });
+
+      for (const entry of logs) {
+        const parsed = contractInterface.parseLog({ topics: [...entry.topics], data: entry.data });
+        if (!parsed) continue;
+        votes.push({
+          transactionHash: entry.transactionHash,
+          blockNumber: entry.blockNumber,
+          logIndex: entry.index,
+          candidateIndex: Number(parsed.args.candidateIndex),
+          voterHash: parsed.args.voterHash as string,
+        });
+      }
+    }
+    return votes;
+  }
+}
+
+// Three CSV blocks (summary, candidates, discrepancies) separated by blank lines. The
+// signature is the JSON report's; verify the JSON form.
+export function tallyReportToCsv({ report, signature }: SignedTallyReport): string {
+  const rows = (cells: CsvValue[][]) =>
+    cells.map((row) => row.map(csvCell).join(","));
+
+  return [
+    ...rows([
+      ["field", "value"],
+      ["election_id", report.electionId],
+      ["chain_id", report.chainId],
+      ["contract_address", report.contractAddress],
+      ["from_block", report.fromBlock],
+      ["to_block", report.toBlock],
+      ["generated_at", report.generatedAt],
+      ["on_chain_total", report.totals.onChain],
+      ["candidate_sum", report.totals.candidateSum],
+      ["replayed_total", report.totals.replayed],
+      ["unique_voter_hashes", report.totals.uniqueVoterHashes],
+      ["recorded_participations", report.totals.recordedParticipations],
+      ["verified", report.verified],
+      ["signature", signature],
+    ]),
+    "",
+    ...rows([
+      ["candidate_index", "name", "party", "on_chain_votes", "replayed_votes"],
+      ...report.candidates.map((line) => [line.index, line.name, line.party, line.onChainVotes, line.replayedVotes]),
+    ]),
+    "",
+    ...rows([
+      ["kind", "severity", "message", "transaction_hashes"],
+      ...report.discrepancies.map((discrepancy) => [
+        discrepancy.kind,
+        discrepancy.severity,
+        discrepancy.message,
+        discrepancy.transactionHashes?.join(" "),
+      ]),
+    ]),
+  ].join("\n") + "\n";
+}
+
+export const tally = new TallyReconciler(chainReader, storage, getTallySecret(), {
+  batchSize: getIndexerOptions().batchSize,
+});
@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TrackedTransaction } from "@shared/schema";
+import type { ChainReader } from "./chain";
+import { MemStorage } from "./storage";
+import { TransactionError, TransactionTracker, type TrackTransactionInput } from "./transactions";
+
+const CONTRACT = "0x00000000000000000000000000000000000000c0";
+const SENDER = "0x00000000000000000000000000000000000000a1";
+
+const report = (hash: string, overrides: Partial<TrackTransactionInput> = {}): TrackTransactionInput => ({
+  hash,
+  from: SENDER,
+  nonce: 0,
+  to: CONTRACT,
+  data: "0xc0ffee",
+  value: "0",
+  startBlock: 90,
+  purpose: "castVote",
+  electionId: 1,
+  ...overrides,
+});
+
+// Every known transaction is mined at block 95 of a 100-block chain, except `broken`, whose
+// receipt lookup fails
+function createTracker(known: TrackTransactionInput[], committed: string[] = [], broken = "") {
+  const find = (hash: string) => known.find((transaction) => transaction.hash === hash);
+  const provider = {
+    getTransaction: async (hash: string) => {
+      const transaction = find(hash);
+      return transaction ? { ...transaction, value: BigInt(transaction.value) } : null;
+    },
+    getTransactionReceipt: async (hash: string) => {
+      if (hash === broken) throw new Error("RPC timeout");
+      return find(hash) ? { hash, blockNumber: 95, status: 1 } : null;
+    },
+    getBlockNumber: async () => 100,
+  };
+  const reader = {
+    provider,
+    config: { contractAddress: CONTRACT, network: { chainId: 31337 } },
+  } as unknown as Pick<ChainReader, "config" | "provider">;
+  const store = new MemStorage();
+
+  const record = async (transaction: TrackedTransaction) => {
+    committed.push(transaction.hash);
+  };
+  const tracker = new TransactionTracker(
+    store,
+    reader,
+    { castVote: record, createElection: record },
+    { pollIntervalMs: 1000, confirmations: 2, dropAfterMs: 60_000, maxUnsettledPerSender: 2 },
+  );
+  return { store, tracker };
+}
+
+const rejectsWith = (status: number) => (error: unknown) => error instanceof TransactionError && error.status === status;
+
+test("only transactions the network knows, as they were sent, are tracked", async () => {
+  const { tracker } = createTracker([report("0xreal")]);
+
+  await assert.rejects(tracker.track(report("0xmadeup"), null), rejectsWith(422));
+  await assert.rejects(tracker.track(report("0xreal", { from: "0x00000000000000000000000000000000000000b2" }), null), rejectsWith(422));
+  await assert.rejects(tracker.track(report("0xreal", { data: "0xdeadbeef" }), null), rejectsWith(422));
+  await assert.rejects(tracker.track(report("0xreal", { to: SENDER }), null), rejectsWith(422));
+
+  const tracked = await tracker.track(report("0xreal"), null);
+  assert.equal(tracked.status, "pending");
+  assert.equal(tracked.chainId, 31337);
+});
+
+test("a sender can only have a few unsettled transactions", async () => {
+  const known = [report("0x1"), report("0x2", { nonce: 1 }), report("0x3", { nonce: 2 })];
+  const { tracker } = createTracker(known);
+
+  await tracker.track(known[0], null);
+  await tracker.track(known[1], null);
+  await assert.rejects(tracker.track(known[2], null), rejectsWith(429));
+});
+
+test("one failing check doesn't hold up the rest of the tick", async () => {
+  const committed: string[] = [];
+  const known = [report("0x1"), report("0x2", { from: "0x00000000000000000000000000000000000000b2" })];
+  const { store, tracker } = createTracker(known, committed, "0x1");
+
+  await store.trackTransaction({ ...known[0], chainId: 31337, status: "pending", submittedBy: null });
+  await store.trackTransaction({ ...known[1], chainId: 31337, status: "pending", submittedBy: null });
+  await tracker.tick();
+
+  assert.deepEqual(committed, ["0x2"]);
+  assert.equal((await store.getTrackedTransaction("0x1"))?.status, "pending");
+  assert.equal((await store.getTrackedTransaction("0x2"))?.status, "confirmed");
+});
@@ -0,0 +1,239 @@
+import type { ethers } from "ethers";
+import type { InsertTrackedTransaction, TrackedTransaction } from "@shared/schema";
+import {
+  checkTransaction,
+  TRANSACTION_CONFIRMATIONS,
+  TRANSACTION_DROP_AFTER_MS,
+  type TrackedTransactionPurpose,
+} from "@shared/transactions";
+import { chainReader, type ChainReader } from "./chain";
+import { electionDrafts, ElectionDraftError } from "./drafts";
+import { participations, ParticipationError } from "./participations";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+// Server side of the transaction tracker (shared/transactions.ts). Browsers report what
+// they send; a polling loop follows every unsettled transaction to its end and commits the
+// off-chain side effect (the participation, the draft publication) once it is confirmed,
+// whether or not the browser that sent it is still open.
+
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "TransactionError";
+  }
+}
+
+export interface TransactionTrackerOptions {
+  pollIntervalMs: number;
+  confirmations: number;
+  dropAfterMs: number;
+  // Unsettled transactions one sender may have tracked at once
+  maxUnsettledPerSender: number;
+}
+
+export function getTransactionTrackerOptions(): TransactionTrackerOptions {
+  return {
+    pollIntervalMs: Number(process.env.TX_TRACKER_POLL_INTERVAL ?? 15000),
+    confirmations: Number(process.env.TX_CONFIRMATIONS ?? TRANSACTION_CONFIRMATIONS),
+    dropAfterMs: TRANSACTION_DROP_AFTER_MS,
+    maxUnsettledPerSender: 5,
+  };
+}
+
+// Off-chain work done once a transaction of a purpose is confirmed. Throwing a participation
+// or draft error records it on the transaction; anything else is retried on the next tick.
+export type TransactionEffects = Record<TrackedTransactionPurpose, (transaction: TrackedTransaction) => Promise<void>>;
+
+const defaultEffects: TransactionEffects = {
+  castVote: async (transaction) => {
+    // advance() only commits transactions it found confirmed. A relayed ballot is recorded
+    // for the voter it was relayed for rather than the relayer that sent it.
+    await participations.recordVote(transaction.minedHash!, {
+      confirmations: 0,
+      voter: transaction.submittedBy ?? undefined,
+    });
+  },
+  createElection: async (transaction) => {
+    if (transaction.draftId === null) return;
+    await electionDrafts.publish(transaction.draftId, transaction.minedHash!, transaction.submittedBy ?? transaction.from);
+  },
+};
+
+export type TrackTransactionInput = Omit<InsertTrackedTransaction, "chainId" | "status" | "submittedBy" | "submittedAt">;
+
+export class TransactionTracker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private ticking = false;
+
+  constructor(
+    private readonly store: IStorage,
+    private readonly reader: Pick<ChainReader, "config" | "provider">,
+    private readonly effects: TransactionEffects,
+    readonly options: TransactionTrackerOptions,
+  ) {}
+
+  // `actor` is the admin reporting an election transaction; votes need none
+  async track(input: TrackTransactionInput, actor: string | null): Promise<TrackedTransaction> {
+    if (input.to.toLowerCase() !== this.reader.config.contractAddress.toLowerCase()) {
+      throw new TransactionError("Only transactions to the voting contract are tracked.", 422);
+    }
+
+    const existing = await this.store.getTrackedTransaction(input.hash);
+    if (existing) return existing;
+
+    await this.verifyOnChain(input);
+
+    const from = input.from.toLowerCase();
+    const unsettled = await this.store.getTrackedTransactions({ from, unsettled: true });
+    if (unsettled.length >= this.options.maxUnsettledPerSender) {
+      throw new TransactionError("Too many unconfirmed transactions from this wallet.", 429);
+    }
+
+    return this.trackOwn(input, actor);
+  }
+
+  // Transactions the server sent itself (relayed ballots, server/relayer.ts) skip the checks
+  // above: there is nothing to verify, and the relayer has its own quotas. `actor` is the
+  // voter the ballot was relayed for.
+  async trackOwn(input: TrackTransactionInput, actor: string | null): Promise<TrackedTransaction> {
+    return this.store.trackTransaction({
+      ...input,
+      from: input.from.toLowerCase(),
+      to: input.to.toLowerCase(),
+      chainId: this.reader.config.network.chainId,
+      status: "pending",
+      submittedBy: actor,
+    });
+  }
+
+  async get(hash: string): Promise<TrackedTransaction> {
+    const transaction = await this.store.getTrackedTransaction(hash);
+    if (!transaction) {
+      throw new TransactionError("Transaction is not tracked.", 404);
+    }
+    return transaction;
+  }
+
+  async list(from: string): Promise<TrackedTransaction[]> {
+    return this.store.getTrackedTransactions({ from: from.toLowerCase() });
+  }
+
+  // Look at the chain now instead of waiting for the next tick, and commit the side effect if
+  // the transaction is confirmed
+  async check(hash: string): Promise<TrackedTransaction> {
+    return this.advance(await this.get(hash));
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      // One transaction failing (an RPC error, a side effect that keeps throwing) must not
+      // hold up the ones after it
+      for (const transaction of await this.store.getTrackedTransactions({ unsettled: true })) {
+        try {
+          await this.advance(transaction);
+        } catch (error: any) {
+          log(`${transaction.purpose} ${transaction.hash} check failed: ${error?.message || error}`, "transactions");
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Reports are unauthenticated, so only transactions a node actually knows about are taken,
+  // and only as they were sent. This also makes the per-sender cap hold: filling it takes
+  // real transactions from that wallet.
+  private async verifyOnChain(input: TrackTransactionInput): Promise<void> {
+    const sent = await this.reader.provider.getTransaction(input.hash);
+    if (!sent) {
+      throw new TransactionError("The network doesn't know this transaction yet; report it again once it is sent.", 422);
+    }
+
+    const matches =
+      sent.from.toLowerCase() === input.from.toLowerCase() &&
+      sent.nonce === input.nonce &&
+      (sent.to ?? "").toLowerCase() === input.to.toLowerCase() &&
+      sent.data.toLowerCase() === input.data.toLowerCase() &&
+      sent.value.toString() === input.value;
+    if (!matches) {
+      throw new TransactionError("The reported transaction doesn't match the one on the network.", 422);
+    }
+  }
+
+  private async advance(transaction: TrackedTransaction): Promise<TrackedTransaction> {
+    let current = transaction;
+
+    if (current.status === "pending") {
+      const check = await checkTransaction(this.reader.provider as ethers.Provider, current, {
+        contractAddress: this.reader.config.contractAddress,
+        confirmations: this.options.confirmations,
+        dropAfterMs: this.options.dropAfterMs,
+      });
+      if (check.status !== current.status || check.minedHash !== current.minedHash) {
+        current =
+          (await this.store.updateTrackedTransaction(current.hash, {
+            status: check.status,
+            minedHash: check.minedHash,
+            blockNumber: check.blockNumber,
+          })) ?? current;
+        if (check.status !== "pending") {
+          log(`${current.purpose} ${current.hash} ${check.status}`, "transactions");
+        }
+      }
+    }
+
+    if (current.status === "confirmed" && !current.committedAt && !current.commitError) {
+      try {
+        await this.effects[current.purpose](current);
+        current = (await this.store.updateTrackedTransaction(current.hash, { committedAt: new Date() })) ?? current;
+      } catch (error) {
+        if (!(error instanceof ParticipationError || error instanceof ElectionDraftError)) throw error;
+        log(`${current.purpose} ${current.hash} not committed: ${error.message}`, "transactions");
+        current = (await this.store.updateTrackedTransaction(current.hash, { commitError: error.message })) ?? current;
+      }
+    }
+
+    return current;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.tick();
+      } catch (error: any) {
+        log(`tick failed: ${error?.message || error}`, "transactions");
+      }
+
+      if (this.running) this.schedule(this.options.pollIntervalMs);
+    }, delayMs);
+  }
+}
+
+export const transactionTracker = new TransactionTracker(
+  storage,
+  chainReader,
+  defaultEffects,
+  getTransactionTrackerOptions(),
+);
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { IdentityService } from "./identity";
+import { MemStorage } from "./storage";
+import { VoterImportError, VoterImportService } from "./voter-import";
+import { CSV_CONTENT_TYPE } from "./spreadsheet";
+
+const wallet = (i: number) => `0x${i.toString(16).padStart(40, "0")}`;
+const nin = (i: number) => String(10000000000 + i);
+
+function roll(count: number, extra: string[] = []): Buffer {
+  const lines = Array.from({ length: count }, (_, i) => `${nin(i + 1)},${wallet(i + 1)},Ikeja`);
+  return Buffer.from(["NIN,Wallet address,Constituency", ...lines, ...extra].join("\n"));
+}
+
+function createService() {
+  const store = new MemStorage();
+  const identity = new IdentityService(store, { pepper: Buffer.from("test pepper"), encryptionKey: null });
+  return { store, identity, service: new VoterImportService(store, identity) };
+}
+
+test("imports a roll larger than one batch", async () => {
+  const { store, service } = createService();
+  const report = await service.import(roll(1200), CSV_CONTENT_TYPE, { dryRun: false, actor: "test" });
+
+  assert.equal(report.counts.imported, 1200);
+  assert.equal((await store.getVoters()).length, 1200);
+  assert.equal((await store.getVoter(wallet(1200)))?.constituency, "Ikeja");
+});
+
+test("a dry run writes nothing and reports problem rows", async () => {
+  const { store, service } = createService();
+  const report = await service.import(
+    roll(2, [`${nin(1)},${wallet(9)},Ikeja`, `123,${wallet(10)},Ikeja`]),
+    CSV_CONTENT_TYPE,
+    { dryRun: true, actor: "test" },
+  );
+
+  assert.deepEqual(report.counts, { valid: 2, imported: 0, invalid: 1, duplicate: 1 });
+  assert.equal((await store.getVoters()).length, 0);
+});
+
+test("rows registered by someone else during the import are reported as duplicates", async () => {
+  const { store, identity, service } = createService();
+  // Registered after the import read the registry
+  const getVoters = store.getVoters.bind(store);
+  store.getVoters = async () => {
+    const voters = await getVoters();
+    await identity.register(wallet(2), nin(2));
+    return voters;
+  };
+
+  const report = await service.import(roll(3), CSV_CONTENT_TYPE, { dryRun: false, actor: "test" });
+  assert.deepEqual(
+    report.rows.map((row) => row.status),
+    ["imported", "duplicate", "imported"],
+  );
+});
+
+test("refuses sheets with more rows than the import limit", async () => {
+  const { service } = createService();
+  await assert.rejects(
+    service.import(roll(20001), CSV_CONTENT_TYPE, { dryRun: true, actor: "test" }),
+    (error: unknown) => error instanceof VoterImportError && error.status === 413,
+  );
+});
@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { readCsvTable } from "@shared/csv";
+import {
+  MAX_VOTER_IMPORT_ROWS,
+  VOTER_ROLL_COLUMNS,
+  type VoterImportReport,
+  type VoterImportRow,
+  type VoterImportRowStatus,
+} from "@shared/voter-import";
+import {
+  addressSchema,
+  identity,
+  maskNin,
+  ninLastDigits,
+  ninSchema,
+  normalizeWalletAddress,
+  type IdentityService,
+} from "./identity";
+import { readSpreadsheet, SpreadsheetError } from "./spreadsheet";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+// Pre-registered voter rolls (NIN, wallet, constituency) loaded from CSV or XLSX. Rows are
+// checked with the same schemas as single registrations and against the registry, and a
+// dry run reports what an import would do without writing anything. A real import
+// registers the valid rows in batches and reports the rest; it never stops at the first
+// bad row.
+
+export class VoterImportError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "VoterImportError";
+  }
+}
+
+// Rows written per insert statement
+const IMPORT_BATCH_SIZE = 500;
+
+const voterRollRowSchema = z.object({
+  nin: ninSchema,
+  walletAddress: addressSchema,
+  constituency: z.string().min(1, "Constituency is required").max(100, "Constituency is too long"),
+});
+
+export interface VoterImportOptions {
+  dryRun: boolean;
+  actor: string;
+}
+
+export class VoterImportService {
+  constructor(
+    private readonly store: IStorage,
+    private readonly identityService: IdentityService,
+  ) {}
+
+  async import(file: Buffer, contentType: string, options: VoterImportOptions): Promise<VoterImportReport> {
+    let sheet: string[][];
+    try {
+      // The header plus the largest roll; blank rows in between count too
+      sheet = readSpreadsheet(file, contentType, MAX_VOTER_IMPORT_ROWS + 1);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) throw new VoterImportError(error.message, error.status);
+      throw error;
+    }
+
+    const { records, missing } = readCsvTable(sheet, VOTER_ROLL_COLUMNS);
+    if (missing.length > 0) {
+      const names = missing.map((key) => VOTER_ROLL_COLUMNS[key].names[0]);
+      throw new VoterImportError(`Missing column(s): ${names.join(", ")}.`, 400);
+    }
+    if (records.length === 0) {
+      throw new VoterImportError("The file has no voter rows.", 400);
+    }
+    if (records.length > MAX_VOTER_IMPORT_ROWS) {
+      throw new VoterImportError(`At most ${MAX_VOTER_IMPORT_ROWS} voters can be imported at once.`, 413);
+    }
+
+    if (!options.dryRun && (await this.store.getRegistrationSettings()).locked) {
+      throw new VoterImportError("NIN registration is currently locked. Voter rolls can only be imported while it is open.", 423);
+    }
+
+    // Loaded once rather than two lookups per row
+    const registered = await this.store.getVoters();
+    const registeredWallets = new Set(registered.map((voter) => voter.walletAddress));
+    const registeredNins = new Set(registered.map((voter) => voter.ninHash));
+    const walletLines = new Map<string, number>();
+    const ninLines = new Map<string, number>();
+
+    const rows: Array<VoterImportRow & { nin: string }> = records.map(({ line, values }) => {
+      const errors: string[] = [];
+      let status: VoterImportRowStatus = "valid";
+
+      const parsed = voterRollRowSchema.safeParse(values);
+      if (!parsed.success) {
+        status = "invalid";
+        errors.push(...parsed.error.issues.map((issue) => issue.message));
+      }
+
+      // Duplicates are checked on whatever parses, so an invalid row can report both
+      if (addressSchema.safeParse(values.walletAddress).success) {
+        const wallet = normalizeWalletAddress(values.walletAddress);
+        if (registeredWallets.has(wallet)) {
+          errors.push("This wallet address already has a registered NIN.");
+        } else if (walletLines.has(wallet)) {
+          errors.push(`This wallet address is already on line ${walletLines.get(wallet)}.`);
+        } else {
+          walletLines.set(wallet, line);
+        }
+      }
+      if (ninSchema.safeParse(values.nin).success) {
+        const ninHash = this.identityService.hashNin(values.nin);
+        if (registeredNins.has(ninHash)) {
+          errors.push("This NIN is already registered with another wallet address.");
+        } else if (ninLines.has(ninHash)) {
+          errors.push(`This NIN is already on line ${ninLines.get(ninHash)}.`);
+        } else {
+          ninLines.set(ninHash, line);
+        }
+      }
+      if (status === "valid" && errors.length > 0) status = "duplicate";
+
+      return {
+        line,
+        nin: values.nin,
+        walletAddress: values.walletAddress,
+        ninMasked: values.nin ? maskNin(ninLastDigits(values.nin)) : "",
+        constituency: values.constituency,
+        status,
+        errors,
+      };
+    });
+
+    if (!options.dryRun) {
+      const valid = rows.filter((row) => row.status === "valid");
+      for (let start = 0; start < valid.length; start += IMPORT_BATCH_SIZE) {
+        const batch = valid.slice(start, start + IMPORT_BATCH_SIZE);
+        const created = await this.store.createVoters(
+          batch.map((row) => this.identityService.toVoterRecord(row.walletAddress, row.nin, row.constituency)),
+        );
+        const createdWallets = new Set(created.map((voter) => voter.walletAddress));
+        for (const row of batch) {
+          if (createdWallets.has(normalizeWalletAddress(row.walletAddress))) {
+            row.status = "imported";
+          } else {
+            // Someone registered the same wallet or NIN since the registry was read
+            row.status = "duplicate";
+            row.errors.push("This wallet address or NIN was registered while the file was being imported.");
+          }
+        }
+      }
+    }
+
+    const report = rows.map(({ nin: _nin, ...row }) => row);
+    const counts: Record<VoterImportRowStatus, number> = { valid: 0, imported: 0, invalid: 0, duplicate: 0 };
+    for (const row of report) counts[row.status]++;
+
+    if (!options.dryRun) {
+      log(`${options.actor} imported ${counts.imported} of ${report.length} voter roll rows`, "voter-import");
+    }
+    return { dryRun: options.dryRun, rows: report, counts };
+  }
+}
+
+export const voterImport = new VoterImportService(storage, identity);
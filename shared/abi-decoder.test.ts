@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import VotingSystem from "../contracts/VotingSystem.json";
+import { AbiDecoder, formatDecoded, getRevertData } from "./abi-decoder";
+
+const decoder = new AbiDecoder(VotingSystem.abi);
+const contract = new ethers.Interface(VotingSystem.abi);
+
+const ACCOUNT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const VOTER_HASH = ethers.id("voter");
+
+test("createElection calldata decodes with its arguments and candidate arrays", () => {
+  const data = contract.encodeFunctionData("createElection", [
+    "Governorship 2027",
+    1_800_000_000,
+    1_800_086_400,
+    ["Ada", "Bayo"],
+    ["PDP", "APC"],
+  ]);
+
+  const decoded = decoder.decodeFunction(data);
+  assert.equal(decoded?.name, "createElection");
+  assert.equal(decoded?.selector, data.slice(0, 10));
+  assert.equal(decoded?.signature, "createElection(string,uint256,uint256,string[],string[])");
+  assert.deepEqual(
+    decoded?.args.map((arg) => [arg.name, arg.type, arg.value]),
+    [
+      ["_name", "string", "Governorship 2027"],
+      ["_startTime", "uint256", "1800000000"],
+      ["_endTime", "uint256", "1800086400"],
+      ["_candidateNames", "string[]", "[Ada, Bayo]"],
+      ["_candidateParties", "string[]", "[PDP, APC]"],
+    ],
+  );
+  assert.deepEqual(decoded?.args[3].components?.map((item) => item.value), ["Ada", "Bayo"]);
+});
+
+test("a VoteCast log decodes its indexed and data fields", () => {
+  const log = contract.encodeEventLog("VoteCast", [3, 1, VOTER_HASH]);
+
+  const decoded = decoder.decodeEvent(log);
+  assert.equal(decoded?.name, "VoteCast");
+  assert.equal(decoded?.topic, log.topics[0]);
+  assert.equal(formatDecoded(decoded!), `VoteCast(electionId=3, candidateIndex=1, voterHash=${VOTER_HASH})`);
+});
+
+test("custom errors decode from revert data, with addresses checksummed", () => {
+  const unauthorized = decoder.decodeError(contract.encodeErrorResult("OwnableUnauthorizedAccount", [ACCOUNT.toLowerCase()]));
+  assert.equal(unauthorized?.name, "OwnableUnauthorizedAccount");
+  assert.equal(unauthorized?.signature, "OwnableUnauthorizedAccount(address)");
+  assert.deepEqual(unauthorized?.args, [{ name: "account", type: "address", value: ACCOUNT }]);
+
+  const invalid = decoder.decodeError(contract.encodeErrorResult("ERC1967InvalidImplementation", [ACCOUNT]));
+  assert.equal(invalid && formatDecoded(invalid), `ERC1967InvalidImplementation(implementation=${ACCOUNT})`);
+});
+
+test("anything the ABI doesn't describe decodes to null", () => {
+  const unknownSelector = ethers.id("transferFrom(address,address,uint256)").slice(0, 10);
+
+  assert.equal(decoder.decodeFunction(`${unknownSelector}${"00".repeat(96)}`), null);
+  assert.equal(decoder.decodeError(`${unknownSelector}${"00".repeat(32)}`), null);
+  assert.equal(decoder.decodeEvent({ topics: [ethers.id("Transfer(address,address,uint256)")], data: "0x" }), null);
+  assert.equal(decoder.decodeError("0x"), null);
+  assert.equal(decoder.decodeError("not hex"), null);
+  // Known selector, arguments cut short
+  const truncated = contract.encodeFunctionData("castVote", [1, 0, VOTER_HASH]).slice(0, 40);
+  assert.equal(decoder.decodeFunction(truncated), null);
+});
+
+test("revert data is found wherever the provider put it", () => {
+  const data = contract.encodeErrorResult("OwnableUnauthorizedAccount", [ACCOUNT]);
+
+  assert.equal(getRevertData({ code: "CALL_EXCEPTION", data }), data);
+  assert.equal(getRevertData({ info: { error: { code: 3, data } } }), data);
+  assert.equal(getRevertData({ error: { data: { data } } }), data);
+  assert.equal(getRevertData({ data: "0x" }), null);
+  assert.equal(getRevertData(new Error("timeout")), null);
+  assert.equal(getRevertData(null), null);
+  assert.equal(getRevertData("0x1234"), null);
+});
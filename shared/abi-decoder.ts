@@ -0,0 +1,156 @@
+import { ethers } from "ethers";
+
+// Decodes what the contract receives and emits against its ABI: transaction input, event
+// logs and revert data, including custom errors (OwnableUnauthorizedAccount,
+// ERC1967InvalidImplementation, ...) and the built-in Error(string) and Panic(uint256).
+// Anything the ABI doesn't describe decodes to null rather than a guess.
+
+export interface DecodedParam {
+  name: string;
+  type: string;
+  // Integers in decimal, addresses checksummed, bytes as hex; arrays and tuples summarised
+  value: string;
+  // Elements of an array or fields of a tuple
+  components?: DecodedParam[];
+}
+
+export interface DecodedFunction {
+  name: string;
+  signature: string;
+  selector: string;
+  args: DecodedParam[];
+}
+
+export interface DecodedEvent {
+  name: string;
+  signature: string;
+  topic: string;
+  args: DecodedParam[];
+}
+
+export interface DecodedError {
+  name: string;
+  signature: string;
+  selector: string;
+  args: DecodedParam[];
+}
+
+export interface RawLog {
+  topics: readonly string[];
+  data: string;
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof ethers.Indexed) {
+    // Indexed strings, bytes and arrays only leave their hash in the topic
+    return value.hash ?? "";
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return String(value);
+}
+
+function decodeParam(param: ethers.ParamType, value: unknown, name = param.name): DecodedParam {
+  if (param.isArray() && !(value instanceof ethers.Indexed)) {
+    const items = Array.from(value as ArrayLike<unknown>);
+    const components = items.map((item, i) => decodeParam(param.arrayChildren, item, String(i)));
+    return { name, type: param.type, value: `[${components.map((c) => c.value).join(", ")}]`, components };
+  }
+  if (param.isTuple() && !(value instanceof ethers.Indexed)) {
+    const fields = value as ArrayLike<unknown>;
+    const components = param.components.map((component, i) => decodeParam(component, fields[i]));
+    return { name, type: param.type, value: `(${components.map((c) => c.value).join(", ")})`, components };
+  }
+  if (param.type === "address" && typeof value === "string") {
+    return { name, type: param.type, value: ethers.getAddress(value) };
+  }
+  return { name, type: param.type, value: formatValue(value) };
+}
+
+function decodeParams(inputs: readonly ethers.ParamType[], values: ethers.Result): DecodedParam[] {
+  return inputs.map((input, i) => decodeParam(input, values[i], input.name || String(i)));
+}
+
+export class AbiDecoder {
+  private readonly contractInterface: ethers.Interface;
+
+  constructor(abi: ethers.InterfaceAbi) {
+    this.contractInterface = new ethers.Interface(abi);
+  }
+
+  decodeFunction(data: string, value: ethers.BigNumberish = 0): DecodedFunction | null {
+    try {
+      const parsed = this.contractInterface.parseTransaction({ data, value });
+      if (!parsed) return null;
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        selector: parsed.selector,
+        args: decodeParams(parsed.fragment.inputs, parsed.args),
+      };
+    } catch {
+      // Known selector with malformed arguments
+      return null;
+    }
+  }
+
+  decodeEvent(log: RawLog): DecodedEvent | null {
+    try {
+      const parsed = this.contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) return null;
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        topic: parsed.topic,
+        args: decodeParams(parsed.fragment.inputs, parsed.args),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  decodeError(data: string): DecodedError | null {
+    if (!ethers.isHexString(data) || ethers.dataLength(data) < 4) return null;
+    try {
+      const parsed = this.contractInterface.parseError(data);
+      if (!parsed) return null;
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        selector: parsed.selector,
+        args: decodeParams(parsed.fragment.inputs, parsed.args),
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// `value[key]` when `value` is an object, so untyped error shapes can be walked safely
+function field(value: unknown, key: string): unknown {
+  return isRecord(value) ? value[key] : undefined;
+}
+
+// Revert data carried by an ethers call exception, wherever the provider put it
+export function getRevertData(error: unknown): string | null {
+  const candidates = [
+    field(error, "data"),
+    field(field(field(error, "info"), "error"), "data"),
+    field(field(error, "error"), "data"),
+  ];
+  for (const candidate of candidates) {
+    // Some nodes nest it one level deeper, as { data: { data: "0x..." } }
+    const data = isRecord(candidate) ? candidate.data : candidate;
+    if (typeof data === "string" && ethers.isHexString(data) && data !== "0x") return data;
+  }
+  return null;
+}
+
+// "name(arg=value, ...)", for one-line summaries
+export function formatDecoded(decoded: { name: string; args: DecodedParam[] }): string {
+  return `${decoded.name}(${decoded.args.map((arg) => `${arg.name}=${arg.value}`).join(", ")})`;
+}
@@ -0,0 +1,60 @@
+import { ethers } from "ethers";
+
+// Gasless voting. The voter signs a ballot as EIP-712 typed data in their wallet and the
+// server's relayer (server/relayer.ts) submits it to castVoteBySig, added by the
+// VotingSystemV2 upgrade (contracts/VotingSystemV2.sol). The contract checks the signature
+// and deadline and records the vote under the voter hash, exactly like one the voter sent.
+// The contract can't tell who may vote, so the server only relays ballots from registered
+// wallets whose NIN matches the voter hash.
+
+export interface Ballot {
+  electionId: number;
+  candidateIndex: number;
+  voterHash: string;
+  // Unix seconds; the relayer and the contract refuse the ballot afterwards
+  deadline: number;
+}
+
+// GET /api/relay
+export interface RelayerStatus {
+  enabled: boolean;
+  // Lower-cased address castVote is sent from
+  relayer: string | null;
+  // Wei left in today's gas budget
+  remainingBudget: string | null;
+}
+
+export const BALLOT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Ballot: [
+    { name: "electionId", type: "uint256" },
+    { name: "candidateIndex", type: "uint256" },
+    { name: "voterHash", type: "bytes32" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// How far ahead a ballot's deadline may be
+export const BALLOT_VALIDITY_SECONDS = 10 * 60;
+
+// Bound to the deployment, so a ballot signed for one network or contract is refused by
+// another. VotingSystemV2.DOMAIN_SEPARATOR() is this domain's hash.
+export function ballotDomain(chainId: number, contractAddress: string): ethers.TypedDataDomain {
+  return { name: "BlockVote", version: "1", chainId, verifyingContract: contractAddress };
+}
+
+// The NIN's SHA-256 hash, as the browser computes it before voting
+export function hashNinForBallot(nin: string): string {
+  return ethers.sha256(ethers.toUtf8Bytes(nin));
+}
+
+// The voter hash castVote submits and VoteCast emits: the election ID packed with the NIN's
+// SHA-256 hash, so the same NIN gives an unlinkable hash in every election
+export function computeVoterHash(electionId: number, ninHash: string): string {
+  const cleanNinHash = ninHash.startsWith("0x") ? ninHash.slice(2) : ninHash;
+  return ethers.keccak256(ethers.solidityPacked(["uint256", "bytes32"], [electionId, `0x${cleanNinHash}`]));
+}
+
+// Lower-cased wallet that signed the ballot
+export function recoverBallotSigner(domain: ethers.TypedDataDomain, ballot: Ballot, signature: string): string {
+  return ethers.verifyTypedData(domain, BALLOT_TYPES, ballot, signature).toLowerCase();
+}
@@ -0,0 +1,104 @@
+// CSV reading and writing shared by the server's imports and exports and the admin UI.
+// RFC 4180: quoted fields may hold commas, quotes ("") and line breaks.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function csvCell(value: CsvValue): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("Unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export interface CsvRecord<K extends string> {
+  // 1-based line of the record in the sheet, header included, as a spreadsheet shows it
+  line: number;
+  values: Record<K, string>;
+}
+
+export interface CsvTable<K extends string> {
+  records: CsvRecord<K>[];
+  // Required columns the header doesn't have
+  missing: K[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Map header names to keys, accepting any of the listed spellings ("Wallet address",
+// "wallet_address" and "walletAddress" all normalise the same way). Blank rows are dropped
+// and cells are trimmed; unknown columns are ignored.
+export function readCsvTable<K extends string>(
+  rows: string[][],
+  columns: Record<K, { names: readonly string[]; required: boolean }>,
+): CsvTable<K> {
+  const [header = [], ...body] = rows;
+  const normalized = header.map(normalizeHeader);
+  const keys = Object.keys(columns) as K[];
+  const positions = new Map<K, number>();
+  for (const key of keys) {
+    const index = normalized.findIndex((name) => columns[key].names.map(normalizeHeader).includes(name));
+    if (index !== -1) positions.set(key, index);
+  }
+
+  const records: CsvRecord<K>[] = [];
+  body.forEach((cells, i) => {
+    if (cells.every((cell) => cell.trim() === "")) return;
+    const values = {} as Record<K, string>;
+    for (const key of keys) {
+      const index = positions.get(key);
+      values[key] = index === undefined ? "" : (cells[index] ?? "").trim();
+    }
+    records.push({ line: i + 2, values });
+  });
+
+  return {
+    records,
+    missing: keys.filter((key) => columns[key].required && !positions.has(key)),
+  };
+}
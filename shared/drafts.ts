@@ -0,0 +1,89 @@
+// Election drafts: prepared and reviewed off-chain before the irreversible createElection
+// transaction. A draft moves draft → in_review → approved → published; editing it sends it
+// back to draft. The checks below are shared so the editor shows the same problems the
+// server enforces on submit, approval and publishing.
+
+export const ELECTION_DRAFT_STATUSES = ["draft", "in_review", "approved", "published"] as const;
+
+export type ElectionDraftStatus = (typeof ELECTION_DRAFT_STATUSES)[number];
+
+export const ELECTION_DRAFT_STATUS_LABELS: Record<ElectionDraftStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  published: "Published",
+};
+
+export interface DraftCandidate {
+  name: string;
+  party: string;
+  // Off-chain profile (shared/profiles.ts), if one was written
+  profileHash?: string | null;
+}
+
+// What an admin edits; everything else on a draft is workflow state
+export interface ElectionDraftFields {
+  name: string;
+  description: string;
+  startTime: Date | string | null;
+  endTime: Date | string | null;
+  candidates: DraftCandidate[];
+}
+
+export type DraftField = keyof ElectionDraftFields;
+
+export interface DraftIssue {
+  field: DraftField;
+  message: string;
+}
+
+export const MIN_DRAFT_CANDIDATES = 2;
+export const MAX_DRAFT_CANDIDATES = 100;
+export const MAX_DRAFT_DESCRIPTION_LENGTH = 2000;
+
+function toDate(value: Date | string | null): Date | null {
+  if (value === null || value === "") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Everything that would stop this draft from becoming a valid election at `now`
+export function validateElectionDraft(draft: ElectionDraftFields, now = new Date()): DraftIssue[] {
+  const issues: DraftIssue[] = [];
+
+  if (draft.name.trim().length < 5) {
+    issues.push({ field: "name", message: "Election name must be at least 5 characters" });
+  }
+  if (draft.description.length > MAX_DRAFT_DESCRIPTION_LENGTH) {
+    issues.push({
+      field: "description",
+      message: `Description must be at most ${MAX_DRAFT_DESCRIPTION_LENGTH} characters`,
+    });
+  }
+
+  const start = toDate(draft.startTime);
+  const end = toDate(draft.endTime);
+  if (!start) {
+    issues.push({ field: "startTime", message: "Start time is required" });
+  } else if (start <= now) {
+    issues.push({ field: "startTime", message: "Start time must be in the future" });
+  }
+  if (!end) {
+    issues.push({ field: "endTime", message: "End time is required" });
+  } else if (start && end <= start) {
+    issues.push({ field: "endTime", message: "End time must be after start time" });
+  }
+
+  if (draft.candidates.length < MIN_DRAFT_CANDIDATES) {
+    issues.push({ field: "candidates", message: `At least ${MIN_DRAFT_CANDIDATES} candidates are required` });
+  }
+  if (draft.candidates.some((candidate) => !candidate.name.trim() || !candidate.party.trim())) {
+    issues.push({ field: "candidates", message: "All candidate names and parties must be filled" });
+  }
+  const names = draft.candidates.map((candidate) => candidate.name.trim().toLowerCase()).filter(Boolean);
+  if (new Set(names).size !== names.length) {
+    issues.push({ field: "candidates", message: "Candidate names must be unique" });
+  }
+
+  return issues;
+}
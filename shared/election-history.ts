@@ -0,0 +1,76 @@
+// One election's full record for its detail page (GET /api/elections/:id/history): what the
+// contract holds now, plus what the indexer and the registration scheduler recorded along
+// the way. Dates are ISO strings.
+
+import type { ElectionStatus } from "./elections";
+
+export type ElectionTimelineKind =
+  | "created"
+  | "started"
+  | "registration_locked"
+  | "registration_unlocked"
+  | "ended";
+
+export interface ElectionTimelineEntry {
+  kind: ElectionTimelineKind;
+  at: string;
+  // Still ahead (the start or end of an election that hasn't reached it)
+  upcoming: boolean;
+  transactionHash: string | null;
+  // Who caused it: the creator's wallet, "system" for the scheduler or an admin's wallet
+  actor: string | null;
+}
+
+export interface TurnoutPoint {
+  at: string;
+  // Votes cast up to `at`
+  votes: number;
+}
+
+export interface ElectionHistory {
+  election: {
+    id: number;
+    name: string;
+    startTime: string;
+    endTime: string;
+    status: ElectionStatus;
+    candidateCount: number;
+  };
+  candidates: Array<{ index: number; name: string; party: string; votes: number; percentage: number }>;
+  // The contract's counter
+  totalVotes: number;
+  creation: { transactionHash: string; blockNumber: number; from: string; at: string } | null;
+  timeline: ElectionTimelineEntry[];
+  turnout: TurnoutPoint[];
+  // VoteCast logs indexed so far; the turnout curve lags totalVotes until the indexer catches up
+  indexedVotes: number;
+}
+
+export const ELECTION_TIMELINE_LABELS: Record<ElectionTimelineKind, string> = {
+  created: "Election created",
+  started: "Voting opened",
+  registration_locked: "Registrations locked",
+  registration_unlocked: "Registrations reopened",
+  ended: "Voting closed",
+};
+
+export const MAX_TURNOUT_POINTS = 100;
+
+// Where the turnout curve is sampled: the opening, then `maxPoints` even steps up to the end,
+// or to `until` (now, for a running election) if that comes first. Milliseconds; the server
+// counts the votes cast up to each one.
+export function turnoutSampleTimes(
+  start: number,
+  end: number,
+  until: number = end,
+  maxPoints: number = MAX_TURNOUT_POINTS,
+): number[] {
+  const last = Math.max(start, Math.min(end, until));
+  if (last === start) return [start];
+
+  const times = [start];
+  for (let step = 1; step <= maxPoints; step++) {
+    times.push(step === maxPoints ? last : start + Math.round(((last - start) * step) / maxPoints));
+  }
+  return times;
+}
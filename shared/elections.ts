@@ -0,0 +1,58 @@
+// An election's lifecycle, shared by the server's contract reader and the browser. Status is
+// derived from the voting window rather than stored, so callers pass the clock they trust:
+// the server's own, or the browser's corrected to chain time (client/src/lib/chain-clock.ts).
+
+export type ElectionStatus = "Upcoming" | "Active" | "Completed";
+
+export function getElectionStatus(
+  startTime: Date,
+  endTime: Date,
+  now: Date = new Date(),
+): ElectionStatus {
+  if (now < startTime) return "Upcoming";
+  if (now <= endTime) return "Active";
+  return "Completed";
+}
+
+export interface ElectionLifecycle {
+  id: number;
+  startTime: Date;
+  endTime: Date;
+  // The contract's flag; an election can be switched off inside its window
+  active: boolean;
+  status: ElectionStatus;
+}
+
+const STATUS_ORDER: Record<ElectionStatus, number> = { Active: 0, Upcoming: 1, Completed: 2 };
+
+// Open for voting: inside its window and not switched off
+export function isOpenForVoting(election: ElectionLifecycle): boolean {
+  return election.active && election.status === "Active";
+}
+
+// The election currently open for voting. Should windows overlap, the newest one wins.
+export function findActiveElection<T extends ElectionLifecycle>(elections: T[]): T | null {
+  return elections.filter(isOpenForVoting).sort((a, b) => b.id - a.id)[0] ?? null;
+}
+
+// Elections that haven't opened yet, soonest first
+export function getUpcomingElections<T extends ElectionLifecycle>(elections: T[]): T[] {
+  return elections
+    .filter((election) => election.status === "Upcoming")
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+// Elections that have closed, most recently closed first
+export function getCompletedElections<T extends ElectionLifecycle>(elections: T[]): T[] {
+  return elections
+    .filter((election) => election.status === "Completed")
+    .sort((a, b) => b.endTime.getTime() - a.endTime.getTime());
+}
+
+// Running elections first, then the next to open, then the most recently closed
+export function compareElections(a: ElectionLifecycle, b: ElectionLifecycle): number {
+  if (a.status !== b.status) return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+  return a.status === "Completed"
+    ? b.endTime.getTime() - a.endTime.getTime()
+    : a.startTime.getTime() - b.startTime.getTime();
+}
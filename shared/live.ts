@@ -0,0 +1,28 @@
+// Updates pushed to browsers over GET /api/live (server-sent events). Contract events are
+// sent as soon as they are mined, ahead of the indexer's confirmation depth, so clients
+// treat them as a cue to refetch rather than as final data.
+
+export type LiveUpdate =
+  | {
+      type: "VoteCast";
+      electionId: number;
+      candidateIndex: number;
+      transactionHash: string;
+      blockNumber: number;
+    }
+  | {
+      type: "ElectionCreated";
+      electionId: number;
+      name: string;
+      transactionHash: string;
+      blockNumber: number;
+    }
+  // The indexer stored new events, so GET /api/events has changed
+  | {
+      type: "EventsIndexed";
+      count: number;
+      toBlock: number;
+    };
+
+// Milliseconds EventSource waits before reconnecting after the stream drops
+export const LIVE_RETRY_MS = 5000;
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "fs";
+import {
+  evaluateLiveness,
+  pickChallenges,
+  toFaceMetrics,
+  type ChallengeFailure,
+  type FaceMetrics,
+  type FacePoint,
+  type LivenessChallenge,
+} from "./liveness";
+
+// Frame sequences in shared/fixtures/liveness, one challenge each, with the outcome the
+// scoring must reach
+interface FrameFixture {
+  challenge: LivenessChallenge;
+  description: string;
+  expected: { state: "passed" | "failed"; reason?: ChallengeFailure };
+  frames: FaceMetrics[];
+}
+
+const FIXTURE_DIR = new URL("./fixtures/liveness/", import.meta.url);
+
+const fixtures = readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => ({ name: file.replace(/\.json$/, ""), ...(JSON.parse(readFileSync(new URL(file, FIXTURE_DIR), "utf8")) as FrameFixture) }));
+
+const fixture = (name: string) => fixtures.find((candidate) => candidate.name === name)!;
+
+for (const { name, challenge, description, expected, frames } of fixtures) {
+  test(`liveness fixture ${name}: ${description}`, () => {
+    const { passed, results } = evaluateLiveness([challenge], [frames]);
+    assert.equal(results[0].state, expected.state);
+    assert.equal(results[0].reason, expected.reason);
+    assert.equal(passed, expected.state === "passed");
+  });
+}
+
+test("a session passes only when every challenge passes", () => {
+  const passing = ["blink", "turn-left", "smile-width"].map(fixture);
+  const all = evaluateLiveness(
+    passing.map((entry) => entry.challenge),
+    passing.map((entry) => entry.frames),
+  );
+  assert.equal(all.passed, true);
+
+  const withFailure = [...passing, fixture("turn-right-single-frame")];
+  const one = evaluateLiveness(
+    withFailure.map((entry) => entry.challenge),
+    withFailure.map((entry) => entry.frames),
+  );
+  assert.equal(one.passed, false);
+  assert.deepEqual(
+    one.results.map((result) => result.state),
+    ["passed", "passed", "passed", "failed"],
+  );
+});
+
+test("frames recorded for a different challenge don't pass it", () => {
+  const { passed } = evaluateLiveness(["turn-right"], [fixture("turn-left").frames]);
+  assert.equal(passed, false);
+});
+
+test("a challenge with no frames stays calibrating", () => {
+  const { passed, results } = evaluateLiveness(["blink", "smile"], [fixture("blink").frames]);
+  assert.equal(passed, false);
+  assert.equal(results[1].state, "calibrating");
+});
+
+test("pickChallenges picks distinct challenges", () => {
+  const picked = pickChallenges(3, () => 0);
+  assert.deepEqual(picked, ["blink", "turn-left", "turn-right"]);
+  assert.equal(new Set(pickChallenges(10, (max) => max - 1)).size, 4);
+});
+
+test("toFaceMetrics derives yaw from the nose between the jaw edges", () => {
+  const landmarks: FacePoint[] = Array.from({ length: 68 }, () => ({ x: 50, y: 50 }));
+  landmarks[0] = { x: 0, y: 50 };
+  landmarks[16] = { x: 100, y: 50 };
+  landmarks[30] = { x: 75, y: 50 };
+
+  const metrics = toFaceMetrics(landmarks, 1000, 0.5);
+  assert.equal(metrics.yaw, 0.5);
+  assert.equal(metrics.happiness, 0.5);
+  assert.throws(() => toFaceMetrics(landmarks.slice(0, 60), 1000), /68 face landmarks/);
+});
@@ -0,0 +1,303 @@
+// Face liveness challenges. The browser turns camera frames into FaceMetrics with an
+// on-device model; everything below works on those metrics alone, so the same code
+// scores live frames in the browser, re-checks submitted frames on the server and can
+// be replayed against recorded frame fixtures without a camera or a model.
+
+export const LIVENESS_CHALLENGES = ["blink", "turn-left", "turn-right", "smile"] as const;
+
+export type LivenessChallenge = (typeof LIVENESS_CHALLENGES)[number];
+
+export const CHALLENGE_PROMPTS: Record<LivenessChallenge, string> = {
+  blink: "Blink your eyes",
+  "turn-left": "Slowly turn your head to the left",
+  "turn-right": "Slowly turn your head to the right",
+  smile: "Smile",
+};
+
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+// What the detector saw in one frame. Geometry fields are 0 unless exactly one face was found.
+export interface FaceMetrics {
+  // Milliseconds since the epoch
+  timestamp: number;
+  faces: number;
+  // Mean eye aspect ratio of both eyes; drops towards 0 while the eyes are closed
+  eyeAspectRatio: number;
+  // Nose position between the jaw edges, -1..1. Positive when the nose moves towards the
+  // right of the (unmirrored) camera image, i.e. the subject turns to their left
+  yaw: number;
+  // Mouth corner distance relative to face width
+  mouthWidth: number;
+  // "happy" expression probability, when the model provides one
+  happiness: number | null;
+}
+
+export type ChallengeState = "calibrating" | "waiting" | "passed" | "failed";
+
+export type ChallengeFailure = "timeout" | "face-lost" | "multiple-faces";
+
+export interface ChallengeResult {
+  challenge: LivenessChallenge;
+  state: ChallengeState;
+  reason?: ChallengeFailure;
+}
+
+export interface LivenessEvaluation {
+  passed: boolean;
+  results: ChallengeResult[];
+}
+
+export interface ChallengeTrackerOptions {
+  timeoutMs?: number;
+  // Neutral frames averaged into the baseline before the challenge is scored
+  calibrationFrames?: number;
+  // Consecutive frames without a face before the challenge fails
+  maxMissingFrames?: number;
+}
+
+// Signed statement from the server that a subject passed a liveness session
+export interface LivenessAttestation {
+  sessionId: string;
+  // Lower-cased wallet address the session was opened for
+  subject: string;
+  challenges: LivenessChallenge[];
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface SignedLivenessResult {
+  attestation: LivenessAttestation;
+  // base64url HMAC-SHA256 over the canonical attestation
+  signature: string;
+}
+
+export interface LivenessSessionInfo {
+  sessionId: string;
+  challenges: LivenessChallenge[];
+  expiresAt: number;
+}
+
+// Landmark indices of the 68-point iBUG layout
+const JAW_LEFT = 0;
+const JAW_RIGHT = 16;
+const NOSE_TIP = 30;
+const RIGHT_EYE = [36, 37, 38, 39, 40, 41];
+const LEFT_EYE = [42, 43, 44, 45, 46, 47];
+const MOUTH_LEFT = 48;
+const MOUTH_RIGHT = 54;
+
+const BLINK_CLOSED_RATIO = 0.65;
+const BLINK_OPEN_RATIO = 0.85;
+const TURN_THRESHOLD = 0.35;
+const NEUTRAL_YAW = 0.25;
+const SMILE_WIDTH_RATIO = 1.15;
+const SMILE_HAPPINESS = 0.7;
+// Frames a pose has to be held for, so a single noisy detection can't pass a challenge
+const HOLD_FRAMES = 3;
+
+function distance(a: FacePoint, b: FacePoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function eyeAspectRatio(points: FacePoint[], eye: number[]): number {
+  const [p1, p2, p3, p4, p5, p6] = eye.map((index) => points[index]);
+  const width = distance(p1, p4);
+  return width > 0 ? (distance(p2, p6) + distance(p3, p5)) / (2 * width) : 0;
+}
+
+export function emptyFaceMetrics(timestamp: number, faces: number): FaceMetrics {
+  return { timestamp, faces, eyeAspectRatio: 0, yaw: 0, mouthWidth: 0, happiness: null };
+}
+
+// Reduce the 68 landmarks of a single detected face to the metrics the challenges use
+export function toFaceMetrics(
+  landmarks: FacePoint[],
+  timestamp: number,
+  happiness: number | null = null,
+): FaceMetrics {
+  if (landmarks.length < 68) {
+    throw new Error(`Expected 68 face landmarks, got ${landmarks.length}`);
+  }
+
+  const jawLeft = landmarks[JAW_LEFT];
+  const jawRight = landmarks[JAW_RIGHT];
+  const faceWidth = distance(jawLeft, jawRight);
+  const span = jawRight.x - jawLeft.x;
+
+  return {
+    timestamp,
+    faces: 1,
+    eyeAspectRatio:
+      (eyeAspectRatio(landmarks, RIGHT_EYE) + eyeAspectRatio(landmarks, LEFT_EYE)) / 2,
+    yaw: span !== 0 ? ((landmarks[NOSE_TIP].x - jawLeft.x) / span) * 2 - 1 : 0,
+    mouthWidth: faceWidth > 0 ? distance(landmarks[MOUTH_LEFT], landmarks[MOUTH_RIGHT]) / faceWidth : 0,
+    happiness,
+  };
+}
+
+// Pick `count` distinct challenges. `randomInt(max)` must return an integer in [0, max).
+export function pickChallenges(
+  count: number,
+  randomInt: (max: number) => number,
+): LivenessChallenge[] {
+  const pool = [...LIVENESS_CHALLENGES];
+  const picked: LivenessChallenge[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(randomInt(pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+// Scores one challenge frame by frame. Feed it frames in capture order until it
+// reports "passed" or "failed".
+export class ChallengeTracker {
+  private readonly timeoutMs: number;
+  private readonly calibrationFrames: number;
+  private readonly maxMissingFrames: number;
+
+  private state: ChallengeState = "calibrating";
+  private reason: ChallengeFailure | undefined;
+  private startedAt: number | null = null;
+  private missingFrames = 0;
+  private calibration: FaceMetrics[] = [];
+  private baseline: FaceMetrics | null = null;
+  private heldFrames = 0;
+  private eyesClosed = false;
+
+  constructor(
+    readonly challenge: LivenessChallenge,
+    options: ChallengeTrackerOptions = {},
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.calibrationFrames = options.calibrationFrames ?? 5;
+    this.maxMissingFrames = options.maxMissingFrames ?? 10;
+  }
+
+  getResult(): ChallengeResult {
+    return { challenge: this.challenge, state: this.state, reason: this.reason };
+  }
+
+  push(frame: FaceMetrics): ChallengeState {
+    if (this.state === "passed" || this.state === "failed") {
+      return this.state;
+    }
+
+    this.startedAt ??= frame.timestamp;
+    if (frame.timestamp - this.startedAt > this.timeoutMs) {
+      return this.fail("timeout");
+    }
+
+    if (frame.faces > 1) {
+      return this.fail("multiple-faces");
+    }
+    if (frame.faces === 0) {
+      this.missingFrames++;
+      this.heldFrames = 0;
+      return this.missingFrames > this.maxMissingFrames ? this.fail("face-lost") : this.state;
+    }
+    this.missingFrames = 0;
+
+    if (!this.baseline) {
+      this.calibrate(frame);
+      return this.state;
+    }
+
+    if (this.isSatisfiedBy(frame, this.baseline)) {
+      this.state = "passed";
+    }
+    return this.state;
+  }
+
+  private fail(reason: ChallengeFailure): ChallengeState {
+    this.state = "failed";
+    this.reason = reason;
+    return this.state;
+  }
+
+  // Average a few frames of a roughly frontal face; the challenge is scored relative to it
+  private calibrate(frame: FaceMetrics): void {
+    if (Math.abs(frame.yaw) > NEUTRAL_YAW) {
+      this.calibration = [];
+      return;
+    }
+
+    this.calibration.push(frame);
+    if (this.calibration.length < this.calibrationFrames) return;
+
+    const mean = (pick: (metrics: FaceMetrics) => number) =>
+      this.calibration.reduce((sum, metrics) => sum + pick(metrics), 0) / this.calibration.length;
+
+    this.baseline = {
+      ...frame,
+      eyeAspectRatio: mean((metrics) => metrics.eyeAspectRatio),
+      yaw: mean((metrics) => metrics.yaw),
+      mouthWidth: mean((metrics) => metrics.mouthWidth),
+    };
+    this.state = "waiting";
+  }
+
+  private isSatisfiedBy(frame: FaceMetrics, baseline: FaceMetrics): boolean {
+    switch (this.challenge) {
+      case "blink":
+        // Closed, then open again
+        if (frame.eyeAspectRatio < baseline.eyeAspectRatio * BLINK_CLOSED_RATIO) {
+          this.eyesClosed = true;
+          return false;
+        }
+        return this.eyesClosed && frame.eyeAspectRatio > baseline.eyeAspectRatio * BLINK_OPEN_RATIO;
+
+      case "turn-left":
+        return this.hold(frame.yaw - baseline.yaw > TURN_THRESHOLD);
+
+      case "turn-right":
+        return this.hold(baseline.yaw - frame.yaw > TURN_THRESHOLD);
+
+      case "smile":
+        return this.hold(
+          (frame.happiness !== null && frame.happiness >= SMILE_HAPPINESS) ||
+            frame.mouthWidth > baseline.mouthWidth * SMILE_WIDTH_RATIO,
+        );
+    }
+  }
+
+  private hold(condition: boolean): boolean {
+    this.heldFrames = condition ? this.heldFrames + 1 : 0;
+    return this.heldFrames >= HOLD_FRAMES;
+  }
+}
+
+// Replay recorded frames through a fresh tracker per challenge. `frames[i]` holds the
+// frames captured while challenge i was shown.
+export function evaluateLiveness(
+  challenges: LivenessChallenge[],
+  frames: FaceMetrics[][],
+  options: ChallengeTrackerOptions = {},
+): LivenessEvaluation {
+  const results = challenges.map((challenge, index) => {
+    const tracker = new ChallengeTracker(challenge, options);
+    for (const frame of frames[index] ?? []) {
+      const state = tracker.push(frame);
+      if (state === "passed" || state === "failed") break;
+    }
+    return tracker.getResult();
+  });
+
+  return { passed: results.every((result) => result.state === "passed"), results };
+}
+
+// Cheap client-side check that a result still applies; only the server can check the signature
+export function isLivenessResultCurrent(
+  result: SignedLivenessResult | null | undefined,
+  subject: string | null | undefined,
+  now: number = Date.now(),
+): result is SignedLivenessResult {
+  return (
+    !!result &&
+    !!subject &&
+    result.attestation.subject === subject.toLowerCase() &&
+    result.attestation.expiresAt > now
+  );
+}
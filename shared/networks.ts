@@ -0,0 +1,173 @@
+// Registry of the chains BlockVote can run against. The client and the server
+// resolve the active entry the same way, so one build can serve staging, mainnet
+// and a local Hardhat/Anvil node.
+
+export type NetworkKey = "amoy" | "polygon" | "local";
+
+export interface ExplorerConfig {
+  name: string;
+  baseUrl: string;
+  // URL templates; {hash}, {address} and {block} are substituted
+  txUrl: string;
+  addressUrl: string;
+  blockUrl: string;
+}
+
+export interface NetworkConfig {
+  key: NetworkKey;
+  name: string;
+  chainId: number;
+  rpcUrls: string[];
+  contractAddress: string;
+  // Block the VotingSystem proxy was deployed in; event scans start here. 0 when it isn't
+  // recorded, in which case the server looks it up (findDeploymentBlock)
+  deploymentBlock: number;
+  // Multicall3 lets several contract reads share one eth_call; null where it isn't deployed
+  multicall3Address: string | null;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  explorer: ExplorerConfig | null;
+}
+
+export interface NetworkOverrides {
+  rpcUrl?: string;
+  contractAddress?: string;
+  deploymentBlock?: number;
+}
+
+export const DEFAULT_NETWORK: NetworkKey = "amoy";
+
+// Same address on every chain it is deployed to (https://www.multicall3.com)
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
+  amoy: {
+    key: "amoy",
+    name: "Polygon Amoy Testnet",
+    chainId: 80002,
+    rpcUrls: [
+      "https://rpc-amoy.polygon.technology/",
+      "https://polygon-amoy-bor-rpc.publicnode.com",
+      "https://polygon-amoy.drpc.org",
+    ],
+    contractAddress: "0xc0895D39fBBD1918067d5Fa41beDAF51d36665B5",
+    deploymentBlock: 0,
+    multicall3Address: MULTICALL3_ADDRESS,
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    explorer: {
+      name: "OKLink",
+      baseUrl: "https://www.oklink.com/amoy",
+      txUrl: "https://www.oklink.com/amoy/tx/{hash}",
+      addressUrl: "https://www.oklink.com/amoy/address/{address}",
+      blockUrl: "https://www.oklink.com/amoy/block/{block}",
+    },
+  },
+  polygon: {
+    key: "polygon",
+    name: "Polygon Mainnet",
+    chainId: 137,
+    rpcUrls: ["https://polygon-rpc.com/", "https://polygon-bor-rpc.publicnode.com"],
+    // No mainnet deployment yet; supply CONTRACT_ADDRESS / VITE_CONTRACT_ADDRESS
+    contractAddress: "",
+    deploymentBlock: 0,
+    multicall3Address: MULTICALL3_ADDRESS,
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    explorer: {
+      name: "PolygonScan",
+      baseUrl: "https://polygonscan.com",
+      txUrl: "https://polygonscan.com/tx/{hash}",
+      addressUrl: "https://polygonscan.com/address/{address}",
+      blockUrl: "https://polygonscan.com/block/{block}",
+    },
+  },
+  local: {
+    key: "local",
+    name: "Local Node",
+    chainId: 31337,
+    rpcUrls: ["http://127.0.0.1:8545"],
+    // First contract deployed by the default Hardhat/Anvil account
+    contractAddress: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    deploymentBlock: 0,
+    multicall3Address: null,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    explorer: null,
+  },
+};
+
+export function isNetworkKey(value: string | null | undefined): value is NetworkKey {
+  return !!value && Object.prototype.hasOwnProperty.call(NETWORKS, value);
+}
+
+export function resolveNetwork(
+  key: string | null | undefined,
+  overrides: NetworkOverrides = {},
+): NetworkConfig {
+  const base = NETWORKS[isNetworkKey(key) ? key : DEFAULT_NETWORK];
+
+  return {
+    ...base,
+    rpcUrls: overrides.rpcUrl ? [overrides.rpcUrl, ...base.rpcUrls] : base.rpcUrls,
+    contractAddress: overrides.contractAddress || base.contractAddress,
+    deploymentBlock: overrides.deploymentBlock ?? base.deploymentBlock,
+  };
+}
+
+export interface CodeReader {
+  getBlockNumber(): Promise<number>;
+  getCode(address: string, blockTag?: number): Promise<string>;
+}
+
+// First block with code at `address`, by binary search over eth_getCode (about 25 calls on
+// a chain with tens of millions of blocks). Needs an RPC endpoint that serves historical
+// state; null if there is no contract at the address.
+export async function findDeploymentBlock(provider: CodeReader, address: string): Promise<number | null> {
+  const latest = await provider.getBlockNumber();
+  if ((await provider.getCode(address, latest)) === "0x") return null;
+
+  let low = 0;
+  let high = latest;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, mid)) === "0x") {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export function findNetworkByChainId(chainId: number | string): NetworkConfig | undefined {
+  const id = typeof chainId === "string" ? Number(chainId) : chainId;
+  return Object.values(NETWORKS).find((network) => network.chainId === id);
+}
+
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
+
+export function getExplorerTxUrl(network: NetworkConfig, hash: string): string | null {
+  return network.explorer ? network.explorer.txUrl.replace("{hash}", hash) : null;
+}
+
+export function getExplorerAddressUrl(network: NetworkConfig, address: string): string | null {
+  return network.explorer ? network.explorer.addressUrl.replace("{address}", address) : null;
+}
+
+export function getExplorerBlockUrl(network: NetworkConfig, block: number): string | null {
+  return network.explorer ? network.explorer.blockUrl.replace("{block}", String(block)) : null;
+}
+
+// Parameters for wallet_addEthereumChain (EIP-3085)
+export function toAddEthereumChainParams(network: NetworkConfig) {
+  return {
+    chainId: toHexChainId(network.chainId),
+    chainName: network.name,
+    rpcUrls: network.rpcUrls,
+    nativeCurrency: network.nativeCurrency,
+    blockExplorerUrls: network.explorer ? [network.explorer.baseUrl] : undefined,
+  };
+}
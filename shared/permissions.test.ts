@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ADMIN_ROLES, ROLE_PERMISSIONS, hasPermission, isAdminRole, type Permission } from "./permissions";
+
+const ALL_PERMISSIONS = Array.from(new Set(Object.values(ROLE_PERMISSIONS).flat())) as Permission[];
+
+test("superadmin holds every permission", () => {
+  for (const permission of ALL_PERMISSIONS) {
+    assert.equal(hasPermission("superadmin", permission), true, permission);
+  }
+});
+
+test("each operator role holds exactly its own permissions", () => {
+  const expected: Record<string, Permission[]> = {
+    election_creator: ["elections:create"],
+    election_reviewer: ["elections:approve"],
+    registration_officer: ["registration:lock", "voters:read", "voters:update"],
+    auditor: ["voters:read", "audit:export"],
+  };
+
+  for (const [role, permissions] of Object.entries(expected)) {
+    assert.ok(isAdminRole(role));
+    assert.deepEqual(
+      ALL_PERMISSIONS.filter((permission) => hasPermission(role, permission)).sort(),
+      [...permissions].sort(),
+      role,
+    );
+  }
+});
+
+test("drafts are created and approved by different roles", () => {
+  const creators = ADMIN_ROLES.filter((role) => role !== "superadmin" && hasPermission(role, "elections:create"));
+  const approvers = ADMIN_ROLES.filter((role) => role !== "superadmin" && hasPermission(role, "elections:approve"));
+  assert.deepEqual(
+    creators.filter((role) => approvers.includes(role)),
+    [],
+  );
+});
+
+test("only superadmins manage roles", () => {
+  assert.deepEqual(
+    ADMIN_ROLES.filter((role) => hasPermission(role, "roles:manage")),
+    ["superadmin"],
+  );
+});
+
+test("no role means no permissions, and unknown roles aren't roles", () => {
+  assert.equal(hasPermission(null, "voters:read"), false);
+  assert.equal(hasPermission(undefined, "voters:read"), false);
+  assert.equal(isAdminRole("root"), false);
+  assert.equal(isAdminRole(undefined), false);
+});
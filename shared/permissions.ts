@@ -0,0 +1,57 @@
+// Admin roles and what each may do. Shared so server routes and the admin UI agree on
+// the same checks; the server is still the one that enforces them.
+
+export const ADMIN_ROLES = [
+  "superadmin",
+  "election_creator",
+  "election_reviewer",
+  "registration_officer",
+  "auditor",
+] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type Permission =
+  | "elections:create"
+  | "elections:approve"
+  | "registration:lock"
+  | "voters:read"
+  | "voters:update"
+  | "audit:export"
+  | "roles:manage";
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  superadmin: "Superadmin",
+  election_creator: "Election creator",
+  election_reviewer: "Election reviewer",
+  registration_officer: "Registration officer",
+  auditor: "Auditor",
+};
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  superadmin: [
+    "elections:create",
+    "elections:approve",
+    "registration:lock",
+    "voters:read",
+    "voters:update",
+    "audit:export",
+    "roles:manage",
+  ],
+  election_creator: ["elections:create"],
+  // Kept apart from election_creator so drafts are approved by someone who didn't prepare them
+  election_reviewer: ["elections:approve"],
+  registration_officer: ["registration:lock", "voters:read", "voters:update"],
+  auditor: ["voters:read", "audit:export"],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(
+  role: AdminRole | null | undefined,
+  permission: Permission,
+): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { candidateProfileSchema, hashCandidateProfile, isEmbeddedProfilePhoto, type CandidateProfile } from "./profiles";
+
+// A 1x1 transparent PNG
+const PNG = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const profile = (photo: string | null): CandidateProfile => ({
+  name: "Ada Obi",
+  party: "PDP",
+  photo,
+  bio: "",
+  manifesto: "",
+  links: [],
+  color: null,
+});
+
+test("photos are accepted only as embedded images", () => {
+  assert.equal(candidateProfileSchema.safeParse(profile(PNG)).success, true);
+  assert.equal(candidateProfileSchema.safeParse(profile(null)).success, true);
+
+  for (const photo of [
+    "https://example.com/ada.png",
+    "http://example.com/ada.png",
+    "data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=",
+    "data:image/png,not-base64",
+    `${PNG}"><script>`,
+  ]) {
+    assert.equal(candidateProfileSchema.safeParse(profile(photo)).success, false, photo);
+    assert.equal(isEmbeddedProfilePhoto(photo), false, photo);
+  }
+});
+
+test("a different photo gives a different profile hash", () => {
+  const other = PNG.replace("AAAAAYAAjCB0C8", "AAAAAYAAjCB0C9");
+  assert.notEqual(hashCandidateProfile(profile(PNG)), hashCandidateProfile(profile(other)));
+});
@@ -0,0 +1,83 @@
+import { sha256, toUtf8Bytes } from "ethers";
+import { z } from "zod";
+import { canonicalize } from "./canonical";
+
+// Candidate profiles live off-chain and are addressed by the SHA-256 of their canonical
+// JSON, so a profile can never change under its hash. A published election pins the hashes
+// of its profiles in its metadata, and the metadata itself is hashed the same way; clients
+// recompute both instead of trusting the server.
+
+export const MAX_PROFILE_PHOTO_LENGTH = 200_000;
+export const MAX_PROFILE_TEXT_LENGTH = 5000;
+export const MAX_PROFILE_LINKS = 10;
+
+export const contentHashSchema = z.string().regex(/^0x[0-9a-f]{64}$/, "Expected a content hash");
+
+// Photos are embedded in the profile, so its hash covers the image itself. A URL would let
+// whoever serves it swap the picture under an unchanged hash.
+const PROFILE_PHOTO_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export function isEmbeddedProfilePhoto(photo: string): boolean {
+  return PROFILE_PHOTO_PATTERN.test(photo);
+}
+
+export const candidateProfileSchema = z.object({
+  // Same as the on-chain candidate, so a profile can't be attached to someone else
+  name: z.string().min(1).max(200),
+  party: z.string().min(1).max(200),
+  // data: URL of an uploaded PNG, JPEG or WebP image
+  photo: z
+    .string()
+    .max(MAX_PROFILE_PHOTO_LENGTH)
+    .regex(PROFILE_PHOTO_PATTERN, "Photo must be an uploaded PNG, JPEG or WebP image")
+    .nullable(),
+  bio: z.string().max(MAX_PROFILE_TEXT_LENGTH),
+  manifesto: z.string().max(MAX_PROFILE_TEXT_LENGTH),
+  links: z
+    .array(z.object({ label: z.string().min(1).max(100), url: z.string().url().startsWith("https://") }))
+    .max(MAX_PROFILE_LINKS),
+  // Accent colour on the ballot, e.g. "#3b82f6"; the default palette is used without one
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .nullable(),
+});
+
+export type CandidateProfile = z.infer<typeof candidateProfileSchema>;
+
+export function hashContent(value: unknown): string {
+  return sha256(toUtf8Bytes(canonicalize(value)));
+}
+
+export function hashCandidateProfile(profile: CandidateProfile): string {
+  return hashContent(profile);
+}
+
+export interface ElectionMetadataCandidate {
+  index: number;
+  name: string;
+  party: string;
+  profileHash: string | null;
+}
+
+// Off-chain description of a published election, fixed when its draft is published
+export interface ElectionMetadata {
+  electionId: number;
+  name: string;
+  description: string;
+  // Unix seconds, as on-chain
+  startTime: number;
+  endTime: number;
+  candidates: ElectionMetadataCandidate[];
+}
+
+export interface PinnedElectionMetadata {
+  metadata: ElectionMetadata;
+  metadataHash: string;
+  transactionHash: string;
+  publishedAt: string;
+}
+
+export function hashElectionMetadata(metadata: ElectionMetadata): string {
+  return hashContent(metadata);
+}
@@ -1,6 +1,26 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  serial,
+  integer,
+  boolean,
+  timestamp,
+  jsonb,
+  index,
+  uniqueIndex,
+  primaryKey,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ADMIN_ROLES, type AdminRole } from "./permissions";
+import { ELECTION_DRAFT_STATUSES, type DraftCandidate, type ElectionDraftStatus } from "./drafts";
+import type { CandidateProfile, ElectionMetadata } from "./profiles";
+import {
+  TRACKED_TRANSACTION_PURPOSES,
+  TRACKED_TRANSACTION_STATUSES,
+  type TrackedTransactionPurpose,
+  type TrackedTransactionStatus,
+} from "./transactions";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,3 +35,299 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Contract event log, populated by the server-side indexer (server/indexer.ts)
+export const contractEvents = pgTable(
+  "contract_events",
+  {
+    id: serial("id").primaryKey(),
+    eventName: text("event_name").notNull(),
+    blockNumber: integer("block_number").notNull(),
+    blockHash: text("block_hash").notNull(),
+    transactionHash: text("transaction_hash").notNull(),
+    logIndex: integer("log_index").notNull(),
+    from: text("from_address").notNull(),
+    timestamp: timestamp("timestamp").notNull(),
+    electionId: integer("election_id"),
+    args: jsonb("args").$type<Record<string, string>>().notNull(),
+  },
+  (table) => [
+    uniqueIndex("contract_events_tx_log_idx").on(table.transactionHash, table.logIndex),
+    index("contract_events_block_idx").on(table.blockNumber),
+    index("contract_events_election_idx").on(table.electionId),
+  ],
+);
+
+export const indexerCheckpoints = pgTable("indexer_checkpoints", {
+  name: text("name").primaryKey(),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertContractEventSchema = createInsertSchema(contractEvents).omit({
+  id: true,
+});
+
+export type InsertContractEvent = z.infer<typeof insertContractEventSchema>;
+export type ContractEvent = typeof contractEvents.$inferSelect;
+export type IndexerCheckpoint = typeof indexerCheckpoints.$inferSelect;
+export type ContractEventName = "ElectionCreated" | "VoteCast" | "AdminChanged" | "Upgraded";
+
+// Whether new NIN registrations are accepted. A single row with id 1.
+export const registrationSettings = pgTable("registration_settings", {
+  id: integer("id").primaryKey(),
+  locked: boolean("locked").notNull().default(false),
+  // Admin wallet, or "system" for automatic locks
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type RegistrationSettings = typeof registrationSettings.$inferSelect;
+
+// Audit trail of the registration lock. The scheduler (server/scheduler.ts) writes one row
+// per election and transition, which the unique index keeps from firing twice; manual
+// changes by an admin have no election and are always recorded.
+export const REGISTRATION_TRANSITION_KINDS = [
+  "election_started",
+  "election_ended",
+  "grace_ended",
+  "manual",
+] as const;
+
+export type RegistrationTransitionKind = (typeof REGISTRATION_TRANSITION_KINDS)[number];
+
+export const registrationTransitions = pgTable(
+  "registration_transitions",
+  {
+    id: serial("id").primaryKey(),
+    electionId: integer("election_id"),
+    kind: text("kind").$type<RegistrationTransitionKind>().notNull(),
+    // Lock state after the transition
+    locked: boolean("locked").notNull(),
+    // Admin wallet, or "system" for the scheduler
+    actor: text("actor").notNull(),
+    // Election boundary the transition belongs to; when it was requested for manual changes
+    effectiveAt: timestamp("effective_at").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("registration_transitions_election_kind_idx").on(table.electionId, table.kind),
+  ],
+);
+
+export const insertRegistrationTransitionSchema = createInsertSchema(registrationTransitions, {
+  kind: z.enum(REGISTRATION_TRANSITION_KINDS),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertRegistrationTransition = z.infer<typeof insertRegistrationTransitionSchema>;
+export type RegistrationTransition = typeof registrationTransitions.$inferSelect;
+
+// Operators allowed into the admin panel besides the contract's admin(), which is always
+// treated as a superadmin. Roles and their permissions live in shared/permissions.ts.
+
+export const adminRoles = pgTable("admin_roles", {
+  // Lower-cased wallet address
+  walletAddress: text("wallet_address").primaryKey(),
+  role: text("role").$type<AdminRole>().notNull(),
+  grantedBy: text("granted_by").notNull(),
+  grantedAt: timestamp("granted_at").notNull().defaultNow(),
+});
+
+export const insertAdminRoleSchema = createInsertSchema(adminRoles, {
+  role: z.enum(ADMIN_ROLES),
+}).omit({
+  grantedAt: true,
+});
+
+export type InsertAdminRole = z.infer<typeof insertAdminRoleSchema>;
+export type AdminRoleGrant = typeof adminRoles.$inferSelect;
+
+// Registered voters. The NIN itself is never stored: only a keyed hash, the last digits
+// for display and, when a recovery key is configured, an encrypted copy (server/identity.ts).
+// Voting state is per election and lives in participations.
+export const voters = pgTable("voters", {
+  // Lower-cased wallet address
+  walletAddress: text("wallet_address").primaryKey(),
+  ninHash: text("nin_hash").notNull().unique(),
+  ninLastDigits: text("nin_last_digits").notNull(),
+  ninCiphertext: text("nin_ciphertext"),
+  // Set for voters loaded from a pre-registered roll (server/voter-import.ts)
+  constituency: text("constituency"),
+  // First successful NIN check by the voter; null until then
+  verifiedAt: timestamp("verified_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertVoterSchema = createInsertSchema(voters).omit({
+  verifiedAt: true,
+});
+
+export type InsertVoter = z.infer<typeof insertVoterSchema>;
+export type Voter = typeof voters.$inferSelect;
+
+// What the API returns for a voter: no hash, no ciphertext
+export interface PublicVoter {
+  walletAddress: string;
+  ninMasked: string;
+  constituency: string | null;
+  verifiedAt: string | null;
+  createdAt: string;
+}
+
+// A voter's standing in one election. Rows are written when something happens (a vote is
+// recorded, an admin changes eligibility); without a row a registered voter is eligible
+// and hasn't voted.
+export const participations = pgTable(
+  "participations",
+  {
+    // Lower-cased wallet address
+    walletAddress: text("wallet_address").notNull(),
+    electionId: integer("election_id").notNull(),
+    eligible: boolean("eligible").notNull().default(true),
+    votedAt: timestamp("voted_at"),
+    // castVote transaction the vote was recorded from
+    transactionHash: text("transaction_hash"),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.walletAddress, table.electionId] }),
+    index("participations_election_idx").on(table.electionId),
+  ],
+);
+
+export type Participation = typeof participations.$inferSelect;
+
+// What the API returns for a participation, dates as ISO strings
+export interface PublicParticipation {
+  walletAddress: string;
+  electionId: number;
+  registered: boolean;
+  eligible: boolean;
+  votedAt: string | null;
+  transactionHash: string | null;
+}
+
+// Elections prepared before the createElection transaction (workflow in shared/drafts.ts).
+// Publishing records the on-chain election the draft became.
+export const electionDrafts = pgTable("election_drafts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  startTime: timestamp("start_time"),
+  endTime: timestamp("end_time"),
+  candidates: jsonb("candidates").$type<DraftCandidate[]>().notNull(),
+  status: text("status").$type<ElectionDraftStatus>().notNull().default("draft"),
+  // Admin wallets
+  createdBy: text("created_by").notNull(),
+  updatedBy: text("updated_by").notNull(),
+  submittedBy: text("submitted_by"),
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  // Left by the reviewer, e.g. what to change before resubmitting
+  reviewNote: text("review_note"),
+  electionId: integer("election_id").unique(),
+  transactionHash: text("transaction_hash"),
+  publishedBy: text("published_by"),
+  publishedAt: timestamp("published_at"),
+  // Pinned when published; see shared/profiles.ts
+  metadata: jsonb("metadata").$type<ElectionMetadata>(),
+  metadataHash: text("metadata_hash"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertElectionDraftSchema = createInsertSchema(electionDrafts, {
+  candidates: z.array(z.object({ name: z.string(), party: z.string(), profileHash: z.string().nullish() })),
+  status: z.enum(ELECTION_DRAFT_STATUSES),
+  metadata: z.custom<ElectionMetadata>().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertElectionDraft = z.infer<typeof insertElectionDraftSchema>;
+export type ElectionDraft = typeof electionDrafts.$inferSelect;
+
+// Candidate profiles, addressed by the hash of their content and never updated
+export const candidateProfiles = pgTable("candidate_profiles", {
+  hash: text("hash").primaryKey(),
+  profile: jsonb("profile").$type<CandidateProfile>().notNull(),
+  // Admin wallet that first stored it
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CandidateProfileRecord = typeof candidateProfiles.$inferSelect;
+
+// Transactions followed until they are mined, replaced or dropped (shared/transactions.ts).
+// Side effects such as recording a vote are committed once the transaction is confirmed.
+export const trackedTransactions = pgTable("tracked_transactions", {
+  hash: text("hash").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  // Lower-cased sender
+  from: text("from_address").notNull(),
+  nonce: integer("nonce").notNull(),
+  to: text("to_address").notNull(),
+  data: text("data").notNull(),
+  value: text("value").notNull(),
+  startBlock: integer("start_block").notNull(),
+  purpose: text("purpose").$type<TrackedTransactionPurpose>().notNull(),
+  electionId: integer("election_id"),
+  // createElection: the draft being published
+  draftId: integer("draft_id"),
+  // Admin who reported it, or the voter a relayed ballot was cast for: side effects act on
+  // their behalf
+  submittedBy: text("submitted_by"),
+  status: text("status").$type<TrackedTransactionStatus>().notNull().default("pending"),
+  minedHash: text("mined_hash"),
+  blockNumber: integer("block_number"),
+  // Side effect done, or why it couldn't be
+  committedAt: timestamp("committed_at"),
+  commitError: text("commit_error"),
+  submittedAt: timestamp("submitted_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertTrackedTransactionSchema = createInsertSchema(trackedTransactions, {
+  purpose: z.enum(TRACKED_TRANSACTION_PURPOSES),
+  status: z.enum(TRACKED_TRANSACTION_STATUSES),
+}).omit({
+  minedHash: true,
+  blockNumber: true,
+  committedAt: true,
+  commitError: true,
+  updatedAt: true,
+});
+
+export type InsertTrackedTransaction = z.infer<typeof insertTrackedTransactionSchema>;
+export type TrackedTransaction = typeof trackedTransactions.$inferSelect;
+
+// Ballots the server relayed for voters without gas (server/relayer.ts), for the per-voter
+// quota and the relayer's daily budget
+export const relayedBallots = pgTable(
+  "relayed_ballots",
+  {
+    id: serial("id").primaryKey(),
+    // Lower-cased wallet that signed the ballot
+    voterAddress: text("voter_address").notNull(),
+    electionId: integer("election_id").notNull(),
+    transactionHash: text("transaction_hash").notNull().unique(),
+    // The most the transaction can cost the relayer (gas limit × max fee), in wei as a decimal string
+    maxCost: text("max_cost").notNull(),
+    relayedAt: timestamp("relayed_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("relayed_ballots_voter_idx").on(table.voterAddress, table.electionId),
+    index("relayed_ballots_relayed_at_idx").on(table.relayedAt),
+  ],
+);
+
+export const insertRelayedBallotSchema = createInsertSchema(relayedBallots).omit({ id: true });
+
+export type InsertRelayedBallot = z.infer<typeof insertRelayedBallotSchema>;
+export type RelayedBallot = typeof relayedBallots.$inferSelect;
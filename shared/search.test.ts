@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifySearchQuery, NAME_MATCH_THRESHOLD, nameMatchScore } from "./search";
+
+const HASH = `0x${"ab".repeat(32)}`;
+const ADDRESS = `0x${"cd".repeat(20)}`;
+
+test("32-byte hex is a hash and 20-byte hex an address, lower-cased", () => {
+  assert.deepEqual(classifySearchQuery(` ${HASH.toUpperCase().replace("0X", "0x")} `), { kind: "hash", value: HASH });
+  assert.deepEqual(classifySearchQuery(ADDRESS.toUpperCase().replace("0X", "0x")), { kind: "address", value: ADDRESS });
+
+  // Any other length, or no 0x prefix, is searched as text
+  for (const query of [HASH.slice(0, -2), `${ADDRESS}ab`, HASH.slice(2), ADDRESS.slice(2), `${HASH.slice(0, -1)}g`]) {
+    assert.equal(classifySearchQuery(query)?.kind, "text", query);
+  }
+});
+
+test("election ids are positive, with or without a #", () => {
+  assert.deepEqual(classifySearchQuery("#12"), { kind: "electionId", value: "12" });
+  assert.deepEqual(classifySearchQuery("12"), { kind: "electionId", value: "12" });
+  assert.deepEqual(classifySearchQuery("#007"), { kind: "electionId", value: "7" });
+
+  for (const query of ["0", "#0", "000", "#-1", "1234567890", "# 12", "12a"]) {
+    assert.equal(classifySearchQuery(query)?.kind, "text", query);
+  }
+  assert.equal(classifySearchQuery("   "), null);
+});
+
+test("exact names score 1, whatever their case, accents and punctuation", () => {
+  assert.equal(nameMatchScore("presidential election 2027", "Presidential Election 2027"), 1);
+  assert.equal(nameMatchScore("Election presidentielle", "Élection présidentielle!"), 1);
+  assert.equal(nameMatchScore("senate", "Senate Run-off"), 0.95);
+  assert.equal(nameMatchScore("", "Senate"), 0);
+  assert.equal(nameMatchScore("!!", "Senate"), 0);
+});
+
+test("prefixes, word order and typos still match", () => {
+  const name = "Presidential Election 2027";
+
+  assert.equal(nameMatchScore("pres elec", name), 0.81);
+  assert.equal(nameMatchScore("election presidential", name), 0.9);
+  assert.ok(nameMatchScore("presidental", name) > 0.8);
+  assert.ok(nameMatchScore("prisidant", "President") >= NAME_MATCH_THRESHOLD);
+  // A prefix scores above a typo of the same word
+  assert.ok(nameMatchScore("presid", name) > nameMatchScore("presidantial", name));
+});
+
+test("the threshold keeps two typos in a six-letter word and drops three", () => {
+  assert.ok(nameMatchScore("sanote", "Senate") >= NAME_MATCH_THRESHOLD);
+  assert.ok(nameMatchScore("sxnxtx", "Senate") < NAME_MATCH_THRESHOLD);
+  assert.ok(nameMatchScore("governorship", "Presidential Election") < NAME_MATCH_THRESHOLD);
+  // One unrelated word pulls a two-word query under it
+  assert.ok(nameMatchScore("senate governorship", "Senate Run-off") < NAME_MATCH_THRESHOLD);
+});
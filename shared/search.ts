@@ -0,0 +1,111 @@
+import type { ContractEvent } from "./schema";
+
+// Explorer search (GET /api/search). The query is classified by its shape and answered from
+// the indexed contract events, so it only finds what the indexer has caught up with.
+
+// A 32-byte hex value is either a transaction hash or a VoteCast voter hash; both are looked up
+export type SearchQueryKind = "hash" | "address" | "electionId" | "text";
+
+export interface ClassifiedQuery {
+  kind: SearchQueryKind;
+  // Normalised: hex lowercased, "#12" as "12", text trimmed
+  value: string;
+}
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Events returned per match; an address's total is reported separately
+export const SEARCH_EVENT_LIMIT = 50;
+
+export const MAX_ELECTION_MATCHES = 10;
+
+// Indexed event as the API returns it
+export type SearchEvent = Omit<ContractEvent, "id" | "timestamp"> & { timestamp: string };
+
+export interface ElectionMatch {
+  electionId: number;
+  name: string;
+  startTime: string;
+  endTime: string;
+  votes: number;
+  transactionHash: string;
+  // 1 for an exact name or id match, lower for fuzzy name matches
+  score: number;
+}
+
+export type SearchMatch =
+  | { type: "transaction"; hash: string; events: SearchEvent[] }
+  | { type: "vote"; voterHash: string; event: SearchEvent }
+  | { type: "address"; address: string; events: SearchEvent[]; total: number }
+  | { type: "election"; election: ElectionMatch };
+
+export interface SearchResults {
+  query: string;
+  kind: SearchQueryKind;
+  matches: SearchMatch[];
+}
+
+export function classifySearchQuery(query: string): ClassifiedQuery | null {
+  const value = query.trim();
+  if (!value) return null;
+  if (/^0x[0-9a-fA-F]{64}$/.test(value)) return { kind: "hash", value: value.toLowerCase() };
+  if (/^0x[0-9a-fA-F]{40}$/.test(value)) return { kind: "address", value: value.toLowerCase() };
+
+  const id = /^#?(\d{1,9})$/.exec(value);
+  if (id && Number(id[1]) > 0) return { kind: "electionId", value: String(Number(id[1])) };
+
+  return { kind: "text", value };
+}
+
+// Case, accents and punctuation don't count
+function normalize(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function wordSimilarity(queryWord: string, nameWord: string): number {
+  if (nameWord.startsWith(queryWord)) return queryWord.length === nameWord.length ? 1 : 0.9;
+  return 1 - editDistance(queryWord, nameWord) / Math.max(queryWord.length, nameWord.length);
+}
+
+// How well `query` matches an election name, from 0 to 1. Every query word is compared with
+// its closest word in the name, so word order, prefixes ("pres" for "presidential") and a
+// typo or two still match.
+export function nameMatchScore(query: string, name: string): number {
+  const q = normalize(query);
+  const n = normalize(name);
+  if (!q || !n) return 0;
+  if (q === n) return 1;
+  if (n.includes(q)) return 0.95;
+
+  const nameWords = n.split(" ");
+  const queryWords = q.split(" ");
+  const total = queryWords.reduce(
+    (sum, word) => sum + Math.max(...nameWords.map((nameWord) => wordSimilarity(word, nameWord))),
+    0,
+  );
+  return (total / queryWords.length) * 0.9;
+}
+
+// Below this a name isn't reported as a match
+export const NAME_MATCH_THRESHOLD = 0.6;
@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { reconcileTally, type ReplayedVote, type TallyInputs } from "./tally";
+
+const tx = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+const voterHash = (n: number) => `0x${(0xabc000 + n).toString(16).padStart(64, "0")}`;
+
+function vote(n: number, candidateIndex: number, overrides: Partial<ReplayedVote> = {}): ReplayedVote {
+  return { transactionHash: tx(n), blockNumber: 100 + n, logIndex: 0, candidateIndex, voterHash: voterHash(n), ...overrides };
+}
+
+// Three votes, two for candidate 0 and one for candidate 1, each reported back to the server
+function cleanInputs(): TallyInputs {
+  const votes = [vote(1, 0), vote(2, 1), vote(3, 0)];
+  return {
+    electionId: 4,
+    candidates: [
+      { index: 0, name: "Ada", party: "A", votes: 2 },
+      { index: 1, name: "Bayo", party: "B", votes: 1 },
+    ],
+    totalVotes: 3,
+    votes,
+    recordedVotes: votes.map((entry, i) => ({ walletAddress: `0xwallet${i}`, transactionHash: entry.transactionHash })),
+  };
+}
+
+const kinds = (inputs: TallyInputs) => reconcileTally(inputs).discrepancies.map((discrepancy) => discrepancy.kind);
+
+test("a tally whose counters, logs and participations agree is verified", () => {
+  const result = reconcileTally(cleanInputs());
+
+  assert.equal(result.verified, true);
+  assert.deepEqual(result.discrepancies, []);
+  assert.deepEqual(result.totals, {
+    onChain: 3,
+    candidateSum: 3,
+    replayed: 3,
+    uniqueVoterHashes: 3,
+    recordedParticipations: 3,
+  });
+  assert.deepEqual(
+    result.candidates.map((line) => [line.index, line.onChainVotes, line.replayedVotes]),
+    [
+      [0, 2, 2],
+      [1, 1, 1],
+    ],
+  );
+});
+
+test("a voter hash that voted twice is an error, whatever its case", () => {
+  const inputs = cleanInputs();
+  const repeat = vote(4, 1, { voterHash: voterHash(2).toUpperCase().replace("0X", "0x") });
+  inputs.votes.push(repeat);
+  inputs.recordedVotes.push({ walletAddress: "0xwallet3", transactionHash: repeat.transactionHash });
+  inputs.candidates[1].votes = 2;
+  inputs.totalVotes = 4;
+
+  const result = reconcileTally(inputs);
+  assert.equal(result.verified, false);
+  assert.equal(result.totals.uniqueVoterHashes, 3);
+  assert.deepEqual(result.discrepancies, [
+    {
+      kind: "duplicate_voter_hash",
+      severity: "error",
+      message: `Voter hash ${voterHash(2)} voted 2 times`,
+      voterHash: voterHash(2),
+      transactionHashes: [tx(2), tx(4)],
+    },
+  ]);
+});
+
+test("a candidate counter that differs from its VoteCast logs is an error", () => {
+  const inputs = cleanInputs();
+  inputs.candidates[0].votes = 3;
+  inputs.candidates[1].votes = 0;
+
+  const [discrepancy, ...rest] = reconcileTally(inputs).discrepancies;
+  assert.deepEqual(rest.map((entry) => entry.kind), ["candidate_count"]);
+  assert.equal(discrepancy.kind, "candidate_count");
+  assert.equal(discrepancy.candidateIndex, 0);
+  assert.equal(discrepancy.expected, 2);
+  assert.equal(discrepancy.actual, 3);
+});
+
+test("getTotalVotes is checked against the candidate counters and the logs", () => {
+  const inputs = cleanInputs();
+  inputs.totalVotes = 5;
+
+  const result = reconcileTally(inputs);
+  assert.equal(result.verified, false);
+  const byKind = new Map(result.discrepancies.map((discrepancy) => [discrepancy.kind, discrepancy]));
+  assert.deepEqual([byKind.get("candidate_sum")?.expected, byKind.get("candidate_sum")?.actual], [3, 5]);
+  assert.deepEqual([byKind.get("total_votes")?.expected, byKind.get("total_votes")?.actual], [3, 5]);
+});
+
+test("logs for a candidate index the election doesn't have are an error", () => {
+  const inputs = cleanInputs();
+  inputs.votes[1] = vote(2, 7);
+
+  const result = reconcileTally(inputs);
+  const unknown = result.discrepancies.find((discrepancy) => discrepancy.kind === "unknown_candidate");
+  assert.equal(unknown?.candidateIndex, 7);
+  assert.deepEqual(unknown?.transactionHashes, [tx(2)]);
+  // Candidate 1 lost its only log to the unknown index
+  assert.deepEqual(kinds(inputs), ["candidate_count", "unknown_candidate"]);
+});
+
+test("a participation without a vote is an error, a vote without one only a warning", () => {
+  const missing = cleanInputs();
+  missing.recordedVotes.push({ walletAddress: "0xghost", transactionHash: tx(99) });
+  const ghost = reconcileTally(missing);
+  assert.equal(ghost.verified, false);
+  assert.deepEqual(ghost.discrepancies.map((discrepancy) => [discrepancy.kind, discrepancy.walletAddress]), [
+    ["participation_without_vote", "0xghost"],
+  ]);
+
+  const unreported = cleanInputs();
+  unreported.recordedVotes = unreported.recordedVotes.slice(1).map((recorded) => ({
+    ...recorded,
+    transactionHash: recorded.transactionHash.toUpperCase().replace("0X", "0x"),
+  }));
+  const gap = reconcileTally(unreported);
+  assert.equal(gap.verified, true);
+  assert.deepEqual(gap.discrepancies, [
+    {
+      kind: "vote_without_participation",
+      severity: "warning",
+      message: "1 on-chain votes have no participation record",
+      transactionHashes: [tx(1)],
+    },
+  ]);
+});
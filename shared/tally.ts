@@ -0,0 +1,212 @@
+// Independent recount of an election. The contract's vote counters are compared with a
+// replay of its VoteCast logs and with the votes the server recorded as participations.
+// Everything below works on plain inputs, so the same check runs on the server, in the
+// reconciliation CLI and against saved logs.
+
+export interface ReplayedVote {
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+  candidateIndex: number;
+  voterHash: string;
+}
+
+export interface OnChainCandidateCount {
+  index: number;
+  name: string;
+  party: string;
+  votes: number;
+}
+
+// A vote the server recorded from a mined castVote transaction
+export interface RecordedVote {
+  walletAddress: string;
+  transactionHash: string;
+}
+
+export interface TallyInputs {
+  electionId: number;
+  // getAllCandidates and getTotalVotes, read at the last replayed block
+  candidates: OnChainCandidateCount[];
+  totalVotes: number;
+  votes: ReplayedVote[];
+  recordedVotes: RecordedVote[];
+}
+
+export type TallyDiscrepancyKind =
+  | "candidate_count"
+  | "total_votes"
+  | "candidate_sum"
+  | "unknown_candidate"
+  | "duplicate_voter_hash"
+  | "participation_without_vote"
+  | "vote_without_participation";
+
+export interface TallyDiscrepancy {
+  kind: TallyDiscrepancyKind;
+  // Errors mean the tally itself can't be trusted; warnings are gaps in off-chain records
+  severity: "error" | "warning";
+  message: string;
+  candidateIndex?: number;
+  voterHash?: string;
+  walletAddress?: string;
+  expected?: number;
+  actual?: number;
+  transactionHashes?: string[];
+}
+
+export interface TallyCandidateLine {
+  index: number;
+  name: string;
+  party: string;
+  onChainVotes: number;
+  replayedVotes: number;
+}
+
+export interface TallyReconciliation {
+  electionId: number;
+  candidates: TallyCandidateLine[];
+  totals: {
+    onChain: number;
+    candidateSum: number;
+    replayed: number;
+    uniqueVoterHashes: number;
+    recordedParticipations: number;
+  };
+  discrepancies: TallyDiscrepancy[];
+  // No error-level discrepancies
+  verified: boolean;
+}
+
+export interface TallyReport extends TallyReconciliation {
+  generatedAt: string;
+  chainId: number;
+  contractAddress: string;
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface SignedTallyReport {
+  report: TallyReport;
+  signature: string;
+}
+
+export function reconcileTally(inputs: TallyInputs): TallyReconciliation {
+  const discrepancies: TallyDiscrepancy[] = [];
+
+  const replayedByCandidate = new Map<number, number>();
+  const votesByHash = new Map<string, ReplayedVote[]>();
+  for (const vote of inputs.votes) {
+    replayedByCandidate.set(vote.candidateIndex, (replayedByCandidate.get(vote.candidateIndex) ?? 0) + 1);
+    const hash = vote.voterHash.toLowerCase();
+    votesByHash.set(hash, [...(votesByHash.get(hash) ?? []), vote]);
+  }
+
+  const candidates = inputs.candidates.map((candidate) => ({
+    index: candidate.index,
+    name: candidate.name,
+    party: candidate.party,
+    onChainVotes: candidate.votes,
+    replayedVotes: replayedByCandidate.get(candidate.index) ?? 0,
+  }));
+
+  for (const line of candidates) {
+    if (line.onChainVotes !== line.replayedVotes) {
+      discrepancies.push({
+        kind: "candidate_count",
+        severity: "error",
+        message: `${line.name} has ${line.onChainVotes} votes on-chain but ${line.replayedVotes} VoteCast logs`,
+        candidateIndex: line.index,
+        expected: line.replayedVotes,
+        actual: line.onChainVotes,
+      });
+    }
+  }
+
+  replayedByCandidate.forEach((count, candidateIndex) => {
+    if (candidateIndex >= 0 && candidateIndex < inputs.candidates.length) return;
+    discrepancies.push({
+      kind: "unknown_candidate",
+      severity: "error",
+      message: `${count} VoteCast logs name candidate #${candidateIndex}, which does not exist`,
+      candidateIndex,
+      transactionHashes: inputs.votes
+        .filter((vote) => vote.candidateIndex === candidateIndex)
+        .map((vote) => vote.transactionHash),
+    });
+  });
+
+  const candidateSum = inputs.candidates.reduce((sum, candidate) => sum + candidate.votes, 0);
+  if (candidateSum !== inputs.totalVotes) {
+    discrepancies.push({
+      kind: "candidate_sum",
+      severity: "error",
+      message: `Candidate counters add up to ${candidateSum} but getTotalVotes reports ${inputs.totalVotes}`,
+      expected: candidateSum,
+      actual: inputs.totalVotes,
+    });
+  }
+  if (inputs.votes.length !== inputs.totalVotes) {
+    discrepancies.push({
+      kind: "total_votes",
+      severity: "error",
+      message: `getTotalVotes reports ${inputs.totalVotes} but ${inputs.votes.length} VoteCast logs were replayed`,
+      expected: inputs.votes.length,
+      actual: inputs.totalVotes,
+    });
+  }
+
+  votesByHash.forEach((votes, voterHash) => {
+    if (votes.length < 2) return;
+    discrepancies.push({
+      kind: "duplicate_voter_hash",
+      severity: "error",
+      message: `Voter hash ${voterHash} voted ${votes.length} times`,
+      voterHash,
+      transactionHashes: votes.map((vote) => vote.transactionHash),
+    });
+  });
+
+  const voteTransactions = new Set(inputs.votes.map((vote) => vote.transactionHash.toLowerCase()));
+  const recordedTransactions = new Set<string>();
+  for (const recorded of inputs.recordedVotes) {
+    const hash = recorded.transactionHash.toLowerCase();
+    recordedTransactions.add(hash);
+    if (!voteTransactions.has(hash)) {
+      discrepancies.push({
+        kind: "participation_without_vote",
+        severity: "error",
+        message: `${recorded.walletAddress} is recorded as voting in ${recorded.transactionHash}, which has no VoteCast for this election`,
+        walletAddress: recorded.walletAddress,
+        transactionHashes: [recorded.transactionHash],
+      });
+    }
+  }
+
+  // Votes nobody reported back to the server (e.g. the tab closed after mining)
+  const unrecorded = inputs.votes
+    .filter((vote) => !recordedTransactions.has(vote.transactionHash.toLowerCase()))
+    .map((vote) => vote.transactionHash);
+  if (unrecorded.length > 0) {
+    discrepancies.push({
+      kind: "vote_without_participation",
+      severity: "warning",
+      message: `${unrecorded.length} on-chain votes have no participation record`,
+      transactionHashes: unrecorded,
+    });
+  }
+
+  return {
+    electionId: inputs.electionId,
+    candidates,
+    totals: {
+      onChain: inputs.totalVotes,
+      candidateSum,
+      replayed: inputs.votes.length,
+      uniqueVoterHashes: votesByHash.size,
+      recordedParticipations: inputs.recordedVotes.length,
+    },
+    discrepancies,
+    verified: !discrepancies.some((discrepancy) => discrepancy.severity === "error"),
+  };
+}
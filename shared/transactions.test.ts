@@ -0,0 +1,164 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ethers } from "ethers";
+import { checkTransaction, type SentTransaction } from "./transactions";
+
+const CONTRACT = "0x00000000000000000000000000000000000000c0";
+const SENDER = "0x00000000000000000000000000000000000000a1";
+const NOW = 1_767_225_600_000;
+
+interface FakeTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  value: bigint;
+  // Unset while it waits in the mempool
+  blockNumber?: number;
+  status?: number;
+}
+
+// Just the provider calls checkTransaction makes, over a list of transactions. Mined ones
+// have receipts and a contract log; the sender's nonce is the count of their mined ones.
+class FakeProvider {
+  head = 100;
+  transactions: FakeTransaction[] = [];
+  logQueries: Array<{ fromBlock: number; toBlock: number }> = [];
+  transactionLookups = 0;
+
+  add(transaction: FakeTransaction): this {
+    this.transactions.push(transaction);
+    return this;
+  }
+
+  private find(hash: string) {
+    return this.transactions.find((transaction) => transaction.hash === hash);
+  }
+
+  getBlockNumber = async () => this.head;
+
+  getTransactionReceipt = async (hash: string) => {
+    const transaction = this.find(hash);
+    if (transaction?.blockNumber === undefined) return null;
+    return { hash, blockNumber: transaction.blockNumber, status: transaction.status ?? 1 };
+  };
+
+  getTransaction = async (hash: string) => {
+    this.transactionLookups++;
+    const transaction = this.find(hash);
+    return transaction ? { ...transaction, blockNumber: transaction.blockNumber ?? null } : null;
+  };
+
+  getTransactionCount = async (address: string) =>
+    this.transactions.filter((transaction) => transaction.from === address && transaction.blockNumber !== undefined).length;
+
+  getLogs = async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+    this.logQueries.push({ fromBlock, toBlock });
+    return this.transactions
+      .filter(
+        (transaction) =>
+          transaction.to === CONTRACT &&
+          transaction.blockNumber !== undefined &&
+          transaction.blockNumber >= fromBlock &&
+          transaction.blockNumber <= toBlock,
+      )
+      .map((transaction) => ({ transactionHash: transaction.hash }));
+  };
+}
+
+const sent: SentTransaction = {
+  hash: "0xsent",
+  from: SENDER,
+  nonce: 0,
+  to: CONTRACT,
+  data: "0xc0ffee",
+  value: "0",
+  startBlock: 90,
+  submittedAt: new Date(NOW - 60_000),
+};
+
+const asSent = (overrides: Partial<FakeTransaction> = {}): FakeTransaction => ({
+  ...sent,
+  value: BigInt(sent.value),
+  ...overrides,
+});
+
+function check(provider: FakeProvider, overrides: { now?: number; confirmations?: number } = {}) {
+  return checkTransaction(provider as unknown as ethers.Provider, sent, {
+    contractAddress: CONTRACT,
+    confirmations: 2,
+    dropAfterMs: 10 * 60_000,
+    now: NOW,
+    ...overrides,
+  });
+}
+
+test("a mined transaction is pending until it has enough confirmations", async () => {
+  const provider = new FakeProvider().add(asSent({ blockNumber: 100 }));
+  assert.deepEqual(await check(provider), { status: "pending", minedHash: "0xsent", blockNumber: 100, confirmations: 1 });
+
+  provider.head = 101;
+  assert.deepEqual(await check(provider), { status: "confirmed", minedHash: "0xsent", blockNumber: 100, confirmations: 2 });
+});
+
+test("a reverted transaction fails", async () => {
+  const provider = new FakeProvider().add(asSent({ blockNumber: 95, status: 0 }));
+  assert.equal((await check(provider)).status, "failed");
+});
+
+test("a transaction in the mempool stays pending, however old", async () => {
+  const provider = new FakeProvider().add(asSent());
+  assert.deepEqual(await check(provider, { now: NOW + 24 * 60 * 60_000 }), {
+    status: "pending",
+    minedHash: null,
+    blockNumber: null,
+    confirmations: 0,
+  });
+});
+
+test("a sped-up copy is followed to its receipt", async () => {
+  const provider = new FakeProvider().add(asSent({ hash: "0xfaster", data: "0xC0FFEE", blockNumber: 99 }));
+  assert.deepEqual(await check(provider), { status: "confirmed", minedHash: "0xfaster", blockNumber: 99, confirmations: 2 });
+});
+
+test("another call under the same nonce replaces it", async () => {
+  const provider = new FakeProvider()
+    .add(asSent({ hash: "0xother-sender", from: "0x00000000000000000000000000000000000000b2", blockNumber: 92 }))
+    .add(asSent({ hash: "0xdifferent", data: "0xdeadbeef", blockNumber: 95 }));
+  assert.deepEqual(await check(provider), { status: "replaced", minedHash: "0xdifferent", blockNumber: 95, confirmations: 0 });
+});
+
+test("a cancellation, which never touches the contract, is a replacement with no known hash", async () => {
+  const provider = new FakeProvider().add(asSent({ hash: "0xcancel", to: SENDER, data: "0x", blockNumber: 95 }));
+  assert.deepEqual(await check(provider), { status: "replaced", minedHash: null, blockNumber: null, confirmations: 0 });
+});
+
+test("an unknown transaction with its nonce unused is dropped only after dropAfterMs", async () => {
+  const provider = new FakeProvider();
+  assert.equal((await check(provider)).status, "pending");
+  assert.equal((await check(provider, { now: NOW + 10 * 60_000 })).status, "dropped");
+});
+
+test("the replacement scan starts at startBlock and stops at its block limit", async () => {
+  const provider = new FakeProvider().add(asSent({ hash: "0xcancel", to: SENDER, data: "0x", blockNumber: 100 }));
+  provider.head = 1_000_000;
+
+  assert.equal((await check(provider)).status, "replaced");
+  assert.equal(provider.logQueries[0].fromBlock, 90);
+  assert.equal(provider.logQueries.at(-1)!.toBlock, 90 + 20000);
+  assert.ok(provider.logQueries.every(({ fromBlock, toBlock }) => toBlock - fromBlock < 2000));
+});
+
+test("the replacement scan stops after its transaction limit", async () => {
+  const provider = new FakeProvider();
+  for (let i = 0; i < 300; i++) {
+    provider.add(asSent({ hash: `0xvote${i}`, from: `0x${(0x1000 + i).toString(16).padStart(40, "0")}`, blockNumber: 91 }));
+  }
+  // The replacement comes after everyone else's votes
+  provider.add(asSent({ hash: "0xdifferent", data: "0xdeadbeef", blockNumber: 92 }));
+
+  assert.deepEqual(await check(provider), { status: "replaced", minedHash: null, blockNumber: null, confirmations: 0 });
+  // The original, then at most 200 candidates
+  assert.ok(provider.transactionLookups <= 201);
+});
@@ -0,0 +1,151 @@
+import type { ethers } from "ethers";
+
+// Transactions the app sends and has to see through to the end: the browser keeps them in
+// IndexedDB and the server in tracked_transactions, so closing the tab or speeding the
+// transaction up in the wallet doesn't lose it. Both sides decide a transaction's fate with
+// checkTransaction below; off-chain side effects wait for "confirmed".
+
+export const TRACKED_TRANSACTION_PURPOSES = ["castVote", "createElection"] as const;
+
+export type TrackedTransactionPurpose = (typeof TRACKED_TRANSACTION_PURPOSES)[number];
+
+export const TRACKED_TRANSACTION_STATUSES = ["pending", "confirmed", "failed", "replaced", "dropped"] as const;
+
+export type TrackedTransactionStatus = (typeof TRACKED_TRANSACTION_STATUSES)[number];
+
+export const TRACKED_TRANSACTION_PURPOSE_LABELS: Record<TrackedTransactionPurpose, string> = {
+  castVote: "Vote",
+  createElection: "Election creation",
+};
+
+// Blocks on top of the receipt's before a transaction counts as confirmed
+export const TRANSACTION_CONFIRMATIONS = 2;
+
+// A transaction no node knows about, whose nonce is still unused, is given up after this long
+export const TRANSACTION_DROP_AFTER_MS = 30 * 60 * 1000;
+
+// Replacements are looked for among the contract's transactions mined after the original
+// was sent: at most this many blocks, and at most this many transactions fetched
+const REPLACEMENT_SCAN_BLOCKS = 20000;
+const REPLACEMENT_SCAN_TRANSACTIONS = 200;
+const LOG_CHUNK_BLOCKS = 2000;
+
+// What was sent, as far as checking it needs
+export interface SentTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  // Wei, as a decimal string
+  value: string;
+  // Latest block when it was sent; a replacement can only be mined after it
+  startBlock: number;
+  submittedAt: Date | string;
+}
+
+export interface TransactionCheck {
+  status: TrackedTransactionStatus;
+  // The transaction that was mined in this one's place: itself, a sped-up copy, or (when
+  // replaced) whatever else used the nonce, if it could be found
+  minedHash: string | null;
+  blockNumber: number | null;
+  confirmations: number;
+}
+
+export interface CheckTransactionOptions {
+  contractAddress: string;
+  confirmations?: number;
+  dropAfterMs?: number;
+  now?: number;
+}
+
+export function isSettled(status: TrackedTransactionStatus): boolean {
+  return status !== "pending";
+}
+
+// Speed-ups re-send the same call with a higher fee; anything else under the nonce is a
+// cancellation or a different transaction
+function isSameCall(sent: SentTransaction, other: ethers.TransactionResponse): boolean {
+  return (
+    (other.to ?? "").toLowerCase() === sent.to.toLowerCase() &&
+    other.data.toLowerCase() === sent.data.toLowerCase() &&
+    other.value.toString() === sent.value
+  );
+}
+
+async function fromReceipt(
+  provider: ethers.Provider,
+  receipt: ethers.TransactionReceipt,
+  required: number,
+): Promise<TransactionCheck> {
+  const confirmations = (await provider.getBlockNumber()) - receipt.blockNumber + 1;
+  const mined = { minedHash: receipt.hash, blockNumber: receipt.blockNumber, confirmations };
+  if (receipt.status !== 1) return { status: "failed", ...mined };
+  return { status: confirmations >= required ? "confirmed" : "pending", ...mined };
+}
+
+// The contract transaction that used the sender's nonce after `sent` went out. The nonce is
+// most likely used soon after, so the scan walks forward from `startBlock` and gives up
+// (null, as for a cancellation) once either limit above is reached.
+async function findReplacement(
+  provider: ethers.Provider,
+  sent: SentTransaction,
+  contractAddress: string,
+): Promise<ethers.TransactionResponse | null> {
+  const latest = await provider.getBlockNumber();
+  const to = Math.min(latest, sent.startBlock + REPLACEMENT_SCAN_BLOCKS);
+  const seen = new Set<string>();
+
+  for (let start = sent.startBlock; start <= to; start += LOG_CHUNK_BLOCKS) {
+    const logs = await provider.getLogs({
+      address: contractAddress,
+      fromBlock: start,
+      toBlock: Math.min(start + LOG_CHUNK_BLOCKS - 1, to),
+    });
+    for (const entry of logs) {
+      if (seen.has(entry.transactionHash)) continue;
+      if (seen.size >= REPLACEMENT_SCAN_TRANSACTIONS) return null;
+      seen.add(entry.transactionHash);
+
+      const candidate = await provider.getTransaction(entry.transactionHash);
+      if (candidate && candidate.from.toLowerCase() === sent.from.toLowerCase() && candidate.nonce === sent.nonce) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+export async function checkTransaction(
+  provider: ethers.Provider,
+  sent: SentTransaction,
+  options: CheckTransactionOptions,
+): Promise<TransactionCheck> {
+  const required = options.confirmations ?? TRANSACTION_CONFIRMATIONS;
+  const unmined: TransactionCheck = { status: "pending", minedHash: null, blockNumber: null, confirmations: 0 };
+
+  const receipt = await provider.getTransactionReceipt(sent.hash);
+  if (receipt) return fromReceipt(provider, receipt, required);
+
+  // Still waiting in a mempool
+  if (await provider.getTransaction(sent.hash)) return unmined;
+
+  const nonce = await provider.getTransactionCount(sent.from, "latest");
+  if (nonce > sent.nonce) {
+    const replacement = await findReplacement(provider, sent, options.contractAddress);
+    if (replacement && isSameCall(sent, replacement)) {
+      const replacementReceipt = await provider.getTransactionReceipt(replacement.hash);
+      if (replacementReceipt) return fromReceipt(provider, replacementReceipt, required);
+    }
+    return {
+      status: "replaced",
+      minedHash: replacement?.hash ?? null,
+      blockNumber: replacement?.blockNumber ?? null,
+      confirmations: 0,
+    };
+  }
+
+  const age = (options.now ?? Date.now()) - new Date(sent.submittedAt).getTime();
+  return age > (options.dropAfterMs ?? TRANSACTION_DROP_AFTER_MS) ? { ...unmined, status: "dropped" } : unmined;
+}
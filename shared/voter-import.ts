@@ -0,0 +1,44 @@
+// Bulk import of pre-registered voter rolls. The server validates every row and answers
+// with one report entry per row, the same shape for a dry run and for the real import, so
+// the admin UI can preview a file, then import it and offer the problem rows for download.
+
+export const MAX_VOTER_IMPORT_ROWS = 20000;
+
+// Header spellings accepted for each column (compared case- and punctuation-insensitively)
+export const VOTER_ROLL_COLUMNS = {
+  nin: { names: ["nin", "national identification number"], required: true },
+  walletAddress: { names: ["wallet address", "wallet", "address"], required: true },
+  constituency: { names: ["constituency"], required: true },
+} as const;
+
+export type VoterImportRowStatus =
+  // Passes validation and isn't registered yet; imported on a real run
+  | "valid"
+  | "imported"
+  | "invalid"
+  // Wallet or NIN already registered, or already used earlier in the file
+  | "duplicate";
+
+export interface VoterImportRow {
+  // Line in the uploaded sheet, header included
+  line: number;
+  walletAddress: string;
+  // The NIN is never echoed back in full
+  ninMasked: string;
+  constituency: string;
+  status: VoterImportRowStatus;
+  errors: string[];
+}
+
+export interface VoterImportReport {
+  dryRun: boolean;
+  rows: VoterImportRow[];
+  counts: Record<VoterImportRowStatus, number>;
+}
+
+export const VOTER_IMPORT_STATUS_LABELS: Record<VoterImportRowStatus, string> = {
+  valid: "Ready to import",
+  imported: "Imported",
+  invalid: "Invalid",
+  duplicate: "Duplicate",
+};
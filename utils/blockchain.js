@@ -3,11 +3,17 @@
 import { ethers } from 'ethers';
 import VotingSystemABI from '../contracts/VotingSystem.json'; // This will be the ABI from the compiled contract
 
-// Contract address from deployment (update with your actual deployed proxy address)
-const CONTRACT_ADDRESS = '0xc0895D39fBBD1918067d5Fa41beDAF51d36665B5';
-
-// Alchemy provider URL - Replace with your Alchemy API key
-const ALCHEMY_URL = 'https://rpc-amoy.polygon.technology/';
+import { resolveNetwork } from '../shared/networks';
+
+// Contract address and RPC URL come from the network registry (NETWORK, RPC_URL and
+// CONTRACT_ADDRESS override the defaults when running under Node)
+const env = typeof process !== 'undefined' ? process.env : {};
+const network = resolveNetwork(env.NETWORK, {
+  rpcUrl: env.RPC_URL,
+  contractAddress: env.CONTRACT_ADDRESS,
+});
+const CONTRACT_ADDRESS = network.contractAddress;
+const ALCHEMY_URL = network.rpcUrls[0];
 
 // Initialize ethers provider
 const getProvider = () => {
@@ -18,10 +18,9 @@ export default {
   build: {
     env: {
       // Make environment variables accessible during build
-      VITE_SUPABASE_URL: process.env.VITE_SUPABASE_URL,
-      VITE_SUPABASE_ANON_KEY: process.env.VITE_SUPABASE_ANON_KEY,
       VITE_CONTRACT_ADDRESS: process.env.VITE_CONTRACT_ADDRESS,
       VITE_ALCHEMY_URL: process.env.VITE_ALCHEMY_URL,
+      VITE_NETWORK: process.env.VITE_NETWORK,
       DATABASE_URL: process.env.DATABASE_URL,
     },
   },
@@ -47,10 +46,13 @@ export async function setupEnv() {
     
     // Required environment variables for the application
     const requiredEnvVars = [
-      'VITE_SUPABASE_URL',
-      'VITE_SUPABASE_ANON_KEY',
       'VITE_CONTRACT_ADDRESS',
-      'VITE_ALCHEMY_URL'
+      'VITE_ALCHEMY_URL',
+      'DATABASE_URL',
+      'NIN_PEPPER',
+      'SESSION_SECRET',
+      // Authorizes the cron that runs the scheduler, indexer and transaction tracker
+      'CRON_SECRET'
     ];
     
     // Check if all required environment variables are set